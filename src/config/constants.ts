@@ -4,4 +4,82 @@
 
 export const BEARER_PREFIX_LENGTH = 7; // Length of "Bearer " prefix
 export const MAX_TRANSACTION_LIMIT = 100; // Maximum transactions to return
+export const MAX_ACTIVITY_LOG_LIMIT = 100; // Maximum audit events to return
 export const CUSTOM_NAME_REGEX = /^[a-z0-9-]+$/; // Regex for custom name validation
+
+// Scheduler
+export const SCHEDULER_ENABLED = process.env.SCHEDULER_ENABLED !== "false"; // Set to "false" to disable background jobs
+export const RECURRING_JOB_INTERVAL_MS = 300_000; // How often due recurring patterns are scanned (5 minutes)
+export const RECURRING_JOB_BATCH_SIZE = 100; // Maximum patterns processed per scan
+export const RECURRING_MAX_CATCH_UP = 366; // Maximum occurrences generated for one pattern per scan
+
+// Import
+export const IMPORT_MAX_ROWS = 5000; // Maximum statement rows per preview/commit
+export const IMPORT_MAX_BODY_BYTES = 10_485_760; // Upload limit for /api/import (10 MB)
+export const IMPORT_DUPLICATE_WINDOW_DAYS = 3; // Posting-date tolerance when matching duplicates
+
+// Export
+export const EXPORT_BATCH_SIZE = 1000; // Transactions fetched per query while streaming an export
+
+// Currency
+export const DEFAULT_BASE_CURRENCY = "INR"; // Base currency for users who have not chosen one
+export const CURRENCY_CODE_REGEX = /^[A-Z]{3}$/; // ISO 4217 currency code
+export const EXCHANGE_RATES_FILE = process.env.EXCHANGE_RATES_FILE; // Optional CSV of shared rates (date,base,quote,rate)
+export const EXCHANGE_RATES_JOB_INTERVAL_MS = 3_600_000; // How often the rates file is reloaded (1 hour)
+
+// Budgets
+export const BUDGET_ROLLOVER_MAX_PERIODS = 12; // How many earlier periods unused budget is carried over from
+
+// Market prices
+export const PRICE_SOURCE = process.env.PRICE_SOURCE ?? "file"; // Name of the registered price source to use
+export const ASSET_PRICES_FILE = process.env.ASSET_PRICES_FILE; // CSV of prices (date,symbol,price[,currency]) for the file source
+export const ASSET_PRICES_JOB_INTERVAL_MS = 900_000; // How often holding prices are refreshed (15 minutes)
+
+// Capital gains
+export const FINANCIAL_YEAR_START_MONTH = 3; // Month the financial year starts in (0-based, April)
+export const CAPITAL_GAINS_DEFAULT_LONG_TERM_DAYS = 365; // Holding period used when no capital gains rule matches
+
+// Dividends
+export const DIVIDEND_TRAILING_MONTHS = 12; // Window of dividends counted in the yield on cost
+
+// Fixed deposits
+export const DEPOSIT_MATURITY_JOB_INTERVAL_MS = 3_600_000; // How often matured deposits are scanned (1 hour)
+const DEFAULT_DEPOSIT_INTEREST_CATEGORY_NUMBER = 9001;
+const DEFAULT_DEPOSIT_TRANSFER_CATEGORY_NUMBER = 9002;
+export const DEPOSIT_INTEREST_CATEGORY_NUMBER =
+  Number(process.env.DEPOSIT_INTEREST_CATEGORY_NUMBER) ||
+  DEFAULT_DEPOSIT_INTEREST_CATEGORY_NUMBER; // System category of the interest credited at maturity (seeded at startup)
+export const DEPOSIT_TRANSFER_CATEGORY_NUMBER =
+  Number(process.env.DEPOSIT_TRANSFER_CATEGORY_NUMBER) ||
+  DEFAULT_DEPOSIT_TRANSFER_CATEGORY_NUMBER; // System category of the transfer to the linked account at maturity (seeded at startup)
+
+// Credit cards
+export const CREDIT_CARD_DEFAULT_GRACE_DAYS = 20; // Days from the statement date to the payment due date, unless set on the account
+export const CREDIT_CARD_MINIMUM_DUE_PERCENT = 5; // Share of the statement balance due as the minimum payment
+
+// Reconciliation
+const DEFAULT_RECONCILIATION_ADJUSTMENT_CATEGORY_NUMBER = 9003;
+export const RECONCILIATION_ADJUSTMENT_CATEGORY_NUMBER =
+  Number(process.env.RECONCILIATION_ADJUSTMENT_CATEGORY_NUMBER) ||
+  DEFAULT_RECONCILIATION_ADJUSTMENT_CATEGORY_NUMBER; // System category of the adjustment posted to match a statement balance (seeded at startup)
+
+// Balance consistency
+export const BALANCE_CHECK_JOB_INTERVAL_MS = 86_400_000; // How often every account balance is rebuilt from its ledger (1 day)
+export const BALANCE_CHECK_DRY_RUN =
+  process.env.BALANCE_CHECK_DRY_RUN !== "false"; // Only report drift; set to "false" to correct it
+
+// Portfolio performance
+export const ACCOUNT_VALUATIONS_JOB_INTERVAL_MS = 3_600_000; // How often today's investment account valuations are refreshed (1 hour)
+
+// Net worth
+export const BALANCE_SNAPSHOTS_JOB_INTERVAL_MS = 21_600_000; // How often daily balance snapshots are replayed from the transactions (6 hours)
+
+// Trash
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const TRASH_RETENTION_DAYS =
+  Number(process.env.TRASH_RETENTION_DAYS) || DEFAULT_TRASH_RETENTION_DAYS; // Days deleted accounts and transactions stay restorable
+export const TRASH_PURGE_JOB_INTERVAL_MS = 3_600_000; // How often expired trash is purged (1 hour)
+export const TRASH_PURGE_BATCH_SIZE = 100; // Maximum trashed transactions purged per run
+
+// Undo
+export const UNDO_HISTORY_SIZE = 20; // Latest mutations per user that can be undone
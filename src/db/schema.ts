@@ -8,9 +8,12 @@ import {
   json,
   pgEnum,
   pgPolicy,
+  pgSequence,
   pgTable,
+  primaryKey,
   text,
   timestamp,
+  unique,
   uniqueIndex,
   uuid,
   varchar,
@@ -67,6 +70,65 @@ export const recurringFrequencyEnum = pgEnum("recurring_frequency", [
   "CUSTOM",
 ]);
 
+export const budgetPeriodEnum = pgEnum("budget_period", ["MONTHLY", "YEARLY"]);
+
+export const exchangeRateSourceEnum = pgEnum("exchange_rate_source", [
+  "MANUAL",
+  "FILE",
+]);
+
+export const lotMatchMethodEnum = pgEnum("lot_match_method", [
+  "FIFO",
+  "SPECIFIC_LOT",
+]);
+
+export const loanPrepaymentModeEnum = pgEnum("loan_prepayment_mode", [
+  "REDUCE_TENURE",
+  "REDUCE_EMI",
+]);
+
+export const depositCompoundingEnum = pgEnum("deposit_compounding", [
+  "MONTHLY",
+  "QUARTERLY",
+  "HALF_YEARLY",
+  "YEARLY",
+  "SIMPLE",
+]);
+
+export const depositPayoutModeEnum = pgEnum("deposit_payout_mode", [
+  "RETAIN_IN_DEPOSIT",
+  "TRANSFER_TO_LINKED_ACCOUNT",
+]);
+
+export const clearingStatusEnum = pgEnum("clearing_status", [
+  "UNCLEARED",
+  "CLEARED",
+  "RECONCILED",
+]);
+
+export const reconciliationStatusEnum = pgEnum("reconciliation_status", [
+  "OPEN",
+  "COMPLETED",
+]);
+
+export const auditOperationEnum = pgEnum("audit_operation", [
+  "CREATE",
+  "UPDATE",
+  "DELETE",
+  "RESTORE",
+]);
+
+export const auditEntityTypeEnum = pgEnum("audit_entity_type", [
+  "ACCOUNT",
+  "TRANSACTION",
+  "RECURRING_PATTERN",
+]);
+
+export const operationStatusEnum = pgEnum("operation_status", [
+  "APPLIED",
+  "UNDONE",
+]);
+
 // ===========================
 // ACCOUNTS TABLE WITH RLS
 // ===========================
@@ -98,23 +160,40 @@ export const accounts = pgTable(
     })
       .defaultNow()
       .notNull(),
+    manualBalance: decimal("manual_balance", { precision: 15, scale: 2 }), // Balance set at manualBalanceUpdatedAt; the ledger is replayed from it
     currency: varchar("currency", { length: 3 }).default("INR"),
 
     // Credit Card Specific+
     creditLimit: decimal("credit_limit", { precision: 15, scale: 2 }),
     billingCycleDay: integer("billing_cycle_day"),
+    paymentGraceDays: integer("payment_grace_days"), // Days from the statement date to the due date
 
     // Loan Specific
     loanAmount: decimal("loan_amount", { precision: 15, scale: 2 }),
     interestRate: decimal("interest_rate", { precision: 5, scale: 2 }),
     loanStartDate: timestamp("loan_start_date", { withTimezone: true }),
     loanEndDate: timestamp("loan_end_date", { withTimezone: true }),
+    loanPrepaymentMode: loanPrepaymentModeEnum("loan_prepayment_mode")
+      .default("REDUCE_TENURE")
+      .notNull(), // How prepayments recompute the EMI schedule
+
+    // Fixed Deposit Specific (rate: interestRate)
+    depositPrincipal: decimal("deposit_principal", { precision: 15, scale: 2 }),
+    depositCompounding: depositCompoundingEnum("deposit_compounding"),
+    depositStartDate: timestamp("deposit_start_date", { withTimezone: true }),
+    depositMaturityDate: timestamp("deposit_maturity_date", {
+      withTimezone: true,
+    }),
+    depositPayoutMode: depositPayoutModeEnum("deposit_payout_mode"),
+    linkedAccountId: uuid("linked_account_id"), // Receives the maturity amount when it is transferred out
+    depositMaturedAt: timestamp("deposit_matured_at", { withTimezone: true }), // Set once the maturity event has run
 
     // Metadata
     logoUrl: varchar("logo_url", { length: 500 }),
     notes: text("notes"),
     isActive: boolean("is_active").default(true).notNull(),
     isDefault: boolean("is_default").default(false).notNull(),
+    deletedAt: timestamp("deleted_at", { withTimezone: true }), // In the trash since; purged after the retention period
 
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
@@ -129,6 +208,11 @@ export const accounts = pgTable(
     index("accounts_type_idx").on(table.accountType),
     index("accounts_group_idx").on(table.accountGroup),
     index("accounts_user_default_idx").on(table.userId, table.isDefault),
+    index("accounts_deposit_maturity_idx").on(
+      table.depositMaturityDate,
+      table.depositMaturedAt
+    ),
+    index("accounts_deleted_idx").on(table.deletedAt),
 
     // Foreign key to Supabase auth.users
     foreignKey({
@@ -137,6 +221,13 @@ export const accounts = pgTable(
       name: "accounts_user_id_fkey",
     }).onDelete("cascade"),
 
+    // Deposit payout account
+    foreignKey({
+      columns: [table.linkedAccountId],
+      foreignColumns: [table.accountId],
+      name: "accounts_linked_account_fkey",
+    }).onDelete("set null"),
+
     // RLS Policies
     pgPolicy("authenticated users can view own accounts", {
       for: "select",
@@ -169,38 +260,87 @@ export const accounts = pgTable(
 // CATEGORIES TABLE WITH RLS
 // ===========================
 
+// User-defined categories are numbered from 10000 so they never collide with
+// system category numbers
+export const userCategoryNumberSeq = pgSequence("user_category_number_seq", {
+  startWith: 10_000,
+});
+
 export const categories = pgTable(
   "categories",
   {
     categoryId: uuid("category_id").defaultRandom().primaryKey(),
+    userId: uuid("user_id"), // NULL for system categories
     categoryType: categoryTypeEnum("category_type").notNull(),
-    categoryName: varchar("category_name", { length: 100 }).notNull().unique(),
+    categoryName: varchar("category_name", { length: 100 }).notNull(),
     categoryNumber: integer("category_number").notNull().unique(),
+    parentCategoryId: uuid("parent_category_id"), // Subcategory parent link
     investmentSector: varchar("investment_sector", { length: 100 }),
     description: text("description"),
     defaultIconUrl: varchar("default_icon_url", { length: 500 }),
     // Todo: Remove this later
     displayOrder: integer("display_order"),
     isSystemCategory: boolean("is_system_category").default(true).notNull(),
+    isArchived: boolean("is_archived").default(false).notNull(), // Hidden from pickers, kept on existing transactions
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
       .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
   },
   (table) => [
     // Indexes
     index("categories_type_idx").on(table.categoryType),
-    uniqueIndex("categories_name_idx").on(table.categoryName),
+    index("categories_user_idx").on(table.userId),
+    index("categories_parent_idx").on(table.parentCategoryId),
+    // Names are unique among system categories and within each user's own
+    unique("categories_user_name_unique")
+      .on(table.userId, table.categoryName)
+      .nullsNotDistinct(),
     uniqueIndex("categories_number_idx").on(table.categoryNumber),
 
-    // RLS Policies - Categories are public (read-only for all authenticated users)
+    // Foreign key to Supabase auth.users
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [authUsers.id],
+      name: "categories_user_id_fkey",
+    }).onDelete("cascade"),
+
+    // Self-referencing foreign key for subcategories
+    foreignKey({
+      columns: [table.parentCategoryId],
+      foreignColumns: [table.categoryId],
+      name: "categories_parent_category_fkey",
+    }).onDelete("set null"),
+
+    // RLS Policies - System categories are public, user categories are private
     pgPolicy("authenticated users can view categories", {
       for: "select",
       to: authenticatedRole,
-      using: sql`true`,
+      using: sql`user_id IS NULL OR (select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can insert own categories", {
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`(select auth.uid()) = user_id`,
     }),
 
-    // Only allow service role to modify categories (system-level)
-    // You can remove these if you want users to create custom categories
+    pgPolicy("authenticated users can update own categories", {
+      for: "update",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can delete own categories", {
+      for: "delete",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+
+    // Only allow service role to modify system categories
     pgPolicy("service role can insert categories", {
       for: "insert",
       to: "service_role",
@@ -497,6 +637,148 @@ export const recurringPatterns = pgTable(
   ]
 );
 
+// ===========================
+// COUNTERPARTIES TABLE WITH RLS
+// ===========================
+
+export const counterparties = pgTable(
+  "counterparties",
+  {
+    counterpartyId: uuid("counterparty_id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+
+    name: varchar("name", { length: 100 }).notNull(),
+    phone: varchar("phone", { length: 20 }),
+    notes: text("notes"),
+    reminderDate: timestamp("reminder_date", { withTimezone: true }), // When to follow up on what is outstanding
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // Indexes
+    uniqueIndex("counterparties_user_name_idx").on(table.userId, table.name),
+
+    // Foreign key to Supabase auth.users
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [authUsers.id],
+      name: "counterparties_user_id_fkey",
+    }).onDelete("cascade"),
+
+    // RLS Policies
+    pgPolicy("authenticated users can view own counterparties", {
+      for: "select",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can insert own counterparties", {
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can update own counterparties", {
+      for: "update",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can delete own counterparties", {
+      for: "delete",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+  ]
+);
+
+// ===========================
+// RECONCILIATIONS TABLE WITH RLS
+// ===========================
+
+// A statement balance an account is checked against
+export const reconciliations = pgTable(
+  "reconciliations",
+  {
+    reconciliationId: uuid("reconciliation_id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    accountId: uuid("account_id")
+      .notNull()
+      .references(() => accounts.accountId, { onDelete: "cascade" }),
+
+    statementDate: timestamp("statement_date", {
+      withTimezone: true,
+    }).notNull(),
+    statementBalance: decimal("statement_balance", {
+      precision: 15,
+      scale: 2,
+    }).notNull(),
+    status: reconciliationStatusEnum("status").default("OPEN").notNull(),
+
+    // Recorded on completion
+    expectedBalance: decimal("expected_balance", { precision: 15, scale: 2 }), // Replayed from the transactions at the statement date
+    adjustmentAmount: decimal("adjustment_amount", { precision: 15, scale: 2 }), // Signed change posted to match the statement
+    adjustmentTransactionId: uuid("adjustment_transaction_id"),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+
+    notes: text("notes"),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // Indexes
+    index("reconciliations_account_date_idx").on(
+      table.accountId,
+      table.statementDate
+    ),
+    index("reconciliations_user_status_idx").on(table.userId, table.status),
+
+    // Foreign key to Supabase auth.users
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [authUsers.id],
+      name: "reconciliations_user_id_fkey",
+    }).onDelete("cascade"),
+
+    // RLS Policies
+    pgPolicy("authenticated users can view own reconciliations", {
+      for: "select",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can insert own reconciliations", {
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can update own reconciliations", {
+      for: "update",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can delete own reconciliations", {
+      for: "delete",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+  ]
+);
+
 // ===========================
 // TRANSACTIONS TABLE WITH RLS
 // ===========================
@@ -526,6 +808,11 @@ export const transactions = pgTable(
     quantity: decimal("quantity", { precision: 15, scale: 6 }),
     pricePerUnit: decimal("price_per_unit", { precision: 15, scale: 4 }),
     investmentAction: investmentActionEnum("investment_action"),
+    corporateActionRatio: varchar("corporate_action_ratio", { length: 20 }), // SPLIT "old:new", BONUS "bonus:held"
+    corporateActionUnits: decimal("corporate_action_units", {
+      precision: 15,
+      scale: 6,
+    }), // Units a SPLIT or BONUS added, derived by the lot rebuild
     feesCharges: decimal("fees_charges", { precision: 10, scale: 2 }),
     investmentHoldingId: uuid("investment_holding_id"), // Links to investment_holdings table
 
@@ -549,9 +836,20 @@ export const transactions = pgTable(
     // Transfer Related
     isTransfer: boolean("is_transfer").default(false).notNull(),
     linkedTransactionId: uuid("linked_transaction_id"),
+    exchangeRate: decimal("exchange_rate", { precision: 20, scale: 10 }), // Realized rate into the linked transaction's currency
+
+    // Person money was lent to or borrowed from (set on the main transaction only)
+    counterpartyId: uuid("counterparty_id"),
+
+    // Reconciliation against account statements
+    clearingStatus: clearingStatusEnum("clearing_status")
+      .default("UNCLEARED")
+      .notNull(),
+    reconciliationId: uuid("reconciliation_id"), // Reconciliation that locked the transaction in
 
     // Additional Fields
     attachments: json("attachments"),
+    deletedAt: timestamp("deleted_at", { withTimezone: true }), // In the trash since; purged after the retention period
 
     createdAt: timestamp("created_at", { withTimezone: true })
       .defaultNow()
@@ -587,9 +885,18 @@ export const transactions = pgTable(
       table.assetSymbol
     ),
     index("transactions_custom_name_idx").on(table.customNameId, table.userId),
+    index("transactions_counterparty_idx").on(
+      table.counterpartyId,
+      table.userId
+    ),
     index("transactions_type_idx").on(table.transactionType, table.userId),
+    index("transactions_clearing_idx").on(
+      table.accountId,
+      table.clearingStatus
+    ),
     // Index for linked transactions (optimizes transfer queries)
     index("transactions_linked_transaction_idx").on(table.linkedTransactionId),
+    index("transactions_deleted_idx").on(table.userId, table.deletedAt),
     // Composite index for transfer + account lookups
     index("transactions_transfer_account_idx").on(
       table.isTransfer,
@@ -610,6 +917,20 @@ export const transactions = pgTable(
       name: "transactions_linked_transaction_fkey",
     }).onDelete("set null"),
 
+    // Foreign key to counterparties
+    foreignKey({
+      columns: [table.counterpartyId],
+      foreignColumns: [counterparties.counterpartyId],
+      name: "transactions_counterparty_fkey",
+    }).onDelete("set null"),
+
+    // Foreign key to reconciliations
+    foreignKey({
+      columns: [table.reconciliationId],
+      foreignColumns: [reconciliations.reconciliationId],
+      name: "transactions_reconciliation_fkey",
+    }).onDelete("set null"),
+
     // Foreign key to recurring patterns
     foreignKey({
       columns: [table.recurringPatternId],
@@ -653,75 +974,1093 @@ export const transactions = pgTable(
 );
 
 // ===========================
-// RELATIONS
+// TRANSACTION SPLITS TABLE WITH RLS
 // ===========================
 
-export const accountsRelations = relations(accounts, ({ many }) => ({
-  transactions: many(transactions),
-  investmentHoldings: many(investmentHoldings),
-  recurringPatterns: many(recurringPatterns),
-}));
+export const transactionSplits = pgTable(
+  "transaction_splits",
+  {
+    splitId: uuid("split_id").defaultRandom().primaryKey(),
+    transactionId: uuid("transaction_id")
+      .notNull()
+      .references(() => transactions.transactionId, { onDelete: "cascade" }),
+    userId: uuid("user_id").notNull(),
+    categoryId: uuid("category_id")
+      .notNull()
+      .references(() => categories.categoryId),
+    customNameId: uuid("custom_name_id").references(
+      () => customTransactionNames.customNameId
+    ),
 
-export const categoriesRelations = relations(categories, ({ many }) => ({
-  transactions: many(transactions),
-  customNames: many(customTransactionNames),
-  recurringPatterns: many(recurringPatterns),
-}));
+    // Line item share of the parent amount (splits sum to the parent)
+    amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+    description: text("description"),
 
-export const customTransactionNamesRelations = relations(
-  customTransactionNames,
-  ({ one, many }) => ({
-    category: one(categories, {
-      fields: [customTransactionNames.categoryId],
-      references: [categories.categoryId],
-    }),
-    transactions: many(transactions),
-    recurringPatterns: many(recurringPatterns),
-  })
-);
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // Indexes
+    index("transaction_splits_transaction_idx").on(table.transactionId),
+    index("transaction_splits_user_category_idx").on(
+      table.userId,
+      table.categoryId
+    ),
+    index("transaction_splits_custom_name_idx").on(table.customNameId),
 
-export const recurringPatternsRelations = relations(
-  recurringPatterns,
-  ({ one, many }) => ({
-    account: one(accounts, {
-      fields: [recurringPatterns.accountId],
-      references: [accounts.accountId],
-    }),
-    category: one(categories, {
-      fields: [recurringPatterns.categoryId],
-      references: [categories.categoryId],
+    // Foreign key to Supabase auth.users
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [authUsers.id],
+      name: "transaction_splits_user_id_fkey",
+    }).onDelete("cascade"),
+
+    // RLS Policies
+    pgPolicy("authenticated users can view own transaction splits", {
+      for: "select",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
     }),
-    customName: one(customTransactionNames, {
-      fields: [recurringPatterns.customNameId],
-      references: [customTransactionNames.customNameId],
+
+    pgPolicy("authenticated users can insert own transaction splits", {
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`(select auth.uid()) = user_id`,
     }),
-    generatedTransactions: many(transactions),
-  })
-);
 
-export const transactionsRelations = relations(transactions, ({ one }) => ({
-  account: one(accounts, {
-    fields: [transactions.accountId],
-    references: [accounts.accountId],
-  }),
-  category: one(categories, {
-    fields: [transactions.categoryId],
+    pgPolicy("authenticated users can update own transaction splits", {
+      for: "update",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can delete own transaction splits", {
+      for: "delete",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+  ]
+);
+
+// ===========================
+// TAGS TABLE WITH RLS
+// ===========================
+
+export const tags = pgTable(
+  "tags",
+  {
+    tagId: uuid("tag_id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+
+    name: varchar("name", { length: 100 }).notNull(),
+    color: varchar("color", { length: 20 }), // Hex or named color for the UI
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // Indexes
+    uniqueIndex("tags_user_name_idx").on(table.userId, table.name),
+
+    // Foreign key to Supabase auth.users
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [authUsers.id],
+      name: "tags_user_id_fkey",
+    }).onDelete("cascade"),
+
+    // RLS Policies
+    pgPolicy("authenticated users can view own tags", {
+      for: "select",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can insert own tags", {
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can update own tags", {
+      for: "update",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can delete own tags", {
+      for: "delete",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+  ]
+);
+
+// ===========================
+// TRANSACTION TAGS TABLE WITH RLS
+// ===========================
+
+export const transactionTags = pgTable(
+  "transaction_tags",
+  {
+    transactionId: uuid("transaction_id")
+      .notNull()
+      .references(() => transactions.transactionId, { onDelete: "cascade" }),
+    tagId: uuid("tag_id")
+      .notNull()
+      .references(() => tags.tagId, { onDelete: "cascade" }),
+    userId: uuid("user_id").notNull(),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.transactionId, table.tagId] }),
+
+    // Indexes
+    index("transaction_tags_tag_idx").on(table.tagId),
+
+    // Foreign key to Supabase auth.users
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [authUsers.id],
+      name: "transaction_tags_user_id_fkey",
+    }).onDelete("cascade"),
+
+    // RLS Policies
+    pgPolicy("authenticated users can view own transaction tags", {
+      for: "select",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can insert own transaction tags", {
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can delete own transaction tags", {
+      for: "delete",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+  ]
+);
+
+// ===========================
+// BUDGETS TABLE WITH RLS
+// ===========================
+
+export const budgets = pgTable(
+  "budgets",
+  {
+    budgetId: uuid("budget_id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+
+    // Budget target (exactly one of category or custom name)
+    categoryId: uuid("category_id").references(() => categories.categoryId),
+    customNameId: uuid("custom_name_id").references(
+      () => customTransactionNames.customNameId,
+      { onDelete: "cascade" }
+    ),
+
+    // Limit per period, in the user's base currency
+    amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+    period: budgetPeriodEnum("period").notNull(),
+    startDate: timestamp("start_date", { withTimezone: true }).notNull(), // First period the budget applies to
+    rollover: boolean("rollover").default(false).notNull(), // Carry unused budget into the next period
+
+    // Metadata
+    isActive: boolean("is_active").default(true).notNull(),
+    notes: text("notes"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // Indexes
+    index("budgets_user_active_idx").on(table.userId, table.isActive),
+    index("budgets_category_idx").on(table.categoryId),
+    index("budgets_custom_name_idx").on(table.customNameId),
+
+    // Foreign key to Supabase auth.users
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [authUsers.id],
+      name: "budgets_user_id_fkey",
+    }).onDelete("cascade"),
+
+    // RLS Policies
+    pgPolicy("authenticated users can view own budgets", {
+      for: "select",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can insert own budgets", {
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can update own budgets", {
+      for: "update",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can delete own budgets", {
+      for: "delete",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+  ]
+);
+
+// ===========================
+// USER SETTINGS TABLE WITH RLS
+// ===========================
+
+export const userSettings = pgTable(
+  "user_settings",
+  {
+    userId: uuid("user_id").primaryKey(),
+    baseCurrency: varchar("base_currency", { length: 3 })
+      .default("INR")
+      .notNull(),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // Foreign key to Supabase auth.users
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [authUsers.id],
+      name: "user_settings_user_id_fkey",
+    }).onDelete("cascade"),
+
+    // RLS Policies
+    pgPolicy("authenticated users can view own settings", {
+      for: "select",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can insert own settings", {
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can update own settings", {
+      for: "update",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can delete own settings", {
+      for: "delete",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+  ]
+);
+
+// ===========================
+// EXCHANGE RATES TABLE WITH RLS
+// ===========================
+
+export const exchangeRates = pgTable(
+  "exchange_rates",
+  {
+    rateId: uuid("rate_id").defaultRandom().primaryKey(),
+    userId: uuid("user_id"), // NULL = shared rate loaded from the rates file
+
+    // 1 unit of baseCurrency = rate units of quoteCurrency
+    baseCurrency: varchar("base_currency", { length: 3 }).notNull(),
+    quoteCurrency: varchar("quote_currency", { length: 3 }).notNull(),
+    rate: decimal("rate", { precision: 20, scale: 10 }).notNull(),
+    rateDate: timestamp("rate_date", { withTimezone: true }).notNull(),
+    source: exchangeRateSourceEnum("source").default("MANUAL").notNull(),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // Indexes
+    unique("exchange_rates_user_pair_date_unique")
+      .on(table.userId, table.baseCurrency, table.quoteCurrency, table.rateDate)
+      .nullsNotDistinct(),
+    index("exchange_rates_pair_date_idx").on(
+      table.baseCurrency,
+      table.quoteCurrency,
+      table.rateDate.desc()
+    ),
+    index("exchange_rates_user_idx").on(table.userId),
+
+    // Foreign key to Supabase auth.users
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [authUsers.id],
+      name: "exchange_rates_user_id_fkey",
+    }).onDelete("cascade"),
+
+    // RLS Policies - Shared rates are readable by everyone, own rates are private
+    pgPolicy("authenticated users can view own and shared exchange rates", {
+      for: "select",
+      to: authenticatedRole,
+      using: sql`user_id IS NULL OR (select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can insert own exchange rates", {
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can update own exchange rates", {
+      for: "update",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can delete own exchange rates", {
+      for: "delete",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+  ]
+);
+
+// ===========================
+// ASSET PRICES TABLE WITH RLS
+// ===========================
+
+export const assetPrices = pgTable(
+  "asset_prices",
+  {
+    priceId: uuid("price_id").defaultRandom().primaryKey(),
+    assetSymbol: varchar("asset_symbol", { length: 50 }).notNull(),
+    priceDate: timestamp("price_date", { withTimezone: true }).notNull(), // Trading day (UTC midnight)
+    price: decimal("price", { precision: 15, scale: 4 }).notNull(), // Closing or latest price per unit
+    currency: varchar("currency", { length: 3 }),
+    source: varchar("source", { length: 50 }).notNull(), // Price source that supplied the quote
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // Indexes
+    uniqueIndex("asset_prices_symbol_date_idx").on(
+      table.assetSymbol,
+      table.priceDate
+    ),
+
+    // RLS Policies - Market prices are shared (read-only for all authenticated users)
+    pgPolicy("authenticated users can view asset prices", {
+      for: "select",
+      to: authenticatedRole,
+      using: sql`true`,
+    }),
+
+    // Only allow service role to modify prices (written by the price job)
+    pgPolicy("service role can insert asset prices", {
+      for: "insert",
+      to: "service_role",
+      withCheck: sql`true`,
+    }),
+
+    pgPolicy("service role can update asset prices", {
+      for: "update",
+      to: "service_role",
+      using: sql`true`,
+    }),
+
+    pgPolicy("service role can delete asset prices", {
+      for: "delete",
+      to: "service_role",
+      using: sql`true`,
+    }),
+  ]
+);
+
+// ===========================
+// TAX LOTS TABLES WITH RLS
+// ===========================
+
+// One lot per BUY transaction; rebuilt from the transaction history
+export const taxLots = pgTable(
+  "tax_lots",
+  {
+    lotId: uuid("lot_id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    accountId: uuid("account_id")
+      .notNull()
+      .references(() => accounts.accountId, { onDelete: "cascade" }),
+    buyTransactionId: uuid("buy_transaction_id")
+      .notNull()
+      .unique()
+      .references(() => transactions.transactionId, { onDelete: "cascade" }),
+    assetSymbol: varchar("asset_symbol", { length: 50 }).notNull(),
+
+    acquiredAt: timestamp("acquired_at", { withTimezone: true }).notNull(),
+    quantity: decimal("quantity", { precision: 15, scale: 6 }).notNull(), // Units bought
+    remainingQuantity: decimal("remaining_quantity", {
+      precision: 15,
+      scale: 6,
+    }).notNull(), // Units not yet matched to a sale
+    costPerUnit: decimal("cost_per_unit", {
+      precision: 15,
+      scale: 4,
+    }).notNull(),
+    costAmount: decimal("cost_amount", { precision: 15, scale: 2 }).notNull(), // Total cost of the lot
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // Indexes
+    index("tax_lots_user_symbol_idx").on(
+      table.userId,
+      table.assetSymbol,
+      table.acquiredAt
+    ),
+
+    // Foreign key to Supabase auth.users
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [authUsers.id],
+      name: "tax_lots_user_id_fkey",
+    }).onDelete("cascade"),
+
+    // RLS Policies
+    pgPolicy("authenticated users can view own tax lots", {
+      for: "select",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can insert own tax lots", {
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can update own tax lots", {
+      for: "update",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can delete own tax lots", {
+      for: "delete",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+  ]
+);
+
+// Part of a lot matched to a SELL transaction
+export const taxLotDisposals = pgTable(
+  "tax_lot_disposals",
+  {
+    disposalId: uuid("disposal_id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    lotId: uuid("lot_id")
+      .notNull()
+      .references(() => taxLots.lotId, { onDelete: "cascade" }),
+    sellTransactionId: uuid("sell_transaction_id")
+      .notNull()
+      .references(() => transactions.transactionId, { onDelete: "cascade" }),
+
+    soldAt: timestamp("sold_at", { withTimezone: true }).notNull(),
+    quantity: decimal("quantity", { precision: 15, scale: 6 }).notNull(),
+    costAmount: decimal("cost_amount", { precision: 15, scale: 2 }).notNull(), // Cost of the units sold
+    proceeds: decimal("proceeds", { precision: 15, scale: 2 }).notNull(), // Share of the sale amount
+    realizedGainLoss: decimal("realized_gain_loss", {
+      precision: 15,
+      scale: 2,
+    }).notNull(),
+    matchMethod: lotMatchMethodEnum("match_method").notNull(),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // Indexes
+    index("tax_lot_disposals_lot_idx").on(table.lotId),
+    index("tax_lot_disposals_sell_idx").on(table.sellTransactionId),
+
+    // Foreign key to Supabase auth.users
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [authUsers.id],
+      name: "tax_lot_disposals_user_id_fkey",
+    }).onDelete("cascade"),
+
+    // RLS Policies
+    pgPolicy("authenticated users can view own tax lot disposals", {
+      for: "select",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can insert own tax lot disposals", {
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can delete own tax lot disposals", {
+      for: "delete",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+  ]
+);
+
+// Lots the user picked for a SELL (specific-lot matching); the rest is FIFO
+export const taxLotSelections = pgTable(
+  "tax_lot_selections",
+  {
+    sellTransactionId: uuid("sell_transaction_id")
+      .notNull()
+      .references(() => transactions.transactionId, { onDelete: "cascade" }),
+    lotId: uuid("lot_id")
+      .notNull()
+      .references(() => taxLots.lotId, { onDelete: "cascade" }),
+    userId: uuid("user_id").notNull(),
+    quantity: decimal("quantity", { precision: 15, scale: 6 }).notNull(),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.sellTransactionId, table.lotId] }),
+
+    // Indexes
+    index("tax_lot_selections_lot_idx").on(table.lotId),
+
+    // Foreign key to Supabase auth.users
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [authUsers.id],
+      name: "tax_lot_selections_user_id_fkey",
+    }).onDelete("cascade"),
+
+    // RLS Policies
+    pgPolicy("authenticated users can view own tax lot selections", {
+      for: "select",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can insert own tax lot selections", {
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can delete own tax lot selections", {
+      for: "delete",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+  ]
+);
+
+// ===========================
+// CAPITAL GAINS RULES TABLE WITH RLS
+// ===========================
+
+// Tax rules for classifying realized gains; the most specific matching rule wins
+// (category, then investment sector, then a rule with neither)
+export const capitalGainsRules = pgTable(
+  "capital_gains_rules",
+  {
+    ruleId: uuid("rule_id").defaultRandom().primaryKey(),
+    name: varchar("name", { length: 255 }).notNull(),
+
+    // Scope (both null = default rule)
+    categoryId: uuid("category_id").references(() => categories.categoryId, {
+      onDelete: "cascade",
+    }),
+    investmentSector: varchar("investment_sector", { length: 100 }),
+
+    // Sales dated within this range use the rule
+    effectiveFrom: timestamp("effective_from", {
+      withTimezone: true,
+    }).notNull(),
+    effectiveTo: timestamp("effective_to", { withTimezone: true }),
+
+    longTermAfterDays: integer("long_term_after_days").notNull(), // Held longer than this = long-term
+    grandfatherDate: timestamp("grandfather_date", { withTimezone: true }), // Lots acquired on or before use the market price on this date as cost, if higher
+    longTermExemptionLimit: decimal("long_term_exemption_limit", {
+      precision: 15,
+      scale: 2,
+    })
+      .default("0")
+      .notNull(), // Long-term gains exempt per financial year
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // Indexes
+    index("capital_gains_rules_category_idx").on(table.categoryId),
+    index("capital_gains_rules_sector_idx").on(table.investmentSector),
+
+    // RLS Policies - Rules are shared (read-only for all authenticated users)
+    pgPolicy("authenticated users can view capital gains rules", {
+      for: "select",
+      to: authenticatedRole,
+      using: sql`true`,
+    }),
+
+    // Only allow service role to modify rules
+    pgPolicy("service role can insert capital gains rules", {
+      for: "insert",
+      to: "service_role",
+      withCheck: sql`true`,
+    }),
+
+    pgPolicy("service role can update capital gains rules", {
+      for: "update",
+      to: "service_role",
+      using: sql`true`,
+    }),
+
+    pgPolicy("service role can delete capital gains rules", {
+      for: "delete",
+      to: "service_role",
+      using: sql`true`,
+    }),
+  ]
+);
+
+// ===========================
+// ACCOUNT VALUATIONS TABLE WITH RLS
+// ===========================
+
+// Daily market value of investment accounts, used for time-weighted returns
+export const accountValuations = pgTable(
+  "account_valuations",
+  {
+    valuationId: uuid("valuation_id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    accountId: uuid("account_id")
+      .notNull()
+      .references(() => accounts.accountId, { onDelete: "cascade" }),
+
+    valuationDate: timestamp("valuation_date", {
+      withTimezone: true,
+    }).notNull(), // Calendar day (UTC midnight)
+    marketValue: decimal("market_value", { precision: 15, scale: 2 }).notNull(), // Holdings at market price, or the balance for deposits
+    currency: varchar("currency", { length: 3 }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // Indexes
+    uniqueIndex("account_valuations_account_date_idx").on(
+      table.accountId,
+      table.valuationDate
+    ),
+    index("account_valuations_user_date_idx").on(
+      table.userId,
+      table.valuationDate
+    ),
+
+    // Foreign key to Supabase auth.users
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [authUsers.id],
+      name: "account_valuations_user_id_fkey",
+    }).onDelete("cascade"),
+
+    // RLS Policies
+    pgPolicy("authenticated users can view own account valuations", {
+      for: "select",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can insert own account valuations", {
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can update own account valuations", {
+      for: "update",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can delete own account valuations", {
+      for: "delete",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+  ]
+);
+
+// ===========================
+// ACCOUNT BALANCE SNAPSHOTS TABLE WITH RLS
+// ===========================
+
+// End-of-day balance of every account, used for net worth over time
+export const accountBalanceSnapshots = pgTable(
+  "account_balance_snapshots",
+  {
+    snapshotId: uuid("snapshot_id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+    accountId: uuid("account_id")
+      .notNull()
+      .references(() => accounts.accountId, { onDelete: "cascade" }),
+
+    snapshotDate: timestamp("snapshot_date", {
+      withTimezone: true,
+    }).notNull(), // Calendar day (UTC midnight); the balance at the end of it
+    balance: decimal("balance", { precision: 15, scale: 2 }).notNull(),
+    currency: varchar("currency", { length: 3 }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // Indexes
+    uniqueIndex("account_balance_snapshots_account_date_idx").on(
+      table.accountId,
+      table.snapshotDate
+    ),
+    index("account_balance_snapshots_user_date_idx").on(
+      table.userId,
+      table.snapshotDate
+    ),
+
+    // Foreign key to Supabase auth.users
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [authUsers.id],
+      name: "account_balance_snapshots_user_id_fkey",
+    }).onDelete("cascade"),
+
+    // RLS Policies
+    pgPolicy("authenticated users can view own balance snapshots", {
+      for: "select",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can insert own balance snapshots", {
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can update own balance snapshots", {
+      for: "update",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can delete own balance snapshots", {
+      for: "delete",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+  ]
+);
+
+// ===========================
+// AUDIT EVENTS TABLE WITH RLS
+// ===========================
+
+// Append-only change history of financial records; rows are never updated or
+// deleted, and outlive the entities they describe
+export const auditEvents = pgTable(
+  "audit_events",
+  {
+    eventId: uuid("event_id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(), // Owner of the entity
+    actorId: uuid("actor_id"), // User who made the change; null for system jobs
+
+    operation: auditOperationEnum("operation").notNull(),
+    entityType: auditEntityTypeEnum("entity_type").notNull(),
+    entityId: uuid("entity_id").notNull(), // No foreign key: kept after deletes
+    before: json("before"), // Row before the change; null on CREATE
+    after: json("after"), // Row after the change; null on DELETE
+
+    // Request metadata
+    source: varchar("source", { length: 100 }), // Mutation or job name
+    requestId: varchar("request_id", { length: 100 }),
+    ipAddress: varchar("ip_address", { length: 45 }),
+    userAgent: text("user_agent"),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // Indexes
+    index("audit_events_user_created_idx").on(table.userId, table.createdAt),
+    index("audit_events_entity_idx").on(
+      table.entityType,
+      table.entityId,
+      table.createdAt
+    ),
+
+    // Foreign key to Supabase auth.users
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [authUsers.id],
+      name: "audit_events_user_id_fkey",
+    }).onDelete("cascade"),
+
+    // RLS Policies (append-only: no update or delete)
+    pgPolicy("authenticated users can view own audit events", {
+      for: "select",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can insert own audit events", {
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+  ]
+);
+
+// ===========================
+// OPERATION JOURNAL TABLE WITH RLS
+// ===========================
+
+// Undo history of the latest mutations of each user; an entry groups the
+// audit events of one mutation, and undone entries can be redone until the
+// user makes a new change
+export const operationJournal = pgTable(
+  "operation_journal",
+  {
+    operationId: uuid("operation_id").defaultRandom().primaryKey(),
+    userId: uuid("user_id").notNull(),
+
+    source: varchar("source", { length: 100 }).notNull(), // Mutation name
+    eventIds: uuid("event_ids").array().notNull(), // Audit events, in order
+    status: operationStatusEnum("status").default("APPLIED").notNull(),
+    undoneAt: timestamp("undone_at", { withTimezone: true }),
+
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => [
+    // Indexes
+    index("operation_journal_user_created_idx").on(
+      table.userId,
+      table.createdAt
+    ),
+
+    // Foreign key to Supabase auth.users
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [authUsers.id],
+      name: "operation_journal_user_id_fkey",
+    }).onDelete("cascade"),
+
+    // RLS Policies
+    pgPolicy("authenticated users can view own operations", {
+      for: "select",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can insert own operations", {
+      for: "insert",
+      to: authenticatedRole,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can update own operations", {
+      for: "update",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+      withCheck: sql`(select auth.uid()) = user_id`,
+    }),
+
+    pgPolicy("authenticated users can delete own operations", {
+      for: "delete",
+      to: authenticatedRole,
+      using: sql`(select auth.uid()) = user_id`,
+    }),
+  ]
+);
+
+// ===========================
+// RELATIONS
+// ===========================
+
+export const accountsRelations = relations(accounts, ({ many }) => ({
+  transactions: many(transactions),
+  investmentHoldings: many(investmentHoldings),
+  recurringPatterns: many(recurringPatterns),
+}));
+
+export const categoriesRelations = relations(categories, ({ one, many }) => ({
+  parentCategory: one(categories, {
+    fields: [categories.parentCategoryId],
     references: [categories.categoryId],
+    relationName: "subcategories",
   }),
-  customName: one(customTransactionNames, {
-    fields: [transactions.customNameId],
-    references: [customTransactionNames.customNameId],
-  }),
-  linkedTransaction: one(transactions, {
-    fields: [transactions.linkedTransactionId],
-    references: [transactions.transactionId],
-  }),
-  recurringPattern: one(recurringPatterns, {
-    fields: [transactions.recurringPatternId],
-    references: [recurringPatterns.patternId],
-  }),
+  subcategories: many(categories, { relationName: "subcategories" }),
+  transactions: many(transactions),
+  transactionSplits: many(transactionSplits),
+  customNames: many(customTransactionNames),
+  recurringPatterns: many(recurringPatterns),
+  budgets: many(budgets),
 }));
 
+export const customTransactionNamesRelations = relations(
+  customTransactionNames,
+  ({ one, many }) => ({
+    category: one(categories, {
+      fields: [customTransactionNames.categoryId],
+      references: [categories.categoryId],
+    }),
+    transactions: many(transactions),
+    transactionSplits: many(transactionSplits),
+    recurringPatterns: many(recurringPatterns),
+    budgets: many(budgets),
+  })
+);
+
+export const recurringPatternsRelations = relations(
+  recurringPatterns,
+  ({ one, many }) => ({
+    account: one(accounts, {
+      fields: [recurringPatterns.accountId],
+      references: [accounts.accountId],
+    }),
+    category: one(categories, {
+      fields: [recurringPatterns.categoryId],
+      references: [categories.categoryId],
+    }),
+    customName: one(customTransactionNames, {
+      fields: [recurringPatterns.customNameId],
+      references: [customTransactionNames.customNameId],
+    }),
+    generatedTransactions: many(transactions),
+  })
+);
+
+export const transactionsRelations = relations(
+  transactions,
+  ({ one, many }) => ({
+    account: one(accounts, {
+      fields: [transactions.accountId],
+      references: [accounts.accountId],
+    }),
+    category: one(categories, {
+      fields: [transactions.categoryId],
+      references: [categories.categoryId],
+    }),
+    customName: one(customTransactionNames, {
+      fields: [transactions.customNameId],
+      references: [customTransactionNames.customNameId],
+    }),
+    linkedTransaction: one(transactions, {
+      fields: [transactions.linkedTransactionId],
+      references: [transactions.transactionId],
+    }),
+    recurringPattern: one(recurringPatterns, {
+      fields: [transactions.recurringPatternId],
+      references: [recurringPatterns.patternId],
+    }),
+    counterparty: one(counterparties, {
+      fields: [transactions.counterpartyId],
+      references: [counterparties.counterpartyId],
+    }),
+    reconciliation: one(reconciliations, {
+      fields: [transactions.reconciliationId],
+      references: [reconciliations.reconciliationId],
+    }),
+    splits: many(transactionSplits),
+    tags: many(transactionTags),
+  })
+);
+
+export const transactionSplitsRelations = relations(
+  transactionSplits,
+  ({ one }) => ({
+    transaction: one(transactions, {
+      fields: [transactionSplits.transactionId],
+      references: [transactions.transactionId],
+    }),
+    category: one(categories, {
+      fields: [transactionSplits.categoryId],
+      references: [categories.categoryId],
+    }),
+    customName: one(customTransactionNames, {
+      fields: [transactionSplits.customNameId],
+      references: [customTransactionNames.customNameId],
+    }),
+  })
+);
+
 export const investmentHoldingsRelations = relations(
   investmentHoldings,
   ({ one }) => ({
@@ -736,6 +2075,124 @@ export const investmentHoldingsRelations = relations(
   })
 );
 
+export const counterpartiesRelations = relations(
+  counterparties,
+  ({ many }) => ({
+    transactions: many(transactions),
+  })
+);
+
+export const tagsRelations = relations(tags, ({ many }) => ({
+  transactionTags: many(transactionTags),
+}));
+
+export const transactionTagsRelations = relations(
+  transactionTags,
+  ({ one }) => ({
+    transaction: one(transactions, {
+      fields: [transactionTags.transactionId],
+      references: [transactions.transactionId],
+    }),
+    tag: one(tags, {
+      fields: [transactionTags.tagId],
+      references: [tags.tagId],
+    }),
+  })
+);
+
+export const taxLotsRelations = relations(taxLots, ({ one, many }) => ({
+  account: one(accounts, {
+    fields: [taxLots.accountId],
+    references: [accounts.accountId],
+  }),
+  buyTransaction: one(transactions, {
+    fields: [taxLots.buyTransactionId],
+    references: [transactions.transactionId],
+  }),
+  disposals: many(taxLotDisposals),
+  selections: many(taxLotSelections),
+}));
+
+export const taxLotDisposalsRelations = relations(
+  taxLotDisposals,
+  ({ one }) => ({
+    lot: one(taxLots, {
+      fields: [taxLotDisposals.lotId],
+      references: [taxLots.lotId],
+    }),
+    sellTransaction: one(transactions, {
+      fields: [taxLotDisposals.sellTransactionId],
+      references: [transactions.transactionId],
+    }),
+  })
+);
+
+export const taxLotSelectionsRelations = relations(
+  taxLotSelections,
+  ({ one }) => ({
+    lot: one(taxLots, {
+      fields: [taxLotSelections.lotId],
+      references: [taxLots.lotId],
+    }),
+    sellTransaction: one(transactions, {
+      fields: [taxLotSelections.sellTransactionId],
+      references: [transactions.transactionId],
+    }),
+  })
+);
+
+export const capitalGainsRulesRelations = relations(
+  capitalGainsRules,
+  ({ one }) => ({
+    category: one(categories, {
+      fields: [capitalGainsRules.categoryId],
+      references: [categories.categoryId],
+    }),
+  })
+);
+
+export const accountValuationsRelations = relations(
+  accountValuations,
+  ({ one }) => ({
+    account: one(accounts, {
+      fields: [accountValuations.accountId],
+      references: [accounts.accountId],
+    }),
+  })
+);
+
+export const accountBalanceSnapshotsRelations = relations(
+  accountBalanceSnapshots,
+  ({ one }) => ({
+    account: one(accounts, {
+      fields: [accountBalanceSnapshots.accountId],
+      references: [accounts.accountId],
+    }),
+  })
+);
+
+export const reconciliationsRelations = relations(
+  reconciliations,
+  ({ one, many }) => ({
+    account: one(accounts, {
+      fields: [reconciliations.accountId],
+      references: [accounts.accountId],
+    }),
+    transactions: many(transactions),
+  })
+);
+
+export const budgetsRelations = relations(budgets, ({ one }) => ({
+  category: one(categories, {
+    fields: [budgets.categoryId],
+    references: [categories.categoryId],
+  }),
+  customName: one(customTransactionNames, {
+    fields: [budgets.customNameId],
+    references: [customTransactionNames.customNameId],
+  }),
+}));
+
 // ===========================
 // TYPE EXPORTS (for TypeScript)
 // ===========================
@@ -746,8 +2203,26 @@ export type DbCategory = typeof categories.$inferSelect;
 export type DbCustomTransactionName =
   typeof customTransactionNames.$inferSelect;
 export type DbTransaction = typeof transactions.$inferSelect;
+export type DbTransactionSplit = typeof transactionSplits.$inferSelect;
+export type DbTag = typeof tags.$inferSelect;
+export type DbTransactionTag = typeof transactionTags.$inferSelect;
 export type DbInvestmentHolding = typeof investmentHoldings.$inferSelect;
 export type DbRecurringPattern = typeof recurringPatterns.$inferSelect;
+export type DbBudget = typeof budgets.$inferSelect;
+export type DbUserSettings = typeof userSettings.$inferSelect;
+export type DbExchangeRate = typeof exchangeRates.$inferSelect;
+export type DbAssetPrice = typeof assetPrices.$inferSelect;
+export type DbTaxLot = typeof taxLots.$inferSelect;
+export type DbTaxLotDisposal = typeof taxLotDisposals.$inferSelect;
+export type DbTaxLotSelection = typeof taxLotSelections.$inferSelect;
+export type DbCapitalGainsRule = typeof capitalGainsRules.$inferSelect;
+export type DbAccountValuation = typeof accountValuations.$inferSelect;
+export type DbCounterparty = typeof counterparties.$inferSelect;
+export type DbAccountBalanceSnapshot =
+  typeof accountBalanceSnapshots.$inferSelect;
+export type DbReconciliation = typeof reconciliations.$inferSelect;
+export type DbAuditEvent = typeof auditEvents.$inferSelect;
+export type DbOperation = typeof operationJournal.$inferSelect;
 
 // Insert Types (for creating new records)
 export type InsertAccount = typeof accounts.$inferInsert;
@@ -755,8 +2230,26 @@ export type InsertCategory = typeof categories.$inferInsert;
 export type InsertCustomTransactionName =
   typeof customTransactionNames.$inferInsert;
 export type InsertTransaction = typeof transactions.$inferInsert;
+export type InsertTransactionSplit = typeof transactionSplits.$inferInsert;
+export type InsertTag = typeof tags.$inferInsert;
+export type InsertTransactionTag = typeof transactionTags.$inferInsert;
 export type InsertInvestmentHolding = typeof investmentHoldings.$inferInsert;
 export type InsertRecurringPattern = typeof recurringPatterns.$inferInsert;
+export type InsertBudget = typeof budgets.$inferInsert;
+export type InsertUserSettings = typeof userSettings.$inferInsert;
+export type InsertExchangeRate = typeof exchangeRates.$inferInsert;
+export type InsertAssetPrice = typeof assetPrices.$inferInsert;
+export type InsertTaxLot = typeof taxLots.$inferInsert;
+export type InsertTaxLotDisposal = typeof taxLotDisposals.$inferInsert;
+export type InsertTaxLotSelection = typeof taxLotSelections.$inferInsert;
+export type InsertCapitalGainsRule = typeof capitalGainsRules.$inferInsert;
+export type InsertAccountValuation = typeof accountValuations.$inferInsert;
+export type InsertCounterparty = typeof counterparties.$inferInsert;
+export type InsertAccountBalanceSnapshot =
+  typeof accountBalanceSnapshots.$inferInsert;
+export type InsertReconciliation = typeof reconciliations.$inferInsert;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+export type InsertOperation = typeof operationJournal.$inferInsert;
 
 // Enum Types
 export type AccountType = (typeof accountTypeEnum.enumValues)[number];
@@ -766,3 +2259,19 @@ export type CategoryType = (typeof categoryTypeEnum.enumValues)[number];
 export type InvestmentAction = (typeof investmentActionEnum.enumValues)[number];
 export type RecurringFrequency =
   (typeof recurringFrequencyEnum.enumValues)[number];
+export type BudgetPeriod = (typeof budgetPeriodEnum.enumValues)[number];
+export type ExchangeRateSource =
+  (typeof exchangeRateSourceEnum.enumValues)[number];
+export type LotMatchMethod = (typeof lotMatchMethodEnum.enumValues)[number];
+export type LoanPrepaymentMode =
+  (typeof loanPrepaymentModeEnum.enumValues)[number];
+export type DepositCompounding =
+  (typeof depositCompoundingEnum.enumValues)[number];
+export type DepositPayoutMode =
+  (typeof depositPayoutModeEnum.enumValues)[number];
+export type ClearingStatus = (typeof clearingStatusEnum.enumValues)[number];
+export type ReconciliationStatus =
+  (typeof reconciliationStatusEnum.enumValues)[number];
+export type AuditOperation = (typeof auditOperationEnum.enumValues)[number];
+export type AuditEntityType = (typeof auditEntityTypeEnum.enumValues)[number];
+export type OperationStatus = (typeof operationStatusEnum.enumValues)[number];
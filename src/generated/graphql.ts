@@ -24,23 +24,39 @@ export type Account = {
   accountName: Scalars['String']['output'];
   accountNumber?: Maybe<Scalars['String']['output']>;
   accountType: AccountType;
+  accruedInterest?: Maybe<Scalars['String']['output']>;
   balanceUpdatedAt: Scalars['String']['output'];
   billingCycleDay?: Maybe<Scalars['Int']['output']>;
   createdAt: Scalars['String']['output'];
   creditLimit?: Maybe<Scalars['String']['output']>;
+  creditUtilization?: Maybe<Scalars['String']['output']>;
   currency?: Maybe<Scalars['String']['output']>;
   currentBalance: Scalars['String']['output'];
+  deletedAt?: Maybe<Scalars['String']['output']>;
+  depositCompounding?: Maybe<DepositCompounding>;
+  depositMaturedAt?: Maybe<Scalars['String']['output']>;
+  depositMaturityDate?: Maybe<Scalars['String']['output']>;
+  depositPayoutMode?: Maybe<DepositPayoutMode>;
+  depositPrincipal?: Maybe<Scalars['String']['output']>;
+  depositStartDate?: Maybe<Scalars['String']['output']>;
+  history: Array<AuditEvent>;
   institutionName?: Maybe<Scalars['String']['output']>;
   interestRate?: Maybe<Scalars['String']['output']>;
   isActive: Scalars['Boolean']['output'];
   isDefault: Scalars['Boolean']['output'];
   lastTransactionDate?: Maybe<Scalars['String']['output']>;
+  linkedAccountId?: Maybe<Scalars['ID']['output']>;
   loanAmount?: Maybe<Scalars['String']['output']>;
   loanEndDate?: Maybe<Scalars['String']['output']>;
+  loanPrepaymentMode: LoanPrepaymentMode;
   loanStartDate?: Maybe<Scalars['String']['output']>;
   logoUrl?: Maybe<Scalars['String']['output']>;
+  manualBalance?: Maybe<Scalars['String']['output']>;
   manualBalanceUpdatedAt: Scalars['String']['output'];
+  maturityValue?: Maybe<Scalars['String']['output']>;
   notes?: Maybe<Scalars['String']['output']>;
+  outstandingPrincipal?: Maybe<Scalars['String']['output']>;
+  paymentGraceDays?: Maybe<Scalars['Int']['output']>;
   updatedAt: Scalars['String']['output'];
 };
 
@@ -50,6 +66,14 @@ export type AccountGroup =
   | 'POSTPAID'
   | 'PREPAID';
 
+export type AccountPerformance = {
+  __typename?: 'AccountPerformance';
+  accountId: Scalars['ID']['output'];
+  accountName: Scalars['String']['output'];
+  accountType: AccountType;
+  performance: PerformanceSummary;
+};
+
 export type AccountType =
   | 'BNPL'
   | 'CASH'
@@ -67,6 +91,151 @@ export type AmountRangeInput = {
   min?: InputMaybe<Scalars['String']['input']>;
 };
 
+export type AssetPrice = {
+  __typename?: 'AssetPrice';
+  assetSymbol: Scalars['String']['output'];
+  createdAt: Scalars['String']['output'];
+  currency?: Maybe<Scalars['String']['output']>;
+  price: Scalars['String']['output'];
+  priceDate: Scalars['String']['output'];
+  priceId: Scalars['ID']['output'];
+  source: Scalars['String']['output'];
+  updatedAt: Scalars['String']['output'];
+};
+
+export type AuditEntityType =
+  | 'ACCOUNT'
+  | 'RECURRING_PATTERN'
+  | 'TRANSACTION';
+
+export type AuditEvent = {
+  __typename?: 'AuditEvent';
+  actorId?: Maybe<Scalars['ID']['output']>;
+  after?: Maybe<Scalars['String']['output']>;
+  before?: Maybe<Scalars['String']['output']>;
+  changedFields: Array<Scalars['String']['output']>;
+  createdAt: Scalars['String']['output'];
+  entityId: Scalars['ID']['output'];
+  entityType: AuditEntityType;
+  eventId: Scalars['ID']['output'];
+  ipAddress?: Maybe<Scalars['String']['output']>;
+  operation: AuditOperation;
+  requestId?: Maybe<Scalars['String']['output']>;
+  source?: Maybe<Scalars['String']['output']>;
+  userAgent?: Maybe<Scalars['String']['output']>;
+};
+
+export type AuditEventConnection = {
+  __typename?: 'AuditEventConnection';
+  events: Array<AuditEvent>;
+  pageInfo: PageInfo;
+};
+
+export type AuditOperation =
+  | 'CREATE'
+  | 'DELETE'
+  | 'RESTORE'
+  | 'UPDATE';
+
+export type BalanceRecomputation = {
+  __typename?: 'BalanceRecomputation';
+  account: Account;
+  accountId: Scalars['ID']['output'];
+  applied: Scalars['Boolean']['output'];
+  checkpointBalance?: Maybe<Scalars['String']['output']>;
+  drift?: Maybe<Scalars['String']['output']>;
+  hasCheckpoint: Scalars['Boolean']['output'];
+  previousBalance: Scalars['String']['output'];
+  recomputedBalance?: Maybe<Scalars['String']['output']>;
+  transactionsCount: Scalars['Int']['output'];
+};
+
+export type Budget = {
+  __typename?: 'Budget';
+  amount: Scalars['String']['output'];
+  budgetId: Scalars['ID']['output'];
+  category?: Maybe<Category>;
+  categoryId?: Maybe<Scalars['ID']['output']>;
+  createdAt: Scalars['String']['output'];
+  customName?: Maybe<CustomTransactionName>;
+  customNameId?: Maybe<Scalars['ID']['output']>;
+  isActive: Scalars['Boolean']['output'];
+  notes?: Maybe<Scalars['String']['output']>;
+  period: BudgetPeriod;
+  rollover: Scalars['Boolean']['output'];
+  startDate: Scalars['String']['output'];
+  updatedAt: Scalars['String']['output'];
+};
+
+export type BudgetPeriod =
+  | 'MONTHLY'
+  | 'YEARLY';
+
+export type BudgetStatus = {
+  __typename?: 'BudgetStatus';
+  budget: Budget;
+  budgetAmount: Scalars['String']['output'];
+  currency: Scalars['String']['output'];
+  isOverBudget: Scalars['Boolean']['output'];
+  isProjectedOverBudget: Scalars['Boolean']['output'];
+  percentUsed: Scalars['Float']['output'];
+  periodEnd: Scalars['String']['output'];
+  periodStart: Scalars['String']['output'];
+  projected: Scalars['String']['output'];
+  remaining: Scalars['String']['output'];
+  rolloverAmount: Scalars['String']['output'];
+  spent: Scalars['String']['output'];
+};
+
+export type CapitalGainEntry = {
+  __typename?: 'CapitalGainEntry';
+  acquiredAt: Scalars['String']['output'];
+  assetSymbol: Scalars['String']['output'];
+  costAmount: Scalars['String']['output'];
+  costBasis: Scalars['String']['output'];
+  disposalId: Scalars['ID']['output'];
+  fairMarketValue?: Maybe<Scalars['String']['output']>;
+  gainLoss: Scalars['String']['output'];
+  holdingPeriodDays: Scalars['Int']['output'];
+  lotId: Scalars['ID']['output'];
+  proceeds: Scalars['String']['output'];
+  quantity: Scalars['String']['output'];
+  sellTransactionId: Scalars['ID']['output'];
+  soldAt: Scalars['String']['output'];
+  term: CapitalGainTerm;
+};
+
+export type CapitalGainTerm =
+  | 'LONG_TERM'
+  | 'SHORT_TERM';
+
+export type CapitalGainsAssetSummary = {
+  __typename?: 'CapitalGainsAssetSummary';
+  assetSymbol: Scalars['String']['output'];
+  category: Category;
+  costBasis: Scalars['String']['output'];
+  investmentSector?: Maybe<Scalars['String']['output']>;
+  longTermGainLoss: Scalars['String']['output'];
+  proceeds: Scalars['String']['output'];
+  quantity: Scalars['String']['output'];
+  shortTermGainLoss: Scalars['String']['output'];
+};
+
+export type CapitalGainsReport = {
+  __typename?: 'CapitalGainsReport';
+  assets: Array<CapitalGainsAssetSummary>;
+  currency: Scalars['String']['output'];
+  endDate: Scalars['String']['output'];
+  entries: Array<CapitalGainEntry>;
+  financialYear: Scalars['String']['output'];
+  longTermExemption: Scalars['String']['output'];
+  longTermGainLoss: Scalars['String']['output'];
+  shortTermGainLoss: Scalars['String']['output'];
+  startDate: Scalars['String']['output'];
+  taxableLongTermGain: Scalars['String']['output'];
+  totalGainLoss: Scalars['String']['output'];
+};
+
 export type Category = {
   __typename?: 'Category';
   categoryId: Scalars['ID']['output'];
@@ -74,8 +243,13 @@ export type Category = {
   categoryNumber: Scalars['Int']['output'];
   categoryType: CategoryType;
   createdAt: Scalars['String']['output'];
+  description?: Maybe<Scalars['String']['output']>;
   iconUrl?: Maybe<Scalars['String']['output']>;
   investmentSector?: Maybe<Scalars['String']['output']>;
+  isArchived: Scalars['Boolean']['output'];
+  isSystemCategory: Scalars['Boolean']['output'];
+  parentCategory?: Maybe<Category>;
+  parentCategoryId?: Maybe<Scalars['ID']['output']>;
   updatedAt: Scalars['String']['output'];
 };
 
@@ -83,15 +257,101 @@ export type CategoryType =
   | 'GENERAL'
   | 'INVESTMENT';
 
+export type ChangeOperation =
+  | 'CREATED'
+  | 'DELETED'
+  | 'UPDATED';
+
+export type ClearingStatus =
+  | 'CLEARED'
+  | 'RECONCILED'
+  | 'UNCLEARED';
+
+export type CommitImportInput = {
+  skipDuplicates?: InputMaybe<Scalars['Boolean']['input']>;
+  transactions: Array<CreateTransactionInput>;
+};
+
+export type Counterparty = {
+  __typename?: 'Counterparty';
+  counterpartyId: Scalars['ID']['output'];
+  createdAt: Scalars['String']['output'];
+  name: Scalars['String']['output'];
+  notes?: Maybe<Scalars['String']['output']>;
+  phone?: Maybe<Scalars['String']['output']>;
+  reminderDate?: Maybe<Scalars['String']['output']>;
+  updatedAt: Scalars['String']['output'];
+};
+
+export type CounterpartyBalance = {
+  __typename?: 'CounterpartyBalance';
+  counterparty: Counterparty;
+  given: Scalars['String']['output'];
+  isReminderDue: Scalars['Boolean']['output'];
+  lastTransactionDate?: Maybe<Scalars['String']['output']>;
+  outstanding: Scalars['String']['output'];
+  received: Scalars['String']['output'];
+  transactionsCount: Scalars['Int']['output'];
+};
+
+export type CounterpartySummary = {
+  __typename?: 'CounterpartySummary';
+  balances: Array<CounterpartyBalance>;
+  currency: Scalars['String']['output'];
+  iOwe: Scalars['String']['output'];
+  net: Scalars['String']['output'];
+  owedToMe: Scalars['String']['output'];
+};
+
 export type CreateAccountInput = {
   accountGroup: AccountGroup;
   accountName: Scalars['String']['input'];
   accountNumber?: InputMaybe<Scalars['String']['input']>;
   accountType: AccountType;
+  billingCycleDay?: InputMaybe<Scalars['Int']['input']>;
   creditLimit?: InputMaybe<Scalars['String']['input']>;
+  currency?: InputMaybe<Scalars['String']['input']>;
+  depositCompounding?: InputMaybe<DepositCompounding>;
+  depositMaturityDate?: InputMaybe<Scalars['String']['input']>;
+  depositPayoutMode?: InputMaybe<DepositPayoutMode>;
+  depositPrincipal?: InputMaybe<Scalars['String']['input']>;
+  depositStartDate?: InputMaybe<Scalars['String']['input']>;
   initialBalance?: InputMaybe<Scalars['String']['input']>;
   institutionName?: InputMaybe<Scalars['String']['input']>;
+  interestRate?: InputMaybe<Scalars['String']['input']>;
+  linkedAccountId?: InputMaybe<Scalars['ID']['input']>;
+  loanAmount?: InputMaybe<Scalars['String']['input']>;
+  loanEndDate?: InputMaybe<Scalars['String']['input']>;
+  loanPrepaymentMode?: InputMaybe<LoanPrepaymentMode>;
+  loanStartDate?: InputMaybe<Scalars['String']['input']>;
   logoUrl?: InputMaybe<Scalars['String']['input']>;
+  paymentGraceDays?: InputMaybe<Scalars['Int']['input']>;
+};
+
+export type CreateBudgetInput = {
+  amount: Scalars['String']['input'];
+  categoryNumber?: InputMaybe<Scalars['Int']['input']>;
+  customNameId?: InputMaybe<Scalars['ID']['input']>;
+  notes?: InputMaybe<Scalars['String']['input']>;
+  period: BudgetPeriod;
+  rollover?: InputMaybe<Scalars['Boolean']['input']>;
+  startDate?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type CreateCategoryInput = {
+  categoryName: Scalars['String']['input'];
+  categoryType?: InputMaybe<CategoryType>;
+  description?: InputMaybe<Scalars['String']['input']>;
+  iconUrl?: InputMaybe<Scalars['String']['input']>;
+  investmentSector?: InputMaybe<Scalars['String']['input']>;
+  parentCategoryNumber?: InputMaybe<Scalars['Int']['input']>;
+};
+
+export type CreateCounterpartyInput = {
+  name: Scalars['String']['input'];
+  notes?: InputMaybe<Scalars['String']['input']>;
+  phone?: InputMaybe<Scalars['String']['input']>;
+  reminderDate?: InputMaybe<Scalars['String']['input']>;
 };
 
 export type CreateRecurringPatternInput = {
@@ -110,11 +370,19 @@ export type CreateRecurringPatternInput = {
   transactionType: TransactionType;
 };
 
+export type CreateTagInput = {
+  color?: InputMaybe<Scalars['String']['input']>;
+  name: Scalars['String']['input'];
+};
+
 export type CreateTransactionInput = {
   accountId: Scalars['ID']['input'];
   amount: Scalars['String']['input'];
   assetSymbol?: InputMaybe<Scalars['String']['input']>;
   categoryNumber: Scalars['Int']['input'];
+  corporateActionRatio?: InputMaybe<Scalars['String']['input']>;
+  counterpartyId?: InputMaybe<Scalars['ID']['input']>;
+  counterpartyName?: InputMaybe<Scalars['String']['input']>;
   customFrequencyDays?: InputMaybe<Scalars['Int']['input']>;
   customName?: InputMaybe<Scalars['String']['input']>;
   description?: InputMaybe<Scalars['String']['input']>;
@@ -123,15 +391,68 @@ export type CreateTransactionInput = {
   isRecurring?: InputMaybe<Scalars['Boolean']['input']>;
   isTransfer?: InputMaybe<Scalars['Boolean']['input']>;
   location?: InputMaybe<Scalars['String']['input']>;
+  lotSelections?: InputMaybe<Array<TaxLotSelectionInput>>;
   otherAccountId?: InputMaybe<Scalars['ID']['input']>;
+  otherAmount?: InputMaybe<Scalars['String']['input']>;
   paymentMethod?: InputMaybe<Scalars['String']['input']>;
   pricePerUnit?: InputMaybe<Scalars['String']['input']>;
   quantity?: InputMaybe<Scalars['String']['input']>;
   recurringFrequency?: InputMaybe<RecurringFrequency>;
+  splits?: InputMaybe<Array<TransactionSplitInput>>;
+  tags?: InputMaybe<Array<Scalars['String']['input']>>;
   transactionDateTime: Scalars['String']['input'];
   transactionType: TransactionType;
 };
 
+export type CreditCardStatement = {
+  __typename?: 'CreditCardStatement';
+  closingBalance: Scalars['String']['output'];
+  credits: Scalars['String']['output'];
+  dueDate: Scalars['String']['output'];
+  minimumDue: Scalars['String']['output'];
+  openingBalance: Scalars['String']['output'];
+  paidAmount: Scalars['String']['output'];
+  paidAt?: Maybe<Scalars['String']['output']>;
+  payments: Scalars['String']['output'];
+  periodStart: Scalars['String']['output'];
+  purchases: Scalars['String']['output'];
+  statementDate: Scalars['String']['output'];
+  status: CreditCardStatementStatus;
+  totalDue: Scalars['String']['output'];
+  utilization?: Maybe<Scalars['String']['output']>;
+};
+
+export type CreditCardStatementStatus =
+  | 'DUE'
+  | 'OPEN'
+  | 'OVERDUE'
+  | 'PAID'
+  | 'PAID_LATE';
+
+export type CreditCardStatements = {
+  __typename?: 'CreditCardStatements';
+  accountId: Scalars['ID']['output'];
+  availableCredit?: Maybe<Scalars['String']['output']>;
+  billingCycleDay: Scalars['Int']['output'];
+  creditLimit?: Maybe<Scalars['String']['output']>;
+  currency?: Maybe<Scalars['String']['output']>;
+  paymentGraceDays: Scalars['Int']['output'];
+  statements: Array<CreditCardStatement>;
+  utilization?: Maybe<Scalars['String']['output']>;
+};
+
+export type CsvColumnMappingInput = {
+  amount?: InputMaybe<Scalars['String']['input']>;
+  credit?: InputMaybe<Scalars['String']['input']>;
+  date: Scalars['String']['input'];
+  dateFormat?: InputMaybe<Scalars['String']['input']>;
+  debit?: InputMaybe<Scalars['String']['input']>;
+  delimiter?: InputMaybe<Scalars['String']['input']>;
+  description?: InputMaybe<Scalars['String']['input']>;
+  hasHeader?: InputMaybe<Scalars['Boolean']['input']>;
+  reference?: InputMaybe<Scalars['String']['input']>;
+};
+
 export type CustomTransactionName = {
   __typename?: 'CustomTransactionName';
   createdAt: Scalars['String']['output'];
@@ -145,11 +466,94 @@ export type CustomTransactionName = {
 export type DeleteResponse = {
   __typename?: 'DeleteResponse';
   accountId?: Maybe<Scalars['ID']['output']>;
+  budgetId?: Maybe<Scalars['ID']['output']>;
+  counterpartyId?: Maybe<Scalars['ID']['output']>;
   patternId?: Maybe<Scalars['ID']['output']>;
+  rateId?: Maybe<Scalars['ID']['output']>;
+  reconciliationId?: Maybe<Scalars['ID']['output']>;
   success: Scalars['Boolean']['output'];
+  tagId?: Maybe<Scalars['ID']['output']>;
   transactionId?: Maybe<Scalars['ID']['output']>;
 };
 
+export type DepositCompounding =
+  | 'HALF_YEARLY'
+  | 'MONTHLY'
+  | 'QUARTERLY'
+  | 'SIMPLE'
+  | 'YEARLY';
+
+export type DepositPayoutMode =
+  | 'RETAIN_IN_DEPOSIT'
+  | 'TRANSFER_TO_LINKED_ACCOUNT';
+
+export type DividendGroupBy =
+  | 'ACCOUNT'
+  | 'ASSET'
+  | 'MONTH';
+
+export type DividendIncome = {
+  __typename?: 'DividendIncome';
+  currency: Scalars['String']['output'];
+  endDate: Scalars['String']['output'];
+  groupBy: DividendGroupBy;
+  groups: Array<DividendIncomeGroup>;
+  startDate: Scalars['String']['output'];
+  total: Scalars['String']['output'];
+};
+
+export type DividendIncomeGroup = {
+  __typename?: 'DividendIncomeGroup';
+  accountId?: Maybe<Scalars['ID']['output']>;
+  accountName?: Maybe<Scalars['String']['output']>;
+  amount: Scalars['String']['output'];
+  assetSymbol?: Maybe<Scalars['String']['output']>;
+  key: Scalars['String']['output'];
+  month?: Maybe<Scalars['String']['output']>;
+  paymentsCount: Scalars['Int']['output'];
+};
+
+export type ExchangeRate = {
+  __typename?: 'ExchangeRate';
+  baseCurrency: Scalars['String']['output'];
+  createdAt: Scalars['String']['output'];
+  isShared: Scalars['Boolean']['output'];
+  quoteCurrency: Scalars['String']['output'];
+  rate: Scalars['String']['output'];
+  rateDate: Scalars['String']['output'];
+  rateId: Scalars['ID']['output'];
+  source: ExchangeRateSource;
+  updatedAt: Scalars['String']['output'];
+};
+
+export type ExchangeRateImportResult = {
+  __typename?: 'ExchangeRateImportResult';
+  errors: Array<Scalars['String']['output']>;
+  importedCount: Scalars['Int']['output'];
+};
+
+export type ExchangeRateSource =
+  | 'FILE'
+  | 'MANUAL';
+
+export type GetActivityLogInput = {
+  cursor?: InputMaybe<Scalars['String']['input']>;
+  endDate?: InputMaybe<Scalars['String']['input']>;
+  entityId?: InputMaybe<Scalars['ID']['input']>;
+  entityType?: InputMaybe<AuditEntityType>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  operation?: InputMaybe<AuditOperation>;
+  startDate?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type GetExchangeRatesInput = {
+  baseCurrency?: InputMaybe<Scalars['String']['input']>;
+  endDate?: InputMaybe<Scalars['String']['input']>;
+  limit?: InputMaybe<Scalars['Int']['input']>;
+  quoteCurrency?: InputMaybe<Scalars['String']['input']>;
+  startDate?: InputMaybe<Scalars['String']['input']>;
+};
+
 export type GetPortfolioDistributionInput = {
   accountIds?: InputMaybe<Array<Scalars['ID']['input']>>;
   categoryNumbers?: InputMaybe<Array<Scalars['Int']['input']>>;
@@ -178,6 +582,7 @@ export type GetTransactionsInput = {
   amountRange?: InputMaybe<AmountRangeInput>;
   assetSymbol?: InputMaybe<Scalars['String']['input']>;
   categoryNumber?: InputMaybe<Scalars['Int']['input']>;
+  counterpartyId?: InputMaybe<Scalars['ID']['input']>;
   cursor?: InputMaybe<Scalars['String']['input']>;
   customNameId?: InputMaybe<Scalars['ID']['input']>;
   endDate?: InputMaybe<Scalars['String']['input']>;
@@ -195,6 +600,7 @@ export type GetTransactionsInput = {
   recurringPatternId?: InputMaybe<Scalars['ID']['input']>;
   search?: InputMaybe<Scalars['String']['input']>;
   startDate?: InputMaybe<Scalars['String']['input']>;
+  tagIds?: InputMaybe<Array<Scalars['ID']['input']>>;
   type?: InputMaybe<TransactionFilterType>;
 };
 
@@ -202,7 +608,72 @@ export type GroupByDimension =
   | 'ACCOUNT'
   | 'CATEGORY'
   | 'CUSTOM_NAME'
-  | 'NONE';
+  | 'NONE'
+  | 'TAG';
+
+export type HoldingChangeEvent = {
+  __typename?: 'HoldingChangeEvent';
+  accountId: Scalars['ID']['output'];
+  assetSymbol: Scalars['String']['output'];
+  holding?: Maybe<InvestmentHolding>;
+  holdingId: Scalars['ID']['output'];
+  operation: ChangeOperation;
+};
+
+export type HoldingPerformance = {
+  __typename?: 'HoldingPerformance';
+  accountId: Scalars['ID']['output'];
+  assetSymbol: Scalars['String']['output'];
+  currency?: Maybe<Scalars['String']['output']>;
+  holdingId: Scalars['ID']['output'];
+  performance: PerformanceSummary;
+};
+
+export type ImportExchangeRatesInput = {
+  content: Scalars['String']['input'];
+  delimiter?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type ImportFormat =
+  | 'CSV'
+  | 'OFX';
+
+export type ImportPreview = {
+  __typename?: 'ImportPreview';
+  duplicateRows: Scalars['Int']['output'];
+  errorRows: Scalars['Int']['output'];
+  rows: Array<ImportPreviewRow>;
+  totalRows: Scalars['Int']['output'];
+  validRows: Scalars['Int']['output'];
+};
+
+export type ImportPreviewRow = {
+  __typename?: 'ImportPreviewRow';
+  duplicateTransactionId?: Maybe<Scalars['ID']['output']>;
+  error?: Maybe<Scalars['String']['output']>;
+  isDuplicate: Scalars['Boolean']['output'];
+  rowNumber: Scalars['Int']['output'];
+  suggestedCustomNameId?: Maybe<Scalars['ID']['output']>;
+  transaction?: Maybe<ImportedTransaction>;
+};
+
+export type ImportResult = {
+  __typename?: 'ImportResult';
+  importedCount: Scalars['Int']['output'];
+  skippedCount: Scalars['Int']['output'];
+  transactions: Array<Transaction>;
+};
+
+export type ImportedTransaction = {
+  __typename?: 'ImportedTransaction';
+  accountId: Scalars['ID']['output'];
+  amount: Scalars['String']['output'];
+  categoryNumber?: Maybe<Scalars['Int']['output']>;
+  customName?: Maybe<Scalars['String']['output']>;
+  description?: Maybe<Scalars['String']['output']>;
+  transactionDateTime: Scalars['String']['output'];
+  transactionType: TransactionType;
+};
 
 export type InvestmentAction =
   | 'BONUS'
@@ -222,15 +693,82 @@ export type InvestmentHolding = {
   categoryId: Scalars['ID']['output'];
   createdAt: Scalars['String']['output'];
   currency?: Maybe<Scalars['String']['output']>;
+  currentPrice?: Maybe<Scalars['String']['output']>;
+  currentValue?: Maybe<Scalars['String']['output']>;
+  dayChange?: Maybe<Scalars['String']['output']>;
+  dividendYieldOnCost?: Maybe<Scalars['String']['output']>;
   holdingId: Scalars['ID']['output'];
   notes?: Maybe<Scalars['String']['output']>;
+  priceDate?: Maybe<Scalars['String']['output']>;
   realizedGainLoss?: Maybe<Scalars['String']['output']>;
   sector?: Maybe<Scalars['String']['output']>;
+  totalDividends: Scalars['String']['output'];
   totalInvestedAmount: Scalars['String']['output'];
   totalQuantity: Scalars['String']['output'];
+  totalReturn: Scalars['String']['output'];
+  trailingDividends: Scalars['String']['output'];
+  unrealizedGainLoss?: Maybe<Scalars['String']['output']>;
   updatedAt: Scalars['String']['output'];
 };
 
+export type JournalOperation = {
+  __typename?: 'JournalOperation';
+  changes: Array<AuditEvent>;
+  createdAt: Scalars['String']['output'];
+  operationId: Scalars['ID']['output'];
+  source: Scalars['String']['output'];
+  status: OperationStatus;
+  undoneAt?: Maybe<Scalars['String']['output']>;
+};
+
+export type LoanInstallment = {
+  __typename?: 'LoanInstallment';
+  amountDue: Scalars['String']['output'];
+  closingBalance: Scalars['String']['output'];
+  dueDate: Scalars['String']['output'];
+  installmentNumber: Scalars['Int']['output'];
+  interest: Scalars['String']['output'];
+  openingBalance: Scalars['String']['output'];
+  paidAmount: Scalars['String']['output'];
+  paidAt?: Maybe<Scalars['String']['output']>;
+  prepayment: Scalars['String']['output'];
+  principal: Scalars['String']['output'];
+  status: LoanInstallmentStatus;
+};
+
+export type LoanInstallmentStatus =
+  | 'DUE'
+  | 'OVERDUE'
+  | 'PAID'
+  | 'UPCOMING';
+
+export type LoanPrepaymentMode =
+  | 'REDUCE_EMI'
+  | 'REDUCE_TENURE';
+
+export type LoanSchedule = {
+  __typename?: 'LoanSchedule';
+  accountId: Scalars['ID']['output'];
+  currency?: Maybe<Scalars['String']['output']>;
+  emi: Scalars['String']['output'];
+  installments: Array<LoanInstallment>;
+  installmentsPaid: Scalars['Int']['output'];
+  installmentsRemaining: Scalars['Int']['output'];
+  interestRate: Scalars['String']['output'];
+  loanAmount: Scalars['String']['output'];
+  nextDueDate?: Maybe<Scalars['String']['output']>;
+  originalEmi: Scalars['String']['output'];
+  outstandingPrincipal: Scalars['String']['output'];
+  prepaymentMode: LoanPrepaymentMode;
+  tenureMonths: Scalars['Int']['output'];
+  totalInterest: Scalars['String']['output'];
+  totalPrepaid: Scalars['String']['output'];
+};
+
+export type LotMatchMethod =
+  | 'FIFO'
+  | 'SPECIFIC_LOT';
+
 export type MonthlyRecurringPatternsResponse = {
   __typename?: 'MonthlyRecurringPatternsResponse';
   patterns: Array<RecurringPattern>;
@@ -248,13 +786,55 @@ export type MonthlyRecurringSummary = {
 
 export type Mutation = {
   __typename?: 'Mutation';
+  archiveCategory: Category;
+  commitImport: ImportResult;
+  completeReconciliation: Reconciliation;
   createAccount: Account;
+  createBudget: Budget;
+  createCategory: Category;
+  createCounterparty: Counterparty;
+  createTag: Tag;
   createTransaction: Transaction;
   deleteAccount: DeleteResponse;
+  deleteBudget: DeleteResponse;
+  deleteCounterparty: DeleteResponse;
+  deleteExchangeRate: DeleteResponse;
+  deleteReconciliation: DeleteResponse;
+  deleteTag: DeleteResponse;
   deleteTransaction: DeleteResponse;
+  importExchangeRates: ExchangeRateImportResult;
   manageRecurringPattern?: Maybe<RecurringPattern>;
+  recomputeAccountBalance: BalanceRecomputation;
+  redoLastOperation: UndoResult;
+  restoreAccount: Account;
+  restoreTransaction: Transaction;
+  setTransactionsCleared: Array<Transaction>;
+  startReconciliation: Reconciliation;
+  undoLastOperation: UndoResult;
   updateAccount: Account;
+  updateBudget: Budget;
+  updateCategory: Category;
+  updateCounterparty: Counterparty;
+  updateMySettings: UserSettings;
+  updateTag: Tag;
   updateTransaction: Transaction;
+  upsertExchangeRate: ExchangeRate;
+};
+
+
+export type MutationArchiveCategoryArgs = {
+  categoryId: Scalars['ID']['input'];
+};
+
+
+export type MutationCommitImportArgs = {
+  input: CommitImportInput;
+};
+
+
+export type MutationCompleteReconciliationArgs = {
+  postAdjustment?: InputMaybe<Scalars['Boolean']['input']>;
+  reconciliationId: Scalars['ID']['input'];
 };
 
 
@@ -263,6 +843,26 @@ export type MutationCreateAccountArgs = {
 };
 
 
+export type MutationCreateBudgetArgs = {
+  input: CreateBudgetInput;
+};
+
+
+export type MutationCreateCategoryArgs = {
+  input: CreateCategoryInput;
+};
+
+
+export type MutationCreateCounterpartyArgs = {
+  input: CreateCounterpartyInput;
+};
+
+
+export type MutationCreateTagArgs = {
+  input: CreateTagInput;
+};
+
+
 export type MutationCreateTransactionArgs = {
   input: CreateTransactionInput;
 };
@@ -273,57 +873,225 @@ export type MutationDeleteAccountArgs = {
 };
 
 
+export type MutationDeleteBudgetArgs = {
+  budgetId: Scalars['ID']['input'];
+};
+
+
+export type MutationDeleteCounterpartyArgs = {
+  counterpartyId: Scalars['ID']['input'];
+};
+
+
+export type MutationDeleteExchangeRateArgs = {
+  rateId: Scalars['ID']['input'];
+};
+
+
+export type MutationDeleteReconciliationArgs = {
+  reconciliationId: Scalars['ID']['input'];
+};
+
+
+export type MutationDeleteTagArgs = {
+  tagId: Scalars['ID']['input'];
+};
+
+
 export type MutationDeleteTransactionArgs = {
   transactionId: Scalars['ID']['input'];
 };
 
 
+export type MutationImportExchangeRatesArgs = {
+  input: ImportExchangeRatesInput;
+};
+
+
 export type MutationManageRecurringPatternArgs = {
   patternId: Scalars['ID']['input'];
   updateInput: UpdateRecurringPatternInput;
 };
 
 
+export type MutationRecomputeAccountBalanceArgs = {
+  accountId: Scalars['ID']['input'];
+  dryRun?: InputMaybe<Scalars['Boolean']['input']>;
+};
+
+
+export type MutationRestoreAccountArgs = {
+  accountId: Scalars['ID']['input'];
+};
+
+
+export type MutationRestoreTransactionArgs = {
+  transactionId: Scalars['ID']['input'];
+};
+
+
+export type MutationSetTransactionsClearedArgs = {
+  cleared: Scalars['Boolean']['input'];
+  transactionIds: Array<Scalars['ID']['input']>;
+};
+
+
+export type MutationStartReconciliationArgs = {
+  input: StartReconciliationInput;
+};
+
+
 export type MutationUpdateAccountArgs = {
   accountId: Scalars['ID']['input'];
   input: UpdateAccountInput;
 };
 
 
+export type MutationUpdateBudgetArgs = {
+  budgetId: Scalars['ID']['input'];
+  input: UpdateBudgetInput;
+};
+
+
+export type MutationUpdateCategoryArgs = {
+  categoryId: Scalars['ID']['input'];
+  input: UpdateCategoryInput;
+};
+
+
+export type MutationUpdateCounterpartyArgs = {
+  counterpartyId: Scalars['ID']['input'];
+  input: UpdateCounterpartyInput;
+};
+
+
+export type MutationUpdateMySettingsArgs = {
+  input: UpdateSettingsInput;
+};
+
+
+export type MutationUpdateTagArgs = {
+  input: UpdateTagInput;
+  tagId: Scalars['ID']['input'];
+};
+
+
 export type MutationUpdateTransactionArgs = {
   input: UpdateTransactionInput;
   transactionId: Scalars['ID']['input'];
 };
 
+
+export type MutationUpsertExchangeRateArgs = {
+  input: UpsertExchangeRateInput;
+};
+
+export type NetWorthHistory = {
+  __typename?: 'NetWorthHistory';
+  change: Scalars['String']['output'];
+  currency: Scalars['String']['output'];
+  endDate: Scalars['String']['output'];
+  interval: NetWorthInterval;
+  points: Array<NetWorthPoint>;
+  startDate: Scalars['String']['output'];
+};
+
+export type NetWorthInterval =
+  | 'DAY'
+  | 'MONTH'
+  | 'WEEK';
+
+export type NetWorthPoint = {
+  __typename?: 'NetWorthPoint';
+  assets: Scalars['String']['output'];
+  date: Scalars['String']['output'];
+  liabilities: Scalars['String']['output'];
+  netWorth: Scalars['String']['output'];
+};
+
+export type OperationStatus =
+  | 'APPLIED'
+  | 'UNDONE';
+
 export type PageInfo = {
   __typename?: 'PageInfo';
   endCursor?: Maybe<Scalars['String']['output']>;
   hasNextPage: Scalars['Boolean']['output'];
 };
 
+export type PerformanceSummary = {
+  __typename?: 'PerformanceSummary';
+  endDate: Scalars['String']['output'];
+  endValue?: Maybe<Scalars['String']['output']>;
+  gainLoss?: Maybe<Scalars['String']['output']>;
+  netContributions: Scalars['String']['output'];
+  startDate: Scalars['String']['output'];
+  startValue: Scalars['String']['output'];
+  timeWeightedReturn?: Maybe<Scalars['Float']['output']>;
+  xirr?: Maybe<Scalars['Float']['output']>;
+};
+
 export type PortfolioDistributionItem = {
   __typename?: 'PortfolioDistributionItem';
   category: Category;
   categoryId: Scalars['ID']['output'];
   categoryName: Scalars['String']['output'];
+  currency: Scalars['String']['output'];
   holdingsCount: Scalars['Int']['output'];
   investmentSector?: Maybe<Scalars['String']['output']>;
   totalCurrentValue?: Maybe<Scalars['String']['output']>;
   totalInvestedAmount: Scalars['String']['output'];
 };
 
+export type PortfolioPerformance = {
+  __typename?: 'PortfolioPerformance';
+  accounts: Array<AccountPerformance>;
+  currency: Scalars['String']['output'];
+  holdings: Array<HoldingPerformance>;
+  portfolio: PerformanceSummary;
+};
+
+export type PreviewImportInput = {
+  accountId: Scalars['ID']['input'];
+  content: Scalars['String']['input'];
+  csvMapping?: InputMaybe<CsvColumnMappingInput>;
+  defaultCategoryNumber?: InputMaybe<Scalars['Int']['input']>;
+  format: ImportFormat;
+};
+
 export type Query = {
   __typename?: 'Query';
   getAccount: Account;
+  getAssetPrices: Array<AssetPrice>;
+  getCreditCardStatements: CreditCardStatements;
+  getExchangeRates: Array<ExchangeRate>;
+  getLoanSchedule: LoanSchedule;
   getMonthlyRecurringPatterns: MonthlyRecurringPatternsResponse;
   getMyAccounts: Array<Account>;
+  getMyActivityLog: AuditEventConnection;
+  getMyBudgetStatus: Array<BudgetStatus>;
+  getMyBudgets: Array<Budget>;
+  getMyCapitalGainsReport: CapitalGainsReport;
+  getMyCategories: Array<Category>;
+  getMyCounterparties: Array<Counterparty>;
+  getMyCounterpartySummary: CounterpartySummary;
+  getMyDividendIncome: DividendIncome;
+  getMyHoldingLots: Array<TaxLot>;
   getMyInvestmentHoldings: Array<InvestmentHolding>;
+  getMyNetWorthHistory: NetWorthHistory;
   getMyPortfolioDistribution: Array<PortfolioDistributionItem>;
+  getMyPortfolioPerformance: PortfolioPerformance;
+  getMyReconciliations: Array<Reconciliation>;
   getMyRecurringPatterns: RecurringPatternResponse;
+  getMySettings: UserSettings;
+  getMyTags: Array<Tag>;
   getMyTotals: Array<TotalResult>;
   getMyTransaction: Transaction;
   getMyTransactions: TransactionConnection;
+  getMyTrash: Trash;
+  getReconciliation: Reconciliation;
   getRecurringPattern: RecurringPattern;
+  previewImport: ImportPreview;
 };
 
 
@@ -332,22 +1100,102 @@ export type QueryGetAccountArgs = {
 };
 
 
+export type QueryGetAssetPricesArgs = {
+  assetSymbol: Scalars['String']['input'];
+  endDate?: InputMaybe<Scalars['String']['input']>;
+  startDate?: InputMaybe<Scalars['String']['input']>;
+};
+
+
+export type QueryGetCreditCardStatementsArgs = {
+  accountId: Scalars['ID']['input'];
+  limit?: InputMaybe<Scalars['Int']['input']>;
+};
+
+
+export type QueryGetExchangeRatesArgs = {
+  input?: InputMaybe<GetExchangeRatesInput>;
+};
+
+
+export type QueryGetLoanScheduleArgs = {
+  accountId: Scalars['ID']['input'];
+};
+
+
 export type QueryGetMonthlyRecurringPatternsArgs = {
   month: Scalars['Int']['input'];
   year: Scalars['Int']['input'];
 };
 
 
+export type QueryGetMyActivityLogArgs = {
+  options?: InputMaybe<GetActivityLogInput>;
+};
+
+
+export type QueryGetMyBudgetStatusArgs = {
+  month: Scalars['String']['input'];
+};
+
+
+export type QueryGetMyCapitalGainsReportArgs = {
+  financialYear: Scalars['String']['input'];
+};
+
+
+export type QueryGetMyCategoriesArgs = {
+  includeArchived?: InputMaybe<Scalars['Boolean']['input']>;
+};
+
+
+export type QueryGetMyCounterpartySummaryArgs = {
+  includeSettled?: InputMaybe<Scalars['Boolean']['input']>;
+};
+
+
+export type QueryGetMyDividendIncomeArgs = {
+  endDate: Scalars['String']['input'];
+  groupBy?: InputMaybe<DividendGroupBy>;
+  startDate: Scalars['String']['input'];
+};
+
+
+export type QueryGetMyHoldingLotsArgs = {
+  holdingId: Scalars['ID']['input'];
+  includeClosed?: InputMaybe<Scalars['Boolean']['input']>;
+};
+
+
 export type QueryGetMyInvestmentHoldingsArgs = {
   accountId?: InputMaybe<Scalars['ID']['input']>;
 };
 
 
+export type QueryGetMyNetWorthHistoryArgs = {
+  endDate: Scalars['String']['input'];
+  interval?: InputMaybe<NetWorthInterval>;
+  startDate: Scalars['String']['input'];
+};
+
+
 export type QueryGetMyPortfolioDistributionArgs = {
   input?: InputMaybe<GetPortfolioDistributionInput>;
 };
 
 
+export type QueryGetMyPortfolioPerformanceArgs = {
+  accountIds?: InputMaybe<Array<Scalars['ID']['input']>>;
+  endDate?: InputMaybe<Scalars['String']['input']>;
+  startDate?: InputMaybe<Scalars['String']['input']>;
+};
+
+
+export type QueryGetMyReconciliationsArgs = {
+  accountId?: InputMaybe<Scalars['ID']['input']>;
+};
+
+
 export type QueryGetMyRecurringPatternsArgs = {
   input?: InputMaybe<GetRecurringPatternsInput>;
 };
@@ -368,10 +1216,43 @@ export type QueryGetMyTransactionsArgs = {
 };
 
 
-export type QueryGetRecurringPatternArgs = {
-  patternId: Scalars['ID']['input'];
+export type QueryGetReconciliationArgs = {
+  reconciliationId: Scalars['ID']['input'];
+};
+
+
+export type QueryGetRecurringPatternArgs = {
+  patternId: Scalars['ID']['input'];
+};
+
+
+export type QueryPreviewImportArgs = {
+  input: PreviewImportInput;
+};
+
+export type Reconciliation = {
+  __typename?: 'Reconciliation';
+  accountId: Scalars['ID']['output'];
+  adjustmentAmount?: Maybe<Scalars['String']['output']>;
+  adjustmentTransactionId?: Maybe<Scalars['ID']['output']>;
+  clearedBalance: Scalars['String']['output'];
+  completedAt?: Maybe<Scalars['String']['output']>;
+  createdAt: Scalars['String']['output'];
+  difference: Scalars['String']['output'];
+  expectedBalance: Scalars['String']['output'];
+  notes?: Maybe<Scalars['String']['output']>;
+  reconciliationId: Scalars['ID']['output'];
+  statementBalance: Scalars['String']['output'];
+  statementDate: Scalars['String']['output'];
+  status: ReconciliationStatus;
+  transactions: Array<Transaction>;
+  updatedAt: Scalars['String']['output'];
 };
 
+export type ReconciliationStatus =
+  | 'COMPLETED'
+  | 'OPEN';
+
 export type RecurringFrequency =
   | 'CUSTOM'
   | 'DAILY'
@@ -431,6 +1312,72 @@ export type RecurringPatternSummary = {
   upcoming: Scalars['String']['output'];
 };
 
+export type StartReconciliationInput = {
+  accountId: Scalars['ID']['input'];
+  notes?: InputMaybe<Scalars['String']['input']>;
+  statementBalance: Scalars['String']['input'];
+  statementDate: Scalars['String']['input'];
+};
+
+export type Subscription = {
+  __typename?: 'Subscription';
+  accountBalanceChanged: Account;
+  holdingChanged: HoldingChangeEvent;
+  transactionChanged: TransactionChangeEvent;
+};
+
+
+export type SubscriptionAccountBalanceChangedArgs = {
+  accountId: Scalars['ID']['input'];
+};
+
+export type Tag = {
+  __typename?: 'Tag';
+  color?: Maybe<Scalars['String']['output']>;
+  createdAt: Scalars['String']['output'];
+  name: Scalars['String']['output'];
+  tagId: Scalars['ID']['output'];
+  updatedAt: Scalars['String']['output'];
+};
+
+export type TaxLot = {
+  __typename?: 'TaxLot';
+  accountId: Scalars['ID']['output'];
+  acquiredAt: Scalars['String']['output'];
+  assetSymbol: Scalars['String']['output'];
+  buyTransactionId: Scalars['ID']['output'];
+  costAmount: Scalars['String']['output'];
+  costPerUnit: Scalars['String']['output'];
+  createdAt: Scalars['String']['output'];
+  disposals: Array<TaxLotDisposal>;
+  isClosed: Scalars['Boolean']['output'];
+  lotId: Scalars['ID']['output'];
+  quantity: Scalars['String']['output'];
+  realizedGainLoss: Scalars['String']['output'];
+  remainingCost: Scalars['String']['output'];
+  remainingQuantity: Scalars['String']['output'];
+  updatedAt: Scalars['String']['output'];
+};
+
+export type TaxLotDisposal = {
+  __typename?: 'TaxLotDisposal';
+  costAmount: Scalars['String']['output'];
+  disposalId: Scalars['ID']['output'];
+  holdingPeriodDays: Scalars['Int']['output'];
+  lotId: Scalars['ID']['output'];
+  matchMethod: LotMatchMethod;
+  proceeds: Scalars['String']['output'];
+  quantity: Scalars['String']['output'];
+  realizedGainLoss: Scalars['String']['output'];
+  sellTransactionId: Scalars['ID']['output'];
+  soldAt: Scalars['String']['output'];
+};
+
+export type TaxLotSelectionInput = {
+  lotId: Scalars['ID']['input'];
+  quantity: Scalars['String']['input'];
+};
+
 export type TimeBucket =
   | 'MONTH'
   | 'NONE';
@@ -441,10 +1388,12 @@ export type TotalMetadata = {
   category?: Maybe<Category>;
   customName?: Maybe<CustomTransactionName>;
   month?: Maybe<Scalars['String']['output']>;
+  tag?: Maybe<Tag>;
 };
 
 export type TotalResult = {
   __typename?: 'TotalResult';
+  currency: Scalars['String']['output'];
   endDate: Scalars['String']['output'];
   filters?: Maybe<TotalsFilter>;
   metadata?: Maybe<TotalMetadata>;
@@ -460,6 +1409,7 @@ export type TotalsFilter = {
   customNameId?: Maybe<Scalars['ID']['output']>;
   isInvestment?: Maybe<Scalars['Boolean']['output']>;
   isRecurring?: Maybe<Scalars['Boolean']['output']>;
+  tagIds?: Maybe<Array<Scalars['ID']['output']>>;
   transactionType?: Maybe<TransactionType>;
 };
 
@@ -470,6 +1420,7 @@ export type TotalsFilterInput = {
   customNameId?: InputMaybe<Scalars['ID']['input']>;
   isInvestment?: InputMaybe<Scalars['Boolean']['input']>;
   isRecurring?: InputMaybe<Scalars['Boolean']['input']>;
+  tagIds?: InputMaybe<Array<Scalars['ID']['input']>>;
   transactionType?: InputMaybe<TransactionType>;
 };
 
@@ -489,14 +1440,22 @@ export type Transaction = {
   categoryName?: Maybe<Scalars['String']['output']>;
   categoryNumber?: Maybe<Scalars['Int']['output']>;
   categoryType?: Maybe<CategoryType>;
+  clearingStatus: ClearingStatus;
+  corporateActionRatio?: Maybe<Scalars['String']['output']>;
+  corporateActionUnits?: Maybe<Scalars['String']['output']>;
+  counterparty?: Maybe<Counterparty>;
+  counterpartyId?: Maybe<Scalars['ID']['output']>;
   createdAt: Scalars['String']['output'];
   currency?: Maybe<Scalars['String']['output']>;
   customLogoUrl?: Maybe<Scalars['String']['output']>;
   customName?: Maybe<CustomTransactionName>;
   customNameId?: Maybe<Scalars['ID']['output']>;
   customNameText?: Maybe<Scalars['String']['output']>;
+  deletedAt?: Maybe<Scalars['String']['output']>;
   description?: Maybe<Scalars['String']['output']>;
+  exchangeRate?: Maybe<Scalars['String']['output']>;
   feesCharges?: Maybe<Scalars['String']['output']>;
+  history: Array<AuditEvent>;
   investmentAction?: Maybe<InvestmentAction>;
   investmentSector?: Maybe<Scalars['String']['output']>;
   isInvestment: Scalars['Boolean']['output'];
@@ -508,13 +1467,24 @@ export type Transaction = {
   paymentMethod?: Maybe<Scalars['String']['output']>;
   pricePerUnit?: Maybe<Scalars['String']['output']>;
   quantity?: Maybe<Scalars['String']['output']>;
+  reconciliationId?: Maybe<Scalars['ID']['output']>;
   recurringPatternId?: Maybe<Scalars['ID']['output']>;
+  splits: Array<TransactionSplit>;
+  tags: Array<Tag>;
   transactionDateTime: Scalars['String']['output'];
   transactionId: Scalars['ID']['output'];
   transactionType: TransactionType;
   updatedAt: Scalars['String']['output'];
 };
 
+export type TransactionChangeEvent = {
+  __typename?: 'TransactionChangeEvent';
+  accountId: Scalars['ID']['output'];
+  operation: ChangeOperation;
+  transaction?: Maybe<Transaction>;
+  transactionId: Scalars['ID']['output'];
+};
+
 export type TransactionConnection = {
   __typename?: 'TransactionConnection';
   pageInfo: PageInfo;
@@ -535,8 +1505,30 @@ export type TransactionOrderType =
   | 'new_to_old'
   | 'old_to_new';
 
+export type TransactionSplit = {
+  __typename?: 'TransactionSplit';
+  amount: Scalars['String']['output'];
+  category: Category;
+  categoryId: Scalars['ID']['output'];
+  createdAt: Scalars['String']['output'];
+  customName?: Maybe<CustomTransactionName>;
+  customNameId?: Maybe<Scalars['ID']['output']>;
+  description?: Maybe<Scalars['String']['output']>;
+  splitId: Scalars['ID']['output'];
+  transactionId: Scalars['ID']['output'];
+  updatedAt: Scalars['String']['output'];
+};
+
+export type TransactionSplitInput = {
+  amount: Scalars['String']['input'];
+  categoryNumber: Scalars['Int']['input'];
+  customName?: InputMaybe<Scalars['String']['input']>;
+  description?: InputMaybe<Scalars['String']['input']>;
+};
+
 export type TransactionTotals = {
   __typename?: 'TransactionTotals';
+  currency: Scalars['String']['output'];
   netAmount: Scalars['String']['output'];
   totalCount: Scalars['Int']['output'];
   totalCreditAmount: Scalars['String']['output'];
@@ -547,14 +1539,67 @@ export type TransactionType =
   | 'CREDIT'
   | 'DEBIT';
 
+export type Trash = {
+  __typename?: 'Trash';
+  accounts: Array<Account>;
+  retentionDays: Scalars['Int']['output'];
+  transactions: Array<Transaction>;
+};
+
+export type UndoResult = {
+  __typename?: 'UndoResult';
+  accounts: Array<Account>;
+  operation: JournalOperation;
+  transactions: Array<Transaction>;
+};
+
 export type UpdateAccountInput = {
   accountName?: InputMaybe<Scalars['String']['input']>;
   accountNumber?: InputMaybe<Scalars['String']['input']>;
+  billingCycleDay?: InputMaybe<Scalars['Int']['input']>;
+  creditLimit?: InputMaybe<Scalars['String']['input']>;
   currentBalance?: InputMaybe<Scalars['String']['input']>;
+  depositCompounding?: InputMaybe<DepositCompounding>;
+  depositMaturityDate?: InputMaybe<Scalars['String']['input']>;
+  depositPayoutMode?: InputMaybe<DepositPayoutMode>;
+  depositPrincipal?: InputMaybe<Scalars['String']['input']>;
+  depositStartDate?: InputMaybe<Scalars['String']['input']>;
   institutionName?: InputMaybe<Scalars['String']['input']>;
+  interestRate?: InputMaybe<Scalars['String']['input']>;
   isActive?: InputMaybe<Scalars['Boolean']['input']>;
   isDefault?: InputMaybe<Scalars['Boolean']['input']>;
+  linkedAccountId?: InputMaybe<Scalars['ID']['input']>;
+  loanAmount?: InputMaybe<Scalars['String']['input']>;
+  loanEndDate?: InputMaybe<Scalars['String']['input']>;
+  loanPrepaymentMode?: InputMaybe<LoanPrepaymentMode>;
+  loanStartDate?: InputMaybe<Scalars['String']['input']>;
   logoUrl?: InputMaybe<Scalars['String']['input']>;
+  paymentGraceDays?: InputMaybe<Scalars['Int']['input']>;
+};
+
+export type UpdateBudgetInput = {
+  amount?: InputMaybe<Scalars['String']['input']>;
+  isActive?: InputMaybe<Scalars['Boolean']['input']>;
+  notes?: InputMaybe<Scalars['String']['input']>;
+  period?: InputMaybe<BudgetPeriod>;
+  rollover?: InputMaybe<Scalars['Boolean']['input']>;
+  startDate?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type UpdateCategoryInput = {
+  categoryName?: InputMaybe<Scalars['String']['input']>;
+  description?: InputMaybe<Scalars['String']['input']>;
+  iconUrl?: InputMaybe<Scalars['String']['input']>;
+  investmentSector?: InputMaybe<Scalars['String']['input']>;
+  isArchived?: InputMaybe<Scalars['Boolean']['input']>;
+  parentCategoryNumber?: InputMaybe<Scalars['Int']['input']>;
+};
+
+export type UpdateCounterpartyInput = {
+  name?: InputMaybe<Scalars['String']['input']>;
+  notes?: InputMaybe<Scalars['String']['input']>;
+  phone?: InputMaybe<Scalars['String']['input']>;
+  reminderDate?: InputMaybe<Scalars['String']['input']>;
 };
 
 export type UpdateRecurringPatternInput = {
@@ -576,11 +1621,23 @@ export type UpdateRecurringPatternInput = {
   transactionType?: InputMaybe<TransactionType>;
 };
 
+export type UpdateSettingsInput = {
+  baseCurrency?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type UpdateTagInput = {
+  color?: InputMaybe<Scalars['String']['input']>;
+  name?: InputMaybe<Scalars['String']['input']>;
+};
+
 export type UpdateTransactionInput = {
   accountId?: InputMaybe<Scalars['ID']['input']>;
   amount?: InputMaybe<Scalars['String']['input']>;
   assetSymbol?: InputMaybe<Scalars['String']['input']>;
   categoryNumber?: InputMaybe<Scalars['Int']['input']>;
+  corporateActionRatio?: InputMaybe<Scalars['String']['input']>;
+  counterpartyId?: InputMaybe<Scalars['ID']['input']>;
+  counterpartyName?: InputMaybe<Scalars['String']['input']>;
   customFrequencyDays?: InputMaybe<Scalars['Int']['input']>;
   customName?: InputMaybe<Scalars['String']['input']>;
   customNameLogoUrl?: InputMaybe<Scalars['String']['input']>;
@@ -589,15 +1646,31 @@ export type UpdateTransactionInput = {
   isInvestment?: InputMaybe<Scalars['Boolean']['input']>;
   isRecurring?: InputMaybe<Scalars['Boolean']['input']>;
   location?: InputMaybe<Scalars['String']['input']>;
+  lotSelections?: InputMaybe<Array<TaxLotSelectionInput>>;
   otherAccountId?: InputMaybe<Scalars['ID']['input']>;
   paymentMethod?: InputMaybe<Scalars['String']['input']>;
   pricePerUnit?: InputMaybe<Scalars['String']['input']>;
   quantity?: InputMaybe<Scalars['String']['input']>;
   recurringFrequency?: InputMaybe<RecurringFrequency>;
+  splits?: InputMaybe<Array<TransactionSplitInput>>;
+  tags?: InputMaybe<Array<Scalars['String']['input']>>;
   transactionDateTime?: InputMaybe<Scalars['String']['input']>;
   transactionType?: InputMaybe<TransactionType>;
 };
 
+export type UpsertExchangeRateInput = {
+  baseCurrency: Scalars['String']['input'];
+  quoteCurrency: Scalars['String']['input'];
+  rate: Scalars['String']['input'];
+  rateDate?: InputMaybe<Scalars['String']['input']>;
+};
+
+export type UserSettings = {
+  __typename?: 'UserSettings';
+  baseCurrency: Scalars['String']['output'];
+  updatedAt?: Maybe<Scalars['String']['output']>;
+};
+
 export type WithIndex<TObject> = TObject & Record<string, any>;
 export type ResolversObject<TObject> = WithIndex<TObject>;
 
@@ -674,91 +1747,233 @@ export type DirectiveResolverFn<TResult = Record<PropertyKey, never>, TParent =
 export type ResolversTypes = ResolversObject<{
   Account: ResolverTypeWrapper<Account>;
   AccountGroup: AccountGroup;
+  AccountPerformance: ResolverTypeWrapper<AccountPerformance>;
   AccountType: AccountType;
   AmountRangeInput: AmountRangeInput;
+  AssetPrice: ResolverTypeWrapper<AssetPrice>;
+  AuditEntityType: AuditEntityType;
+  AuditEvent: ResolverTypeWrapper<AuditEvent>;
+  AuditEventConnection: ResolverTypeWrapper<AuditEventConnection>;
+  AuditOperation: AuditOperation;
+  BalanceRecomputation: ResolverTypeWrapper<BalanceRecomputation>;
   Boolean: ResolverTypeWrapper<Scalars['Boolean']['output']>;
+  Budget: ResolverTypeWrapper<Budget>;
+  BudgetPeriod: BudgetPeriod;
+  BudgetStatus: ResolverTypeWrapper<BudgetStatus>;
+  CapitalGainEntry: ResolverTypeWrapper<CapitalGainEntry>;
+  CapitalGainTerm: CapitalGainTerm;
+  CapitalGainsAssetSummary: ResolverTypeWrapper<CapitalGainsAssetSummary>;
+  CapitalGainsReport: ResolverTypeWrapper<CapitalGainsReport>;
   Category: ResolverTypeWrapper<Category>;
   CategoryType: CategoryType;
+  ChangeOperation: ChangeOperation;
+  ClearingStatus: ClearingStatus;
+  CommitImportInput: CommitImportInput;
+  Counterparty: ResolverTypeWrapper<Counterparty>;
+  CounterpartyBalance: ResolverTypeWrapper<CounterpartyBalance>;
+  CounterpartySummary: ResolverTypeWrapper<CounterpartySummary>;
   CreateAccountInput: CreateAccountInput;
+  CreateBudgetInput: CreateBudgetInput;
+  CreateCategoryInput: CreateCategoryInput;
+  CreateCounterpartyInput: CreateCounterpartyInput;
   CreateRecurringPatternInput: CreateRecurringPatternInput;
+  CreateTagInput: CreateTagInput;
   CreateTransactionInput: CreateTransactionInput;
+  CreditCardStatement: ResolverTypeWrapper<CreditCardStatement>;
+  CreditCardStatementStatus: CreditCardStatementStatus;
+  CreditCardStatements: ResolverTypeWrapper<CreditCardStatements>;
+  CsvColumnMappingInput: CsvColumnMappingInput;
   CustomTransactionName: ResolverTypeWrapper<CustomTransactionName>;
   DeleteResponse: ResolverTypeWrapper<DeleteResponse>;
+  DepositCompounding: DepositCompounding;
+  DepositPayoutMode: DepositPayoutMode;
+  DividendGroupBy: DividendGroupBy;
+  DividendIncome: ResolverTypeWrapper<DividendIncome>;
+  DividendIncomeGroup: ResolverTypeWrapper<DividendIncomeGroup>;
+  ExchangeRate: ResolverTypeWrapper<ExchangeRate>;
+  ExchangeRateImportResult: ResolverTypeWrapper<ExchangeRateImportResult>;
+  ExchangeRateSource: ExchangeRateSource;
+  Float: ResolverTypeWrapper<Scalars['Float']['output']>;
+  GetActivityLogInput: GetActivityLogInput;
+  GetExchangeRatesInput: GetExchangeRatesInput;
   GetPortfolioDistributionInput: GetPortfolioDistributionInput;
   GetRecurringPatternsInput: GetRecurringPatternsInput;
   GetTotalsInput: GetTotalsInput;
   GetTransactionsInput: GetTransactionsInput;
   GroupByDimension: GroupByDimension;
+  HoldingChangeEvent: ResolverTypeWrapper<HoldingChangeEvent>;
+  HoldingPerformance: ResolverTypeWrapper<HoldingPerformance>;
   ID: ResolverTypeWrapper<Scalars['ID']['output']>;
+  ImportExchangeRatesInput: ImportExchangeRatesInput;
+  ImportFormat: ImportFormat;
+  ImportPreview: ResolverTypeWrapper<ImportPreview>;
+  ImportPreviewRow: ResolverTypeWrapper<ImportPreviewRow>;
+  ImportResult: ResolverTypeWrapper<ImportResult>;
+  ImportedTransaction: ResolverTypeWrapper<ImportedTransaction>;
   Int: ResolverTypeWrapper<Scalars['Int']['output']>;
   InvestmentAction: InvestmentAction;
   InvestmentHolding: ResolverTypeWrapper<InvestmentHolding>;
+  JournalOperation: ResolverTypeWrapper<JournalOperation>;
+  LoanInstallment: ResolverTypeWrapper<LoanInstallment>;
+  LoanInstallmentStatus: LoanInstallmentStatus;
+  LoanPrepaymentMode: LoanPrepaymentMode;
+  LoanSchedule: ResolverTypeWrapper<LoanSchedule>;
+  LotMatchMethod: LotMatchMethod;
   MonthlyRecurringPatternsResponse: ResolverTypeWrapper<MonthlyRecurringPatternsResponse>;
   MonthlyRecurringSummary: ResolverTypeWrapper<MonthlyRecurringSummary>;
   Mutation: ResolverTypeWrapper<Record<PropertyKey, never>>;
+  NetWorthHistory: ResolverTypeWrapper<NetWorthHistory>;
+  NetWorthInterval: NetWorthInterval;
+  NetWorthPoint: ResolverTypeWrapper<NetWorthPoint>;
+  OperationStatus: OperationStatus;
   PageInfo: ResolverTypeWrapper<PageInfo>;
+  PerformanceSummary: ResolverTypeWrapper<PerformanceSummary>;
   PortfolioDistributionItem: ResolverTypeWrapper<PortfolioDistributionItem>;
+  PortfolioPerformance: ResolverTypeWrapper<PortfolioPerformance>;
+  PreviewImportInput: PreviewImportInput;
   Query: ResolverTypeWrapper<Record<PropertyKey, never>>;
+  Reconciliation: ResolverTypeWrapper<Reconciliation>;
+  ReconciliationStatus: ReconciliationStatus;
   RecurringFrequency: RecurringFrequency;
   RecurringPattern: ResolverTypeWrapper<RecurringPattern>;
   RecurringPatternResponse: ResolverTypeWrapper<RecurringPatternResponse>;
   RecurringPatternStatus: RecurringPatternStatus;
   RecurringPatternSummary: ResolverTypeWrapper<RecurringPatternSummary>;
+  StartReconciliationInput: StartReconciliationInput;
   String: ResolverTypeWrapper<Scalars['String']['output']>;
+  Subscription: ResolverTypeWrapper<Record<PropertyKey, never>>;
+  Tag: ResolverTypeWrapper<Tag>;
+  TaxLot: ResolverTypeWrapper<TaxLot>;
+  TaxLotDisposal: ResolverTypeWrapper<TaxLotDisposal>;
+  TaxLotSelectionInput: TaxLotSelectionInput;
   TimeBucket: TimeBucket;
   TotalMetadata: ResolverTypeWrapper<TotalMetadata>;
   TotalResult: ResolverTypeWrapper<TotalResult>;
   TotalsFilter: ResolverTypeWrapper<TotalsFilter>;
   TotalsFilterInput: TotalsFilterInput;
   Transaction: ResolverTypeWrapper<Transaction>;
+  TransactionChangeEvent: ResolverTypeWrapper<TransactionChangeEvent>;
   TransactionConnection: ResolverTypeWrapper<TransactionConnection>;
   TransactionFilterType: TransactionFilterType;
   TransactionOrderType: TransactionOrderType;
+  TransactionSplit: ResolverTypeWrapper<TransactionSplit>;
+  TransactionSplitInput: TransactionSplitInput;
   TransactionTotals: ResolverTypeWrapper<TransactionTotals>;
   TransactionType: TransactionType;
+  Trash: ResolverTypeWrapper<Trash>;
+  UndoResult: ResolverTypeWrapper<UndoResult>;
   UpdateAccountInput: UpdateAccountInput;
+  UpdateBudgetInput: UpdateBudgetInput;
+  UpdateCategoryInput: UpdateCategoryInput;
+  UpdateCounterpartyInput: UpdateCounterpartyInput;
   UpdateRecurringPatternInput: UpdateRecurringPatternInput;
+  UpdateSettingsInput: UpdateSettingsInput;
+  UpdateTagInput: UpdateTagInput;
   UpdateTransactionInput: UpdateTransactionInput;
+  UpsertExchangeRateInput: UpsertExchangeRateInput;
+  UserSettings: ResolverTypeWrapper<UserSettings>;
 }>;
 
 /** Mapping between all available schema types and the resolvers parents */
 export type ResolversParentTypes = ResolversObject<{
   Account: Account;
+  AccountPerformance: AccountPerformance;
   AmountRangeInput: AmountRangeInput;
+  AssetPrice: AssetPrice;
+  AuditEvent: AuditEvent;
+  AuditEventConnection: AuditEventConnection;
+  BalanceRecomputation: BalanceRecomputation;
   Boolean: Scalars['Boolean']['output'];
+  Budget: Budget;
+  BudgetStatus: BudgetStatus;
+  CapitalGainEntry: CapitalGainEntry;
+  CapitalGainsAssetSummary: CapitalGainsAssetSummary;
+  CapitalGainsReport: CapitalGainsReport;
   Category: Category;
+  CommitImportInput: CommitImportInput;
+  Counterparty: Counterparty;
+  CounterpartyBalance: CounterpartyBalance;
+  CounterpartySummary: CounterpartySummary;
   CreateAccountInput: CreateAccountInput;
+  CreateBudgetInput: CreateBudgetInput;
+  CreateCategoryInput: CreateCategoryInput;
+  CreateCounterpartyInput: CreateCounterpartyInput;
   CreateRecurringPatternInput: CreateRecurringPatternInput;
+  CreateTagInput: CreateTagInput;
   CreateTransactionInput: CreateTransactionInput;
+  CreditCardStatement: CreditCardStatement;
+  CreditCardStatements: CreditCardStatements;
+  CsvColumnMappingInput: CsvColumnMappingInput;
   CustomTransactionName: CustomTransactionName;
   DeleteResponse: DeleteResponse;
+  DividendIncome: DividendIncome;
+  DividendIncomeGroup: DividendIncomeGroup;
+  ExchangeRate: ExchangeRate;
+  ExchangeRateImportResult: ExchangeRateImportResult;
+  Float: Scalars['Float']['output'];
+  GetActivityLogInput: GetActivityLogInput;
+  GetExchangeRatesInput: GetExchangeRatesInput;
   GetPortfolioDistributionInput: GetPortfolioDistributionInput;
   GetRecurringPatternsInput: GetRecurringPatternsInput;
   GetTotalsInput: GetTotalsInput;
   GetTransactionsInput: GetTransactionsInput;
+  HoldingChangeEvent: HoldingChangeEvent;
+  HoldingPerformance: HoldingPerformance;
   ID: Scalars['ID']['output'];
+  ImportExchangeRatesInput: ImportExchangeRatesInput;
+  ImportPreview: ImportPreview;
+  ImportPreviewRow: ImportPreviewRow;
+  ImportResult: ImportResult;
+  ImportedTransaction: ImportedTransaction;
   Int: Scalars['Int']['output'];
   InvestmentHolding: InvestmentHolding;
+  JournalOperation: JournalOperation;
+  LoanInstallment: LoanInstallment;
+  LoanSchedule: LoanSchedule;
   MonthlyRecurringPatternsResponse: MonthlyRecurringPatternsResponse;
   MonthlyRecurringSummary: MonthlyRecurringSummary;
   Mutation: Record<PropertyKey, never>;
+  NetWorthHistory: NetWorthHistory;
+  NetWorthPoint: NetWorthPoint;
   PageInfo: PageInfo;
+  PerformanceSummary: PerformanceSummary;
   PortfolioDistributionItem: PortfolioDistributionItem;
+  PortfolioPerformance: PortfolioPerformance;
+  PreviewImportInput: PreviewImportInput;
   Query: Record<PropertyKey, never>;
+  Reconciliation: Reconciliation;
   RecurringPattern: RecurringPattern;
   RecurringPatternResponse: RecurringPatternResponse;
   RecurringPatternSummary: RecurringPatternSummary;
+  StartReconciliationInput: StartReconciliationInput;
   String: Scalars['String']['output'];
+  Subscription: Record<PropertyKey, never>;
+  Tag: Tag;
+  TaxLot: TaxLot;
+  TaxLotDisposal: TaxLotDisposal;
+  TaxLotSelectionInput: TaxLotSelectionInput;
   TotalMetadata: TotalMetadata;
   TotalResult: TotalResult;
   TotalsFilter: TotalsFilter;
   TotalsFilterInput: TotalsFilterInput;
   Transaction: Transaction;
+  TransactionChangeEvent: TransactionChangeEvent;
   TransactionConnection: TransactionConnection;
+  TransactionSplit: TransactionSplit;
+  TransactionSplitInput: TransactionSplitInput;
   TransactionTotals: TransactionTotals;
+  Trash: Trash;
+  UndoResult: UndoResult;
   UpdateAccountInput: UpdateAccountInput;
+  UpdateBudgetInput: UpdateBudgetInput;
+  UpdateCategoryInput: UpdateCategoryInput;
+  UpdateCounterpartyInput: UpdateCounterpartyInput;
   UpdateRecurringPatternInput: UpdateRecurringPatternInput;
+  UpdateSettingsInput: UpdateSettingsInput;
+  UpdateTagInput: UpdateTagInput;
   UpdateTransactionInput: UpdateTransactionInput;
+  UpsertExchangeRateInput: UpsertExchangeRateInput;
+  UserSettings: UserSettings;
 }>;
 
 export type AccountResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['Account'] = ResolversParentTypes['Account']> = ResolversObject<{
@@ -767,37 +1982,238 @@ export type AccountResolvers<ContextType = MercuriusContext, ParentType extends
   accountName?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   accountNumber?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   accountType?: Resolver<ResolversTypes['AccountType'], ParentType, ContextType>;
+  accruedInterest?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   balanceUpdatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   billingCycleDay?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
   createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   creditLimit?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  creditUtilization?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   currency?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   currentBalance?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  deletedAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  depositCompounding?: Resolver<Maybe<ResolversTypes['DepositCompounding']>, ParentType, ContextType>;
+  depositMaturedAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  depositMaturityDate?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  depositPayoutMode?: Resolver<Maybe<ResolversTypes['DepositPayoutMode']>, ParentType, ContextType>;
+  depositPrincipal?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  depositStartDate?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  history?: Resolver<Array<ResolversTypes['AuditEvent']>, ParentType, ContextType>;
   institutionName?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   interestRate?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   isActive?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
   isDefault?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
   lastTransactionDate?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  linkedAccountId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
   loanAmount?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   loanEndDate?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  loanPrepaymentMode?: Resolver<ResolversTypes['LoanPrepaymentMode'], ParentType, ContextType>;
   loanStartDate?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   logoUrl?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  manualBalance?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   manualBalanceUpdatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  maturityValue?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  notes?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  outstandingPrincipal?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  paymentGraceDays?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+}>;
+
+export type AccountPerformanceResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['AccountPerformance'] = ResolversParentTypes['AccountPerformance']> = ResolversObject<{
+  accountId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  accountName?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  accountType?: Resolver<ResolversTypes['AccountType'], ParentType, ContextType>;
+  performance?: Resolver<ResolversTypes['PerformanceSummary'], ParentType, ContextType>;
+}>;
+
+export type AssetPriceResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['AssetPrice'] = ResolversParentTypes['AssetPrice']> = ResolversObject<{
+  assetSymbol?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  currency?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  price?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  priceDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  priceId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  source?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+}>;
+
+export type AuditEventResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['AuditEvent'] = ResolversParentTypes['AuditEvent']> = ResolversObject<{
+  actorId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
+  after?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  before?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  changedFields?: Resolver<Array<ResolversTypes['String']>, ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  entityId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  entityType?: Resolver<ResolversTypes['AuditEntityType'], ParentType, ContextType>;
+  eventId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  ipAddress?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  operation?: Resolver<ResolversTypes['AuditOperation'], ParentType, ContextType>;
+  requestId?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  source?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  userAgent?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+}>;
+
+export type AuditEventConnectionResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['AuditEventConnection'] = ResolversParentTypes['AuditEventConnection']> = ResolversObject<{
+  events?: Resolver<Array<ResolversTypes['AuditEvent']>, ParentType, ContextType>;
+  pageInfo?: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>;
+}>;
+
+export type BalanceRecomputationResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['BalanceRecomputation'] = ResolversParentTypes['BalanceRecomputation']> = ResolversObject<{
+  account?: Resolver<ResolversTypes['Account'], ParentType, ContextType>;
+  accountId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  applied?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  checkpointBalance?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  drift?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  hasCheckpoint?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  previousBalance?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  recomputedBalance?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  transactionsCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+}>;
+
+export type BudgetResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['Budget'] = ResolversParentTypes['Budget']> = ResolversObject<{
+  amount?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  budgetId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  category?: Resolver<Maybe<ResolversTypes['Category']>, ParentType, ContextType>;
+  categoryId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  customName?: Resolver<Maybe<ResolversTypes['CustomTransactionName']>, ParentType, ContextType>;
+  customNameId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
+  isActive?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
   notes?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  period?: Resolver<ResolversTypes['BudgetPeriod'], ParentType, ContextType>;
+  rollover?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  startDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
 }>;
 
+export type BudgetStatusResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['BudgetStatus'] = ResolversParentTypes['BudgetStatus']> = ResolversObject<{
+  budget?: Resolver<ResolversTypes['Budget'], ParentType, ContextType>;
+  budgetAmount?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  currency?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  isOverBudget?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  isProjectedOverBudget?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  percentUsed?: Resolver<ResolversTypes['Float'], ParentType, ContextType>;
+  periodEnd?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  periodStart?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  projected?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  remaining?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  rolloverAmount?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  spent?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+}>;
+
+export type CapitalGainEntryResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['CapitalGainEntry'] = ResolversParentTypes['CapitalGainEntry']> = ResolversObject<{
+  acquiredAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  assetSymbol?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  costAmount?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  costBasis?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  disposalId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  fairMarketValue?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  gainLoss?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  holdingPeriodDays?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  lotId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  proceeds?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  quantity?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  sellTransactionId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  soldAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  term?: Resolver<ResolversTypes['CapitalGainTerm'], ParentType, ContextType>;
+}>;
+
+export type CapitalGainsAssetSummaryResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['CapitalGainsAssetSummary'] = ResolversParentTypes['CapitalGainsAssetSummary']> = ResolversObject<{
+  assetSymbol?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  category?: Resolver<ResolversTypes['Category'], ParentType, ContextType>;
+  costBasis?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  investmentSector?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  longTermGainLoss?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  proceeds?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  quantity?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  shortTermGainLoss?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+}>;
+
+export type CapitalGainsReportResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['CapitalGainsReport'] = ResolversParentTypes['CapitalGainsReport']> = ResolversObject<{
+  assets?: Resolver<Array<ResolversTypes['CapitalGainsAssetSummary']>, ParentType, ContextType>;
+  currency?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  endDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  entries?: Resolver<Array<ResolversTypes['CapitalGainEntry']>, ParentType, ContextType>;
+  financialYear?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  longTermExemption?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  longTermGainLoss?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  shortTermGainLoss?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  startDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  taxableLongTermGain?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  totalGainLoss?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+}>;
+
 export type CategoryResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['Category'] = ResolversParentTypes['Category']> = ResolversObject<{
   categoryId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
   categoryName?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   categoryNumber?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
   categoryType?: Resolver<ResolversTypes['CategoryType'], ParentType, ContextType>;
   createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  description?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   iconUrl?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   investmentSector?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  isArchived?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  isSystemCategory?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  parentCategory?: Resolver<Maybe<ResolversTypes['Category']>, ParentType, ContextType>;
+  parentCategoryId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
+  updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+}>;
+
+export type CounterpartyResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['Counterparty'] = ResolversParentTypes['Counterparty']> = ResolversObject<{
+  counterpartyId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  name?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  notes?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  phone?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  reminderDate?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
 }>;
 
+export type CounterpartyBalanceResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['CounterpartyBalance'] = ResolversParentTypes['CounterpartyBalance']> = ResolversObject<{
+  counterparty?: Resolver<ResolversTypes['Counterparty'], ParentType, ContextType>;
+  given?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  isReminderDue?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  lastTransactionDate?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  outstanding?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  received?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  transactionsCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+}>;
+
+export type CounterpartySummaryResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['CounterpartySummary'] = ResolversParentTypes['CounterpartySummary']> = ResolversObject<{
+  balances?: Resolver<Array<ResolversTypes['CounterpartyBalance']>, ParentType, ContextType>;
+  currency?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  iOwe?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  net?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  owedToMe?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+}>;
+
+export type CreditCardStatementResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['CreditCardStatement'] = ResolversParentTypes['CreditCardStatement']> = ResolversObject<{
+  closingBalance?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  credits?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  dueDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  minimumDue?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  openingBalance?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  paidAmount?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  paidAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  payments?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  periodStart?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  purchases?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  statementDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  status?: Resolver<ResolversTypes['CreditCardStatementStatus'], ParentType, ContextType>;
+  totalDue?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  utilization?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+}>;
+
+export type CreditCardStatementsResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['CreditCardStatements'] = ResolversParentTypes['CreditCardStatements']> = ResolversObject<{
+  accountId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  availableCredit?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  billingCycleDay?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  creditLimit?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  currency?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  paymentGraceDays?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  statements?: Resolver<Array<ResolversTypes['CreditCardStatement']>, ParentType, ContextType>;
+  utilization?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+}>;
+
 export type CustomTransactionNameResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['CustomTransactionName'] = ResolversParentTypes['CustomTransactionName']> = ResolversObject<{
   createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   customName?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
@@ -809,11 +2225,101 @@ export type CustomTransactionNameResolvers<ContextType = MercuriusContext, Paren
 
 export type DeleteResponseResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['DeleteResponse'] = ResolversParentTypes['DeleteResponse']> = ResolversObject<{
   accountId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
+  budgetId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
+  counterpartyId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
   patternId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
+  rateId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
+  reconciliationId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
   success?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  tagId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
   transactionId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
 }>;
 
+export type DividendIncomeResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['DividendIncome'] = ResolversParentTypes['DividendIncome']> = ResolversObject<{
+  currency?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  endDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  groupBy?: Resolver<ResolversTypes['DividendGroupBy'], ParentType, ContextType>;
+  groups?: Resolver<Array<ResolversTypes['DividendIncomeGroup']>, ParentType, ContextType>;
+  startDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  total?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+}>;
+
+export type DividendIncomeGroupResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['DividendIncomeGroup'] = ResolversParentTypes['DividendIncomeGroup']> = ResolversObject<{
+  accountId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
+  accountName?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  amount?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  assetSymbol?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  key?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  month?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  paymentsCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+}>;
+
+export type ExchangeRateResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['ExchangeRate'] = ResolversParentTypes['ExchangeRate']> = ResolversObject<{
+  baseCurrency?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  isShared?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  quoteCurrency?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  rate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  rateDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  rateId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  source?: Resolver<ResolversTypes['ExchangeRateSource'], ParentType, ContextType>;
+  updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+}>;
+
+export type ExchangeRateImportResultResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['ExchangeRateImportResult'] = ResolversParentTypes['ExchangeRateImportResult']> = ResolversObject<{
+  errors?: Resolver<Array<ResolversTypes['String']>, ParentType, ContextType>;
+  importedCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+}>;
+
+export type HoldingChangeEventResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['HoldingChangeEvent'] = ResolversParentTypes['HoldingChangeEvent']> = ResolversObject<{
+  accountId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  assetSymbol?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  holding?: Resolver<Maybe<ResolversTypes['InvestmentHolding']>, ParentType, ContextType>;
+  holdingId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  operation?: Resolver<ResolversTypes['ChangeOperation'], ParentType, ContextType>;
+}>;
+
+export type HoldingPerformanceResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['HoldingPerformance'] = ResolversParentTypes['HoldingPerformance']> = ResolversObject<{
+  accountId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  assetSymbol?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  currency?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  holdingId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  performance?: Resolver<ResolversTypes['PerformanceSummary'], ParentType, ContextType>;
+}>;
+
+export type ImportPreviewResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['ImportPreview'] = ResolversParentTypes['ImportPreview']> = ResolversObject<{
+  duplicateRows?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  errorRows?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  rows?: Resolver<Array<ResolversTypes['ImportPreviewRow']>, ParentType, ContextType>;
+  totalRows?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  validRows?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+}>;
+
+export type ImportPreviewRowResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['ImportPreviewRow'] = ResolversParentTypes['ImportPreviewRow']> = ResolversObject<{
+  duplicateTransactionId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
+  error?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  isDuplicate?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  rowNumber?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  suggestedCustomNameId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
+  transaction?: Resolver<Maybe<ResolversTypes['ImportedTransaction']>, ParentType, ContextType>;
+}>;
+
+export type ImportResultResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['ImportResult'] = ResolversParentTypes['ImportResult']> = ResolversObject<{
+  importedCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  skippedCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  transactions?: Resolver<Array<ResolversTypes['Transaction']>, ParentType, ContextType>;
+}>;
+
+export type ImportedTransactionResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['ImportedTransaction'] = ResolversParentTypes['ImportedTransaction']> = ResolversObject<{
+  accountId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  amount?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  categoryNumber?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
+  customName?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  description?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  transactionDateTime?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  transactionType?: Resolver<ResolversTypes['TransactionType'], ParentType, ContextType>;
+}>;
+
 export type InvestmentHoldingResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['InvestmentHolding'] = ResolversParentTypes['InvestmentHolding']> = ResolversObject<{
   account?: Resolver<ResolversTypes['Account'], ParentType, ContextType>;
   accountId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
@@ -824,15 +2330,65 @@ export type InvestmentHoldingResolvers<ContextType = MercuriusContext, ParentTyp
   categoryId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
   createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   currency?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  currentPrice?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  currentValue?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  dayChange?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  dividendYieldOnCost?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   holdingId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
   notes?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  priceDate?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   realizedGainLoss?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   sector?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  totalDividends?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   totalInvestedAmount?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   totalQuantity?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  totalReturn?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  trailingDividends?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  unrealizedGainLoss?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
 }>;
 
+export type JournalOperationResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['JournalOperation'] = ResolversParentTypes['JournalOperation']> = ResolversObject<{
+  changes?: Resolver<Array<ResolversTypes['AuditEvent']>, ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  operationId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  source?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  status?: Resolver<ResolversTypes['OperationStatus'], ParentType, ContextType>;
+  undoneAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+}>;
+
+export type LoanInstallmentResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['LoanInstallment'] = ResolversParentTypes['LoanInstallment']> = ResolversObject<{
+  amountDue?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  closingBalance?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  dueDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  installmentNumber?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  interest?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  openingBalance?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  paidAmount?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  paidAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  prepayment?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  principal?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  status?: Resolver<ResolversTypes['LoanInstallmentStatus'], ParentType, ContextType>;
+}>;
+
+export type LoanScheduleResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['LoanSchedule'] = ResolversParentTypes['LoanSchedule']> = ResolversObject<{
+  accountId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  currency?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  emi?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  installments?: Resolver<Array<ResolversTypes['LoanInstallment']>, ParentType, ContextType>;
+  installmentsPaid?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  installmentsRemaining?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  interestRate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  loanAmount?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  nextDueDate?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  originalEmi?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  outstandingPrincipal?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  prepaymentMode?: Resolver<ResolversTypes['LoanPrepaymentMode'], ParentType, ContextType>;
+  tenureMonths?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  totalInterest?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  totalPrepaid?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+}>;
+
 export type MonthlyRecurringPatternsResponseResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['MonthlyRecurringPatternsResponse'] = ResolversParentTypes['MonthlyRecurringPatternsResponse']> = ResolversObject<{
   patterns?: Resolver<Array<ResolversTypes['RecurringPattern']>, ParentType, ContextType>;
   summary?: Resolver<ResolversTypes['MonthlyRecurringSummary'], ParentType, ContextType>;
@@ -847,13 +2403,55 @@ export type MonthlyRecurringSummaryResolvers<ContextType = MercuriusContext, Par
 }>;
 
 export type MutationResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['Mutation'] = ResolversParentTypes['Mutation']> = ResolversObject<{
+  archiveCategory?: Resolver<ResolversTypes['Category'], ParentType, ContextType, RequireFields<MutationArchiveCategoryArgs, 'categoryId'>>;
+  commitImport?: Resolver<ResolversTypes['ImportResult'], ParentType, ContextType, RequireFields<MutationCommitImportArgs, 'input'>>;
+  completeReconciliation?: Resolver<ResolversTypes['Reconciliation'], ParentType, ContextType, RequireFields<MutationCompleteReconciliationArgs, 'postAdjustment' | 'reconciliationId'>>;
   createAccount?: Resolver<ResolversTypes['Account'], ParentType, ContextType, RequireFields<MutationCreateAccountArgs, 'input'>>;
+  createBudget?: Resolver<ResolversTypes['Budget'], ParentType, ContextType, RequireFields<MutationCreateBudgetArgs, 'input'>>;
+  createCategory?: Resolver<ResolversTypes['Category'], ParentType, ContextType, RequireFields<MutationCreateCategoryArgs, 'input'>>;
+  createCounterparty?: Resolver<ResolversTypes['Counterparty'], ParentType, ContextType, RequireFields<MutationCreateCounterpartyArgs, 'input'>>;
+  createTag?: Resolver<ResolversTypes['Tag'], ParentType, ContextType, RequireFields<MutationCreateTagArgs, 'input'>>;
   createTransaction?: Resolver<ResolversTypes['Transaction'], ParentType, ContextType, RequireFields<MutationCreateTransactionArgs, 'input'>>;
   deleteAccount?: Resolver<ResolversTypes['DeleteResponse'], ParentType, ContextType, RequireFields<MutationDeleteAccountArgs, 'accountId'>>;
+  deleteBudget?: Resolver<ResolversTypes['DeleteResponse'], ParentType, ContextType, RequireFields<MutationDeleteBudgetArgs, 'budgetId'>>;
+  deleteCounterparty?: Resolver<ResolversTypes['DeleteResponse'], ParentType, ContextType, RequireFields<MutationDeleteCounterpartyArgs, 'counterpartyId'>>;
+  deleteExchangeRate?: Resolver<ResolversTypes['DeleteResponse'], ParentType, ContextType, RequireFields<MutationDeleteExchangeRateArgs, 'rateId'>>;
+  deleteReconciliation?: Resolver<ResolversTypes['DeleteResponse'], ParentType, ContextType, RequireFields<MutationDeleteReconciliationArgs, 'reconciliationId'>>;
+  deleteTag?: Resolver<ResolversTypes['DeleteResponse'], ParentType, ContextType, RequireFields<MutationDeleteTagArgs, 'tagId'>>;
   deleteTransaction?: Resolver<ResolversTypes['DeleteResponse'], ParentType, ContextType, RequireFields<MutationDeleteTransactionArgs, 'transactionId'>>;
+  importExchangeRates?: Resolver<ResolversTypes['ExchangeRateImportResult'], ParentType, ContextType, RequireFields<MutationImportExchangeRatesArgs, 'input'>>;
   manageRecurringPattern?: Resolver<Maybe<ResolversTypes['RecurringPattern']>, ParentType, ContextType, RequireFields<MutationManageRecurringPatternArgs, 'patternId' | 'updateInput'>>;
+  recomputeAccountBalance?: Resolver<ResolversTypes['BalanceRecomputation'], ParentType, ContextType, RequireFields<MutationRecomputeAccountBalanceArgs, 'accountId' | 'dryRun'>>;
+  redoLastOperation?: Resolver<ResolversTypes['UndoResult'], ParentType, ContextType>;
+  restoreAccount?: Resolver<ResolversTypes['Account'], ParentType, ContextType, RequireFields<MutationRestoreAccountArgs, 'accountId'>>;
+  restoreTransaction?: Resolver<ResolversTypes['Transaction'], ParentType, ContextType, RequireFields<MutationRestoreTransactionArgs, 'transactionId'>>;
+  setTransactionsCleared?: Resolver<Array<ResolversTypes['Transaction']>, ParentType, ContextType, RequireFields<MutationSetTransactionsClearedArgs, 'cleared' | 'transactionIds'>>;
+  startReconciliation?: Resolver<ResolversTypes['Reconciliation'], ParentType, ContextType, RequireFields<MutationStartReconciliationArgs, 'input'>>;
+  undoLastOperation?: Resolver<ResolversTypes['UndoResult'], ParentType, ContextType>;
   updateAccount?: Resolver<ResolversTypes['Account'], ParentType, ContextType, RequireFields<MutationUpdateAccountArgs, 'accountId' | 'input'>>;
+  updateBudget?: Resolver<ResolversTypes['Budget'], ParentType, ContextType, RequireFields<MutationUpdateBudgetArgs, 'budgetId' | 'input'>>;
+  updateCategory?: Resolver<ResolversTypes['Category'], ParentType, ContextType, RequireFields<MutationUpdateCategoryArgs, 'categoryId' | 'input'>>;
+  updateCounterparty?: Resolver<ResolversTypes['Counterparty'], ParentType, ContextType, RequireFields<MutationUpdateCounterpartyArgs, 'counterpartyId' | 'input'>>;
+  updateMySettings?: Resolver<ResolversTypes['UserSettings'], ParentType, ContextType, RequireFields<MutationUpdateMySettingsArgs, 'input'>>;
+  updateTag?: Resolver<ResolversTypes['Tag'], ParentType, ContextType, RequireFields<MutationUpdateTagArgs, 'input' | 'tagId'>>;
   updateTransaction?: Resolver<ResolversTypes['Transaction'], ParentType, ContextType, RequireFields<MutationUpdateTransactionArgs, 'input' | 'transactionId'>>;
+  upsertExchangeRate?: Resolver<ResolversTypes['ExchangeRate'], ParentType, ContextType, RequireFields<MutationUpsertExchangeRateArgs, 'input'>>;
+}>;
+
+export type NetWorthHistoryResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['NetWorthHistory'] = ResolversParentTypes['NetWorthHistory']> = ResolversObject<{
+  change?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  currency?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  endDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  interval?: Resolver<ResolversTypes['NetWorthInterval'], ParentType, ContextType>;
+  points?: Resolver<Array<ResolversTypes['NetWorthPoint']>, ParentType, ContextType>;
+  startDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+}>;
+
+export type NetWorthPointResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['NetWorthPoint'] = ResolversParentTypes['NetWorthPoint']> = ResolversObject<{
+  assets?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  date?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  liabilities?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  netWorth?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
 }>;
 
 export type PageInfoResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['PageInfo'] = ResolversParentTypes['PageInfo']> = ResolversObject<{
@@ -861,27 +2459,85 @@ export type PageInfoResolvers<ContextType = MercuriusContext, ParentType extends
   hasNextPage?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
 }>;
 
+export type PerformanceSummaryResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['PerformanceSummary'] = ResolversParentTypes['PerformanceSummary']> = ResolversObject<{
+  endDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  endValue?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  gainLoss?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  netContributions?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  startDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  startValue?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  timeWeightedReturn?: Resolver<Maybe<ResolversTypes['Float']>, ParentType, ContextType>;
+  xirr?: Resolver<Maybe<ResolversTypes['Float']>, ParentType, ContextType>;
+}>;
+
 export type PortfolioDistributionItemResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['PortfolioDistributionItem'] = ResolversParentTypes['PortfolioDistributionItem']> = ResolversObject<{
   category?: Resolver<ResolversTypes['Category'], ParentType, ContextType>;
   categoryId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
   categoryName?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  currency?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   holdingsCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
   investmentSector?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   totalCurrentValue?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   totalInvestedAmount?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
 }>;
 
+export type PortfolioPerformanceResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['PortfolioPerformance'] = ResolversParentTypes['PortfolioPerformance']> = ResolversObject<{
+  accounts?: Resolver<Array<ResolversTypes['AccountPerformance']>, ParentType, ContextType>;
+  currency?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  holdings?: Resolver<Array<ResolversTypes['HoldingPerformance']>, ParentType, ContextType>;
+  portfolio?: Resolver<ResolversTypes['PerformanceSummary'], ParentType, ContextType>;
+}>;
+
 export type QueryResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['Query'] = ResolversParentTypes['Query']> = ResolversObject<{
   getAccount?: Resolver<ResolversTypes['Account'], ParentType, ContextType, RequireFields<QueryGetAccountArgs, 'accountId'>>;
+  getAssetPrices?: Resolver<Array<ResolversTypes['AssetPrice']>, ParentType, ContextType, RequireFields<QueryGetAssetPricesArgs, 'assetSymbol'>>;
+  getCreditCardStatements?: Resolver<ResolversTypes['CreditCardStatements'], ParentType, ContextType, RequireFields<QueryGetCreditCardStatementsArgs, 'accountId' | 'limit'>>;
+  getExchangeRates?: Resolver<Array<ResolversTypes['ExchangeRate']>, ParentType, ContextType, Partial<QueryGetExchangeRatesArgs>>;
+  getLoanSchedule?: Resolver<ResolversTypes['LoanSchedule'], ParentType, ContextType, RequireFields<QueryGetLoanScheduleArgs, 'accountId'>>;
   getMonthlyRecurringPatterns?: Resolver<ResolversTypes['MonthlyRecurringPatternsResponse'], ParentType, ContextType, RequireFields<QueryGetMonthlyRecurringPatternsArgs, 'month' | 'year'>>;
   getMyAccounts?: Resolver<Array<ResolversTypes['Account']>, ParentType, ContextType>;
+  getMyActivityLog?: Resolver<ResolversTypes['AuditEventConnection'], ParentType, ContextType, Partial<QueryGetMyActivityLogArgs>>;
+  getMyBudgetStatus?: Resolver<Array<ResolversTypes['BudgetStatus']>, ParentType, ContextType, RequireFields<QueryGetMyBudgetStatusArgs, 'month'>>;
+  getMyBudgets?: Resolver<Array<ResolversTypes['Budget']>, ParentType, ContextType>;
+  getMyCapitalGainsReport?: Resolver<ResolversTypes['CapitalGainsReport'], ParentType, ContextType, RequireFields<QueryGetMyCapitalGainsReportArgs, 'financialYear'>>;
+  getMyCategories?: Resolver<Array<ResolversTypes['Category']>, ParentType, ContextType, Partial<QueryGetMyCategoriesArgs>>;
+  getMyCounterparties?: Resolver<Array<ResolversTypes['Counterparty']>, ParentType, ContextType>;
+  getMyCounterpartySummary?: Resolver<ResolversTypes['CounterpartySummary'], ParentType, ContextType, RequireFields<QueryGetMyCounterpartySummaryArgs, 'includeSettled'>>;
+  getMyDividendIncome?: Resolver<ResolversTypes['DividendIncome'], ParentType, ContextType, RequireFields<QueryGetMyDividendIncomeArgs, 'endDate' | 'groupBy' | 'startDate'>>;
+  getMyHoldingLots?: Resolver<Array<ResolversTypes['TaxLot']>, ParentType, ContextType, RequireFields<QueryGetMyHoldingLotsArgs, 'holdingId'>>;
   getMyInvestmentHoldings?: Resolver<Array<ResolversTypes['InvestmentHolding']>, ParentType, ContextType, Partial<QueryGetMyInvestmentHoldingsArgs>>;
+  getMyNetWorthHistory?: Resolver<ResolversTypes['NetWorthHistory'], ParentType, ContextType, RequireFields<QueryGetMyNetWorthHistoryArgs, 'endDate' | 'interval' | 'startDate'>>;
   getMyPortfolioDistribution?: Resolver<Array<ResolversTypes['PortfolioDistributionItem']>, ParentType, ContextType, Partial<QueryGetMyPortfolioDistributionArgs>>;
+  getMyPortfolioPerformance?: Resolver<ResolversTypes['PortfolioPerformance'], ParentType, ContextType, Partial<QueryGetMyPortfolioPerformanceArgs>>;
+  getMyReconciliations?: Resolver<Array<ResolversTypes['Reconciliation']>, ParentType, ContextType, Partial<QueryGetMyReconciliationsArgs>>;
   getMyRecurringPatterns?: Resolver<ResolversTypes['RecurringPatternResponse'], ParentType, ContextType, Partial<QueryGetMyRecurringPatternsArgs>>;
+  getMySettings?: Resolver<ResolversTypes['UserSettings'], ParentType, ContextType>;
+  getMyTags?: Resolver<Array<ResolversTypes['Tag']>, ParentType, ContextType>;
   getMyTotals?: Resolver<Array<ResolversTypes['TotalResult']>, ParentType, ContextType, RequireFields<QueryGetMyTotalsArgs, 'input'>>;
   getMyTransaction?: Resolver<ResolversTypes['Transaction'], ParentType, ContextType, RequireFields<QueryGetMyTransactionArgs, 'transactionId'>>;
   getMyTransactions?: Resolver<ResolversTypes['TransactionConnection'], ParentType, ContextType, Partial<QueryGetMyTransactionsArgs>>;
+  getMyTrash?: Resolver<ResolversTypes['Trash'], ParentType, ContextType>;
+  getReconciliation?: Resolver<ResolversTypes['Reconciliation'], ParentType, ContextType, RequireFields<QueryGetReconciliationArgs, 'reconciliationId'>>;
   getRecurringPattern?: Resolver<ResolversTypes['RecurringPattern'], ParentType, ContextType, RequireFields<QueryGetRecurringPatternArgs, 'patternId'>>;
+  previewImport?: Resolver<ResolversTypes['ImportPreview'], ParentType, ContextType, RequireFields<QueryPreviewImportArgs, 'input'>>;
+}>;
+
+export type ReconciliationResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['Reconciliation'] = ResolversParentTypes['Reconciliation']> = ResolversObject<{
+  accountId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  adjustmentAmount?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  adjustmentTransactionId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
+  clearedBalance?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  completedAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  difference?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  expectedBalance?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  notes?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  reconciliationId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  statementBalance?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  statementDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  status?: Resolver<ResolversTypes['ReconciliationStatus'], ParentType, ContextType>;
+  transactions?: Resolver<Array<ResolversTypes['Transaction']>, ParentType, ContextType>;
+  updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
 }>;
 
 export type RecurringPatternResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['RecurringPattern'] = ResolversParentTypes['RecurringPattern']> = ResolversObject<{
@@ -927,14 +2583,61 @@ export type RecurringPatternSummaryResolvers<ContextType = MercuriusContext, Par
   upcoming?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
 }>;
 
+export type SubscriptionResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['Subscription'] = ResolversParentTypes['Subscription']> = ResolversObject<{
+  accountBalanceChanged?: SubscriptionResolver<ResolversTypes['Account'], "accountBalanceChanged", ParentType, ContextType, RequireFields<SubscriptionAccountBalanceChangedArgs, 'accountId'>>;
+  holdingChanged?: SubscriptionResolver<ResolversTypes['HoldingChangeEvent'], "holdingChanged", ParentType, ContextType>;
+  transactionChanged?: SubscriptionResolver<ResolversTypes['TransactionChangeEvent'], "transactionChanged", ParentType, ContextType>;
+}>;
+
+export type TagResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['Tag'] = ResolversParentTypes['Tag']> = ResolversObject<{
+  color?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  name?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  tagId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+}>;
+
+export type TaxLotResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['TaxLot'] = ResolversParentTypes['TaxLot']> = ResolversObject<{
+  accountId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  acquiredAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  assetSymbol?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  buyTransactionId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  costAmount?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  costPerUnit?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  disposals?: Resolver<Array<ResolversTypes['TaxLotDisposal']>, ParentType, ContextType>;
+  isClosed?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
+  lotId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  quantity?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  realizedGainLoss?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  remainingCost?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  remainingQuantity?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+}>;
+
+export type TaxLotDisposalResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['TaxLotDisposal'] = ResolversParentTypes['TaxLotDisposal']> = ResolversObject<{
+  costAmount?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  disposalId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  holdingPeriodDays?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  lotId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  matchMethod?: Resolver<ResolversTypes['LotMatchMethod'], ParentType, ContextType>;
+  proceeds?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  quantity?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  realizedGainLoss?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  sellTransactionId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  soldAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+}>;
+
 export type TotalMetadataResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['TotalMetadata'] = ResolversParentTypes['TotalMetadata']> = ResolversObject<{
   account?: Resolver<Maybe<ResolversTypes['Account']>, ParentType, ContextType>;
   category?: Resolver<Maybe<ResolversTypes['Category']>, ParentType, ContextType>;
   customName?: Resolver<Maybe<ResolversTypes['CustomTransactionName']>, ParentType, ContextType>;
   month?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  tag?: Resolver<Maybe<ResolversTypes['Tag']>, ParentType, ContextType>;
 }>;
 
 export type TotalResultResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['TotalResult'] = ResolversParentTypes['TotalResult']> = ResolversObject<{
+  currency?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   endDate?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   filters?: Resolver<Maybe<ResolversTypes['TotalsFilter']>, ParentType, ContextType>;
   metadata?: Resolver<Maybe<ResolversTypes['TotalMetadata']>, ParentType, ContextType>;
@@ -949,6 +2652,7 @@ export type TotalsFilterResolvers<ContextType = MercuriusContext, ParentType ext
   customNameId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
   isInvestment?: Resolver<Maybe<ResolversTypes['Boolean']>, ParentType, ContextType>;
   isRecurring?: Resolver<Maybe<ResolversTypes['Boolean']>, ParentType, ContextType>;
+  tagIds?: Resolver<Maybe<Array<ResolversTypes['ID']>>, ParentType, ContextType>;
   transactionType?: Resolver<Maybe<ResolversTypes['TransactionType']>, ParentType, ContextType>;
 }>;
 
@@ -967,14 +2671,22 @@ export type TransactionResolvers<ContextType = MercuriusContext, ParentType exte
   categoryName?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   categoryNumber?: Resolver<Maybe<ResolversTypes['Int']>, ParentType, ContextType>;
   categoryType?: Resolver<Maybe<ResolversTypes['CategoryType']>, ParentType, ContextType>;
+  clearingStatus?: Resolver<ResolversTypes['ClearingStatus'], ParentType, ContextType>;
+  corporateActionRatio?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  corporateActionUnits?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  counterparty?: Resolver<Maybe<ResolversTypes['Counterparty']>, ParentType, ContextType>;
+  counterpartyId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
   createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   currency?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   customLogoUrl?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   customName?: Resolver<Maybe<ResolversTypes['CustomTransactionName']>, ParentType, ContextType>;
   customNameId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
   customNameText?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  deletedAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   description?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  exchangeRate?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   feesCharges?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  history?: Resolver<Array<ResolversTypes['AuditEvent']>, ParentType, ContextType>;
   investmentAction?: Resolver<Maybe<ResolversTypes['InvestmentAction']>, ParentType, ContextType>;
   investmentSector?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   isInvestment?: Resolver<ResolversTypes['Boolean'], ParentType, ContextType>;
@@ -986,46 +2698,129 @@ export type TransactionResolvers<ContextType = MercuriusContext, ParentType exte
   paymentMethod?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   pricePerUnit?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
   quantity?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  reconciliationId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
   recurringPatternId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
+  splits?: Resolver<Array<ResolversTypes['TransactionSplit']>, ParentType, ContextType>;
+  tags?: Resolver<Array<ResolversTypes['Tag']>, ParentType, ContextType>;
   transactionDateTime?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   transactionId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
   transactionType?: Resolver<ResolversTypes['TransactionType'], ParentType, ContextType>;
   updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
 }>;
 
+export type TransactionChangeEventResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['TransactionChangeEvent'] = ResolversParentTypes['TransactionChangeEvent']> = ResolversObject<{
+  accountId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  operation?: Resolver<ResolversTypes['ChangeOperation'], ParentType, ContextType>;
+  transaction?: Resolver<Maybe<ResolversTypes['Transaction']>, ParentType, ContextType>;
+  transactionId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+}>;
+
 export type TransactionConnectionResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['TransactionConnection'] = ResolversParentTypes['TransactionConnection']> = ResolversObject<{
   pageInfo?: Resolver<ResolversTypes['PageInfo'], ParentType, ContextType>;
   totals?: Resolver<ResolversTypes['TransactionTotals'], ParentType, ContextType>;
   transactions?: Resolver<Array<ResolversTypes['Transaction']>, ParentType, ContextType>;
 }>;
 
+export type TransactionSplitResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['TransactionSplit'] = ResolversParentTypes['TransactionSplit']> = ResolversObject<{
+  amount?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  category?: Resolver<ResolversTypes['Category'], ParentType, ContextType>;
+  categoryId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  createdAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  customName?: Resolver<Maybe<ResolversTypes['CustomTransactionName']>, ParentType, ContextType>;
+  customNameId?: Resolver<Maybe<ResolversTypes['ID']>, ParentType, ContextType>;
+  description?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+  splitId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  transactionId?: Resolver<ResolversTypes['ID'], ParentType, ContextType>;
+  updatedAt?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+}>;
+
 export type TransactionTotalsResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['TransactionTotals'] = ResolversParentTypes['TransactionTotals']> = ResolversObject<{
+  currency?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   netAmount?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   totalCount?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
   totalCreditAmount?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
   totalDebitAmount?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
 }>;
 
+export type TrashResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['Trash'] = ResolversParentTypes['Trash']> = ResolversObject<{
+  accounts?: Resolver<Array<ResolversTypes['Account']>, ParentType, ContextType>;
+  retentionDays?: Resolver<ResolversTypes['Int'], ParentType, ContextType>;
+  transactions?: Resolver<Array<ResolversTypes['Transaction']>, ParentType, ContextType>;
+}>;
+
+export type UndoResultResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['UndoResult'] = ResolversParentTypes['UndoResult']> = ResolversObject<{
+  accounts?: Resolver<Array<ResolversTypes['Account']>, ParentType, ContextType>;
+  operation?: Resolver<ResolversTypes['JournalOperation'], ParentType, ContextType>;
+  transactions?: Resolver<Array<ResolversTypes['Transaction']>, ParentType, ContextType>;
+}>;
+
+export type UserSettingsResolvers<ContextType = MercuriusContext, ParentType extends ResolversParentTypes['UserSettings'] = ResolversParentTypes['UserSettings']> = ResolversObject<{
+  baseCurrency?: Resolver<ResolversTypes['String'], ParentType, ContextType>;
+  updatedAt?: Resolver<Maybe<ResolversTypes['String']>, ParentType, ContextType>;
+}>;
+
 export type Resolvers<ContextType = MercuriusContext> = ResolversObject<{
   Account?: AccountResolvers<ContextType>;
+  AccountPerformance?: AccountPerformanceResolvers<ContextType>;
+  AssetPrice?: AssetPriceResolvers<ContextType>;
+  AuditEvent?: AuditEventResolvers<ContextType>;
+  AuditEventConnection?: AuditEventConnectionResolvers<ContextType>;
+  BalanceRecomputation?: BalanceRecomputationResolvers<ContextType>;
+  Budget?: BudgetResolvers<ContextType>;
+  BudgetStatus?: BudgetStatusResolvers<ContextType>;
+  CapitalGainEntry?: CapitalGainEntryResolvers<ContextType>;
+  CapitalGainsAssetSummary?: CapitalGainsAssetSummaryResolvers<ContextType>;
+  CapitalGainsReport?: CapitalGainsReportResolvers<ContextType>;
   Category?: CategoryResolvers<ContextType>;
+  Counterparty?: CounterpartyResolvers<ContextType>;
+  CounterpartyBalance?: CounterpartyBalanceResolvers<ContextType>;
+  CounterpartySummary?: CounterpartySummaryResolvers<ContextType>;
+  CreditCardStatement?: CreditCardStatementResolvers<ContextType>;
+  CreditCardStatements?: CreditCardStatementsResolvers<ContextType>;
   CustomTransactionName?: CustomTransactionNameResolvers<ContextType>;
   DeleteResponse?: DeleteResponseResolvers<ContextType>;
+  DividendIncome?: DividendIncomeResolvers<ContextType>;
+  DividendIncomeGroup?: DividendIncomeGroupResolvers<ContextType>;
+  ExchangeRate?: ExchangeRateResolvers<ContextType>;
+  ExchangeRateImportResult?: ExchangeRateImportResultResolvers<ContextType>;
+  HoldingChangeEvent?: HoldingChangeEventResolvers<ContextType>;
+  HoldingPerformance?: HoldingPerformanceResolvers<ContextType>;
+  ImportPreview?: ImportPreviewResolvers<ContextType>;
+  ImportPreviewRow?: ImportPreviewRowResolvers<ContextType>;
+  ImportResult?: ImportResultResolvers<ContextType>;
+  ImportedTransaction?: ImportedTransactionResolvers<ContextType>;
   InvestmentHolding?: InvestmentHoldingResolvers<ContextType>;
+  JournalOperation?: JournalOperationResolvers<ContextType>;
+  LoanInstallment?: LoanInstallmentResolvers<ContextType>;
+  LoanSchedule?: LoanScheduleResolvers<ContextType>;
   MonthlyRecurringPatternsResponse?: MonthlyRecurringPatternsResponseResolvers<ContextType>;
   MonthlyRecurringSummary?: MonthlyRecurringSummaryResolvers<ContextType>;
   Mutation?: MutationResolvers<ContextType>;
+  NetWorthHistory?: NetWorthHistoryResolvers<ContextType>;
+  NetWorthPoint?: NetWorthPointResolvers<ContextType>;
   PageInfo?: PageInfoResolvers<ContextType>;
+  PerformanceSummary?: PerformanceSummaryResolvers<ContextType>;
   PortfolioDistributionItem?: PortfolioDistributionItemResolvers<ContextType>;
+  PortfolioPerformance?: PortfolioPerformanceResolvers<ContextType>;
   Query?: QueryResolvers<ContextType>;
+  Reconciliation?: ReconciliationResolvers<ContextType>;
   RecurringPattern?: RecurringPatternResolvers<ContextType>;
   RecurringPatternResponse?: RecurringPatternResponseResolvers<ContextType>;
   RecurringPatternSummary?: RecurringPatternSummaryResolvers<ContextType>;
+  Subscription?: SubscriptionResolvers<ContextType>;
+  Tag?: TagResolvers<ContextType>;
+  TaxLot?: TaxLotResolvers<ContextType>;
+  TaxLotDisposal?: TaxLotDisposalResolvers<ContextType>;
   TotalMetadata?: TotalMetadataResolvers<ContextType>;
   TotalResult?: TotalResultResolvers<ContextType>;
   TotalsFilter?: TotalsFilterResolvers<ContextType>;
   Transaction?: TransactionResolvers<ContextType>;
+  TransactionChangeEvent?: TransactionChangeEventResolvers<ContextType>;
   TransactionConnection?: TransactionConnectionResolvers<ContextType>;
+  TransactionSplit?: TransactionSplitResolvers<ContextType>;
   TransactionTotals?: TransactionTotalsResolvers<ContextType>;
+  Trash?: TrashResolvers<ContextType>;
+  UndoResult?: UndoResultResolvers<ContextType>;
+  UserSettings?: UserSettingsResolvers<ContextType>;
 }>;
 
@@ -0,0 +1,165 @@
+import { and, desc, eq, notInArray } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import type { FastifyRequest } from "fastify";
+import { UNDO_HISTORY_SIZE } from "../config/constants";
+import type * as schema from "../db/schema";
+import {
+  type AuditEntityType,
+  type AuditOperation,
+  auditEvents,
+  type DbAuditEvent,
+  type DbTransaction,
+  operationJournal,
+  transactions,
+} from "../db/schema";
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = new Set(["updatedAt", "balanceUpdatedAt"]);
+
+export type AuditChange = {
+  operation: AuditOperation;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: object | null;
+  after?: object | null;
+};
+
+// ===========================
+// AUDIT EVENTS
+// ===========================
+
+/**
+ * Append audit events for changed records
+ * Handles: before/after snapshots of the rows, the acting user, request
+ * metadata (request id, IP address, user agent) when a request is given, and
+ * with undoable set, an entry in the user's undo journal
+ * Call inside the database transaction of the change, so history is written
+ * exactly when the change commits
+ */
+export const recordAuditEvents = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  params: {
+    userId: string;
+    actorId?: string | null;
+    source: string;
+    request?: FastifyRequest | null;
+    changes: AuditChange[];
+    undoable?: boolean;
+  }
+): Promise<void> => {
+  const { userId, source, request, changes } = params;
+  if (changes.length === 0) {
+    return;
+  }
+
+  const userAgent = request?.headers["user-agent"];
+  const events = await dbOrTx
+    .insert(auditEvents)
+    .values(
+      changes.map((change) => ({
+        userId,
+        actorId: params.actorId === undefined ? userId : params.actorId,
+        operation: change.operation,
+        entityType: change.entityType,
+        entityId: change.entityId,
+        before: change.before ?? null,
+        after: change.after ?? null,
+        source,
+        requestId: request?.id ?? null,
+        ipAddress: request?.ip ?? null,
+        userAgent: userAgent ?? null,
+      }))
+    )
+    .returning({ eventId: auditEvents.eventId });
+
+  if (params.undoable) {
+    await journalOperation(dbOrTx, {
+      userId,
+      source,
+      eventIds: events.map((event) => event.eventId),
+    });
+  }
+};
+
+/**
+ * Audit changes for a created transaction
+ * Transfers also created the paired transaction in the other account, which
+ * is included
+ */
+export const getTransactionCreateChanges = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  transaction: DbTransaction
+): Promise<AuditChange[]> => {
+  const [pairedTransaction] = await dbOrTx
+    .select()
+    .from(transactions)
+    .where(eq(transactions.linkedTransactionId, transaction.transactionId))
+    .limit(1);
+
+  return [transaction, pairedTransaction]
+    .filter((t): t is DbTransaction => Boolean(t))
+    .map((t) => ({
+      operation: "CREATE",
+      entityType: "TRANSACTION",
+      entityId: t.transactionId,
+      after: t,
+    }));
+};
+
+// ===========================
+// OPERATION JOURNAL
+// ===========================
+
+/**
+ * Add a mutation to the undo journal of a user
+ * Handles: undone entries are dropped (a new change ends redo), and only the
+ * latest UNDO_HISTORY_SIZE entries are kept
+ */
+const journalOperation = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  params: { userId: string; source: string; eventIds: string[] }
+): Promise<void> => {
+  const { userId } = params;
+
+  await dbOrTx
+    .delete(operationJournal)
+    .where(
+      and(
+        eq(operationJournal.userId, userId),
+        eq(operationJournal.status, "UNDONE")
+      )
+    );
+
+  await dbOrTx.insert(operationJournal).values(params);
+
+  const kept = dbOrTx
+    .select({ operationId: operationJournal.operationId })
+    .from(operationJournal)
+    .where(eq(operationJournal.userId, userId))
+    .orderBy(desc(operationJournal.createdAt))
+    .limit(UNDO_HISTORY_SIZE);
+  await dbOrTx
+    .delete(operationJournal)
+    .where(
+      and(
+        eq(operationJournal.userId, userId),
+        notInArray(operationJournal.operationId, kept)
+      )
+    );
+};
+
+/**
+ * Names of the fields that differ between the before and after snapshots
+ * Bookkeeping timestamps are left out
+ */
+export const getChangedFields = (event: DbAuditEvent): string[] => {
+  const before = (event.before ?? {}) as Record<string, unknown>;
+  const after = (event.after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  return [...fields].filter(
+    (field) =>
+      !IGNORED_FIELDS.has(field) &&
+      JSON.stringify(before[field]) !== JSON.stringify(after[field])
+  );
+};
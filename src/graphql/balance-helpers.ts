@@ -0,0 +1,201 @@
+import { and, asc, eq, gte, isNull, sql } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import type { FastifyBaseLogger } from "fastify";
+import type * as schema from "../db/schema";
+import { accounts, type DbAccount, transactions } from "../db/schema";
+import { AMOUNT_DECIMALS, roundAmount } from "../lib/currency";
+import { recordAuditEvents } from "./audit-helpers";
+import { getBalanceChange } from "./mutations/transaction-helpers";
+
+const EPSILON = 0.005; // Half a cent
+
+export type BalanceRecomputeResult = {
+  account: DbAccount; // As stored after the recompute
+  previousBalance: number;
+  hasCheckpoint: boolean; // Whether a checkpoint balance is stored to replay from
+  checkpointBalance: number | null;
+  recomputedBalance: number | null;
+  drift: number | null; // previousBalance - recomputedBalance
+  transactionsCount: number; // Transactions replayed since the checkpoint
+  applied: boolean; // Whether the account was written
+};
+
+export type BalanceCheckResult = {
+  drifted: BalanceRecomputeResult[];
+  withoutCheckpoint: number; // Accounts that could not be verified
+};
+
+// ===========================
+// LEDGER
+// ===========================
+
+/**
+ * Net change of the balance from the transactions since the checkpoint
+ * Uses the same rules as updateAccountBalances: transactions dated before
+ * manualBalanceUpdatedAt are left out, and each one moves the balance by
+ * getBalanceChange for the account group
+ */
+const getLedgerChange = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  account: DbAccount
+): Promise<{ total: number; count: number }> => {
+  const debitSign = getBalanceChange(account.accountGroup, "DEBIT", 1);
+  const [row] = await dbOrTx
+    .select({
+      total: sql<string>`COALESCE(SUM(CASE WHEN ${transactions.transactionType} = 'DEBIT' THEN ${debitSign}::numeric ELSE ${-debitSign}::numeric END * ${transactions.amount}), 0)`,
+      count: sql<number>`COUNT(*)::int`,
+    })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.accountId, account.accountId),
+        isNull(transactions.deletedAt),
+        gte(transactions.transactionDateTime, account.manualBalanceUpdatedAt)
+      )
+    );
+
+  return {
+    total: Number.parseFloat(row?.total ?? "0"),
+    count: row?.count ?? 0,
+  };
+};
+
+/**
+ * Rebuild the balance of an account from its ledger
+ * The balance is the one set at the latest manual checkpoint plus every
+ * transaction since, so drift from incremental updates (such as reversals of
+ * back-dated edits) is corrected. Accounts that predate stored checkpoint
+ * balances have nothing to replay from, so they are reported without a
+ * checkpoint and left as they are until the user sets their balance
+ * With dryRun nothing is written
+ */
+export const recomputeAccountBalance = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  account: DbAccount,
+  options: { dryRun?: boolean } = {}
+): Promise<BalanceRecomputeResult> => {
+  const previousBalance = Number.parseFloat(account.currentBalance);
+  const ledger = await getLedgerChange(dbOrTx, account);
+  if (account.manualBalance === null) {
+    return {
+      account,
+      previousBalance,
+      hasCheckpoint: false,
+      checkpointBalance: null,
+      recomputedBalance: null,
+      drift: null,
+      transactionsCount: ledger.count,
+      applied: false,
+    };
+  }
+
+  const checkpointBalance = Number.parseFloat(account.manualBalance);
+  const recomputedBalance = roundAmount(checkpointBalance + ledger.total);
+  const drift = roundAmount(previousBalance - recomputedBalance);
+
+  const hasDrift = Math.abs(drift) >= EPSILON;
+  const applied = !options.dryRun && hasDrift;
+
+  let stored = account;
+  if (applied) {
+    [stored] = await dbOrTx
+      .update(accounts)
+      .set({
+        currentBalance: recomputedBalance.toFixed(AMOUNT_DECIMALS),
+        updatedAt: new Date(),
+      })
+      .where(eq(accounts.accountId, account.accountId))
+      .returning();
+  }
+
+  return {
+    account: stored,
+    previousBalance,
+    hasCheckpoint: true,
+    checkpointBalance,
+    recomputedBalance,
+    drift: hasDrift ? drift : 0,
+    transactionsCount: ledger.count,
+    applied,
+  };
+};
+
+// ===========================
+// CONSISTENCY CHECK
+// ===========================
+
+/**
+ * Rebuild every account balance from its ledger and report drift
+ * Each account is locked and recomputed in its own transaction; accounts
+ * with drift are logged, and corrected (with an audit event) unless dryRun
+ * is set. Accounts without a checkpoint balance are counted, not checked
+ * Returns the accounts that drifted
+ */
+export const checkAccountBalances = async (
+  db: PostgresJsDatabase<typeof schema>,
+  log: FastifyBaseLogger,
+  options: { dryRun: boolean }
+): Promise<BalanceCheckResult> => {
+  const accountIds = await db
+    .select({ accountId: accounts.accountId })
+    .from(accounts)
+    .where(isNull(accounts.deletedAt))
+    .orderBy(asc(accounts.createdAt));
+
+  const drifted: BalanceRecomputeResult[] = [];
+  let withoutCheckpoint = 0;
+  for (const { accountId } of accountIds) {
+    try {
+      const result = await db.transaction(async (tx) => {
+        const [account] = await tx
+          .select()
+          .from(accounts)
+          .where(eq(accounts.accountId, accountId))
+          .limit(1)
+          .for("update");
+        if (!account) {
+          return;
+        }
+
+        const recomputed = await recomputeAccountBalance(tx, account, options);
+        if (recomputed.applied) {
+          await recordAuditEvents(tx, {
+            userId: account.userId,
+            actorId: null,
+            source: "balance-check",
+            changes: [
+              {
+                operation: "UPDATE",
+                entityType: "ACCOUNT",
+                entityId: accountId,
+                before: account,
+                after: recomputed.account,
+              },
+            ],
+          });
+        }
+        return recomputed;
+      });
+
+      if (result && !result.hasCheckpoint) {
+        withoutCheckpoint += 1;
+      } else if (result && result.drift !== 0) {
+        drifted.push(result);
+        log.warn(
+          {
+            accountId,
+            previousBalance: result.previousBalance,
+            recomputedBalance: result.recomputedBalance,
+            drift: result.drift,
+            applied: result.applied,
+          },
+          "⚠️ Account balance drifted from its ledger"
+        );
+      }
+    } catch (error) {
+      log.error({ error, accountId }, "❌ Failed to check account balance");
+    }
+  }
+
+  return { drifted, withoutCheckpoint };
+};
@@ -0,0 +1,327 @@
+import { and, eq, gte, inArray, isNull, lte, type SQL } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { BUDGET_ROLLOVER_MAX_PERIODS } from "../config/constants";
+import type * as schema from "../db/schema";
+import {
+  type BudgetPeriod,
+  budgets,
+  type DbBudget,
+  transactions,
+} from "../db/schema";
+import { AMOUNT_DECIMALS } from "../lib/currency";
+import { getBaseCurrency } from "./currency-helpers";
+import {
+  aggregateByCategory,
+  aggregateByCustomName,
+  lineCategoryId,
+} from "./totals-helpers";
+
+const MONTH_STRING_REGEX = /^(\d{4})-(\d{2})$/;
+const MONTHS_PER_YEAR = 12;
+const PERCENT = 100;
+
+type PeriodRange = {
+  start: Date;
+  end: Date;
+};
+
+export type BudgetStatusResult = {
+  budget: DbBudget;
+  periodStart: string;
+  periodEnd: string;
+  budgetAmount: string;
+  rolloverAmount: string;
+  spent: string;
+  remaining: string;
+  projected: string;
+  percentUsed: number;
+  isOverBudget: boolean;
+  isProjectedOverBudget: boolean;
+  currency: string;
+};
+
+// ===========================
+// PERIODS
+// ===========================
+
+/**
+ * Parse a "YYYY-MM" string into the first day of that month
+ * Returns null for malformed input
+ */
+export const parseMonthString = (month: string): Date | null => {
+  const match = MONTH_STRING_REGEX.exec(month);
+  if (!match) {
+    return null;
+  }
+
+  const year = Number(match[1]);
+  const monthNum = Number(match[2]);
+  if (monthNum < 1 || monthNum > MONTHS_PER_YEAR) {
+    return null;
+  }
+  return new Date(year, monthNum - 1, 1);
+};
+
+/**
+ * Get the budget period containing a date
+ * Months and years follow the calendar, matching the month filter on transactions
+ */
+export const getPeriodRange = (
+  period: BudgetPeriod,
+  date: Date,
+  offset = 0
+): PeriodRange => {
+  if (period === "YEARLY") {
+    const year = date.getFullYear() + offset;
+    return {
+      start: new Date(year, 0, 1),
+      end: new Date(year + 1, 0, 1, 0, 0, 0, -1),
+    };
+  }
+
+  const month = date.getMonth() + offset;
+  return {
+    start: new Date(date.getFullYear(), month, 1),
+    end: new Date(date.getFullYear(), month + 1, 1, 0, 0, 0, -1),
+  };
+};
+
+// ===========================
+// SPENDING
+// ===========================
+
+/**
+ * Sum spending per budget within one date range
+ * Reuses the category and custom-name aggregations so budgets see exactly the
+ * totals that getMyTotals reports (debits, excluding transfers, in base currency)
+ */
+const getSpentByBudget = async (
+  db: PostgresJsDatabase<typeof schema>,
+  params: {
+    userId: string;
+    baseCurrency: string;
+    budgetList: DbBudget[];
+    range: PeriodRange;
+  }
+): Promise<Map<string, number>> => {
+  const { userId, baseCurrency, budgetList, range } = params;
+  const conditions: SQL[] = [
+    eq(transactions.userId, userId),
+    eq(transactions.transactionType, "DEBIT"),
+    eq(transactions.isTransfer, false),
+    isNull(transactions.deletedAt),
+    gte(transactions.transactionDateTime, range.start),
+    lte(transactions.transactionDateTime, range.end),
+  ];
+  const common = {
+    db,
+    userId,
+    baseCurrency,
+    startDate: range.start.toISOString(),
+    endDate: range.end.toISOString(),
+    filters: null,
+    timeBucket: "NONE" as const,
+  };
+
+  const categoryIds = budgetList
+    .map((b) => b.categoryId)
+    .filter((id): id is string => id !== null);
+  const customNameIds = budgetList
+    .map((b) => b.customNameId)
+    .filter((id): id is string => id !== null);
+
+  const [byCategory, byCustomName] = await Promise.all([
+    categoryIds.length > 0
+      ? aggregateByCategory({
+          ...common,
+          conditions: [...conditions, inArray(lineCategoryId, categoryIds)],
+          groupBy: "CATEGORY",
+        })
+      : [],
+    customNameIds.length > 0
+      ? aggregateByCustomName({
+          ...common,
+          conditions: [
+            ...conditions,
+            inArray(transactions.customNameId, customNameIds),
+          ],
+          groupBy: "CUSTOM_NAME",
+        })
+      : [],
+  ]);
+
+  const spentByTarget = new Map<string, number>();
+  for (const result of byCategory) {
+    const id = result.metadata?.category?.categoryId;
+    if (id) {
+      spentByTarget.set(id, Number.parseFloat(result.total));
+    }
+  }
+  for (const result of byCustomName) {
+    const id = result.metadata?.customName?.customNameId;
+    if (id) {
+      spentByTarget.set(id, Number.parseFloat(result.total));
+    }
+  }
+
+  return new Map(
+    budgetList.map((b) => [
+      b.budgetId,
+      spentByTarget.get(b.categoryId ?? b.customNameId ?? "") ?? 0,
+    ])
+  );
+};
+
+/**
+ * Calculate unused budget carried into the period containing `date`
+ * Walks forward from the oldest eligible period (at most
+ * BUDGET_ROLLOVER_MAX_PERIODS back); overspending resets the carry to zero
+ */
+const getRolloverAmounts = async (
+  db: PostgresJsDatabase<typeof schema>,
+  params: {
+    userId: string;
+    baseCurrency: string;
+    budgetList: DbBudget[];
+    date: Date;
+  }
+): Promise<Map<string, number>> => {
+  const { userId, baseCurrency, budgetList, date } = params;
+  const carry = new Map(budgetList.map((b) => [b.budgetId, 0]));
+
+  for (let offset = -BUDGET_ROLLOVER_MAX_PERIODS; offset < 0; offset += 1) {
+    for (const period of ["MONTHLY", "YEARLY"] as const) {
+      const range = getPeriodRange(period, date, offset);
+      const eligible = budgetList.filter(
+        (b) =>
+          b.period === period &&
+          getPeriodRange(period, b.startDate).start <= range.start
+      );
+      if (eligible.length === 0) {
+        continue;
+      }
+
+      const spent = await getSpentByBudget(db, {
+        userId,
+        baseCurrency,
+        budgetList: eligible,
+        range,
+      });
+
+      for (const b of eligible) {
+        const available =
+          Number.parseFloat(b.amount) + (carry.get(b.budgetId) ?? 0);
+        carry.set(
+          b.budgetId,
+          Math.max(0, available - (spent.get(b.budgetId) ?? 0))
+        );
+      }
+    }
+  }
+
+  return carry;
+};
+
+// ===========================
+// STATUS
+// ===========================
+
+// Share of the period that has elapsed (0 before it starts, 1 once it ended)
+const getElapsedFraction = (range: PeriodRange, now: Date) => {
+  if (now <= range.start) {
+    return 0;
+  }
+  if (now >= range.end) {
+    return 1;
+  }
+  return (
+    (now.getTime() - range.start.getTime()) /
+    (range.end.getTime() - range.start.getTime())
+  );
+};
+
+/**
+ * Budget progress for the month containing `month`
+ * Handles: monthly and yearly budgets, rollover, projection at the current pace
+ * Budgets that start after the requested period are left out
+ */
+export const getBudgetStatus = async (
+  db: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  month: Date,
+  now: Date = new Date()
+): Promise<BudgetStatusResult[]> => {
+  const activeBudgets = await db
+    .select()
+    .from(budgets)
+    .where(and(eq(budgets.userId, userId), eq(budgets.isActive, true)))
+    .orderBy(budgets.createdAt);
+
+  const budgetList = activeBudgets.filter(
+    (b) =>
+      getPeriodRange(b.period, b.startDate).start <=
+      getPeriodRange(b.period, month).start
+  );
+  if (budgetList.length === 0) {
+    return [];
+  }
+
+  const baseCurrency = await getBaseCurrency(db, userId);
+  const ranges = {
+    MONTHLY: getPeriodRange("MONTHLY", month),
+    YEARLY: getPeriodRange("YEARLY", month),
+  };
+
+  const [monthlySpent, yearlySpent, rollover] = await Promise.all([
+    getSpentByBudget(db, {
+      userId,
+      baseCurrency,
+      budgetList: budgetList.filter((b) => b.period === "MONTHLY"),
+      range: ranges.MONTHLY,
+    }),
+    getSpentByBudget(db, {
+      userId,
+      baseCurrency,
+      budgetList: budgetList.filter((b) => b.period === "YEARLY"),
+      range: ranges.YEARLY,
+    }),
+    getRolloverAmounts(db, {
+      userId,
+      baseCurrency,
+      budgetList: budgetList.filter((b) => b.rollover),
+      date: month,
+    }),
+  ]);
+
+  return budgetList.map((budget) => {
+    const range = ranges[budget.period];
+    const spent =
+      (budget.period === "MONTHLY" ? monthlySpent : yearlySpent).get(
+        budget.budgetId
+      ) ?? 0;
+    const rolloverAmount = rollover.get(budget.budgetId) ?? 0;
+    const budgetAmount = Number.parseFloat(budget.amount) + rolloverAmount;
+
+    // Extrapolate spending so far over the whole period
+    const elapsed = getElapsedFraction(range, now);
+    const projected = elapsed > 0 ? spent / elapsed : spent;
+
+    return {
+      budget,
+      periodStart: range.start.toISOString(),
+      periodEnd: range.end.toISOString(),
+      budgetAmount: budgetAmount.toFixed(AMOUNT_DECIMALS),
+      rolloverAmount: rolloverAmount.toFixed(AMOUNT_DECIMALS),
+      spent: spent.toFixed(AMOUNT_DECIMALS),
+      remaining: (budgetAmount - spent).toFixed(AMOUNT_DECIMALS),
+      projected: projected.toFixed(AMOUNT_DECIMALS),
+      percentUsed:
+        budgetAmount > 0
+          ? Number(((spent / budgetAmount) * PERCENT).toFixed(AMOUNT_DECIMALS))
+          : 0,
+      isOverBudget: spent > budgetAmount,
+      isProjectedOverBudget: projected > budgetAmount,
+      currency: baseCurrency,
+    };
+  });
+};
@@ -0,0 +1,335 @@
+import { and, desc, eq, gte, lte, sql } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import {
+  CAPITAL_GAINS_DEFAULT_LONG_TERM_DAYS,
+  FINANCIAL_YEAR_START_MONTH,
+} from "../config/constants";
+import type * as schema from "../db/schema";
+import {
+  accounts,
+  capitalGainsRules,
+  categories,
+  type DbCapitalGainsRule,
+  type DbCategory,
+  type DbTaxLot,
+  type DbTaxLotDisposal,
+  taxLotDisposals,
+  taxLots,
+  transactions,
+} from "../db/schema";
+import { applyLongTermExemption } from "../lib/capital-gains";
+import { QUANTITY_DECIMALS, roundAmount } from "../lib/currency";
+import { getBaseCurrency, toBaseCurrency } from "./currency-helpers";
+import { backfillTaxLots } from "./lot-helpers";
+import { getPriceOn } from "./price-helpers";
+
+const FINANCIAL_YEAR_REGEX = /^(?:FY\s*)?(\d{4})-(\d{2}|\d{4})$/i;
+const SHORT_YEAR_DIGITS = 2;
+const YEARS_PER_CENTURY = 100;
+const MS_PER_DAY = 86_400_000;
+
+export type GainTerm = "SHORT_TERM" | "LONG_TERM";
+
+export type FinancialYear = {
+  label: string; // e.g. "2024-25"
+  start: Date;
+  end: Date;
+};
+
+export type CapitalGainEntryResult = {
+  disposal: DbTaxLotDisposal;
+  lot: DbTaxLot;
+  category: DbCategory;
+  ruleId: string | null;
+  holdingPeriodDays: number;
+  term: GainTerm;
+  proceeds: number;
+  costAmount: number;
+  fairMarketValue: number | null;
+  costBasis: number;
+  gainLoss: number;
+};
+
+export type CapitalGainsAssetResult = {
+  assetSymbol: string;
+  category: DbCategory;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  shortTermGainLoss: number;
+  longTermGainLoss: number;
+};
+
+export type CapitalGainsReportResult = {
+  financialYear: FinancialYear;
+  currency: string;
+  shortTermGainLoss: number;
+  longTermGainLoss: number;
+  longTermExemption: number;
+  taxableLongTermGain: number;
+  assets: CapitalGainsAssetResult[];
+  entries: CapitalGainEntryResult[];
+};
+
+// ===========================
+// FINANCIAL YEARS
+// ===========================
+
+/**
+ * Parse a financial year such as "2024-25", "2024-2025" or "FY2024-25"
+ * Returns null for malformed input or years that are not consecutive
+ */
+export const parseFinancialYear = (value: string): FinancialYear | null => {
+  const match = FINANCIAL_YEAR_REGEX.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const startYear = Number(match[1]);
+  const endYear = Number(match[2]);
+  const expectedEnd =
+    match[2].length === SHORT_YEAR_DIGITS
+      ? (startYear + 1) % YEARS_PER_CENTURY
+      : startYear + 1;
+  if (endYear !== expectedEnd) {
+    return null;
+  }
+
+  const suffix = String((startYear + 1) % YEARS_PER_CENTURY).padStart(
+    SHORT_YEAR_DIGITS,
+    "0"
+  );
+  return {
+    label: `${startYear}-${suffix}`,
+    start: new Date(startYear, FINANCIAL_YEAR_START_MONTH, 1),
+    end: new Date(startYear + 1, FINANCIAL_YEAR_START_MONTH, 1, 0, 0, 0, -1),
+  };
+};
+
+// ===========================
+// RULES
+// ===========================
+
+/**
+ * Find the rule for a sale
+ * Among rules in effect on the sale date, a category rule beats an investment
+ * sector rule, which beats a default rule; newer rules win ties
+ */
+const findRule = (
+  rules: DbCapitalGainsRule[],
+  category: DbCategory,
+  soldAt: Date
+): DbCapitalGainsRule | null => {
+  const inEffect = rules.filter(
+    (rule) =>
+      rule.effectiveFrom <= soldAt &&
+      (!rule.effectiveTo || rule.effectiveTo >= soldAt)
+  );
+
+  return (
+    inEffect.find((rule) => rule.categoryId === category.categoryId) ??
+    inEffect.find(
+      (rule) =>
+        rule.categoryId === null &&
+        rule.investmentSector !== null &&
+        rule.investmentSector === category.investmentSector
+    ) ??
+    inEffect.find(
+      (rule) => rule.categoryId === null && rule.investmentSector === null
+    ) ??
+    null
+  );
+};
+
+/**
+ * Fair market value of the units sold on the rule's grandfathering date
+ * Only applies to lots acquired on or before that date; null when the rule
+ * has no grandfathering or no price was stored for that date
+ */
+const getGrandfatheredValue = async (
+  db: PostgresJsDatabase<typeof schema>,
+  rule: DbCapitalGainsRule | null,
+  lot: DbTaxLot,
+  quantity: number
+): Promise<number | null> => {
+  if (!rule?.grandfatherDate || lot.acquiredAt > rule.grandfatherDate) {
+    return null;
+  }
+
+  const price = await getPriceOn(db, lot.assetSymbol, rule.grandfatherDate);
+  return price === null ? null : Number.parseFloat(price) * quantity;
+};
+
+// ===========================
+// REPORT
+// ===========================
+
+// Sum entries per asset, in order of first sale
+const summarizeByAsset = (
+  entries: CapitalGainEntryResult[]
+): CapitalGainsAssetResult[] => {
+  const byAsset = new Map<string, CapitalGainsAssetResult>();
+
+  for (const entry of entries) {
+    const summary = byAsset.get(entry.lot.assetSymbol) ?? {
+      assetSymbol: entry.lot.assetSymbol,
+      category: entry.category,
+      quantity: 0,
+      proceeds: 0,
+      costBasis: 0,
+      shortTermGainLoss: 0,
+      longTermGainLoss: 0,
+    };
+
+    summary.quantity = Number(
+      (summary.quantity + Number.parseFloat(entry.disposal.quantity)).toFixed(
+        QUANTITY_DECIMALS
+      )
+    );
+    summary.proceeds = roundAmount(summary.proceeds + entry.proceeds);
+    summary.costBasis = roundAmount(summary.costBasis + entry.costBasis);
+    if (entry.term === "LONG_TERM") {
+      summary.longTermGainLoss = roundAmount(
+        summary.longTermGainLoss + entry.gainLoss
+      );
+    } else {
+      summary.shortTermGainLoss = roundAmount(
+        summary.shortTermGainLoss + entry.gainLoss
+      );
+    }
+    byAsset.set(entry.lot.assetSymbol, summary);
+  }
+
+  return [...byAsset.values()];
+};
+
+// Yearly exemption limits of the rules that classified long-term sales
+const getExemptionLimits = (
+  entries: CapitalGainEntryResult[],
+  rules: DbCapitalGainsRule[]
+): number[] => {
+  const ruleIds = new Set(
+    entries
+      .filter((entry) => entry.term === "LONG_TERM")
+      .map((entry) => entry.ruleId)
+  );
+
+  return rules
+    .filter((rule) => ruleIds.has(rule.ruleId))
+    .map((rule) => Number.parseFloat(rule.longTermExemptionLimit));
+};
+
+/**
+ * Capital gains realized in a financial year
+ * Handles: short/long-term classification per rule, grandfathered cost
+ * (cost = higher of actual cost and the grandfathering-date value, capped at
+ * the sale proceeds), one yearly exemption on the net long-term gain,
+ * base-currency conversion at the sale date
+ * Gains come from the FIFO / specific-lot matching of tax lots
+ */
+export const getCapitalGainsReport = async (
+  db: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  financialYear: FinancialYear
+): Promise<CapitalGainsReportResult> => {
+  await backfillTaxLots(db, userId);
+
+  const baseCurrency = await getBaseCurrency(db, userId);
+  const rules = await db
+    .select()
+    .from(capitalGainsRules)
+    .orderBy(desc(capitalGainsRules.effectiveFrom));
+
+  const rows = await db
+    .select({
+      disposal: taxLotDisposals,
+      lot: taxLots,
+      category: categories,
+      // Conversion rate to the base currency at the sale date
+      rate: toBaseCurrency({
+        amount: sql`1`,
+        currency: accounts.currency,
+        at: taxLotDisposals.soldAt,
+        userId,
+        baseCurrency,
+      }).mapWith(String),
+    })
+    .from(taxLotDisposals)
+    .innerJoin(taxLots, eq(taxLotDisposals.lotId, taxLots.lotId))
+    .innerJoin(accounts, eq(taxLots.accountId, accounts.accountId))
+    .innerJoin(
+      transactions,
+      eq(taxLots.buyTransactionId, transactions.transactionId)
+    )
+    .innerJoin(categories, eq(transactions.categoryId, categories.categoryId))
+    .where(
+      and(
+        eq(taxLotDisposals.userId, userId),
+        gte(taxLotDisposals.soldAt, financialYear.start),
+        lte(taxLotDisposals.soldAt, financialYear.end)
+      )
+    )
+    .orderBy(taxLotDisposals.soldAt, taxLots.assetSymbol);
+
+  const entries: CapitalGainEntryResult[] = [];
+  for (const { disposal, lot, category, rate } of rows) {
+    const quantity = Number.parseFloat(disposal.quantity);
+    const factor = Number.parseFloat(rate);
+    const rule = findRule(rules, category, disposal.soldAt);
+
+    const proceeds = Number.parseFloat(disposal.proceeds);
+    const costAmount = Number.parseFloat(disposal.costAmount);
+    const fairMarketValue = await getGrandfatheredValue(
+      db,
+      rule,
+      lot,
+      quantity
+    );
+    const costBasis =
+      fairMarketValue === null
+        ? costAmount
+        : Math.max(costAmount, Math.min(fairMarketValue, proceeds));
+
+    const holdingPeriodDays = Math.floor(
+      (disposal.soldAt.getTime() - lot.acquiredAt.getTime()) / MS_PER_DAY
+    );
+    const longTermAfterDays =
+      rule?.longTermAfterDays ?? CAPITAL_GAINS_DEFAULT_LONG_TERM_DAYS;
+
+    entries.push({
+      disposal,
+      lot,
+      category,
+      ruleId: rule?.ruleId ?? null,
+      holdingPeriodDays,
+      term: holdingPeriodDays > longTermAfterDays ? "LONG_TERM" : "SHORT_TERM",
+      proceeds: roundAmount(proceeds * factor),
+      costAmount: roundAmount(costAmount * factor),
+      fairMarketValue:
+        fairMarketValue === null ? null : roundAmount(fairMarketValue * factor),
+      costBasis: roundAmount(costBasis * factor),
+      gainLoss: roundAmount((proceeds - costBasis) * factor),
+    });
+  }
+
+  const totalFor = (term: GainTerm) =>
+    roundAmount(
+      entries
+        .filter((entry) => entry.term === term)
+        .reduce((sum, entry) => sum + entry.gainLoss, 0)
+    );
+  const longTermGainLoss = totalFor("LONG_TERM");
+
+  return {
+    financialYear,
+    currency: baseCurrency,
+    shortTermGainLoss: totalFor("SHORT_TERM"),
+    longTermGainLoss,
+    ...applyLongTermExemption(
+      longTermGainLoss,
+      getExemptionLimits(entries, rules)
+    ),
+    assets: summarizeByAsset(entries),
+    entries,
+  };
+};
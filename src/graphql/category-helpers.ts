@@ -0,0 +1,161 @@
+import { and, eq, inArray, isNull, or, type SQL, sql } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { GraphQLError } from "graphql";
+import {
+  DEPOSIT_INTEREST_CATEGORY_NUMBER,
+  DEPOSIT_TRANSFER_CATEGORY_NUMBER,
+  RECONCILIATION_ADJUSTMENT_CATEGORY_NUMBER,
+} from "../config/constants";
+import type * as schema from "../db/schema";
+import { categories, type DbCategory } from "../db/schema";
+
+// System categories the server books transactions to on its own, with the
+// setting that chooses each number
+const REQUIRED_SYSTEM_CATEGORIES = [
+  {
+    setting: "DEPOSIT_INTEREST_CATEGORY_NUMBER",
+    categoryNumber: DEPOSIT_INTEREST_CATEGORY_NUMBER,
+    categoryName: "Fixed Deposit Interest",
+  },
+  {
+    setting: "DEPOSIT_TRANSFER_CATEGORY_NUMBER",
+    categoryNumber: DEPOSIT_TRANSFER_CATEGORY_NUMBER,
+    categoryName: "Fixed Deposit Payout",
+  },
+  {
+    setting: "RECONCILIATION_ADJUSTMENT_CATEGORY_NUMBER",
+    categoryNumber: RECONCILIATION_ADJUSTMENT_CATEGORY_NUMBER,
+    categoryName: "Reconciliation Adjustment",
+  },
+];
+
+// Condition matching system categories and the user's own categories
+export const categoryVisibleTo = (userId: string): SQL =>
+  or(isNull(categories.userId), eq(categories.userId, userId)) as SQL;
+
+/**
+ * Reject a category name already used by a system category or by another of
+ * the user's categories (case-insensitive)
+ */
+export const assertCategoryNameAvailable = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  params: { userId: string; categoryName: string; exceptCategoryId?: string }
+): Promise<void> => {
+  const [existing] = await dbOrTx
+    .select({ categoryId: categories.categoryId })
+    .from(categories)
+    .where(
+      and(
+        categoryVisibleTo(params.userId),
+        sql`lower(${categories.categoryName}) = ${params.categoryName.toLowerCase()}`
+      )
+    )
+    .limit(1);
+
+  if (existing && existing.categoryId !== params.exceptCategoryId) {
+    throw new GraphQLError(
+      `A category named "${params.categoryName}" already exists`,
+      { extensions: { code: "BAD_USER_INPUT" } }
+    );
+  }
+};
+
+/**
+ * Validate a subcategory parent link
+ * Categories nest one level deep: the parent must be a visible top-level
+ * category of the same type, and a category with subcategories cannot itself
+ * become a subcategory
+ */
+export const validateParentCategory = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  params: {
+    parent: DbCategory;
+    categoryType: DbCategory["categoryType"];
+    categoryId?: string;
+  }
+): Promise<void> => {
+  const { parent, categoryType, categoryId } = params;
+
+  if (parent.categoryId === categoryId) {
+    throw new GraphQLError("A category cannot be its own parent", {
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+  if (parent.parentCategoryId) {
+    throw new GraphQLError("Subcategories cannot have subcategories", {
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+  if (parent.categoryType !== categoryType) {
+    throw new GraphQLError(
+      "A subcategory must have the same type as its parent",
+      { extensions: { code: "BAD_USER_INPUT" } }
+    );
+  }
+
+  if (categoryId) {
+    const [child] = await dbOrTx
+      .select({ categoryId: categories.categoryId })
+      .from(categories)
+      .where(eq(categories.parentCategoryId, categoryId))
+      .limit(1);
+
+    if (child) {
+      throw new GraphQLError(
+        "A category with subcategories cannot become a subcategory",
+        { extensions: { code: "BAD_USER_INPUT" } }
+      );
+    }
+  }
+};
+
+// ===========================
+// SYSTEM CATEGORIES
+// ===========================
+
+/**
+ * Seed the system categories that jobs and helpers book transactions to
+ * Missing ones are inserted under their configured numbers; a number that is
+ * taken by a user category fails, so a misconfigured server stops at startup
+ * instead of booking transactions to the wrong category
+ */
+export const ensureSystemCategories = async (
+  db: PostgresJsDatabase<typeof schema>
+): Promise<void> => {
+  await db
+    .insert(categories)
+    .values(
+      REQUIRED_SYSTEM_CATEGORIES.map((category) => ({
+        userId: null,
+        categoryType: "GENERAL" as const,
+        categoryName: category.categoryName,
+        categoryNumber: category.categoryNumber,
+        isSystemCategory: true,
+      }))
+    )
+    .onConflictDoNothing();
+
+  const seeded = await db
+    .select()
+    .from(categories)
+    .where(
+      and(
+        isNull(categories.userId),
+        inArray(
+          categories.categoryNumber,
+          REQUIRED_SYSTEM_CATEGORIES.map((category) => category.categoryNumber)
+        )
+      )
+    );
+  for (const required of REQUIRED_SYSTEM_CATEGORIES) {
+    if (
+      !seeded.some(
+        (category) => category.categoryNumber === required.categoryNumber
+      )
+    ) {
+      throw new Error(
+        `${required.setting} (${required.categoryNumber}) is not a system category; set it to a free number or to a system category's number`
+      );
+    }
+  }
+};
@@ -0,0 +1,255 @@
+import {
+  and,
+  asc,
+  eq,
+  inArray,
+  isNotNull,
+  isNull,
+  type SQL,
+  sql,
+} from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { GraphQLError } from "graphql";
+import type * as schema from "../db/schema";
+import {
+  counterparties,
+  type DbCounterparty,
+  transactions,
+} from "../db/schema";
+import { roundAmount } from "../lib/currency";
+import { getBaseCurrency, toBaseCurrency } from "./currency-helpers";
+
+const COUNTERPARTY_NAME_MAX_LENGTH = 100;
+const WHITESPACE_REGEX = /\s+/g;
+
+export type CounterpartyBalanceResult = {
+  counterparty: DbCounterparty;
+  given: number;
+  received: number;
+  outstanding: number; // Positive when the person owes the user
+  transactionsCount: number;
+  lastTransactionDate: Date | null;
+  isReminderDue: boolean;
+};
+
+export type CounterpartySummaryResult = {
+  currency: string;
+  owedToMe: number;
+  iOwe: number;
+  balances: CounterpartyBalanceResult[];
+};
+
+// ===========================
+// COUNTERPARTIES
+// ===========================
+
+/**
+ * Normalise a counterparty name (trimmed, inner whitespace collapsed)
+ * Throws for empty or overly long names
+ */
+export const normalizeCounterpartyName = (name: string): string => {
+  const normalized = name.trim().replace(WHITESPACE_REGEX, " ");
+  if (!normalized || normalized.length > COUNTERPARTY_NAME_MAX_LENGTH) {
+    throw new GraphQLError(
+      `Counterparty names must be between 1 and ${COUNTERPARTY_NAME_MAX_LENGTH} characters`,
+      { extensions: { code: "BAD_USER_INPUT" } }
+    );
+  }
+  return normalized;
+};
+
+/**
+ * Verify counterparty ownership
+ */
+export const verifyCounterpartyOwnership = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  counterpartyId: string,
+  userId: string
+): Promise<DbCounterparty> => {
+  const [counterparty] = await dbOrTx
+    .select()
+    .from(counterparties)
+    .where(
+      and(
+        eq(counterparties.counterpartyId, counterpartyId),
+        eq(counterparties.userId, userId)
+      )
+    )
+    .limit(1);
+
+  if (!counterparty) {
+    throw new GraphQLError("Counterparty not found or access denied", {
+      extensions: { code: "FORBIDDEN" },
+    });
+  }
+
+  return counterparty;
+};
+
+/**
+ * Find a counterparty by name, or create it
+ * Names match case-insensitively, so "Ravi" and "ravi" are the same person
+ */
+export const findOrCreateCounterparty = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  name: string
+): Promise<DbCounterparty> => {
+  const normalized = normalizeCounterpartyName(name);
+
+  const [existing] = await dbOrTx
+    .select()
+    .from(counterparties)
+    .where(
+      and(
+        eq(counterparties.userId, userId),
+        sql`lower(${counterparties.name}) = ${normalized.toLowerCase()}`
+      )
+    )
+    .limit(1);
+  if (existing) {
+    return existing;
+  }
+
+  const [created] = await dbOrTx
+    .insert(counterparties)
+    .values({ userId, name: normalized })
+    .returning();
+  return created;
+};
+
+/**
+ * Resolve the counterparty of a transaction from its input
+ * counterpartyName (found or created) wins over counterpartyId; an explicit
+ * null counterpartyId clears it and undefined leaves it untouched
+ */
+export const resolveCounterpartyId = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  params: {
+    userId: string;
+    counterpartyId?: string | null;
+    counterpartyName?: string | null;
+  }
+): Promise<string | null | undefined> => {
+  const { userId, counterpartyId, counterpartyName } = params;
+
+  if (counterpartyName) {
+    const counterparty = await findOrCreateCounterparty(
+      dbOrTx,
+      userId,
+      counterpartyName
+    );
+    return counterparty.counterpartyId;
+  }
+  if (counterpartyId) {
+    await verifyCounterpartyOwnership(dbOrTx, counterpartyId, userId);
+  }
+  return counterpartyId;
+};
+
+// ===========================
+// BALANCES
+// ===========================
+
+/**
+ * What each person owes the user, or the user owes them
+ * Money paid to a person (debits) adds to what they owe and money received
+ * from them (credits) reduces it, so partial repayments simply lower the
+ * balance; amounts are converted to the base currency at the transaction
+ * date. Settled people (nothing outstanding) are left out unless
+ * includeSettled is set
+ */
+export const getCounterpartySummary = async (
+  db: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  options: {
+    counterpartyIds?: string[];
+    includeSettled?: boolean;
+    now?: Date;
+  } = {}
+): Promise<CounterpartySummaryResult> => {
+  const now = options.now ?? new Date();
+  const baseCurrency = await getBaseCurrency(db, userId);
+  const converted = toBaseCurrency({
+    amount: transactions.amount,
+    currency: transactions.currency,
+    at: transactions.transactionDateTime,
+    userId,
+    baseCurrency,
+  });
+
+  const counterpartyConditions: SQL[] = [eq(counterparties.userId, userId)];
+  const transactionConditions: SQL[] = [
+    eq(transactions.userId, userId),
+    isNotNull(transactions.counterpartyId),
+    isNull(transactions.deletedAt),
+  ];
+  if (options.counterpartyIds) {
+    counterpartyConditions.push(
+      inArray(counterparties.counterpartyId, options.counterpartyIds)
+    );
+    transactionConditions.push(
+      inArray(transactions.counterpartyId, options.counterpartyIds)
+    );
+  }
+
+  const [people, rows] = await Promise.all([
+    db
+      .select()
+      .from(counterparties)
+      .where(and(...counterpartyConditions))
+      .orderBy(asc(counterparties.name)),
+    db
+      .select({
+        counterpartyId: transactions.counterpartyId,
+        given: sql<string>`COALESCE(SUM(CASE WHEN ${transactions.transactionType} = 'DEBIT' THEN ${converted} ELSE 0 END), 0)`,
+        received: sql<string>`COALESCE(SUM(CASE WHEN ${transactions.transactionType} = 'CREDIT' THEN ${converted} ELSE 0 END), 0)`,
+        transactionsCount: sql<number>`COUNT(*)::int`,
+        lastTransactionDate: sql<Date>`MAX(${transactions.transactionDateTime})`,
+      })
+      .from(transactions)
+      .where(and(...transactionConditions))
+      .groupBy(transactions.counterpartyId),
+  ]);
+
+  const totalsById = new Map(rows.map((row) => [row.counterpartyId, row]));
+  const balances = people
+    .map((counterparty): CounterpartyBalanceResult => {
+      const totals = totalsById.get(counterparty.counterpartyId);
+      const given = roundAmount(Number.parseFloat(totals?.given ?? "0"));
+      const received = roundAmount(Number.parseFloat(totals?.received ?? "0"));
+      const outstanding = roundAmount(given - received);
+
+      return {
+        counterparty,
+        given,
+        received,
+        outstanding,
+        transactionsCount: totals?.transactionsCount ?? 0,
+        lastTransactionDate: totals?.lastTransactionDate
+          ? new Date(totals.lastTransactionDate)
+          : null,
+        isReminderDue:
+          outstanding !== 0 &&
+          counterparty.reminderDate !== null &&
+          counterparty.reminderDate <= now,
+      };
+    })
+    .filter((balance) => options.includeSettled || balance.outstanding !== 0)
+    .sort((a, b) => Math.abs(b.outstanding) - Math.abs(a.outstanding));
+
+  return {
+    currency: baseCurrency,
+    owedToMe: roundAmount(
+      balances
+        .filter((balance) => balance.outstanding > 0)
+        .reduce((sum, balance) => sum + balance.outstanding, 0)
+    ),
+    iOwe: roundAmount(
+      balances
+        .filter((balance) => balance.outstanding < 0)
+        .reduce((sum, balance) => sum - balance.outstanding, 0)
+    ),
+    balances,
+  };
+};
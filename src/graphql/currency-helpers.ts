@@ -0,0 +1,151 @@
+import { type Column, eq, type SQL, sql } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { DEFAULT_BASE_CURRENCY } from "../config/constants";
+import type * as schema from "../db/schema";
+import { exchangeRates, userSettings } from "../db/schema";
+import type { ExchangeRateRow } from "../lib/currency";
+
+// ===========================
+// BASE CURRENCY
+// ===========================
+
+/**
+ * Get the currency a user's totals are reported in
+ */
+export const getBaseCurrency = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  userId: string
+): Promise<string> => {
+  const [settings] = await dbOrTx
+    .select({ baseCurrency: userSettings.baseCurrency })
+    .from(userSettings)
+    .where(eq(userSettings.userId, userId))
+    .limit(1);
+
+  return settings?.baseCurrency ?? DEFAULT_BASE_CURRENCY;
+};
+
+// ===========================
+// RATE LOOKUP
+// ===========================
+
+// Best stored rate for one direction of a currency pair
+// Prefers the latest rate on or before the date, then the closest later one,
+// and the user's own rate over a shared one for the same day
+const directRate = (
+  userId: string,
+  from: SQL | string,
+  to: SQL | string,
+  at: SQL | Date
+): SQL => sql`(
+  SELECT ${exchangeRates.rate}
+  FROM ${exchangeRates}
+  WHERE ${exchangeRates.baseCurrency} = ${from}
+    AND ${exchangeRates.quoteCurrency} = ${to}
+    AND (${exchangeRates.userId} = ${userId} OR ${exchangeRates.userId} IS NULL)
+  ORDER BY ${exchangeRates.rateDate} <= ${at}::timestamptz DESC,
+    ABS(EXTRACT(EPOCH FROM ${exchangeRates.rateDate} - ${at}::timestamptz)),
+    ${exchangeRates.userId} NULLS LAST
+  LIMIT 1
+)`;
+
+/**
+ * SQL expression for the rate converting `from` into `to` at a point in time
+ * Falls back to the inverse of the opposite pair; NULL when no rate is stored
+ */
+export const exchangeRateSql = (
+  userId: string,
+  from: SQL | string,
+  to: SQL | string,
+  at: SQL | Date
+): SQL =>
+  sql`COALESCE(${directRate(userId, from, to, at)}, 1 / NULLIF(${directRate(userId, to, from, at)}, 0))`;
+
+/**
+ * SQL expression converting an amount column into the base currency
+ * Amounts without a currency are treated as base currency; amounts without
+ * any stored rate are counted unconverted rather than dropped
+ */
+export const toBaseCurrency = (params: {
+  amount: Column | SQL;
+  currency: Column;
+  at: Column | SQL;
+  userId: string;
+  baseCurrency: string;
+}): SQL => {
+  const { amount, currency, at, userId, baseCurrency } = params;
+
+  return sql`(${amount}::numeric * CASE
+    WHEN COALESCE(${currency}, ${baseCurrency}) = ${baseCurrency} THEN 1
+    ELSE COALESCE(${exchangeRateSql(userId, sql`${currency}`, baseCurrency, sql`${at}`)}, 1)
+  END)`;
+};
+
+/**
+ * Get the rate converting one currency into another on a date
+ * Returns null when no direct or inverse rate is stored
+ */
+export const getExchangeRate = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  params: { userId: string; from: string; to: string; at: Date }
+): Promise<string | null> => {
+  const { userId, from, to, at } = params;
+  if (from === to) {
+    return "1";
+  }
+
+  const [row] = await dbOrTx.execute<{ rate: string | null }>(
+    sql`SELECT (${exchangeRateSql(userId, from, to, at)})::text AS rate`
+  );
+
+  return row?.rate ?? null;
+};
+
+// ===========================
+// RATE STORAGE
+// ===========================
+
+/**
+ * Insert or replace exchange rates
+ * A rate is unique per owner, currency pair and day; userId null stores
+ * shared rates loaded from the rates file
+ */
+export const upsertExchangeRates = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  params: {
+    userId: string | null;
+    rows: ExchangeRateRow[];
+    source: schema.ExchangeRateSource;
+  }
+): Promise<schema.DbExchangeRate[]> => {
+  const { userId, source } = params;
+
+  // Later lines win when the same pair and day appears twice
+  const unique = new Map(
+    params.rows.map((row) => [
+      `${row.baseCurrency}:${row.quoteCurrency}:${row.rateDate.toISOString()}`,
+      row,
+    ])
+  );
+  if (unique.size === 0) {
+    return [];
+  }
+
+  return await dbOrTx
+    .insert(exchangeRates)
+    .values([...unique.values()].map((row) => ({ ...row, userId, source })))
+    .onConflictDoUpdate({
+      target: [
+        exchangeRates.userId,
+        exchangeRates.baseCurrency,
+        exchangeRates.quoteCurrency,
+        exchangeRates.rateDate,
+      ],
+      set: {
+        rate: sql`excluded.rate`,
+        source: sql`excluded.source`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+};
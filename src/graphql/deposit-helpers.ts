@@ -0,0 +1,403 @@
+import { and, asc, eq, isNull, lte } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import type { FastifyBaseLogger } from "fastify";
+import {
+  DEPOSIT_INTEREST_CATEGORY_NUMBER,
+  DEPOSIT_TRANSFER_CATEGORY_NUMBER,
+} from "../config/constants";
+import type * as schema from "../db/schema";
+import {
+  accounts,
+  type DbAccount,
+  type DepositCompounding,
+} from "../db/schema";
+import type {
+  AccountType,
+  CreateAccountInput,
+  DepositPayoutMode,
+} from "../generated/graphql";
+import { AMOUNT_DECIMALS } from "../lib/currency";
+import {
+  type AuditChange,
+  getTransactionCreateChanges,
+  recordAuditEvents,
+} from "./audit-helpers";
+import {
+  createTransactionWithEffects,
+  verifyAccountOwnership,
+} from "./mutations/transaction-helpers";
+import { badInput, parseDateInput } from "./validation-helpers";
+
+const MS_PER_YEAR = 31_536_000_000; // 365 days
+const PERCENT = 100;
+
+// Compounding periods per year (SIMPLE accrues without compounding)
+const PERIODS_PER_YEAR: Record<
+  Exclude<DepositCompounding, "SIMPLE">,
+  number
+> = {
+  MONTHLY: 12,
+  QUARTERLY: 4,
+  HALF_YEARLY: 2,
+  YEARLY: 1,
+};
+
+export type DepositInput = Pick<
+  CreateAccountInput,
+  | "interestRate"
+  | "depositPrincipal"
+  | "depositCompounding"
+  | "depositStartDate"
+  | "depositMaturityDate"
+  | "depositPayoutMode"
+  | "linkedAccountId"
+>;
+
+export type DepositValues = {
+  accruedInterest: string | null;
+  maturityValue: string | null;
+};
+
+type DepositTerms = {
+  principal: number;
+  rate: number; // Fraction per year
+  compounding: DepositCompounding;
+  startDate: Date;
+  maturityDate: Date;
+};
+
+// ===========================
+// INTEREST
+// ===========================
+
+// Terms of a fixed deposit; null unless every field needed for interest is set
+const getDepositTerms = (account: DbAccount): DepositTerms | null => {
+  if (
+    account.accountType !== "FIXED_DEPOSIT" ||
+    !account.depositPrincipal ||
+    !account.interestRate ||
+    !account.depositCompounding ||
+    !account.depositStartDate ||
+    !account.depositMaturityDate
+  ) {
+    return null;
+  }
+
+  return {
+    principal: Number.parseFloat(account.depositPrincipal),
+    rate: Number.parseFloat(account.interestRate) / PERCENT,
+    compounding: account.depositCompounding,
+    startDate: account.depositStartDate,
+    maturityDate: account.depositMaturityDate,
+  };
+};
+
+/**
+ * Value of a deposit on a date
+ * Interest accrues from the start date and stops at maturity; compounding
+ * deposits grow as P(1 + r/n)^(n·t), simple ones as P(1 + r·t)
+ */
+const depositValueOn = (terms: DepositTerms, date: Date): number => {
+  const end = Math.min(date.getTime(), terms.maturityDate.getTime());
+  const years = Math.max(0, (end - terms.startDate.getTime()) / MS_PER_YEAR);
+
+  if (terms.compounding === "SIMPLE") {
+    return terms.principal * (1 + terms.rate * years);
+  }
+
+  const periods = PERIODS_PER_YEAR[terms.compounding];
+  return terms.principal * (1 + terms.rate / periods) ** (periods * years);
+};
+
+/**
+ * Interest earned so far and the amount paid out at maturity
+ * Both are null for accounts that are not fully described fixed deposits
+ */
+export const calculateDepositValues = (
+  account: DbAccount,
+  now: Date = new Date()
+): DepositValues => {
+  const terms = getDepositTerms(account);
+  if (!terms) {
+    return { accruedInterest: null, maturityValue: null };
+  }
+
+  return {
+    accruedInterest: (depositValueOn(terms, now) - terms.principal).toFixed(
+      AMOUNT_DECIMALS
+    ),
+    maturityValue: depositValueOn(terms, terms.maturityDate).toFixed(
+      AMOUNT_DECIMALS
+    ),
+  };
+};
+
+// ===========================
+// VALIDATION
+// ===========================
+
+const hasDepositFields = (input: DepositInput) =>
+  [
+    input.depositPrincipal,
+    input.depositCompounding,
+    input.depositStartDate,
+    input.depositMaturityDate,
+    input.depositPayoutMode,
+    input.linkedAccountId,
+  ].some((value) => value !== undefined && value !== null);
+
+// Check the merged deposit terms are complete and consistent
+const validateDepositTerms = (
+  values: Partial<typeof accounts.$inferInsert>
+) => {
+  const principal = Number.parseFloat(values.depositPrincipal ?? "");
+  const rate = Number.parseFloat(values.interestRate ?? "");
+  if (
+    Number.isNaN(principal) ||
+    Number.isNaN(rate) ||
+    !values.depositCompounding ||
+    !values.depositStartDate ||
+    !values.depositMaturityDate
+  ) {
+    throw badInput(
+      "Fixed deposits need depositPrincipal, interestRate, depositCompounding, depositStartDate and depositMaturityDate"
+    );
+  }
+  if (principal <= 0) {
+    throw badInput("depositPrincipal must be greater than 0");
+  }
+  if (rate < 0) {
+    throw badInput("interestRate cannot be negative");
+  }
+  if (values.depositMaturityDate <= values.depositStartDate) {
+    throw badInput("depositMaturityDate must be after depositStartDate");
+  }
+  if (
+    values.depositPayoutMode === "TRANSFER_TO_LINKED_ACCOUNT" &&
+    !values.linkedAccountId
+  ) {
+    throw badInput("TRANSFER_TO_LINKED_ACCOUNT needs a linkedAccountId");
+  }
+};
+
+/**
+ * Resolve the fixed deposit fields of a create or update
+ * Handles: validation of the merged terms, linked account ownership, terms
+ * locked once the deposit has matured
+ * Returns only the columns to write; interestRate is passed through for
+ * other account types (e.g. loans)
+ */
+export const resolveDepositFields = async (
+  db: PostgresJsDatabase<typeof schema>,
+  params: {
+    userId: string;
+    accountType: AccountType;
+    input: DepositInput;
+    existing?: DbAccount;
+  }
+): Promise<Partial<typeof accounts.$inferInsert>> => {
+  const { userId, accountType, input, existing } = params;
+  const updates: Partial<typeof accounts.$inferInsert> = {};
+  if (input.interestRate) {
+    updates.interestRate = input.interestRate;
+  }
+  if (!hasDepositFields(input)) {
+    return updates;
+  }
+
+  if (accountType !== "FIXED_DEPOSIT") {
+    throw badInput("Deposit fields only apply to FIXED_DEPOSIT accounts");
+  }
+  if (existing?.depositMaturedAt) {
+    throw badInput("A matured deposit's terms can no longer change");
+  }
+
+  if (input.depositPrincipal) {
+    updates.depositPrincipal = input.depositPrincipal;
+  }
+  if (input.depositCompounding) {
+    updates.depositCompounding = input.depositCompounding;
+  }
+  if (input.depositStartDate) {
+    updates.depositStartDate = parseDateInput(
+      input.depositStartDate,
+      "depositStartDate"
+    );
+  }
+  if (input.depositMaturityDate) {
+    updates.depositMaturityDate = parseDateInput(
+      input.depositMaturityDate,
+      "depositMaturityDate"
+    );
+  }
+  if (input.depositPayoutMode) {
+    updates.depositPayoutMode = input.depositPayoutMode;
+  }
+  if (input.linkedAccountId) {
+    updates.linkedAccountId = input.linkedAccountId;
+  }
+
+  validateDepositTerms({ ...existing, ...updates });
+
+  if (updates.linkedAccountId) {
+    if (updates.linkedAccountId === existing?.accountId) {
+      throw badInput("A deposit cannot be linked to itself");
+    }
+    await verifyAccountOwnership(db, updates.linkedAccountId, userId);
+  }
+
+  return updates;
+};
+
+// ===========================
+// MATURITY
+// ===========================
+
+const payoutModeOf = (account: DbAccount): DepositPayoutMode =>
+  account.depositPayoutMode === "TRANSFER_TO_LINKED_ACCOUNT" &&
+  account.linkedAccountId
+    ? "TRANSFER_TO_LINKED_ACCOUNT"
+    : "RETAIN_IN_DEPOSIT";
+
+/**
+ * Run the maturity event of a single deposit
+ * The account row is locked with SKIP LOCKED and depositMaturedAt is set in the
+ * same database transaction as the payouts, so a deposit matures only once.
+ * Interest is credited to the deposit on the maturity date; with
+ * TRANSFER_TO_LINKED_ACCOUNT the maturity amount then moves to the linked
+ * account through a transfer and the deposit is closed. The changes are
+ * audited as made by the system
+ * Returns whether the deposit matured
+ */
+const matureDeposit = (
+  db: PostgresJsDatabase<typeof schema>,
+  accountId: string,
+  now: Date
+): Promise<boolean> =>
+  db.transaction(async (tx) => {
+    const [account] = await tx
+      .select()
+      .from(accounts)
+      .where(
+        and(
+          eq(accounts.accountId, accountId),
+          eq(accounts.isActive, true),
+          isNull(accounts.deletedAt),
+          isNull(accounts.depositMaturedAt),
+          lte(accounts.depositMaturityDate, now)
+        )
+      )
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const terms = account ? getDepositTerms(account) : null;
+    // Already processed by another instance, or changed since the scan
+    if (!(account && terms)) {
+      return false;
+    }
+
+    const maturityValue = Number(
+      depositValueOn(terms, terms.maturityDate).toFixed(AMOUNT_DECIMALS)
+    );
+    const interest = maturityValue - terms.principal;
+    const transactionDateTime = terms.maturityDate.toISOString();
+    const changes: AuditChange[] = [];
+
+    if (interest > 0) {
+      const credited = await createTransactionWithEffects(tx, {
+        userId: account.userId,
+        input: {
+          accountId: account.accountId,
+          categoryNumber: DEPOSIT_INTEREST_CATEGORY_NUMBER,
+          amount: interest.toFixed(AMOUNT_DECIMALS),
+          transactionType: "CREDIT",
+          transactionDateTime,
+          description: `Interest on ${account.accountName} at maturity`,
+        },
+        location: null,
+      });
+      changes.push(...(await getTransactionCreateChanges(tx, credited)));
+    }
+
+    const payoutMode = payoutModeOf(account);
+    if (payoutMode === "TRANSFER_TO_LINKED_ACCOUNT") {
+      const payout = await createTransactionWithEffects(tx, {
+        userId: account.userId,
+        input: {
+          accountId: account.accountId,
+          categoryNumber: DEPOSIT_TRANSFER_CATEGORY_NUMBER,
+          amount: maturityValue.toFixed(AMOUNT_DECIMALS),
+          transactionType: "DEBIT",
+          transactionDateTime,
+          description: `Maturity payout of ${account.accountName}`,
+          isTransfer: true,
+          otherAccountId: account.linkedAccountId,
+        },
+        location: null,
+      });
+      changes.push(...(await getTransactionCreateChanges(tx, payout)));
+    }
+
+    const [matured] = await tx
+      .update(accounts)
+      .set({
+        depositMaturedAt: now,
+        isActive: payoutMode === "RETAIN_IN_DEPOSIT",
+        updatedAt: now,
+      })
+      .where(eq(accounts.accountId, account.accountId))
+      .returning();
+    changes.push({
+      operation: "UPDATE",
+      entityType: "ACCOUNT",
+      entityId: account.accountId,
+      before: account,
+      after: matured,
+    });
+
+    await recordAuditEvents(tx, {
+      userId: account.userId,
+      actorId: null,
+      source: "deposit-maturity",
+      changes,
+    });
+
+    return true;
+  });
+
+/**
+ * Run the maturity event of every deposit that is due
+ * A failing deposit is logged and skipped so it cannot block the others
+ * Returns the number of deposits matured
+ */
+export const matureDueDeposits = async (
+  db: PostgresJsDatabase<typeof schema>,
+  log: FastifyBaseLogger,
+  now: Date = new Date()
+): Promise<number> => {
+  // Scan due deposits (served by accounts_deposit_maturity_idx)
+  const dueDeposits = await db
+    .select({ accountId: accounts.accountId })
+    .from(accounts)
+    .where(
+      and(
+        eq(accounts.accountType, "FIXED_DEPOSIT"),
+        eq(accounts.isActive, true),
+        isNull(accounts.deletedAt),
+        isNull(accounts.depositMaturedAt),
+        lte(accounts.depositMaturityDate, now)
+      )
+    )
+    .orderBy(asc(accounts.depositMaturityDate));
+
+  let total = 0;
+  for (const { accountId } of dueDeposits) {
+    try {
+      total += (await matureDeposit(db, accountId, now)) ? 1 : 0;
+    } catch (error) {
+      log.error({ error, accountId }, "❌ Failed to mature fixed deposit");
+    }
+  }
+
+  return total;
+};
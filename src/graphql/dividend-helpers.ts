@@ -0,0 +1,216 @@
+import { and, eq, gte, inArray, isNull, lte, type SQL, sql } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { DIVIDEND_TRAILING_MONTHS } from "../config/constants";
+import type * as schema from "../db/schema";
+import { accounts, type DbInvestmentHolding, transactions } from "../db/schema";
+import type { DividendGroupBy } from "../generated/graphql";
+import { AMOUNT_DECIMALS } from "../lib/currency";
+import { getBaseCurrency, toBaseCurrency } from "./currency-helpers";
+import type { MarketValues } from "./price-helpers";
+
+const PERCENT = 100;
+
+export type HoldingDividends = {
+  totalDividends: number;
+  trailingDividends: number; // Paid within the last DIVIDEND_TRAILING_MONTHS
+};
+
+export type DividendValues = {
+  totalDividends: string;
+  trailingDividends: string;
+  dividendYieldOnCost: string | null;
+  totalReturn: string;
+};
+
+export type DividendIncomeGroupResult = {
+  key: string;
+  assetSymbol: string | null;
+  accountId: string | null;
+  accountName: string | null;
+  month: string | null;
+  amount: string;
+  paymentsCount: number;
+};
+
+export type DividendIncomeResult = {
+  currency: string;
+  total: string;
+  groups: DividendIncomeGroupResult[];
+};
+
+// Dividends are credits; a debit (e.g. a reversed payout) counts against them
+const signedAmount = sql`CASE WHEN ${transactions.transactionType} = 'DEBIT' THEN -${transactions.amount} ELSE ${transactions.amount} END`;
+
+const dividendConditions = (userId: string): SQL[] => [
+  eq(transactions.userId, userId),
+  eq(transactions.isInvestment, true),
+  eq(transactions.investmentAction, "DIVIDEND"),
+  isNull(transactions.deletedAt),
+];
+
+// ===========================
+// HOLDING DIVIDENDS
+// ===========================
+
+/**
+ * Sum the dividends received per asset
+ * Amounts stay in the currency they were paid in, which is the holding's own
+ * currency when dividends are credited to the investment account
+ */
+export const getHoldingDividends = async (
+  db: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  assetSymbols: string[],
+  now: Date = new Date()
+): Promise<Map<string, HoldingDividends>> => {
+  if (assetSymbols.length === 0) {
+    return new Map();
+  }
+
+  const trailingStart = new Date(now);
+  trailingStart.setMonth(trailingStart.getMonth() - DIVIDEND_TRAILING_MONTHS);
+
+  const rows = await db
+    .select({
+      assetSymbol: transactions.assetSymbol,
+      totalDividends: sql<string>`COALESCE(SUM(${signedAmount}), 0)`,
+      trailingDividends: sql<string>`COALESCE(SUM(CASE WHEN ${transactions.transactionDateTime} >= ${trailingStart} THEN ${signedAmount} ELSE 0 END), 0)`,
+    })
+    .from(transactions)
+    .where(
+      and(
+        ...dividendConditions(userId),
+        inArray(transactions.assetSymbol, [...new Set(assetSymbols)])
+      )
+    )
+    .groupBy(transactions.assetSymbol);
+
+  return new Map(
+    rows.map((row) => [
+      row.assetSymbol ?? "",
+      {
+        totalDividends: Number.parseFloat(row.totalDividends),
+        trailingDividends: Number.parseFloat(row.trailingDividends),
+      },
+    ])
+  );
+};
+
+/**
+ * Income fields of a holding
+ * Yield on cost is trailing dividends over the amount still invested; total
+ * return adds realized gains, unrealized gains (zero while the asset is
+ * unpriced) and all dividends received
+ */
+export const calculateDividendValues = (
+  holding: DbInvestmentHolding,
+  dividends: HoldingDividends | undefined,
+  market: MarketValues
+): DividendValues => {
+  const total = dividends?.totalDividends ?? 0;
+  const trailing = dividends?.trailingDividends ?? 0;
+  const invested = Number.parseFloat(holding.totalInvestedAmount);
+  const totalReturn =
+    Number.parseFloat(holding.realizedGainLoss ?? "0") +
+    Number.parseFloat(market.unrealizedGainLoss ?? "0") +
+    total;
+
+  return {
+    totalDividends: total.toFixed(AMOUNT_DECIMALS),
+    trailingDividends: trailing.toFixed(AMOUNT_DECIMALS),
+    dividendYieldOnCost:
+      invested > 0
+        ? ((trailing / invested) * PERCENT).toFixed(AMOUNT_DECIMALS)
+        : null,
+    totalReturn: totalReturn.toFixed(AMOUNT_DECIMALS),
+  };
+};
+
+// ===========================
+// DIVIDEND INCOME
+// ===========================
+
+// SQL expression each grouping collects dividends by
+const groupKeySql = (groupBy: DividendGroupBy): SQL => {
+  if (groupBy === "ACCOUNT") {
+    return sql`${transactions.accountId}`;
+  }
+  if (groupBy === "MONTH") {
+    return sql`TO_CHAR(${transactions.transactionDateTime}, 'YYYY-MM')`;
+  }
+  // Dividends recorded without an asset are grouped under ""
+  return sql`COALESCE(${transactions.assetSymbol}, '')`;
+};
+
+/**
+ * Dividend income between two dates, grouped by asset, account or month
+ * Amounts are converted to the base currency at the payment date; months are
+ * returned in date order, assets and accounts by income (highest first)
+ */
+export const getDividendIncome = async (
+  db: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  params: { startDate: Date; endDate: Date; groupBy: DividendGroupBy }
+): Promise<DividendIncomeResult> => {
+  const { startDate, endDate, groupBy } = params;
+  const baseCurrency = await getBaseCurrency(db, userId);
+  const groupKey = groupKeySql(groupBy);
+  const amount = sql<string>`COALESCE(ROUND(SUM(${toBaseCurrency({
+    amount: signedAmount,
+    currency: transactions.currency,
+    at: transactions.transactionDateTime,
+    userId,
+    baseCurrency,
+  })}), 2), 0)`;
+
+  const rows = await db
+    .select({
+      key: sql<string>`${groupKey}`,
+      amount,
+      paymentsCount: sql<number>`COUNT(*)::int`,
+    })
+    .from(transactions)
+    .where(
+      and(
+        ...dividendConditions(userId),
+        gte(transactions.transactionDateTime, startDate),
+        lte(transactions.transactionDateTime, endDate)
+      )
+    )
+    .groupBy(groupKey)
+    .orderBy(groupBy === "MONTH" ? groupKey : sql`${amount} DESC`);
+
+  const accountIds = groupBy === "ACCOUNT" ? rows.map((row) => row.key) : [];
+  const accountNames = new Map(
+    accountIds.length > 0
+      ? (
+          await db
+            .select({
+              accountId: accounts.accountId,
+              accountName: accounts.accountName,
+            })
+            .from(accounts)
+            .where(inArray(accounts.accountId, accountIds))
+        ).map((account) => [account.accountId, account.accountName])
+      : []
+  );
+
+  const total = rows.reduce(
+    (sum, row) => sum + Number.parseFloat(row.amount),
+    0
+  );
+
+  return {
+    currency: baseCurrency,
+    total: total.toFixed(AMOUNT_DECIMALS),
+    groups: rows.map((row) => ({
+      key: row.key,
+      assetSymbol: groupBy === "ASSET" ? row.key : null,
+      accountId: groupBy === "ACCOUNT" ? row.key : null,
+      accountName: accountNames.get(row.key) ?? null,
+      month: groupBy === "MONTH" ? row.key : null,
+      amount: Number.parseFloat(row.amount).toFixed(AMOUNT_DECIMALS),
+      paymentsCount: row.paymentsCount,
+    })),
+  };
+};
@@ -0,0 +1,377 @@
+import { and, asc, eq, inArray, isNull, type SQL, sql } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { EXPORT_BATCH_SIZE } from "../config/constants";
+import type * as schema from "../db/schema";
+import {
+  accounts,
+  categories,
+  customTransactionNames,
+  investmentHoldings,
+  recurringPatterns,
+  transactions,
+} from "../db/schema";
+import type { GetTransactionsInput } from "../generated/graphql";
+import { toCsv } from "../lib/export/csv";
+import {
+  ofxDocumentEnd,
+  ofxDocumentStart,
+  ofxStatementEnd,
+  ofxStatementStart,
+  ofxTransaction,
+} from "../lib/export/ofx";
+import type { TransactionWithDetails } from "../types";
+import {
+  getCapitalGainsReport,
+  parseFinancialYear,
+} from "./capital-gains-helpers";
+import { formatCapitalGainEntryForGraphQL } from "./queries/capital-gains";
+import { buildFilterConditions } from "./queries/transactions";
+
+export type ExportFormat = "CSV" | "JSON" | "OFX";
+
+export type ExportDataset =
+  | "accounts"
+  | "transactions"
+  | "investmentHoldings"
+  | "recurringPatterns"
+  | "capitalGains";
+
+export type ExportRequest = {
+  format: ExportFormat;
+  dataset?: ExportDataset | null; // CSV only, defaults to transactions
+  financialYear?: string | null; // Required for the capitalGains dataset, e.g. "2024-25"
+  options?: Omit<GetTransactionsInput, "limit" | "cursor" | "order"> | null;
+};
+
+export const EXPORT_DATASETS: ExportDataset[] = [
+  "accounts",
+  "transactions",
+  "investmentHoldings",
+  "recurringPatterns",
+  "capitalGains",
+];
+
+const TRANSACTION_COLUMNS: (keyof TransactionWithDetails & string)[] = [
+  "transactionId",
+  "transactionDateTime",
+  "accountId",
+  "accountName",
+  "accountNumber",
+  "transactionType",
+  "amount",
+  "currency",
+  "categoryNumber",
+  "categoryName",
+  "categoryType",
+  "investmentSector",
+  "customName",
+  "description",
+  "location",
+  "paymentMethod",
+  "isInvestment",
+  "assetSymbol",
+  "quantity",
+  "pricePerUnit",
+  "investmentAction",
+  "feesCharges",
+  "isRecurring",
+  "recurringFrequency",
+  "recurringPatternName",
+  "isTransfer",
+  "linkedTransactionId",
+  "exchangeRate",
+  "createdAt",
+  "updatedAt",
+];
+
+type ExportContext = {
+  db: PostgresJsDatabase<typeof schema>;
+  userId: string;
+  options: ExportRequest["options"];
+  financialYear: ExportRequest["financialYear"];
+};
+
+// ===========================
+// DATA SOURCES
+// ===========================
+
+// Account IDs selected by the filter (all accounts when none given)
+const getAccountFilter = (options: ExportRequest["options"]) =>
+  options?.accountId && options.accountId.length > 0 ? options.accountId : null;
+
+const loadAccounts = async ({ db, userId, options }: ExportContext) => {
+  const accountIds = getAccountFilter(options);
+  const conditions: SQL[] = [
+    eq(accounts.userId, userId),
+    isNull(accounts.deletedAt),
+  ];
+  if (accountIds) {
+    conditions.push(inArray(accounts.accountId, accountIds));
+  }
+
+  return await db
+    .select()
+    .from(accounts)
+    .where(and(...conditions))
+    .orderBy(asc(accounts.createdAt));
+};
+
+const loadInvestmentHoldings = async ({
+  db,
+  userId,
+  options,
+}: ExportContext) => {
+  const accountIds = getAccountFilter(options);
+  const conditions: SQL[] = [eq(investmentHoldings.userId, userId)];
+  if (accountIds) {
+    conditions.push(inArray(investmentHoldings.accountId, accountIds));
+  }
+  if (options?.assetSymbol) {
+    conditions.push(eq(investmentHoldings.assetSymbol, options.assetSymbol));
+  }
+
+  return await db
+    .select()
+    .from(investmentHoldings)
+    .where(and(...conditions))
+    .orderBy(asc(investmentHoldings.assetSymbol));
+};
+
+const loadRecurringPatterns = async ({
+  db,
+  userId,
+  options,
+}: ExportContext) => {
+  const accountIds = getAccountFilter(options);
+  const conditions: SQL[] = [eq(recurringPatterns.userId, userId)];
+  if (accountIds) {
+    conditions.push(inArray(recurringPatterns.accountId, accountIds));
+  }
+  if (options?.recurringPatternId) {
+    conditions.push(
+      eq(recurringPatterns.patternId, options.recurringPatternId)
+    );
+  }
+
+  return await db
+    .select()
+    .from(recurringPatterns)
+    .where(and(...conditions))
+    .orderBy(asc(recurringPatterns.createdAt));
+};
+
+// Realized gains of one financial year, one row per lot disposal
+const loadCapitalGains = async ({
+  db,
+  userId,
+  financialYear,
+}: ExportContext) => {
+  const year = parseFinancialYear(financialYear ?? "");
+  if (!year) {
+    return [];
+  }
+
+  const report = await getCapitalGainsReport(db, userId, year);
+  return report.entries.map((entry) => ({
+    ...formatCapitalGainEntryForGraphQL(entry),
+    categoryName: entry.category.categoryName,
+    investmentSector: entry.category.investmentSector,
+    currency: report.currency,
+  }));
+};
+
+/**
+ * Iterate filtered transactions in batches, oldest first
+ * Uses keyset pagination on (transactionDateTime, transactionId) so memory
+ * stays flat and no row is skipped or repeated regardless of export size
+ */
+async function* iterateTransactions(
+  { db, userId, options }: ExportContext,
+  extraConditions: SQL[] = []
+): AsyncGenerator<TransactionWithDetails[]> {
+  const conditions = [
+    ...buildFilterConditions(userId, options ?? {}),
+    ...extraConditions,
+  ];
+  let last: { transactionDateTime: Date; transactionId: string } | null = null;
+
+  while (true) {
+    const keyset: SQL[] = last
+      ? [
+          sql`(${transactions.transactionDateTime}, ${transactions.transactionId}) > (${last.transactionDateTime}, ${last.transactionId})`,
+        ]
+      : [];
+
+    const batch: TransactionWithDetails[] = await db
+      .select({
+        transactionId: transactions.transactionId,
+        accountId: transactions.accountId,
+        amount: transactions.amount,
+        currency: transactions.currency,
+        transactionType: transactions.transactionType,
+        transactionDateTime: transactions.transactionDateTime,
+        description: transactions.description,
+        location: transactions.location,
+        paymentMethod: transactions.paymentMethod,
+        attachments: sql<
+          TransactionWithDetails["attachments"]
+        >`${transactions.attachments}`,
+        isInvestment: transactions.isInvestment,
+        assetSymbol: transactions.assetSymbol,
+        quantity: transactions.quantity,
+        pricePerUnit: transactions.pricePerUnit,
+        investmentAction: transactions.investmentAction,
+        feesCharges: transactions.feesCharges,
+        isRecurring: transactions.isRecurring,
+        recurringFrequency: recurringPatterns.frequency,
+        recurringPatternName: recurringPatterns.description,
+        isTransfer: transactions.isTransfer,
+        linkedTransactionId: transactions.linkedTransactionId,
+        exchangeRate: transactions.exchangeRate,
+        createdAt: transactions.createdAt,
+        updatedAt: transactions.updatedAt,
+        accountName: accounts.accountName,
+        accountNumber: accounts.accountNumber,
+        accountLogoUrl: accounts.logoUrl,
+        categoryId: categories.categoryId,
+        categoryName: categories.categoryName,
+        categoryNumber: categories.categoryNumber,
+        categoryType: categories.categoryType,
+        investmentSector: categories.investmentSector,
+        categoryIconUrl: categories.defaultIconUrl,
+        customNameId: customTransactionNames.customNameId,
+        customName: customTransactionNames.customName,
+        customLogoUrl: customTransactionNames.customLogoUrl,
+      })
+      .from(transactions)
+      .leftJoin(accounts, eq(transactions.accountId, accounts.accountId))
+      .leftJoin(categories, eq(transactions.categoryId, categories.categoryId))
+      .leftJoin(
+        customTransactionNames,
+        eq(transactions.customNameId, customTransactionNames.customNameId)
+      )
+      .leftJoin(
+        recurringPatterns,
+        eq(transactions.recurringPatternId, recurringPatterns.patternId)
+      )
+      .where(and(...conditions, ...keyset))
+      .orderBy(
+        asc(transactions.transactionDateTime),
+        asc(transactions.transactionId)
+      )
+      .limit(EXPORT_BATCH_SIZE);
+
+    if (batch.length === 0) {
+      return;
+    }
+
+    yield batch;
+
+    if (batch.length < EXPORT_BATCH_SIZE) {
+      return;
+    }
+    last = batch.at(-1) ?? null;
+  }
+}
+
+// ===========================
+// WRITERS
+// ===========================
+
+// Column order follows the table definition
+const columnsOf = <T extends Record<string, unknown>>(rows: T[]) =>
+  rows.length > 0 ? (Object.keys(rows[0]) as (keyof T & string)[]) : [];
+
+async function* writeCsv(
+  context: ExportContext,
+  dataset: ExportDataset
+): AsyncGenerator<string> {
+  if (dataset === "transactions") {
+    yield* toCsv(TRANSACTION_COLUMNS, iterateTransactions(context));
+    return;
+  }
+
+  let rows: Record<string, unknown>[];
+  if (dataset === "accounts") {
+    rows = await loadAccounts(context);
+  } else if (dataset === "investmentHoldings") {
+    rows = await loadInvestmentHoldings(context);
+  } else if (dataset === "capitalGains") {
+    rows = await loadCapitalGains(context);
+  } else {
+    rows = await loadRecurringPatterns(context);
+  }
+  yield* toCsv(columnsOf(rows), [rows]);
+}
+
+async function* writeJson(context: ExportContext): AsyncGenerator<string> {
+  yield `{"exportedAt":${JSON.stringify(new Date())}`;
+  yield `,"accounts":${JSON.stringify(await loadAccounts(context))}`;
+
+  // Transactions are streamed batch by batch inside the array
+  yield ',"transactions":[';
+  let first = true;
+  for await (const batch of iterateTransactions(context)) {
+    const json = JSON.stringify(batch).slice(1, -1);
+    yield first ? json : `,${json}`;
+    first = false;
+  }
+  yield "]";
+
+  yield `,"investmentHoldings":${JSON.stringify(await loadInvestmentHoldings(context))}`;
+  yield `,"recurringPatterns":${JSON.stringify(await loadRecurringPatterns(context))}`;
+  yield "}";
+}
+
+async function* writeOfx(context: ExportContext): AsyncGenerator<string> {
+  const now = new Date();
+  const range = {
+    start: context.options?.startDate
+      ? new Date(context.options.startDate)
+      : new Date(0),
+    end: context.options?.endDate ? new Date(context.options.endDate) : now,
+  };
+
+  yield ofxDocumentStart(now);
+
+  // OFX groups transactions into one statement per account
+  for (const account of await loadAccounts(context)) {
+    yield ofxStatementStart(account, range);
+    for await (const batch of iterateTransactions(context, [
+      eq(transactions.accountId, account.accountId),
+    ])) {
+      yield batch.map(ofxTransaction).join("");
+    }
+    yield ofxStatementEnd(account, now);
+  }
+
+  yield ofxDocumentEnd();
+}
+
+/**
+ * Stream a user's data export
+ * Handles: CSV (one dataset per file), JSON (all datasets), OFX (transactions
+ * per account)
+ * Transactions are read in batches, so memory use does not grow with the
+ * size of the export
+ */
+export const createExportStream = (
+  db: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  request: ExportRequest
+): AsyncGenerator<string> => {
+  const context: ExportContext = {
+    db,
+    userId,
+    options: request.options,
+    financialYear: request.financialYear,
+  };
+
+  if (request.format === "JSON") {
+    return writeJson(context);
+  }
+  if (request.format === "OFX") {
+    return writeOfx(context);
+  }
+  return writeCsv(context, request.dataset ?? "transactions");
+};
@@ -0,0 +1,354 @@
+import { and, eq, gte, inArray, isNull, lte } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import type { FastifyRequest } from "fastify";
+import { GraphQLError } from "graphql";
+import {
+  IMPORT_DUPLICATE_WINDOW_DAYS,
+  IMPORT_MAX_ROWS,
+} from "../config/constants";
+import type * as schema from "../db/schema";
+import {
+  categories,
+  customTransactionNames,
+  type DbTransaction,
+  type TransactionType,
+  transactions,
+} from "../db/schema";
+import type {
+  CommitImportInput,
+  ImportedTransaction,
+  ImportPreview,
+  ImportPreviewRow,
+  PreviewImportInput,
+} from "../generated/graphql";
+import { parseStatement } from "../lib/import";
+import type { StatementRow } from "../lib/import/types";
+import {
+  type AuditChange,
+  getTransactionCreateChanges,
+  recordAuditEvents,
+} from "./audit-helpers";
+import {
+  createTransactionWithEffects,
+  verifyAccountOwnership,
+} from "./mutations/transaction-helpers";
+
+const MS_PER_DAY = 86_400_000;
+const NON_ALPHANUMERIC_REGEX = /[^a-z0-9]+/g;
+
+type CustomNameSuggestion = {
+  customNameId: string;
+  customName: string;
+  categoryNumber: number;
+  usageCount: number;
+  normalized: string;
+};
+
+type DuplicateCandidate = {
+  accountId: string;
+  amount: string;
+  transactionType: TransactionType;
+  transactionDateTime: Date;
+};
+
+// ===========================
+// SUGGESTIONS
+// ===========================
+
+// Lowercase and collapse punctuation so "SWIGGY*ORDER" matches "swiggy"
+const normalizeText = (value: string) =>
+  ` ${value.toLowerCase().replace(NON_ALPHANUMERIC_REGEX, " ").trim()} `;
+
+// Helper to load the user's custom names for matching
+const getCustomNameSuggestions = async (
+  db: PostgresJsDatabase<typeof schema>,
+  userId: string
+): Promise<CustomNameSuggestion[]> => {
+  const result = await db
+    .select({
+      customNameId: customTransactionNames.customNameId,
+      customName: customTransactionNames.customName,
+      usageCount: customTransactionNames.usageCount,
+      categoryNumber: categories.categoryNumber,
+    })
+    .from(customTransactionNames)
+    .innerJoin(
+      categories,
+      eq(customTransactionNames.categoryId, categories.categoryId)
+    )
+    .where(eq(customTransactionNames.userId, userId));
+
+  return (
+    result
+      .map((row) => ({ ...row, normalized: normalizeText(row.customName) }))
+      // Longest (most specific) names first, then most used
+      .sort(
+        (a, b) =>
+          b.normalized.length - a.normalized.length ||
+          b.usageCount - a.usageCount
+      )
+  );
+};
+
+// Find the custom name whose words appear in the statement description
+const suggestCustomName = (
+  suggestions: CustomNameSuggestion[],
+  description: string | null
+): CustomNameSuggestion | null => {
+  if (!description) {
+    return null;
+  }
+
+  const normalizedDescription = normalizeText(description);
+  return (
+    suggestions.find((suggestion) =>
+      normalizedDescription.includes(suggestion.normalized)
+    ) ?? null
+  );
+};
+
+// ===========================
+// DUPLICATE DETECTION
+// ===========================
+
+/**
+ * Match candidates against existing transactions
+ * A duplicate has the same account, type and amount within
+ * IMPORT_DUPLICATE_WINDOW_DAYS; each existing transaction matches at most once
+ * so repeated identical purchases in a statement are not all flagged
+ * Returns the matched transaction ID (or null) per candidate
+ */
+export const findDuplicateTransactions = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  candidates: DuplicateCandidate[]
+): Promise<(string | null)[]> => {
+  if (candidates.length === 0) {
+    return [];
+  }
+
+  const windowMs = IMPORT_DUPLICATE_WINDOW_DAYS * MS_PER_DAY;
+  const times = candidates.map((c) => c.transactionDateTime.getTime());
+  const accountIds = [...new Set(candidates.map((c) => c.accountId))];
+
+  const existing = await dbOrTx
+    .select({
+      transactionId: transactions.transactionId,
+      accountId: transactions.accountId,
+      amount: transactions.amount,
+      transactionType: transactions.transactionType,
+      transactionDateTime: transactions.transactionDateTime,
+    })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.userId, userId),
+        inArray(transactions.accountId, accountIds),
+        isNull(transactions.deletedAt),
+        gte(
+          transactions.transactionDateTime,
+          new Date(Math.min(...times) - windowMs)
+        ),
+        lte(
+          transactions.transactionDateTime,
+          new Date(Math.max(...times) + windowMs)
+        )
+      )
+    );
+
+  const matched = new Set<string>();
+
+  return candidates.map((candidate) => {
+    const amount = Number(candidate.amount).toFixed(2);
+    const time = candidate.transactionDateTime.getTime();
+
+    const duplicate = existing.find(
+      (txn) =>
+        !matched.has(txn.transactionId) &&
+        txn.accountId === candidate.accountId &&
+        txn.transactionType === candidate.transactionType &&
+        Number(txn.amount).toFixed(2) === amount &&
+        Math.abs(txn.transactionDateTime.getTime() - time) <= windowMs
+    );
+
+    if (!duplicate) {
+      return null;
+    }
+    matched.add(duplicate.transactionId);
+    return duplicate.transactionId;
+  });
+};
+
+// ===========================
+// PREVIEW
+// ===========================
+
+// Helper to parse statement content, surfacing mapping problems as input errors
+const parseImportContent = (input: PreviewImportInput): StatementRow[] => {
+  let rows: StatementRow[];
+  try {
+    rows = parseStatement(input.format, input.content, input.csvMapping);
+  } catch (error) {
+    throw new GraphQLError(
+      error instanceof Error ? error.message : "Could not parse statement",
+      { extensions: { code: "BAD_USER_INPUT" } }
+    );
+  }
+
+  if (rows.length > IMPORT_MAX_ROWS) {
+    throw new GraphQLError(
+      `Statement has ${rows.length} rows; split it into files of at most ${IMPORT_MAX_ROWS} rows`,
+      { extensions: { code: "BAD_USER_INPUT" } }
+    );
+  }
+
+  return rows;
+};
+
+/**
+ * Build an import preview
+ * Handles: parsing, mapping onto CreateTransactionInput, category and custom
+ * name suggestions, duplicate flags
+ * Nothing is written; the client edits the rows and sends them to commitImport
+ */
+export const buildImportPreview = async (
+  db: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  input: PreviewImportInput
+): Promise<ImportPreview> => {
+  await verifyAccountOwnership(db, input.accountId, userId);
+
+  const rows = parseImportContent(input);
+  const suggestions = await getCustomNameSuggestions(db, userId);
+
+  const previewRows: ImportPreviewRow[] = rows.map((row) => {
+    if (row.error || !row.date || row.amount === null) {
+      return {
+        rowNumber: row.rowNumber,
+        transaction: null,
+        suggestedCustomNameId: null,
+        isDuplicate: false,
+        duplicateTransactionId: null,
+        error: row.error,
+      };
+    }
+
+    const suggestion = suggestCustomName(suggestions, row.description);
+
+    return {
+      rowNumber: row.rowNumber,
+      transaction: {
+        accountId: input.accountId,
+        categoryNumber:
+          suggestion?.categoryNumber ?? input.defaultCategoryNumber ?? null,
+        amount: Math.abs(row.amount).toFixed(2),
+        transactionType: row.amount < 0 ? "DEBIT" : "CREDIT",
+        transactionDateTime: row.date.toISOString(),
+        customName: suggestion?.customName ?? null,
+        description: row.description,
+      },
+      suggestedCustomNameId: suggestion?.customNameId ?? null,
+      isDuplicate: false,
+      duplicateTransactionId: null,
+      error: null,
+    };
+  });
+
+  // Flag rows that already exist in the account
+  const parsedRows = previewRows.filter(
+    (row): row is ImportPreviewRow & { transaction: ImportedTransaction } =>
+      Boolean(row.transaction)
+  );
+  const duplicates = await findDuplicateTransactions(
+    db,
+    userId,
+    parsedRows.map(({ transaction }) => ({
+      accountId: transaction.accountId,
+      amount: transaction.amount,
+      transactionType: transaction.transactionType,
+      transactionDateTime: new Date(transaction.transactionDateTime),
+    }))
+  );
+  parsedRows.forEach((row, index) => {
+    row.isDuplicate = duplicates[index] !== null;
+    row.duplicateTransactionId = duplicates[index];
+  });
+
+  return {
+    rows: previewRows,
+    totalRows: previewRows.length,
+    validRows: parsedRows.length,
+    duplicateRows: duplicates.filter((id) => id !== null).length,
+    errorRows: previewRows.length - parsedRows.length,
+  };
+};
+
+// ===========================
+// COMMIT
+// ===========================
+
+/**
+ * Commit imported transactions
+ * Everything runs in one database transaction through
+ * createTransactionWithEffects, so balances, custom names and holdings are
+ * updated exactly as for manually created transactions, and a failing row
+ * rolls back the whole import; the created rows are audited with it
+ */
+export const commitImportTransactions = async (
+  db: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  input: CommitImportInput,
+  request: FastifyRequest | null
+): Promise<{ transactions: DbTransaction[]; skippedCount: number }> => {
+  if (input.transactions.length > IMPORT_MAX_ROWS) {
+    throw new GraphQLError(
+      `At most ${IMPORT_MAX_ROWS} transactions can be imported at once`,
+      { extensions: { code: "BAD_USER_INPUT" } }
+    );
+  }
+
+  return await db.transaction(async (tx) => {
+    // Re-check duplicates inside the transaction; the preview may be stale
+    const duplicates =
+      input.skipDuplicates === false
+        ? input.transactions.map(() => null)
+        : await findDuplicateTransactions(
+            tx,
+            userId,
+            input.transactions.map((txn) => ({
+              accountId: txn.accountId,
+              amount: txn.amount,
+              transactionType: txn.transactionType,
+              transactionDateTime: new Date(txn.transactionDateTime),
+            }))
+          );
+
+    const created: DbTransaction[] = [];
+    const changes: AuditChange[] = [];
+    for (const [index, transactionInput] of input.transactions.entries()) {
+      if (duplicates[index]) {
+        continue;
+      }
+
+      const transaction = await createTransactionWithEffects(tx, {
+        userId,
+        input: transactionInput,
+        location: null, // Imported rows were not recorded at the current location
+      });
+      created.push(transaction);
+      changes.push(...(await getTransactionCreateChanges(tx, transaction)));
+    }
+
+    await recordAuditEvents(tx, {
+      userId,
+      source: "commitImport",
+      request,
+      changes,
+    });
+
+    return {
+      transactions: created,
+      skippedCount: input.transactions.length - created.length,
+    };
+  });
+};
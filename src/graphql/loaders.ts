@@ -1,13 +1,81 @@
-import { inArray } from "drizzle-orm";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
 import type { MercuriusLoaders } from "mercurius";
+import type * as schema from "../db/schema";
 import {
+  type AuditEntityType,
   accounts,
+  auditEvents,
   categories,
+  counterparties,
   customTransactionNames,
+  type DbTag,
+  tags,
+  transactionSplits,
   transactions,
+  transactionTags,
 } from "../db/schema";
+import { getOutstandingPrincipals } from "./loan-helpers";
+import { formatAuditEventForGraphQL } from "./queries/audit";
+import { formatCategoryForGraphQL } from "./queries/categories";
+import { formatCounterpartyForGraphQL } from "./queries/counterparties";
+import { formatTagForGraphQL } from "./queries/tags";
+
+// Audit events of the given entities, newest first, in the order of the IDs
+const loadHistory = async (
+  db: PostgresJsDatabase<typeof schema>,
+  entityType: AuditEntityType,
+  entityIds: string[]
+) => {
+  const allEvents = await db
+    .select()
+    .from(auditEvents)
+    .where(
+      and(
+        eq(auditEvents.entityType, entityType),
+        inArray(auditEvents.entityId, entityIds)
+      )
+    )
+    .orderBy(desc(auditEvents.createdAt));
+
+  const eventsByEntityId = new Map<string, typeof allEvents>();
+  for (const event of allEvents) {
+    const list = eventsByEntityId.get(event.entityId) ?? [];
+    list.push(event);
+    eventsByEntityId.set(event.entityId, list);
+  }
+
+  return entityIds.map((id) =>
+    (eventsByEntityId.get(id) ?? []).map(formatAuditEventForGraphQL)
+  );
+};
 
 export const loaders: MercuriusLoaders = {
+  Account: {
+    async outstandingPrincipal(queries, { app }) {
+      const accountIds = queries.map(({ obj }) => obj.accountId);
+
+      const allAccounts = await app.db.query.accounts.findMany({
+        where: inArray(accounts.accountId, accountIds),
+      });
+
+      const outstandingById = await getOutstandingPrincipals(
+        app.db,
+        allAccounts
+      );
+
+      return accountIds.map((id) => outstandingById.get(id) ?? null);
+    },
+
+    history(queries, { app }) {
+      return loadHistory(
+        app.db,
+        "ACCOUNT",
+        queries.map(({ obj }) => obj.accountId)
+      );
+    },
+  },
+
   Transaction: {
     async account(queries, { app }) {
       const accountIds = queries.map(({ obj }) => obj.accountId);
@@ -106,6 +174,138 @@ export const loaders: MercuriusLoaders = {
           : null
       );
     },
+
+    async splits(queries, { app }) {
+      const transactionIds = queries.map(({ obj }) => obj.transactionId);
+
+      const allSplits = await app.db.query.transactionSplits.findMany({
+        where: inArray(transactionSplits.transactionId, transactionIds),
+        orderBy: [asc(transactionSplits.createdAt)],
+      });
+
+      const splitsByTransactionId = new Map<string, typeof allSplits>();
+      for (const split of allSplits) {
+        const list = splitsByTransactionId.get(split.transactionId) ?? [];
+        list.push(split);
+        splitsByTransactionId.set(split.transactionId, list);
+      }
+
+      return transactionIds.map((id) =>
+        (splitsByTransactionId.get(id) ?? []).map((split) => ({
+          ...split,
+          createdAt: split.createdAt.toISOString(),
+          updatedAt: split.updatedAt.toISOString(),
+        }))
+      );
+    },
+
+    async counterparty(queries, { app }) {
+      const counterpartyIds = queries
+        .map(({ obj }) => obj.counterpartyId)
+        .filter((id): id is string => id !== null && id !== undefined);
+
+      if (counterpartyIds.length === 0) {
+        return queries.map(() => null);
+      }
+
+      const allCounterparties = await app.db.query.counterparties.findMany({
+        where: inArray(counterparties.counterpartyId, counterpartyIds),
+      });
+
+      const counterpartiesById = new Map(
+        allCounterparties.map((counterparty) => [
+          counterparty.counterpartyId,
+          formatCounterpartyForGraphQL(counterparty),
+        ])
+      );
+
+      return queries.map(({ obj }) =>
+        obj.counterpartyId
+          ? (counterpartiesById.get(obj.counterpartyId) ?? null)
+          : null
+      );
+    },
+
+    async tags(queries, { app }) {
+      const transactionIds = queries.map(({ obj }) => obj.transactionId);
+
+      const allTags = await app.db
+        .select({ transactionId: transactionTags.transactionId, tag: tags })
+        .from(transactionTags)
+        .innerJoin(tags, eq(tags.tagId, transactionTags.tagId))
+        .where(inArray(transactionTags.transactionId, transactionIds))
+        .orderBy(asc(tags.name));
+
+      const tagsByTransactionId = new Map<string, DbTag[]>();
+      for (const { transactionId, tag } of allTags) {
+        const list = tagsByTransactionId.get(transactionId) ?? [];
+        list.push(tag);
+        tagsByTransactionId.set(transactionId, list);
+      }
+
+      return transactionIds.map((id) =>
+        (tagsByTransactionId.get(id) ?? []).map(formatTagForGraphQL)
+      );
+    },
+
+    history(queries, { app }) {
+      return loadHistory(
+        app.db,
+        "TRANSACTION",
+        queries.map(({ obj }) => obj.transactionId)
+      );
+    },
+  },
+
+  TransactionSplit: {
+    async category(queries, { app }) {
+      const categoryIds = queries.map(({ obj }) => obj.categoryId);
+
+      const allCategories = await app.db.query.categories.findMany({
+        where: inArray(categories.categoryId, categoryIds),
+      });
+
+      const categoriesById = new Map(
+        allCategories.map((category) => [category.categoryId, category])
+      );
+
+      return categoryIds.map((id) => {
+        const category = categoriesById.get(id);
+        if (!category) {
+          throw new Error(`Category with ID ${id} not found`);
+        }
+        return category;
+      });
+    },
+
+    async customName(queries, { app }) {
+      const customNameIds = queries
+        .map(({ obj }) => obj.customNameId)
+        .filter((id): id is string => id !== null && id !== undefined);
+
+      if (customNameIds.length === 0) {
+        return queries.map(() => null);
+      }
+
+      const allCustomNames = await app.db.query.customTransactionNames.findMany(
+        {
+          where: inArray(customTransactionNames.customNameId, customNameIds),
+        }
+      );
+
+      const customNamesById = new Map(
+        allCustomNames.map((customName) => [
+          customName.customNameId,
+          customName,
+        ])
+      );
+
+      return queries.map(({ obj }) =>
+        obj.customNameId
+          ? (customNamesById.get(obj.customNameId) ?? null)
+          : null
+      );
+    },
   },
 
   RecurringPattern: {
@@ -178,4 +378,86 @@ export const loaders: MercuriusLoaders = {
       );
     },
   },
+
+  Category: {
+    async parentCategory(queries, { app }) {
+      const parentCategoryIds = queries
+        .map(({ obj }) => obj.parentCategoryId)
+        .filter((id): id is string => id !== null && id !== undefined);
+
+      if (parentCategoryIds.length === 0) {
+        return queries.map(() => null);
+      }
+
+      const allParents = await app.db.query.categories.findMany({
+        where: inArray(categories.categoryId, parentCategoryIds),
+      });
+
+      const parentsById = new Map(
+        allParents.map((category) => [
+          category.categoryId,
+          formatCategoryForGraphQL(category),
+        ])
+      );
+
+      return queries.map(({ obj }) =>
+        obj.parentCategoryId
+          ? (parentsById.get(obj.parentCategoryId) ?? null)
+          : null
+      );
+    },
+  },
+
+  Budget: {
+    async category(queries, { app }) {
+      const categoryIds = queries
+        .map(({ obj }) => obj.categoryId)
+        .filter((id): id is string => id !== null && id !== undefined);
+
+      if (categoryIds.length === 0) {
+        return queries.map(() => null);
+      }
+
+      const allCategories = await app.db.query.categories.findMany({
+        where: inArray(categories.categoryId, categoryIds),
+      });
+
+      const categoriesById = new Map(
+        allCategories.map((category) => [category.categoryId, category])
+      );
+
+      return queries.map(({ obj }) =>
+        obj.categoryId ? (categoriesById.get(obj.categoryId) ?? null) : null
+      );
+    },
+
+    async customName(queries, { app }) {
+      const customNameIds = queries
+        .map(({ obj }) => obj.customNameId)
+        .filter((id): id is string => id !== null && id !== undefined);
+
+      if (customNameIds.length === 0) {
+        return queries.map(() => null);
+      }
+
+      const allCustomNames = await app.db.query.customTransactionNames.findMany(
+        {
+          where: inArray(customTransactionNames.customNameId, customNameIds),
+        }
+      );
+
+      const customNamesById = new Map(
+        allCustomNames.map((customName) => [
+          customName.customNameId,
+          customName,
+        ])
+      );
+
+      return queries.map(({ obj }) =>
+        obj.customNameId
+          ? (customNamesById.get(obj.customNameId) ?? null)
+          : null
+      );
+    },
+  },
 };
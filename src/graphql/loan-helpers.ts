@@ -0,0 +1,234 @@
+import { and, asc, eq, gte, inArray, isNull } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import type * as schema from "../db/schema";
+import { type accounts, type DbAccount, transactions } from "../db/schema";
+import type { AccountGroup, CreateAccountInput } from "../generated/graphql";
+import {
+  type AmortizationSchedule,
+  buildAmortizationSchedule,
+  type LoanPayment,
+  type LoanTerms,
+} from "../lib/amortization";
+import { AMOUNT_DECIMALS } from "../lib/currency";
+import { badInput, parseDateInput } from "./validation-helpers";
+
+export type LoanInput = Pick<
+  CreateAccountInput,
+  | "interestRate"
+  | "loanAmount"
+  | "loanStartDate"
+  | "loanEndDate"
+  | "loanPrepaymentMode"
+>;
+
+// ===========================
+// VALIDATION
+// ===========================
+
+const hasLoanFields = (input: LoanInput) =>
+  [
+    input.loanAmount,
+    input.loanStartDate,
+    input.loanEndDate,
+    input.loanPrepaymentMode,
+  ].some((value) => value !== undefined && value !== null);
+
+// Check the merged loan terms are consistent (any of them may still be unset)
+const validateLoanTerms = (values: Partial<typeof accounts.$inferInsert>) => {
+  if (values.loanAmount && !(Number.parseFloat(values.loanAmount) > 0)) {
+    throw badInput("loanAmount must be greater than 0");
+  }
+  if (values.interestRate && !(Number.parseFloat(values.interestRate) >= 0)) {
+    throw badInput("interestRate cannot be negative");
+  }
+  if (
+    values.loanStartDate &&
+    values.loanEndDate &&
+    values.loanEndDate <= values.loanStartDate
+  ) {
+    throw badInput("loanEndDate must be after loanStartDate");
+  }
+};
+
+/**
+ * Resolve the loan fields of a create or update
+ * Handles: loan fields on LOAN accounts only, positive amount, non-negative
+ * rate, end date after start date (checked against the merged values)
+ * Returns only the columns to write; interestRate is written with the
+ * deposit fields
+ */
+export const resolveLoanFields = (params: {
+  accountGroup: AccountGroup;
+  input: LoanInput;
+  existing?: DbAccount;
+}): Partial<typeof accounts.$inferInsert> => {
+  const { accountGroup, input, existing } = params;
+  const updates: Partial<typeof accounts.$inferInsert> = {};
+  if (!hasLoanFields(input)) {
+    return updates;
+  }
+  if (accountGroup !== "LOAN") {
+    throw badInput("Loan fields only apply to LOAN accounts");
+  }
+
+  if (input.loanAmount) {
+    updates.loanAmount = input.loanAmount;
+  }
+  if (input.loanStartDate) {
+    updates.loanStartDate = parseDateInput(
+      input.loanStartDate,
+      "loanStartDate"
+    );
+  }
+  if (input.loanEndDate) {
+    updates.loanEndDate = parseDateInput(input.loanEndDate, "loanEndDate");
+  }
+  if (input.loanPrepaymentMode) {
+    updates.loanPrepaymentMode = input.loanPrepaymentMode;
+  }
+
+  validateLoanTerms({
+    ...existing,
+    interestRate: input.interestRate ?? existing?.interestRate,
+    ...updates,
+  });
+
+  return updates;
+};
+
+// ===========================
+// SCHEDULES
+// ===========================
+
+// Terms of a borrowed loan; null unless every field of the schedule is set
+const getLoanTerms = (account: DbAccount): LoanTerms | null => {
+  if (
+    account.accountType !== "LOAN_BORROWED" ||
+    !account.loanAmount ||
+    !account.interestRate ||
+    !account.loanStartDate ||
+    !account.loanEndDate
+  ) {
+    return null;
+  }
+
+  return {
+    principal: Number.parseFloat(account.loanAmount),
+    annualRate: Number.parseFloat(account.interestRate),
+    startDate: account.loanStartDate,
+    endDate: account.loanEndDate,
+    prepaymentMode: account.loanPrepaymentMode,
+  };
+};
+
+/**
+ * Repayments made into loan accounts since each loan started
+ * A credit reduces what is owed on a LOAN account, so every credit (including
+ * the receiving side of a transfer) counts as a payment
+ */
+const getLoanPayments = async (
+  db: PostgresJsDatabase<typeof schema>,
+  loans: { accountId: string; terms: LoanTerms }[]
+): Promise<Map<string, LoanPayment[]>> => {
+  const paymentsByAccount = new Map<string, LoanPayment[]>(
+    loans.map((loan) => [loan.accountId, []])
+  );
+  if (loans.length === 0) {
+    return paymentsByAccount;
+  }
+
+  const earliestStart = new Date(
+    Math.min(...loans.map((loan) => loan.terms.startDate.getTime()))
+  );
+  const rows = await db
+    .select({
+      accountId: transactions.accountId,
+      amount: transactions.amount,
+      transactionDateTime: transactions.transactionDateTime,
+    })
+    .from(transactions)
+    .where(
+      and(
+        inArray(
+          transactions.accountId,
+          loans.map((loan) => loan.accountId)
+        ),
+        eq(transactions.transactionType, "CREDIT"),
+        isNull(transactions.deletedAt),
+        gte(transactions.transactionDateTime, earliestStart)
+      )
+    )
+    .orderBy(asc(transactions.transactionDateTime));
+
+  const startById = new Map(
+    loans.map((loan) => [loan.accountId, loan.terms.startDate])
+  );
+  for (const row of rows) {
+    const startDate = startById.get(row.accountId);
+    if (startDate && row.transactionDateTime >= startDate) {
+      paymentsByAccount.get(row.accountId)?.push({
+        date: row.transactionDateTime,
+        amount: Number.parseFloat(row.amount),
+      });
+    }
+  }
+
+  return paymentsByAccount;
+};
+
+/**
+ * EMI schedule of a borrowed loan with the payments made so far
+ */
+export const getLoanSchedule = async (
+  db: PostgresJsDatabase<typeof schema>,
+  account: DbAccount,
+  now: Date = new Date()
+): Promise<AmortizationSchedule> => {
+  if (account.accountType !== "LOAN_BORROWED") {
+    throw badInput(
+      "Loan schedules are only available for LOAN_BORROWED accounts"
+    );
+  }
+  const terms = getLoanTerms(account);
+  if (!terms) {
+    throw badInput(
+      "Set loanAmount, interestRate, loanStartDate and loanEndDate to build a loan schedule"
+    );
+  }
+
+  const payments = await getLoanPayments(db, [
+    { accountId: account.accountId, terms },
+  ]);
+  return buildAmortizationSchedule(
+    terms,
+    payments.get(account.accountId) ?? [],
+    now
+  );
+};
+
+/**
+ * Principal still owed on each borrowed loan with full terms
+ * Accounts without a schedule are left out of the map
+ */
+export const getOutstandingPrincipals = async (
+  db: PostgresJsDatabase<typeof schema>,
+  accountList: DbAccount[],
+  now: Date = new Date()
+): Promise<Map<string, string>> => {
+  const loans = accountList.flatMap((account) => {
+    const terms = getLoanTerms(account);
+    return terms ? [{ accountId: account.accountId, terms }] : [];
+  });
+  const payments = await getLoanPayments(db, loans);
+
+  return new Map(
+    loans.map((loan) => [
+      loan.accountId,
+      buildAmortizationSchedule(
+        loan.terms,
+        payments.get(loan.accountId) ?? [],
+        now
+      ).outstandingPrincipal.toFixed(AMOUNT_DECIMALS),
+    ])
+  );
+};
@@ -0,0 +1,740 @@
+import {
+  and,
+  asc,
+  eq,
+  inArray,
+  isNotNull,
+  isNull,
+  notInArray,
+  or,
+  sql,
+} from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { GraphQLError } from "graphql";
+import type * as schema from "../db/schema";
+import {
+  type DbTaxLot,
+  type DbTaxLotSelection,
+  type DbTransaction,
+  type InsertTaxLotDisposal,
+  investmentHoldings,
+  taxLotDisposals,
+  taxLotSelections,
+  taxLots,
+  transactions,
+} from "../db/schema";
+import type { TaxLotSelectionInput } from "../generated/graphql";
+import {
+  AMOUNT_DECIMALS,
+  PRICE_DECIMALS,
+  QUANTITY_DECIMALS,
+} from "../lib/currency";
+
+const QUANTITY_SCALE = 1_000_000; // Quantities are stored with 6 decimals
+const CENTS_PER_UNIT = 100;
+
+// Lot arithmetic runs on integer micro-units and cents so partial sales add up exactly
+const toUnits = (quantity: string): number =>
+  Math.round(Number.parseFloat(quantity) * QUANTITY_SCALE);
+
+const fromUnits = (units: number): string =>
+  (units / QUANTITY_SCALE).toFixed(QUANTITY_DECIMALS);
+
+const fromCents = (cents: number): string =>
+  (cents / CENTS_PER_UNIT).toFixed(AMOUNT_DECIMALS);
+
+/**
+ * Cents of `amount` attributable to units (from, to] out of `whole`
+ * Consecutive shares of the same amount always add up to the full amount
+ */
+export const shareOfAmount = (
+  amount: string,
+  from: number,
+  to: number,
+  whole: number
+): number => {
+  const cents = Math.round(Number.parseFloat(amount) * CENTS_PER_UNIT);
+  return Math.round((cents * to) / whole) - Math.round((cents * from) / whole);
+};
+
+type OpenLot = {
+  lot: DbTaxLot;
+  units: number;
+  remaining: number;
+};
+
+// ===========================
+// LOT SELECTIONS
+// ===========================
+
+// Check one selected lot against the sale, returning the units taken from it
+const validateSelectedLot = (
+  lot: DbTaxLot | undefined,
+  selection: TaxLotSelectionInput,
+  soldAt: Date
+): number => {
+  if (!lot) {
+    throw new GraphQLError("Tax lot not found or access denied", {
+      extensions: { code: "FORBIDDEN" },
+    });
+  }
+  if (lot.acquiredAt > soldAt) {
+    throw new GraphQLError("Cannot sell from a lot acquired after the sale", {
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+
+  const units = toUnits(selection.quantity);
+  if (!(units > 0 && units <= toUnits(lot.quantity))) {
+    throw new GraphQLError(
+      "Selected lot quantity must be positive and within the lot size",
+      { extensions: { code: "BAD_USER_INPUT" } }
+    );
+  }
+  return units;
+};
+
+/**
+ * Replace the lots picked for a SELL transaction
+ * Handles: validation of ownership, asset and acquisition date; an empty list
+ * falls back to FIFO and null/undefined leaves the selection untouched
+ */
+export const setTaxLotSelections = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  params: {
+    userId: string;
+    transaction: DbTransaction;
+    selections: TaxLotSelectionInput[] | null | undefined;
+  }
+): Promise<void> => {
+  const { userId, transaction, selections } = params;
+  if (!selections) {
+    return;
+  }
+
+  if (selections.length > 0 && transaction.investmentAction !== "SELL") {
+    throw new GraphQLError("Lots can only be selected for SELL transactions", {
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+
+  await dbOrTx
+    .delete(taxLotSelections)
+    .where(eq(taxLotSelections.sellTransactionId, transaction.transactionId));
+
+  if (selections.length === 0) {
+    return;
+  }
+
+  const lotIds = [...new Set(selections.map((s) => s.lotId))];
+  if (lotIds.length !== selections.length) {
+    throw new GraphQLError("Each lot can only be selected once", {
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+
+  const lots = await dbOrTx
+    .select()
+    .from(taxLots)
+    .where(
+      and(
+        eq(taxLots.userId, userId),
+        eq(taxLots.assetSymbol, transaction.assetSymbol ?? ""),
+        inArray(taxLots.lotId, lotIds)
+      )
+    );
+  const lotsById = new Map(lots.map((lot) => [lot.lotId, lot]));
+
+  const selectedUnits = selections.reduce(
+    (sum, selection) =>
+      sum +
+      validateSelectedLot(
+        lotsById.get(selection.lotId),
+        selection,
+        transaction.transactionDateTime
+      ),
+    0
+  );
+
+  if (selectedUnits > toUnits(transaction.quantity ?? "0")) {
+    throw new GraphQLError("Selected lots exceed the quantity sold", {
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+
+  await dbOrTx.insert(taxLotSelections).values(
+    selections.map((selection) => ({
+      sellTransactionId: transaction.transactionId,
+      lotId: selection.lotId,
+      userId,
+      quantity: fromUnits(toUnits(selection.quantity)),
+    }))
+  );
+};
+
+// ===========================
+// LOT MATCHING
+// ===========================
+
+// Take units from one lot for a sale, recording the disposal
+const disposeFromLot = (
+  open: OpenLot,
+  units: number,
+  sale: { transaction: DbTransaction; units: number; matched: number },
+  matchMethod: InsertTaxLotDisposal["matchMethod"]
+): InsertTaxLotDisposal => {
+  const soldBefore = open.units - open.remaining;
+  const costCents = shareOfAmount(
+    open.lot.costAmount,
+    soldBefore,
+    soldBefore + units,
+    open.units
+  );
+  const proceedsCents = shareOfAmount(
+    sale.transaction.amount,
+    sale.matched,
+    sale.matched + units,
+    sale.units
+  );
+
+  open.remaining -= units;
+  sale.matched += units;
+
+  return {
+    userId: open.lot.userId,
+    lotId: open.lot.lotId,
+    sellTransactionId: sale.transaction.transactionId,
+    soldAt: sale.transaction.transactionDateTime,
+    quantity: fromUnits(units),
+    costAmount: fromCents(costCents),
+    proceeds: fromCents(proceedsCents),
+    realizedGainLoss: fromCents(proceedsCents - costCents),
+    matchMethod,
+  };
+};
+
+/**
+ * Match one SELL against the lots open at its date
+ * Selected lots are used first, the remainder comes from the oldest lots (FIFO)
+ */
+const matchSale = (
+  transaction: DbTransaction,
+  openLots: OpenLot[],
+  selections: DbTaxLotSelection[]
+): InsertTaxLotDisposal[] => {
+  const sale = {
+    transaction,
+    units: toUnits(transaction.quantity ?? "0"),
+    matched: 0,
+  };
+  const disposals: InsertTaxLotDisposal[] = [];
+
+  for (const selection of selections) {
+    const open = openLots.find((o) => o.lot.lotId === selection.lotId);
+    const units = toUnits(selection.quantity);
+    if (!open || open.remaining < units) {
+      throw new GraphQLError(
+        `Selected lot no longer has ${selection.quantity} units to sell on ${transaction.transactionDateTime.toISOString()}`,
+        { extensions: { code: "INSUFFICIENT_QUANTITY" } }
+      );
+    }
+    disposals.push(disposeFromLot(open, units, sale, "SPECIFIC_LOT"));
+  }
+
+  for (const open of openLots) {
+    const units = Math.min(open.remaining, sale.units - sale.matched);
+    if (units > 0) {
+      disposals.push(disposeFromLot(open, units, sale, "FIFO"));
+    }
+  }
+
+  if (sale.matched < sale.units) {
+    throw new GraphQLError(
+      `Not enough ${transaction.assetSymbol} held on ${transaction.transactionDateTime.toISOString()} to cover this sale`,
+      { extensions: { code: "INSUFFICIENT_QUANTITY" } }
+    );
+  }
+
+  return disposals;
+};
+
+// ===========================
+// CORPORATE ACTIONS
+// ===========================
+
+const RATIO_REGEX = /^\s*(\d+(?:\.\d+)?)\s*:\s*(\d+(?:\.\d+)?)\s*$/;
+const RATIO_ACTIONS = ["SPLIT", "BONUS"];
+
+// Parse an "a:b" ratio with two positive parts
+const parseCorporateActionRatio = (ratio: string): [number, number] | null => {
+  const match = RATIO_REGEX.exec(ratio);
+  if (!match) {
+    return null;
+  }
+
+  const left = Number(match[1]);
+  const right = Number(match[2]);
+  return left > 0 && right > 0 ? [left, right] : null;
+};
+
+/**
+ * Validate the ratio of a corporate action
+ * SPLIT takes "old:new" (1:5 turns 1 unit into 5) and BONUS takes
+ * "bonus:held" (1:1 gives 1 free unit per unit held); other actions take none
+ */
+export const normalizeCorporateActionRatio = (
+  investmentAction: string | null | undefined,
+  ratio: string | null | undefined
+): string | null => {
+  if (!(investmentAction && RATIO_ACTIONS.includes(investmentAction))) {
+    if (ratio) {
+      throw new GraphQLError(
+        "corporateActionRatio only applies to SPLIT and BONUS transactions",
+        { extensions: { code: "BAD_USER_INPUT" } }
+      );
+    }
+    return null;
+  }
+
+  const parts = ratio ? parseCorporateActionRatio(ratio) : null;
+  if (!parts) {
+    throw new GraphQLError(
+      `${investmentAction} transactions need a corporateActionRatio such as 1:5`,
+      { extensions: { code: "BAD_USER_INPUT" } }
+    );
+  }
+  return `${parts[0]}:${parts[1]}`;
+};
+
+// Units held across the open lots, failing when nothing is held
+const requireHeldUnits = (
+  transaction: DbTransaction,
+  openLots: OpenLot[]
+): number => {
+  const held = openLots.reduce((sum, open) => sum + open.remaining, 0);
+  if (held === 0) {
+    throw new GraphQLError(
+      `No ${transaction.assetSymbol} held on ${transaction.transactionDateTime.toISOString()} to apply this ${transaction.investmentAction}`,
+      { extensions: { code: "INSUFFICIENT_QUANTITY" } }
+    );
+  }
+  return held;
+};
+
+// Rescale every open lot by the split ratio (cost stays), returning the units added
+const applySplit = (
+  transaction: DbTransaction,
+  openLots: OpenLot[]
+): number => {
+  const held = requireHeldUnits(transaction, openLots);
+  const [oldUnits, newUnits] = parseCorporateActionRatio(
+    transaction.corporateActionRatio ?? ""
+  ) ?? [1, 1];
+
+  let after = 0;
+  for (const open of openLots) {
+    if (open.remaining > 0) {
+      open.units = Math.round((open.units * newUnits) / oldUnits);
+      open.remaining = Math.round((open.remaining * newUnits) / oldUnits);
+      after += open.remaining;
+    }
+  }
+  return after - held;
+};
+
+// Free units granted by a bonus issue on the units held at its date
+const getBonusUnits = (
+  transaction: DbTransaction,
+  openLots: OpenLot[]
+): number => {
+  const held = requireHeldUnits(transaction, openLots);
+  const [bonus, per] = parseCorporateActionRatio(
+    transaction.corporateActionRatio ?? ""
+  ) ?? [0, 1];
+  return Math.round((held * bonus) / per);
+};
+
+/**
+ * Apply a SPLIT or BONUS transaction to the asset's holding and lots
+ * The action is replayed with the rest of the asset's history, so editing or
+ * deleting it later is reversed by the same rebuild
+ */
+export const applyCorporateAction = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  params: { userId: string; transaction: DbTransaction }
+): Promise<void> => {
+  const { userId, transaction } = params;
+  if (
+    !(
+      transaction.isInvestment &&
+      transaction.assetSymbol &&
+      transaction.corporateActionRatio
+    )
+  ) {
+    return;
+  }
+
+  const [holding] = await dbOrTx
+    .select({ holdingId: investmentHoldings.holdingId })
+    .from(investmentHoldings)
+    .where(
+      and(
+        eq(investmentHoldings.userId, userId),
+        eq(investmentHoldings.assetSymbol, transaction.assetSymbol)
+      )
+    )
+    .limit(1);
+
+  if (!holding) {
+    throw new GraphQLError(
+      `Cannot apply a ${transaction.investmentAction} to an asset that is not in holdings`,
+      { extensions: { code: "HOLDING_NOT_FOUND" } }
+    );
+  }
+
+  await dbOrTx
+    .update(transactions)
+    .set({ investmentHoldingId: holding.holdingId })
+    .where(eq(transactions.transactionId, transaction.transactionId));
+
+  await rebuildTaxLots(dbOrTx, userId, [transaction.assetSymbol]);
+};
+
+// ===========================
+// LOT REBUILD
+// ===========================
+
+// Lot row for a BUY, or for a BONUS (zero cost, sized during the replay)
+const toLotValues = (
+  userId: string,
+  assetSymbol: string,
+  source: DbTransaction
+) => {
+  const isBonus = source.investmentAction === "BONUS";
+  const quantity = isBonus ? "0" : (source.quantity ?? "0");
+  return {
+    userId,
+    accountId: source.accountId,
+    buyTransactionId: source.transactionId,
+    assetSymbol,
+    acquiredAt: source.transactionDateTime,
+    quantity,
+    remainingQuantity: quantity,
+    costPerUnit: isBonus
+      ? "0"
+      : (
+          Number.parseFloat(source.amount) /
+          Number.parseFloat(source.quantity ?? "1")
+        ).toFixed(PRICE_DECIMALS),
+    costAmount: isBonus ? "0" : source.amount,
+  };
+};
+
+// Create or refresh one lot per BUY or BONUS, dropping lots whose source no longer applies
+const syncLots = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  assetSymbol: string,
+  sources: DbTransaction[]
+): Promise<DbTaxLot[]> => {
+  const sourceIds = sources.map((source) => source.transactionId);
+
+  await dbOrTx
+    .delete(taxLots)
+    .where(
+      and(
+        eq(taxLots.userId, userId),
+        eq(taxLots.assetSymbol, assetSymbol),
+        sourceIds.length > 0
+          ? notInArray(taxLots.buyTransactionId, sourceIds)
+          : undefined
+      )
+    );
+
+  if (sources.length === 0) {
+    return [];
+  }
+
+  return await dbOrTx
+    .insert(taxLots)
+    .values(sources.map((source) => toLotValues(userId, assetSymbol, source)))
+    .onConflictDoUpdate({
+      target: taxLots.buyTransactionId,
+      set: {
+        accountId: sql`excluded.account_id`,
+        assetSymbol: sql`excluded.asset_symbol`,
+        acquiredAt: sql`excluded.acquired_at`,
+        quantity: sql`excluded.quantity`,
+        remainingQuantity: sql`excluded.remaining_quantity`,
+        costPerUnit: sql`excluded.cost_per_unit`,
+        costAmount: sql`excluded.cost_amount`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+};
+
+/**
+ * Walk the asset's history in date order
+ * BUY and BONUS open lots, SELL is matched to open lots and SPLIT rescales
+ * them; returns the units each SPLIT/BONUS added
+ */
+const replayHistory = (
+  history: DbTransaction[],
+  lotsBySourceId: Map<string, DbTaxLot>,
+  selections: DbTaxLotSelection[]
+) => {
+  const openLots: OpenLot[] = [];
+  const disposals: InsertTaxLotDisposal[] = [];
+  const actionUnits = new Map<string, number>();
+
+  for (const transaction of history) {
+    const lot = lotsBySourceId.get(transaction.transactionId);
+    if (transaction.investmentAction === "SELL") {
+      disposals.push(
+        ...matchSale(
+          transaction,
+          openLots,
+          selections.filter(
+            (s) => s.sellTransactionId === transaction.transactionId
+          )
+        )
+      );
+    } else if (transaction.investmentAction === "SPLIT") {
+      actionUnits.set(
+        transaction.transactionId,
+        applySplit(transaction, openLots)
+      );
+    } else if (transaction.investmentAction === "BONUS" && lot) {
+      const units = getBonusUnits(transaction, openLots);
+      actionUnits.set(transaction.transactionId, units);
+      if (units > 0) {
+        openLots.push({ lot, units, remaining: units });
+      }
+    } else if (lot) {
+      const units = toUnits(lot.quantity);
+      openLots.push({ lot, units, remaining: units });
+    }
+  }
+
+  return { openLots, disposals, actionUnits };
+};
+
+// Refresh the holding row from its lots (quantity, cost and realized gains)
+const updateHoldingSummary = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  params: {
+    userId: string;
+    assetSymbol: string;
+    openLots: OpenLot[];
+    disposals: InsertTaxLotDisposal[];
+  }
+) => {
+  const { userId, assetSymbol, openLots, disposals } = params;
+  let units = 0;
+  let investedCents = 0;
+  for (const open of openLots) {
+    units += open.remaining;
+    investedCents += shareOfAmount(
+      open.lot.costAmount,
+      open.units - open.remaining,
+      open.units,
+      open.units
+    );
+  }
+  const realizedCents = disposals.reduce(
+    (sum, disposal) =>
+      sum +
+      Math.round(Number.parseFloat(disposal.realizedGainLoss) * CENTS_PER_UNIT),
+    0
+  );
+
+  await dbOrTx
+    .update(investmentHoldings)
+    .set({
+      totalQuantity: fromUnits(units),
+      totalInvestedAmount: fromCents(investedCents),
+      averageBuyPrice:
+        units > 0
+          ? (investedCents / CENTS_PER_UNIT / (units / QUANTITY_SCALE)).toFixed(
+              PRICE_DECIMALS
+            )
+          : null,
+      realizedGainLoss: fromCents(realizedCents),
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(investmentHoldings.userId, userId),
+        eq(investmentHoldings.assetSymbol, assetSymbol)
+      )
+    );
+};
+
+/**
+ * Rebuild the tax lots of one asset from its BUY, SELL, SPLIT and BONUS history
+ * Replays transactions in date order: every BUY opens a lot, every SELL is
+ * matched to open lots (selected lots first, then FIFO), SPLIT rescales the
+ * open lots and BONUS opens a zero-cost lot; the holding row is refreshed as
+ * a summary of the result
+ */
+const rebuildAssetLots = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  assetSymbol: string
+): Promise<void> => {
+  const history = await dbOrTx
+    .select()
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.userId, userId),
+        eq(transactions.isInvestment, true),
+        eq(transactions.assetSymbol, assetSymbol),
+        isNull(transactions.deletedAt),
+        or(
+          and(
+            inArray(transactions.investmentAction, ["BUY", "SELL"]),
+            isNotNull(transactions.quantity)
+          ),
+          and(
+            inArray(transactions.investmentAction, ["SPLIT", "BONUS"]),
+            isNotNull(transactions.corporateActionRatio)
+          )
+        )
+      )
+    )
+    .orderBy(
+      asc(transactions.transactionDateTime),
+      asc(transactions.createdAt)
+    );
+
+  const sources = history.filter(
+    (t) => t.investmentAction === "BUY" || t.investmentAction === "BONUS"
+  );
+  const sells = history.filter((t) => t.investmentAction === "SELL");
+  const lots = await syncLots(dbOrTx, userId, assetSymbol, sources);
+  const lotIds = lots.map((lot) => lot.lotId);
+  const sellIds = sells.map((sell) => sell.transactionId);
+
+  // Disposals are derived data: clear them for this asset's lots and sales
+  if (lotIds.length > 0 || sellIds.length > 0) {
+    await dbOrTx
+      .delete(taxLotDisposals)
+      .where(
+        or(
+          lotIds.length > 0
+            ? inArray(taxLotDisposals.lotId, lotIds)
+            : undefined,
+          sellIds.length > 0
+            ? inArray(taxLotDisposals.sellTransactionId, sellIds)
+            : undefined
+        )
+      );
+  }
+
+  const selections =
+    sellIds.length > 0
+      ? await dbOrTx
+          .select()
+          .from(taxLotSelections)
+          .where(inArray(taxLotSelections.sellTransactionId, sellIds))
+      : [];
+
+  const { openLots, disposals, actionUnits } = replayHistory(
+    history,
+    new Map(lots.map((lot) => [lot.buyTransactionId, lot])),
+    selections
+  );
+
+  for (const open of openLots) {
+    if (
+      open.units !== toUnits(open.lot.quantity) ||
+      open.remaining !== toUnits(open.lot.remainingQuantity)
+    ) {
+      await dbOrTx
+        .update(taxLots)
+        .set({
+          quantity: fromUnits(open.units),
+          remainingQuantity: fromUnits(open.remaining),
+          costPerUnit: (
+            Number.parseFloat(open.lot.costAmount) /
+            (open.units / QUANTITY_SCALE)
+          ).toFixed(PRICE_DECIMALS),
+        })
+        .where(eq(taxLots.lotId, open.lot.lotId));
+    }
+  }
+
+  // SPLIT and BONUS transactions record the units they added, next to the
+  // quantity the user entered
+  for (const [transactionId, units] of actionUnits) {
+    await dbOrTx
+      .update(transactions)
+      .set({ corporateActionUnits: fromUnits(units) })
+      .where(eq(transactions.transactionId, transactionId));
+  }
+
+  if (disposals.length > 0) {
+    await dbOrTx.insert(taxLotDisposals).values(disposals);
+  }
+
+  await updateHoldingSummary(dbOrTx, {
+    userId,
+    assetSymbol,
+    openLots,
+    disposals,
+  });
+};
+
+/**
+ * Rebuild the tax lots of the given assets
+ * Call after investment transactions are created, changed or deleted, once the
+ * transaction rows themselves are written
+ */
+export const rebuildTaxLots = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  assetSymbols: (string | null | undefined)[]
+): Promise<void> => {
+  const symbols = [
+    ...new Set(assetSymbols.filter((s): s is string => Boolean(s))),
+  ];
+
+  for (const assetSymbol of symbols) {
+    await rebuildAssetLots(dbOrTx, userId, assetSymbol);
+  }
+};
+
+/**
+ * Build lots for assets bought before lots were tracked
+ * Only assets with BUY history and no lots at all are rebuilt
+ */
+export const backfillTaxLots = async (
+  db: PostgresJsDatabase<typeof schema>,
+  userId: string
+): Promise<void> => {
+  const missing = await db
+    .selectDistinct({ assetSymbol: transactions.assetSymbol })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.userId, userId),
+        eq(transactions.isInvestment, true),
+        eq(transactions.investmentAction, "BUY"),
+        isNotNull(transactions.quantity),
+        isNull(transactions.deletedAt),
+        sql`NOT EXISTS (SELECT 1 FROM ${taxLots} WHERE ${taxLots.userId} = ${transactions.userId} AND ${taxLots.assetSymbol} = ${transactions.assetSymbol})`
+      )
+    );
+
+  if (missing.length > 0) {
+    await db.transaction((tx) =>
+      rebuildTaxLots(
+        tx,
+        userId,
+        missing.map((m) => m.assetSymbol)
+      )
+    );
+  }
+};
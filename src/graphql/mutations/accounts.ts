@@ -1,9 +1,23 @@
-import { and, eq, sql } from "drizzle-orm";
+import { and, eq, isNotNull, isNull, sql } from "drizzle-orm";
 import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
 import { GraphQLError } from "graphql";
 import type * as schema from "../../db/schema";
 import { accounts } from "../../db/schema";
-import type { Account, MutationResolvers } from "../../generated/graphql";
+import type { MutationResolvers } from "../../generated/graphql";
+import { AMOUNT_DECIMALS, normalizeCurrencyCode } from "../../lib/currency";
+import { recordAuditEvents } from "../audit-helpers";
+import { recomputeAccountBalance } from "../balance-helpers";
+import { getBaseCurrency } from "../currency-helpers";
+import { resolveDepositFields } from "../deposit-helpers";
+import { resolveLoanFields } from "../loan-helpers";
+import { formatAccountForGraphQL } from "../queries/accounts";
+import { resolveCreditCardFields } from "../statement-helpers";
+import { publishChanges, snapshotHoldings } from "../subscriptions/publishers";
+import {
+  getAccountAssetSymbols,
+  restoreAccount,
+  trashAccount,
+} from "../trash-helpers";
 
 // Helper function to verify account ownership
 export const verifyAccountOwnership = async (
@@ -14,7 +28,13 @@ export const verifyAccountOwnership = async (
   const account = await db
     .select()
     .from(accounts)
-    .where(and(eq(accounts.accountId, accountId), eq(accounts.userId, userId)))
+    .where(
+      and(
+        eq(accounts.accountId, accountId),
+        eq(accounts.userId, userId),
+        isNull(accounts.deletedAt)
+      )
+    )
     .limit(1);
 
   if (!account[0]) {
@@ -26,10 +46,14 @@ export const verifyAccountOwnership = async (
 
 export const accountMutations: Pick<
   MutationResolvers,
-  "createAccount" | "updateAccount" | "deleteAccount"
+  | "createAccount"
+  | "updateAccount"
+  | "deleteAccount"
+  | "restoreAccount"
+  | "recomputeAccountBalance"
 > = {
   // Create a new account
-  createAccount: async (_, { input }, { db, user }) => {
+  createAccount: async (_, { input }, { db, user, request }) => {
     if (!user) {
       throw new GraphQLError("Not authenticated", {
         extensions: { code: "UNAUTHENTICATED" },
@@ -43,46 +67,85 @@ export const accountMutations: Pick<
       .where(
         and(
           eq(accounts.userId, user.id),
-          eq(accounts.accountGroup, input.accountGroup)
+          eq(accounts.accountGroup, input.accountGroup),
+          isNull(accounts.deletedAt)
         )
       )
       .limit(1);
 
     const isFirstInGroup = existingAccountsInGroup.length === 0;
 
-    const newAccount = await db
-      .insert(accounts)
-      .values({
+    // Accounts hold money in one currency (default: the user's base currency)
+    const currency = input.currency
+      ? normalizeCurrencyCode(input.currency)
+      : await getBaseCurrency(db, user.id);
+    if (!currency) {
+      throw new GraphQLError("currency must be a 3-letter ISO 4217 code", {
+        extensions: { code: "BAD_USER_INPUT" },
+      });
+    }
+
+    const depositFields = await resolveDepositFields(db, {
+      userId: user.id,
+      accountType: input.accountType,
+      input,
+    });
+
+    // A fixed deposit starts out holding its principal
+    const openingBalance =
+      input.initialBalance || depositFields.depositPrincipal || "0.00";
+
+    const newAccount = await db.transaction(async (tx) => {
+      const created = await tx
+        .insert(accounts)
+        .values({
+          userId: user.id,
+          accountType: input.accountType,
+          accountGroup: input.accountGroup,
+          accountName: input.accountName,
+          accountNumber: input.accountNumber,
+          institutionName: input.institutionName,
+          currentBalance: openingBalance,
+          manualBalance: openingBalance,
+          currency,
+          logoUrl: input.logoUrl,
+          ...resolveCreditCardFields({
+            accountGroup: input.accountGroup,
+            input,
+          }),
+          ...resolveLoanFields({ accountGroup: input.accountGroup, input }),
+          ...depositFields,
+          isDefault: isFirstInGroup, // Set as default if first in group
+        })
+        .returning();
+
+      await recordAuditEvents(tx, {
         userId: user.id,
-        accountType: input.accountType,
-        accountGroup: input.accountGroup,
-        accountName: input.accountName,
-        accountNumber: input.accountNumber,
-        institutionName: input.institutionName,
-        currentBalance: input.initialBalance || "0.00",
-        logoUrl: input.logoUrl,
-        creditLimit: input.creditLimit,
-        isDefault: isFirstInGroup, // Set as default if first in group
-      })
-      .returning();
-
-    const account = newAccount[0];
-    return {
-      ...account,
-      balanceUpdatedAt: account.balanceUpdatedAt.toISOString(),
-      manualBalanceUpdatedAt: account.manualBalanceUpdatedAt.toISOString(),
-      loanStartDate: account.loanStartDate?.toISOString() ?? null,
-      loanEndDate: account.loanEndDate?.toISOString() ?? null,
-      createdAt: account.createdAt.toISOString(),
-      updatedAt: account.updatedAt.toISOString(),
-      lastTransactionDate: account.balanceUpdatedAt
-        ? account.balanceUpdatedAt.toISOString()
-        : null,
-    } as unknown as Account;
+        source: "createAccount",
+        request,
+        undoable: true,
+        changes: [
+          {
+            operation: "CREATE",
+            entityType: "ACCOUNT",
+            entityId: created[0].accountId,
+            after: created[0],
+          },
+        ],
+      });
+
+      return created;
+    });
+
+    return formatAccountForGraphQL(newAccount[0]);
   },
 
   // Update an account
-  updateAccount: async (_, { accountId, input }, { db, user }) => {
+  updateAccount: async (
+    _,
+    { accountId, input },
+    { db, user, pubsub, app, request }
+  ) => {
     if (!user) {
       throw new GraphQLError("Not authenticated", {
         extensions: { code: "UNAUTHENTICATED" },
@@ -160,33 +223,80 @@ export const accountMutations: Pick<
     // Update balance if provided
     if (input.currentBalance) {
       updates.currentBalance = input.currentBalance;
+      updates.manualBalance = input.currentBalance;
       updates.balanceUpdatedAt = new Date();
       updates.manualBalanceUpdatedAt = new Date();
     }
 
-    const updated = await db
-      .update(accounts)
-      .set(updates)
-      .where(eq(accounts.accountId, accountId))
-      .returning();
+    const updated = await db.transaction(async (tx) => {
+      // Lock the account so the audited snapshot is the row being replaced
+      const [account] = await tx
+        .select()
+        .from(accounts)
+        .where(eq(accounts.accountId, accountId))
+        .limit(1)
+        .for("update");
+
+      // Update credit card, interest rate, loan and fixed deposit terms
+      Object.assign(
+        updates,
+        resolveCreditCardFields({ accountGroup: account.accountGroup, input }),
+        resolveLoanFields({
+          accountGroup: account.accountGroup,
+          input,
+          existing: account,
+        }),
+        await resolveDepositFields(tx, {
+          userId: user.id,
+          accountType: account.accountType,
+          input,
+          existing: account,
+        })
+      );
 
-    const account = updated[0];
-    return {
-      ...account,
-      balanceUpdatedAt: account.balanceUpdatedAt.toISOString(),
-      manualBalanceUpdatedAt: account.manualBalanceUpdatedAt.toISOString(),
-      loanStartDate: account.loanStartDate?.toISOString() ?? null,
-      loanEndDate: account.loanEndDate?.toISOString() ?? null,
-      createdAt: account.createdAt.toISOString(),
-      updatedAt: account.updatedAt.toISOString(),
-      lastTransactionDate: account.balanceUpdatedAt
-        ? account.balanceUpdatedAt.toISOString()
-        : null,
-    } as unknown as Account;
+      const result = await tx
+        .update(accounts)
+        .set(updates)
+        .where(eq(accounts.accountId, accountId))
+        .returning();
+
+      await recordAuditEvents(tx, {
+        userId: user.id,
+        source: "updateAccount",
+        request,
+        undoable: true,
+        changes: [
+          {
+            operation: "UPDATE",
+            entityType: "ACCOUNT",
+            entityId: accountId,
+            before: account,
+            after: result[0],
+          },
+        ],
+      });
+
+      return result;
+    });
+
+    // Notify other devices when the balance was set manually
+    if (input.currentBalance) {
+      await publishChanges(
+        { db, pubsub, app },
+        { userId: user.id, accountIds: [accountId] }
+      );
+    }
+
+    return formatAccountForGraphQL(updated[0]);
   },
 
   // Delete an account
-  deleteAccount: async (_, { accountId }, { db, user }) => {
+  // Moves the account to the trash with its transactions
+  deleteAccount: async (
+    _,
+    { accountId },
+    { db, user, pubsub, app, request }
+  ) => {
     if (!user) {
       throw new GraphQLError("Not authenticated", {
         extensions: { code: "UNAUTHENTICATED" },
@@ -196,9 +306,202 @@ export const accountMutations: Pick<
     // Verify account ownership
     await verifyAccountOwnership(db, accountId, user.id);
 
-    // Delete account (cascade will handle related transactions)
-    await db.delete(accounts).where(eq(accounts.accountId, accountId));
+    const trashed = await db.transaction(async (tx) => {
+      const [account] = await tx
+        .select()
+        .from(accounts)
+        .where(eq(accounts.accountId, accountId))
+        .limit(1)
+        .for("update");
+      const assetSymbols = await getAccountAssetSymbols(tx, accountId);
+      const holdingsBefore = await snapshotHoldings(tx, user.id, assetSymbols);
+
+      const result = await trashAccount(tx, { userId: user.id, account });
+
+      await recordAuditEvents(tx, {
+        userId: user.id,
+        source: "deleteAccount",
+        request,
+        undoable: true,
+        changes: [
+          {
+            operation: "DELETE",
+            entityType: "ACCOUNT",
+            entityId: accountId,
+            before: account,
+          },
+        ],
+      });
+
+      return { ...result, assetSymbols, holdingsBefore };
+    });
+
+    await publishChanges(
+      { db, pubsub, app },
+      {
+        userId: user.id,
+        transactions: trashed.transactions.map((transaction) => ({
+          operation: "DELETED",
+          transaction,
+        })),
+        holdings: {
+          assetSymbols: trashed.assetSymbols,
+          before: trashed.holdingsBefore,
+        },
+      }
+    );
 
     return { success: true, accountId };
   },
+
+  // Brings an account back from the trash with the transactions trashed with it
+  restoreAccount: async (
+    _,
+    { accountId },
+    { db, user, pubsub, app, request }
+  ) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const restored = await db.transaction(async (tx) => {
+      const [account] = await tx
+        .select()
+        .from(accounts)
+        .where(
+          and(
+            eq(accounts.accountId, accountId),
+            eq(accounts.userId, user.id),
+            isNotNull(accounts.deletedAt)
+          )
+        )
+        .limit(1)
+        .for("update");
+
+      if (!account) {
+        throw new GraphQLError("Account not found in the trash", {
+          extensions: { code: "FORBIDDEN" },
+        });
+      }
+
+      const assetSymbols = await getAccountAssetSymbols(tx, accountId);
+      const holdingsBefore = await snapshotHoldings(tx, user.id, assetSymbols);
+
+      const result = await restoreAccount(tx, { userId: user.id, account });
+
+      await recordAuditEvents(tx, {
+        userId: user.id,
+        source: "restoreAccount",
+        request,
+        undoable: true,
+        changes: [
+          {
+            operation: "RESTORE",
+            entityType: "ACCOUNT",
+            entityId: accountId,
+            before: account,
+            after: result.accounts[0],
+          },
+          ...result.transactions.map((transaction) => ({
+            operation: "RESTORE" as const,
+            entityType: "TRANSACTION" as const,
+            entityId: transaction.transactionId,
+            before: { ...transaction, deletedAt: account.deletedAt },
+            after: transaction,
+          })),
+        ],
+      });
+
+      return { ...result, assetSymbols, holdingsBefore };
+    });
+
+    await publishChanges(
+      { db, pubsub, app },
+      {
+        userId: user.id,
+        transactions: restored.transactions.map((transaction) => ({
+          operation: "CREATED",
+          transaction,
+        })),
+        accountIds: [accountId],
+        holdings: {
+          assetSymbols: restored.assetSymbols,
+          before: restored.holdingsBefore,
+        },
+      }
+    );
+
+    return formatAccountForGraphQL(restored.accounts[0]);
+  },
+
+  // Rebuild the balance from the latest manual checkpoint and the transactions since
+  recomputeAccountBalance: async (
+    _,
+    { accountId, dryRun },
+    { db, user, pubsub, app, request }
+  ) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    // Verify account ownership
+    await verifyAccountOwnership(db, accountId, user.id);
+
+    // Lock the account so concurrent transactions cannot move the balance
+    const result = await db.transaction(async (tx) => {
+      const [account] = await tx
+        .select()
+        .from(accounts)
+        .where(eq(accounts.accountId, accountId))
+        .limit(1)
+        .for("update");
+      const recomputed = await recomputeAccountBalance(tx, account, {
+        dryRun: dryRun ?? false,
+      });
+
+      if (recomputed.applied) {
+        await recordAuditEvents(tx, {
+          userId: user.id,
+          source: "recomputeAccountBalance",
+          request,
+          changes: [
+            {
+              operation: "UPDATE",
+              entityType: "ACCOUNT",
+              entityId: accountId,
+              before: account,
+              after: recomputed.account,
+            },
+          ],
+        });
+      }
+
+      return recomputed;
+    });
+
+    if (result.applied) {
+      await publishChanges(
+        { db, pubsub, app },
+        { userId: user.id, accountIds: [accountId] }
+      );
+    }
+
+    return {
+      accountId,
+      previousBalance: result.previousBalance.toFixed(AMOUNT_DECIMALS),
+      hasCheckpoint: result.hasCheckpoint,
+      checkpointBalance:
+        result.checkpointBalance?.toFixed(AMOUNT_DECIMALS) ?? null,
+      recomputedBalance:
+        result.recomputedBalance?.toFixed(AMOUNT_DECIMALS) ?? null,
+      drift: result.drift?.toFixed(AMOUNT_DECIMALS) ?? null,
+      transactionsCount: result.transactionsCount,
+      applied: result.applied,
+      account: formatAccountForGraphQL(result.account),
+    };
+  },
 };
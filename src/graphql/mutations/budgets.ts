@@ -0,0 +1,177 @@
+import { and, eq } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { GraphQLError } from "graphql";
+import type * as schema from "../../db/schema";
+import {
+  budgets,
+  customTransactionNames,
+  type DbBudget,
+} from "../../db/schema";
+import type { MutationResolvers } from "../../generated/graphql";
+import { getPeriodRange } from "../budget-helpers";
+import { formatBudgetForGraphQL } from "../queries/budgets";
+import { parseDateInput } from "../validation-helpers";
+import { getCategoryByNumber } from "./transaction-helpers";
+
+// Helper function to verify budget ownership
+const verifyBudgetOwnership = async (
+  db: PostgresJsDatabase<typeof schema>,
+  budgetId: string,
+  userId: string
+): Promise<DbBudget> => {
+  const [budget] = await db
+    .select()
+    .from(budgets)
+    .where(and(eq(budgets.budgetId, budgetId), eq(budgets.userId, userId)))
+    .limit(1);
+
+  if (!budget) {
+    throw new GraphQLError("Budget not found or access denied", {
+      extensions: { code: "FORBIDDEN" },
+    });
+  }
+
+  return budget;
+};
+
+// Helper to validate a budget amount
+const parseBudgetAmount = (amount: string): string => {
+  const value = Number.parseFloat(amount);
+  if (!(Number.isFinite(value) && value > 0)) {
+    throw new GraphQLError("amount must be a positive number", {
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+  return value.toFixed(2);
+};
+
+export const budgetMutations: Pick<
+  MutationResolvers,
+  "createBudget" | "updateBudget" | "deleteBudget"
+> = {
+  // Create a budget for a category or custom name
+  createBudget: async (_, { input }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const hasCategory =
+      input.categoryNumber !== undefined && input.categoryNumber !== null;
+    if (hasCategory === Boolean(input.customNameId)) {
+      throw new GraphQLError(
+        "Provide either categoryNumber or customNameId for a budget",
+        { extensions: { code: "BAD_USER_INPUT" } }
+      );
+    }
+
+    let categoryId: string | null = null;
+    if (hasCategory) {
+      const category = await getCategoryByNumber(
+        db,
+        input.categoryNumber as number,
+        user.id
+      );
+      categoryId = category.categoryId;
+    }
+
+    if (input.customNameId) {
+      const [customName] = await db
+        .select({ customNameId: customTransactionNames.customNameId })
+        .from(customTransactionNames)
+        .where(
+          and(
+            eq(customTransactionNames.customNameId, input.customNameId),
+            eq(customTransactionNames.userId, user.id)
+          )
+        )
+        .limit(1);
+
+      if (!customName) {
+        throw new GraphQLError("Custom name not found or access denied", {
+          extensions: { code: "FORBIDDEN" },
+        });
+      }
+    }
+
+    const startDate = input.startDate
+      ? parseDateInput(input.startDate, "startDate")
+      : getPeriodRange(input.period, new Date()).start;
+
+    const [budget] = await db
+      .insert(budgets)
+      .values({
+        userId: user.id,
+        categoryId,
+        customNameId: input.customNameId ?? null,
+        amount: parseBudgetAmount(input.amount),
+        period: input.period,
+        startDate,
+        rollover: input.rollover ?? false,
+        notes: input.notes,
+      })
+      .returning();
+
+    return formatBudgetForGraphQL(budget);
+  },
+
+  // Update a budget
+  updateBudget: async (_, { budgetId, input }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    await verifyBudgetOwnership(db, budgetId, user.id);
+
+    const updates: Partial<typeof budgets.$inferInsert> & {
+      updatedAt: Date;
+    } = {
+      updatedAt: new Date(),
+    };
+
+    if (input.amount) {
+      updates.amount = parseBudgetAmount(input.amount);
+    }
+    if (input.period) {
+      updates.period = input.period;
+    }
+    if (input.startDate) {
+      updates.startDate = parseDateInput(input.startDate, "startDate");
+    }
+    if (input.rollover !== undefined && input.rollover !== null) {
+      updates.rollover = input.rollover;
+    }
+    if (input.isActive !== undefined && input.isActive !== null) {
+      updates.isActive = input.isActive;
+    }
+    if (input.notes !== undefined) {
+      updates.notes = input.notes;
+    }
+
+    const [updated] = await db
+      .update(budgets)
+      .set(updates)
+      .where(eq(budgets.budgetId, budgetId))
+      .returning();
+
+    return formatBudgetForGraphQL(updated);
+  },
+
+  // Delete a budget
+  deleteBudget: async (_, { budgetId }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    await verifyBudgetOwnership(db, budgetId, user.id);
+
+    await db.delete(budgets).where(eq(budgets.budgetId, budgetId));
+
+    return { success: true, budgetId };
+  },
+};
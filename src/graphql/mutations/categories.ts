@@ -0,0 +1,186 @@
+import { and, eq, sql } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { GraphQLError } from "graphql";
+import type * as schema from "../../db/schema";
+import {
+  categories,
+  type DbCategory,
+  userCategoryNumberSeq,
+} from "../../db/schema";
+import type { MutationResolvers } from "../../generated/graphql";
+import {
+  assertCategoryNameAvailable,
+  validateParentCategory,
+} from "../category-helpers";
+import { formatCategoryForGraphQL } from "../queries/categories";
+import { getCategoryByNumber } from "./transaction-helpers";
+
+// Helper function to verify the user owns a (non-system) category
+const verifyCategoryOwnership = async (
+  db: PostgresJsDatabase<typeof schema>,
+  categoryId: string,
+  userId: string
+): Promise<DbCategory> => {
+  const [category] = await db
+    .select()
+    .from(categories)
+    .where(
+      and(eq(categories.categoryId, categoryId), eq(categories.userId, userId))
+    )
+    .limit(1);
+
+  if (!category) {
+    throw new GraphQLError("Category not found or access denied", {
+      extensions: { code: "FORBIDDEN" },
+    });
+  }
+
+  return category;
+};
+
+// Helper to validate a category name from user input
+const parseCategoryName = (categoryName: string): string => {
+  const name = categoryName.trim();
+  if (!name) {
+    throw new GraphQLError("categoryName cannot be empty", {
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+  return name;
+};
+
+export const categoryMutations: Pick<
+  MutationResolvers,
+  "createCategory" | "updateCategory" | "archiveCategory"
+> = {
+  // Create a user-defined category
+  createCategory: async (_, { input }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const categoryName = parseCategoryName(input.categoryName);
+    const categoryType = input.categoryType ?? "GENERAL";
+    await assertCategoryNameAvailable(db, { userId: user.id, categoryName });
+
+    let parentCategoryId: string | null = null;
+    if (
+      input.parentCategoryNumber !== undefined &&
+      input.parentCategoryNumber !== null
+    ) {
+      const parent = await getCategoryByNumber(
+        db,
+        input.parentCategoryNumber,
+        user.id
+      );
+      await validateParentCategory(db, { parent, categoryType });
+      parentCategoryId = parent.categoryId;
+    }
+
+    const [category] = await db
+      .insert(categories)
+      .values({
+        userId: user.id,
+        categoryType,
+        categoryName,
+        categoryNumber: sql.raw(`nextval('${userCategoryNumberSeq.seqName}')`),
+        parentCategoryId,
+        investmentSector: input.investmentSector,
+        description: input.description,
+        defaultIconUrl: input.iconUrl,
+        isSystemCategory: false,
+      })
+      .returning();
+
+    return formatCategoryForGraphQL(category);
+  },
+
+  // Update a user-defined category
+  updateCategory: async (_, { categoryId, input }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const existing = await verifyCategoryOwnership(db, categoryId, user.id);
+
+    const updates: Partial<typeof categories.$inferInsert> & {
+      updatedAt: Date;
+    } = {
+      updatedAt: new Date(),
+    };
+
+    if (input.categoryName) {
+      const categoryName = parseCategoryName(input.categoryName);
+      await assertCategoryNameAvailable(db, {
+        userId: user.id,
+        categoryName,
+        exceptCategoryId: categoryId,
+      });
+      updates.categoryName = categoryName;
+    }
+
+    // Parent category number 0 detaches the subcategory
+    if (input.parentCategoryNumber === 0) {
+      updates.parentCategoryId = null;
+    } else if (
+      input.parentCategoryNumber !== undefined &&
+      input.parentCategoryNumber !== null
+    ) {
+      const parent = await getCategoryByNumber(
+        db,
+        input.parentCategoryNumber,
+        user.id
+      );
+      await validateParentCategory(db, {
+        parent,
+        categoryType: existing.categoryType,
+        categoryId,
+      });
+      updates.parentCategoryId = parent.categoryId;
+    }
+
+    if (input.investmentSector !== undefined) {
+      updates.investmentSector = input.investmentSector;
+    }
+    if (input.description !== undefined) {
+      updates.description = input.description;
+    }
+    if (input.iconUrl !== undefined) {
+      updates.defaultIconUrl = input.iconUrl;
+    }
+    if (input.isArchived !== undefined && input.isArchived !== null) {
+      updates.isArchived = input.isArchived;
+    }
+
+    const [updated] = await db
+      .update(categories)
+      .set(updates)
+      .where(eq(categories.categoryId, categoryId))
+      .returning();
+
+    return formatCategoryForGraphQL(updated);
+  },
+
+  // Archive a user-defined category (kept on existing transactions)
+  archiveCategory: async (_, { categoryId }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    await verifyCategoryOwnership(db, categoryId, user.id);
+
+    const [archived] = await db
+      .update(categories)
+      .set({ isArchived: true, updatedAt: new Date() })
+      .where(eq(categories.categoryId, categoryId))
+      .returning();
+
+    return formatCategoryForGraphQL(archived);
+  },
+};
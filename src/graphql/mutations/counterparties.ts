@@ -0,0 +1,136 @@
+import { and, eq, ne, sql } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { GraphQLError } from "graphql";
+import type * as schema from "../../db/schema";
+import { counterparties } from "../../db/schema";
+import type { MutationResolvers } from "../../generated/graphql";
+import {
+  normalizeCounterpartyName,
+  verifyCounterpartyOwnership,
+} from "../counterparty-helpers";
+import { formatCounterpartyForGraphQL } from "../queries/counterparties";
+import { parseDateInput } from "../validation-helpers";
+
+// Helper to reject a name already used by another of the user's counterparties
+const assertCounterpartyNameAvailable = async (
+  db: PostgresJsDatabase<typeof schema>,
+  params: { userId: string; name: string; exceptCounterpartyId?: string }
+) => {
+  const conditions = [
+    eq(counterparties.userId, params.userId),
+    sql`lower(${counterparties.name}) = ${params.name.toLowerCase()}`,
+  ];
+  if (params.exceptCounterpartyId) {
+    conditions.push(
+      ne(counterparties.counterpartyId, params.exceptCounterpartyId)
+    );
+  }
+
+  const [existing] = await db
+    .select({ counterpartyId: counterparties.counterpartyId })
+    .from(counterparties)
+    .where(and(...conditions))
+    .limit(1);
+
+  if (existing) {
+    throw new GraphQLError(
+      `A counterparty named "${params.name}" already exists`,
+      { extensions: { code: "BAD_USER_INPUT" } }
+    );
+  }
+};
+
+export const counterpartyMutations: Pick<
+  MutationResolvers,
+  "createCounterparty" | "updateCounterparty" | "deleteCounterparty"
+> = {
+  // Create a counterparty
+  createCounterparty: async (_, { input }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const name = normalizeCounterpartyName(input.name);
+    await assertCounterpartyNameAvailable(db, { userId: user.id, name });
+
+    const [counterparty] = await db
+      .insert(counterparties)
+      .values({
+        userId: user.id,
+        name,
+        phone: input.phone,
+        notes: input.notes,
+        reminderDate: input.reminderDate
+          ? parseDateInput(input.reminderDate, "reminderDate")
+          : null,
+      })
+      .returning();
+
+    return formatCounterpartyForGraphQL(counterparty);
+  },
+
+  // Rename a counterparty or change their details and reminder
+  updateCounterparty: async (_, { counterpartyId, input }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    await verifyCounterpartyOwnership(db, counterpartyId, user.id);
+
+    const updates: Partial<typeof counterparties.$inferInsert> & {
+      updatedAt: Date;
+    } = {
+      updatedAt: new Date(),
+    };
+
+    if (input.name) {
+      const name = normalizeCounterpartyName(input.name);
+      await assertCounterpartyNameAvailable(db, {
+        userId: user.id,
+        name,
+        exceptCounterpartyId: counterpartyId,
+      });
+      updates.name = name;
+    }
+    if (input.phone !== undefined) {
+      updates.phone = input.phone;
+    }
+    if (input.notes !== undefined) {
+      updates.notes = input.notes;
+    }
+    if (input.reminderDate !== undefined) {
+      updates.reminderDate = input.reminderDate
+        ? parseDateInput(input.reminderDate, "reminderDate")
+        : null;
+    }
+
+    const [updated] = await db
+      .update(counterparties)
+      .set(updates)
+      .where(eq(counterparties.counterpartyId, counterpartyId))
+      .returning();
+
+    return formatCounterpartyForGraphQL(updated);
+  },
+
+  // Delete a counterparty (their transactions are kept, unlinked)
+  deleteCounterparty: async (_, { counterpartyId }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    await verifyCounterpartyOwnership(db, counterpartyId, user.id);
+
+    await db
+      .delete(counterparties)
+      .where(eq(counterparties.counterpartyId, counterpartyId));
+
+    return { success: true, counterpartyId };
+  },
+};
@@ -0,0 +1,157 @@
+import { and, eq } from "drizzle-orm";
+import { GraphQLError } from "graphql";
+import { exchangeRates, userSettings } from "../../db/schema";
+import type { MutationResolvers } from "../../generated/graphql";
+import {
+  normalizeCurrencyCode,
+  parseExchangeRateCsv,
+  toRateDate,
+} from "../../lib/currency";
+import { upsertExchangeRates } from "../currency-helpers";
+import {
+  formatExchangeRateForGraphQL,
+  formatSettingsForGraphQL,
+} from "../queries/currency";
+import { parseDateInput } from "../validation-helpers";
+
+// Helper to validate a currency code from user input
+const requireCurrencyCode = (value: string, field: string): string => {
+  const code = normalizeCurrencyCode(value);
+  if (!code) {
+    throw new GraphQLError(`${field} must be a 3-letter ISO 4217 code`, {
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+  return code;
+};
+
+export const currencyMutations: Pick<
+  MutationResolvers,
+  | "updateMySettings"
+  | "upsertExchangeRate"
+  | "deleteExchangeRate"
+  | "importExchangeRates"
+> = {
+  // Create or update settings for authenticated user
+  updateMySettings: async (_, { input }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const updates: Partial<typeof userSettings.$inferInsert> = {};
+    if (input.baseCurrency) {
+      updates.baseCurrency = requireCurrencyCode(
+        input.baseCurrency,
+        "baseCurrency"
+      );
+    }
+
+    const [settings] = await db
+      .insert(userSettings)
+      .values({ userId: user.id, ...updates })
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: { ...updates, updatedAt: new Date() },
+      })
+      .returning();
+
+    return formatSettingsForGraphQL(settings);
+  },
+
+  // Enter a rate manually (replaces the user's rate for the same pair and day)
+  upsertExchangeRate: async (_, { input }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const baseCurrency = requireCurrencyCode(
+      input.baseCurrency,
+      "baseCurrency"
+    );
+    const quoteCurrency = requireCurrencyCode(
+      input.quoteCurrency,
+      "quoteCurrency"
+    );
+    if (baseCurrency === quoteCurrency) {
+      throw new GraphQLError("baseCurrency and quoteCurrency must differ", {
+        extensions: { code: "BAD_USER_INPUT" },
+      });
+    }
+
+    const rate = Number.parseFloat(input.rate);
+    if (!(Number.isFinite(rate) && rate > 0)) {
+      throw new GraphQLError("rate must be a positive number", {
+        extensions: { code: "BAD_USER_INPUT" },
+      });
+    }
+
+    const rateDate = input.rateDate
+      ? parseDateInput(input.rateDate, "rateDate")
+      : new Date();
+
+    const [saved] = await upsertExchangeRates(db, {
+      userId: user.id,
+      source: "MANUAL",
+      rows: [
+        {
+          baseCurrency,
+          quoteCurrency,
+          rate: rate.toString(),
+          rateDate: toRateDate(rateDate),
+        },
+      ],
+    });
+
+    return formatExchangeRateForGraphQL(saved);
+  },
+
+  // Delete one of the user's own rates (shared rates are read-only)
+  deleteExchangeRate: async (_, { rateId }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const deleted = await db
+      .delete(exchangeRates)
+      .where(
+        and(eq(exchangeRates.rateId, rateId), eq(exchangeRates.userId, user.id))
+      )
+      .returning({ rateId: exchangeRates.rateId });
+
+    if (!deleted[0]) {
+      throw new GraphQLError("Exchange rate not found or access denied", {
+        extensions: { code: "FORBIDDEN" },
+      });
+    }
+
+    return { success: true, rateId };
+  },
+
+  // Import rates from a CSV file (date, base, quote, rate)
+  importExchangeRates: async (_, { input }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const { rows, errors } = parseExchangeRateCsv(
+      input.content,
+      input.delimiter || ","
+    );
+
+    const saved = await upsertExchangeRates(db, {
+      userId: user.id,
+      source: "FILE",
+      rows,
+    });
+
+    return { importedCount: saved.length, errors };
+  },
+};
@@ -0,0 +1,42 @@
+import { GraphQLError } from "graphql";
+import type { MutationResolvers, Transaction } from "../../generated/graphql";
+import { commitImportTransactions } from "../import-helpers";
+import { formatTransactionForGraphQL } from "../queries/transactions";
+import { publishChanges } from "../subscriptions/publishers";
+
+export const importMutations: Pick<MutationResolvers, "commitImport"> = {
+  // Create the previewed (and possibly edited) transactions in one go
+  commitImport: async (_, { input }, { db, user, pubsub, app, request }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const result = await commitImportTransactions(db, user.id, input, request);
+
+    await publishChanges(
+      { db, pubsub, app },
+      {
+        userId: user.id,
+        transactions: result.transactions.map((transaction) => ({
+          operation: "CREATED",
+          transaction,
+        })),
+        accountIds: input.transactions.flatMap((txn) => [
+          txn.accountId,
+          txn.otherAccountId,
+        ]),
+      }
+    );
+
+    return {
+      importedCount: result.transactions.length,
+      skippedCount: result.skippedCount,
+      transactions: result.transactions.map(
+        (transaction) =>
+          formatTransactionForGraphQL(transaction) as unknown as Transaction
+      ),
+    };
+  },
+};
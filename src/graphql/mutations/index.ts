@@ -1,10 +1,26 @@
 import type { MutationResolvers } from "../../generated/graphql";
 import { accountMutations } from "./accounts";
+import { budgetMutations } from "./budgets";
+import { categoryMutations } from "./categories";
+import { counterpartyMutations } from "./counterparties";
+import { currencyMutations } from "./currency";
+import { importMutations } from "./imports";
+import { reconciliationMutations } from "./reconciliations";
 import { recurringMutations } from "./recurring";
+import { tagMutations } from "./tags";
 import { transactionMutations } from "./transactions";
+import { undoMutations } from "./undo";
 
 export const mutations: MutationResolvers = {
   ...accountMutations,
   ...transactionMutations,
   ...recurringMutations,
+  ...importMutations,
+  ...currencyMutations,
+  ...budgetMutations,
+  ...tagMutations,
+  ...categoryMutations,
+  ...counterpartyMutations,
+  ...reconciliationMutations,
+  ...undoMutations,
 };
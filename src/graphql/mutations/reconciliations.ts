@@ -0,0 +1,273 @@
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { GraphQLError } from "graphql";
+import { accounts, reconciliations, transactions } from "../../db/schema";
+import type { MutationResolvers, Transaction } from "../../generated/graphql";
+import { recordAuditEvents } from "../audit-helpers";
+import { formatReconciliationForGraphQL } from "../queries/reconciliations";
+import { formatTransactionForGraphQL } from "../queries/transactions";
+import {
+  completeReconciliation,
+  getReconciliationDetails,
+  verifyReconciliationOwnership,
+} from "../reconciliation-helpers";
+import { publishChanges } from "../subscriptions/publishers";
+import { parseDateInput } from "../validation-helpers";
+import { verifyAccountOwnership } from "./transaction-helpers";
+
+// Helper to parse a statement date from user input
+const parseStatementDate = (value: string): Date => {
+  const date = parseDateInput(value, "statementDate");
+  if (date > new Date()) {
+    throw new GraphQLError("statementDate cannot be in the future", {
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+  return date;
+};
+
+export const reconciliationMutations: Pick<
+  MutationResolvers,
+  | "startReconciliation"
+  | "setTransactionsCleared"
+  | "completeReconciliation"
+  | "deleteReconciliation"
+> = {
+  // Record a statement balance to reconcile an account against
+  startReconciliation: async (_, { input }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const account = await verifyAccountOwnership(db, input.accountId, user.id);
+    const statementDate = parseStatementDate(input.statementDate);
+    if (Number.isNaN(Number.parseFloat(input.statementBalance))) {
+      throw new GraphQLError("statementBalance must be a number", {
+        extensions: { code: "BAD_USER_INPUT" },
+      });
+    }
+
+    // One open reconciliation per account at a time
+    const [open] = await db
+      .select({ reconciliationId: reconciliations.reconciliationId })
+      .from(reconciliations)
+      .where(
+        and(
+          eq(reconciliations.accountId, account.accountId),
+          eq(reconciliations.status, "OPEN")
+        )
+      )
+      .limit(1);
+    if (open) {
+      throw new GraphQLError(
+        "Account already has an open reconciliation; complete or delete it first",
+        { extensions: { code: "BAD_USER_INPUT" } }
+      );
+    }
+
+    const [reconciliation] = await db
+      .insert(reconciliations)
+      .values({
+        userId: user.id,
+        accountId: account.accountId,
+        statementDate,
+        statementBalance: input.statementBalance,
+        notes: input.notes,
+      })
+      .returning();
+
+    return formatReconciliationForGraphQL(
+      await getReconciliationDetails(db, account, reconciliation)
+    );
+  },
+
+  // Mark transactions as cleared (seen on a statement) or uncleared
+  setTransactionsCleared: async (
+    _,
+    { transactionIds, cleared },
+    { db, user, pubsub, app, request }
+  ) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const ids = [...new Set(transactionIds)];
+    const updated = await db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(transactions)
+        .where(
+          and(
+            inArray(transactions.transactionId, ids),
+            eq(transactions.userId, user.id),
+            isNull(transactions.deletedAt)
+          )
+        )
+        .for("update");
+      if (existing.length !== ids.length) {
+        throw new GraphQLError("Transaction not found or access denied", {
+          extensions: { code: "FORBIDDEN" },
+        });
+      }
+      if (existing.some((t) => t.clearingStatus === "RECONCILED")) {
+        throw new GraphQLError(
+          "Reconciled transactions cannot be changed; delete their reconciliation first",
+          { extensions: { code: "BAD_USER_INPUT" } }
+        );
+      }
+
+      const rows = await tx
+        .update(transactions)
+        .set({
+          clearingStatus: cleared ? "CLEARED" : "UNCLEARED",
+          updatedAt: new Date(),
+        })
+        .where(inArray(transactions.transactionId, ids))
+        .returning();
+
+      await recordAuditEvents(tx, {
+        userId: user.id,
+        source: "setTransactionsCleared",
+        request,
+        changes: rows.map((after) => ({
+          operation: "UPDATE",
+          entityType: "TRANSACTION",
+          entityId: after.transactionId,
+          before: existing.find((t) => t.transactionId === after.transactionId),
+          after,
+        })),
+      });
+
+      return rows;
+    });
+
+    await publishChanges(
+      { db, pubsub, app },
+      {
+        userId: user.id,
+        transactions: updated.map((transaction) => ({
+          operation: "UPDATED",
+          transaction,
+        })),
+      }
+    );
+
+    return updated.map(
+      (transaction) =>
+        formatTransactionForGraphQL(transaction) as unknown as Transaction
+    );
+  },
+
+  // Complete a reconciliation, optionally posting an adjustment for the difference
+  completeReconciliation: async (
+    _,
+    { reconciliationId, postAdjustment },
+    { db, user, pubsub, app, request }
+  ) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const completed = await db.transaction(async (tx) => {
+      const reconciliation = await verifyReconciliationOwnership(
+        tx,
+        reconciliationId,
+        user.id
+      );
+      const [account] = await tx
+        .select()
+        .from(accounts)
+        .where(eq(accounts.accountId, reconciliation.accountId))
+        .limit(1);
+
+      const result = await completeReconciliation(tx, {
+        userId: user.id,
+        account,
+        reconciliation,
+        postAdjustment: postAdjustment ?? false,
+        request,
+      });
+      return {
+        ...result,
+        details: await getReconciliationDetails(
+          tx,
+          account,
+          result.reconciliation
+        ),
+      };
+    });
+
+    if (completed.adjustment) {
+      await publishChanges(
+        { db, pubsub, app },
+        {
+          userId: user.id,
+          transactions: [
+            { operation: "CREATED", transaction: completed.adjustment },
+          ],
+          accountIds: [completed.adjustment.accountId],
+        }
+      );
+    }
+
+    return formatReconciliationForGraphQL(completed.details);
+  },
+
+  // Delete a reconciliation; its transactions go back to CLEARED
+  deleteReconciliation: async (
+    _,
+    { reconciliationId },
+    { db, user, request }
+  ) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    await verifyReconciliationOwnership(db, reconciliationId, user.id);
+
+    await db.transaction(async (tx) => {
+      const reconciled = await tx
+        .select()
+        .from(transactions)
+        .where(eq(transactions.reconciliationId, reconciliationId))
+        .for("update");
+      const rows = await tx
+        .update(transactions)
+        .set({
+          clearingStatus: "CLEARED",
+          reconciliationId: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(transactions.reconciliationId, reconciliationId))
+        .returning();
+
+      await recordAuditEvents(tx, {
+        userId: user.id,
+        source: "deleteReconciliation",
+        request,
+        changes: rows.map((after) => ({
+          operation: "UPDATE",
+          entityType: "TRANSACTION",
+          entityId: after.transactionId,
+          before: reconciled.find(
+            (t) => t.transactionId === after.transactionId
+          ),
+          after,
+        })),
+      });
+
+      await tx
+        .delete(reconciliations)
+        .where(eq(reconciliations.reconciliationId, reconciliationId));
+    });
+
+    return { success: true, reconciliationId };
+  },
+};
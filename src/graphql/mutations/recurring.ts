@@ -2,6 +2,7 @@ import { and, eq } from "drizzle-orm";
 import { GraphQLError } from "graphql";
 import type { MutationResolvers } from "@/generated/graphql";
 import { recurringPatterns } from "../../db/schema";
+import { recordAuditEvents } from "../audit-helpers";
 
 export const recurringMutations: Pick<
   MutationResolvers,
@@ -10,7 +11,7 @@ export const recurringMutations: Pick<
   manageRecurringPattern: async (
     _,
     { patternId, updateInput },
-    { db, user }
+    { db, user, request }
   ) => {
     if (!user) {
       throw new GraphQLError("Not authenticated", {
@@ -98,11 +99,31 @@ export const recurringMutations: Pick<
         : null;
     }
 
-    const [updated] = await db
-      .update(recurringPatterns)
-      .set(updateData)
-      .where(eq(recurringPatterns.patternId, patternId))
-      .returning();
+    const updated = await db.transaction(async (tx) => {
+      const [pattern] = await tx
+        .update(recurringPatterns)
+        .set(updateData)
+        .where(eq(recurringPatterns.patternId, patternId))
+        .returning();
+
+      await recordAuditEvents(tx, {
+        userId: user.id,
+        source: "manageRecurringPattern",
+        request,
+        undoable: true,
+        changes: [
+          {
+            operation: "UPDATE",
+            entityType: "RECURRING_PATTERN",
+            entityId: patternId,
+            before: existingPattern,
+            after: pattern,
+          },
+        ],
+      });
+
+      return pattern;
+    });
 
     return updated as never;
   },
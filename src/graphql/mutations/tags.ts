@@ -0,0 +1,130 @@
+import { and, eq, ne, sql } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { GraphQLError } from "graphql";
+import type * as schema from "../../db/schema";
+import { type DbTag, tags } from "../../db/schema";
+import type { MutationResolvers } from "../../generated/graphql";
+import { formatTagForGraphQL } from "../queries/tags";
+import { normalizeTagName } from "../tag-helpers";
+
+// Helper function to verify tag ownership
+const verifyTagOwnership = async (
+  db: PostgresJsDatabase<typeof schema>,
+  tagId: string,
+  userId: string
+): Promise<DbTag> => {
+  const [tag] = await db
+    .select()
+    .from(tags)
+    .where(and(eq(tags.tagId, tagId), eq(tags.userId, userId)))
+    .limit(1);
+
+  if (!tag) {
+    throw new GraphQLError("Tag not found or access denied", {
+      extensions: { code: "FORBIDDEN" },
+    });
+  }
+
+  return tag;
+};
+
+// Helper to reject a name already used by another of the user's tags
+const assertTagNameAvailable = async (
+  db: PostgresJsDatabase<typeof schema>,
+  params: { userId: string; name: string; exceptTagId?: string }
+) => {
+  const conditions = [
+    eq(tags.userId, params.userId),
+    sql`lower(${tags.name}) = ${params.name.toLowerCase()}`,
+  ];
+  if (params.exceptTagId) {
+    conditions.push(ne(tags.tagId, params.exceptTagId));
+  }
+
+  const [existing] = await db
+    .select({ tagId: tags.tagId })
+    .from(tags)
+    .where(and(...conditions))
+    .limit(1);
+
+  if (existing) {
+    throw new GraphQLError(`A tag named "${params.name}" already exists`, {
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+};
+
+export const tagMutations: Pick<
+  MutationResolvers,
+  "createTag" | "updateTag" | "deleteTag"
+> = {
+  // Create a tag
+  createTag: async (_, { input }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const name = normalizeTagName(input.name);
+    await assertTagNameAvailable(db, { userId: user.id, name });
+
+    const [tag] = await db
+      .insert(tags)
+      .values({ userId: user.id, name, color: input.color })
+      .returning();
+
+    return formatTagForGraphQL(tag);
+  },
+
+  // Rename or recolor a tag
+  updateTag: async (_, { tagId, input }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    await verifyTagOwnership(db, tagId, user.id);
+
+    const updates: Partial<typeof tags.$inferInsert> & { updatedAt: Date } = {
+      updatedAt: new Date(),
+    };
+
+    if (input.name) {
+      const name = normalizeTagName(input.name);
+      await assertTagNameAvailable(db, {
+        userId: user.id,
+        name,
+        exceptTagId: tagId,
+      });
+      updates.name = name;
+    }
+    if (input.color !== undefined) {
+      updates.color = input.color;
+    }
+
+    const [updated] = await db
+      .update(tags)
+      .set(updates)
+      .where(eq(tags.tagId, tagId))
+      .returning();
+
+    return formatTagForGraphQL(updated);
+  },
+
+  // Delete a tag (removes it from all transactions)
+  deleteTag: async (_, { tagId }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    await verifyTagOwnership(db, tagId, user.id);
+
+    await db.delete(tags).where(eq(tags.tagId, tagId));
+
+    return { success: true, tagId };
+  },
+};
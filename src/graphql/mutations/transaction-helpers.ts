@@ -1,6 +1,7 @@
-import { and, eq } from "drizzle-orm";
+import { and, eq, isNull, sql } from "drizzle-orm";
 import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
 import { GraphQLError } from "graphql";
+import { DEFAULT_BASE_CURRENCY } from "../../config/constants";
 import type * as schema from "../../db/schema";
 import {
   accounts,
@@ -8,14 +9,34 @@ import {
   customTransactionNames,
   investmentHoldings,
   recurringPatterns,
+  transactionSplits,
   transactions,
 } from "../../db/schema";
+import type {
+  CreateTransactionInput,
+  TransactionSplitInput,
+} from "../../generated/graphql";
+import {
+  AMOUNT_DECIMALS,
+  PRICE_DECIMALS,
+  QUANTITY_DECIMALS,
+  RATE_DECIMALS,
+} from "../../lib/currency";
+import { categoryVisibleTo } from "../category-helpers";
+import { resolveCounterpartyId } from "../counterparty-helpers";
+import { getExchangeRate } from "../currency-helpers";
+import {
+  applyCorporateAction,
+  normalizeCorporateActionRatio,
+  rebuildTaxLots,
+  setTaxLotSelections,
+} from "../lot-helpers";
+import { setTransactionTags } from "../tag-helpers";
 
 // Constants for decimal precision
-const QUANTITY_DECIMALS = 6;
-const PRICE_DECIMALS = 4;
-const AMOUNT_DECIMALS = 2;
 const DAYS_IN_WEEK = 7;
+const CENTS_PER_UNIT = 100;
+const MIN_SPLITS = 2;
 
 // ===========================
 // VERIFICATION HELPERS
@@ -35,7 +56,8 @@ export const verifyTransactionOwnership = async (
     .where(
       and(
         eq(transactions.transactionId, transactionId),
-        eq(transactions.userId, userId)
+        eq(transactions.userId, userId),
+        isNull(transactions.deletedAt)
       )
     )
     .limit(1);
@@ -60,7 +82,13 @@ export const verifyAccountOwnership = async (
   const account = await dbOrTx
     .select()
     .from(accounts)
-    .where(and(eq(accounts.accountId, accountId), eq(accounts.userId, userId)))
+    .where(
+      and(
+        eq(accounts.accountId, accountId),
+        eq(accounts.userId, userId),
+        isNull(accounts.deletedAt)
+      )
+    )
     .limit(1);
 
   if (!account[0]) {
@@ -74,15 +102,22 @@ export const verifyAccountOwnership = async (
 
 /**
  * Get category by number
+ * Resolves system categories and the user's own categories
  */
 export const getCategoryByNumber = async (
   dbOrTx: PostgresJsDatabase<typeof schema>,
-  categoryNumber: number
+  categoryNumber: number,
+  userId: string
 ): Promise<typeof categories.$inferSelect> => {
   const category = await dbOrTx
     .select()
     .from(categories)
-    .where(eq(categories.categoryNumber, categoryNumber))
+    .where(
+      and(
+        eq(categories.categoryNumber, categoryNumber),
+        categoryVisibleTo(userId)
+      )
+    )
     .limit(1);
 
   if (!category[0]) {
@@ -280,6 +315,23 @@ export const updateCustomName = async (
   return newCustomName.customNameId;
 };
 
+/**
+ * Signed change a transaction makes to its account balance
+ * POSTPAID and LOAN balances are amounts owed, so debits raise them; PREPAID
+ * and INVESTMENT balances are amounts held, so credits raise them
+ */
+export const getBalanceChange = (
+  accountGroup: schema.AccountGroup,
+  transactionType: "DEBIT" | "CREDIT",
+  amount: number
+): number => {
+  const isOwed = accountGroup === "POSTPAID" || accountGroup === "LOAN";
+  const raises = isOwed
+    ? transactionType === "DEBIT"
+    : transactionType === "CREDIT";
+  return raises ? amount : -amount;
+};
+
 /**
  * Update account balances
  * Handles: create (add transaction), update (reverse old, apply new), delete (reverse transaction)
@@ -308,7 +360,6 @@ export const updateAccountBalances = async (
     transactionType: "DEBIT" | "CREDIT",
     transactionDateTime: Date,
     reverse = false
-    // biome-ignore lint(complexity/noExcessiveParametersCount): All parameters required for balance calculation
   ) => {
     const [account] = await dbOrTx
       .select()
@@ -336,21 +387,9 @@ export const updateAccountBalances = async (
       effectiveType = transactionType === "DEBIT" ? "CREDIT" : "DEBIT";
     }
 
-    let newBalance: number;
-    if (
-      account.accountGroup === "POSTPAID" ||
-      account.accountGroup === "LOAN"
-    ) {
-      newBalance =
-        effectiveType === "DEBIT"
-          ? currentBalance + transactionAmount
-          : currentBalance - transactionAmount;
-    } else {
-      newBalance =
-        effectiveType === "DEBIT"
-          ? currentBalance - transactionAmount
-          : currentBalance + transactionAmount;
-    }
+    const newBalance =
+      currentBalance +
+      getBalanceChange(account.accountGroup, effectiveType, transactionAmount);
 
     await dbOrTx
       .update(accounts)
@@ -538,6 +577,8 @@ export const updateInvestmentHoldings = async (
             totalQuantity: quantity,
             averageBuyPrice: pricePerUnit,
             totalInvestedAmount: amount,
+            // Holdings are valued in the currency of their account
+            currency: sql`(SELECT ${accounts.currency} FROM ${accounts} WHERE ${accounts.accountId} = ${accountId})`,
           })
           .returning();
 
@@ -625,7 +666,8 @@ export const updateInvestmentHoldings = async (
         }
       }
     } else if (holding && !reverse && transactionId) {
-      // For DIVIDEND, BONUS, SPLIT - just link to holding
+      // For DIVIDEND - just link to holding; SPLIT and BONUS are linked here
+      // too, then applied to the holding by applyCorporateAction
       await dbOrTx
         .update(transactions)
         .set({ investmentHoldingId: holding.holdingId })
@@ -1017,3 +1059,423 @@ export const updateRecurringPatterns = async (
     );
   }
 };
+
+// ===========================
+// TRANSFER CURRENCY HELPER
+// ===========================
+
+/**
+ * Resolve the amount booked on the other side of a transfer
+ * Same-currency transfers mirror the amount; cross-currency transfers use the
+ * amount the user received, or convert at the stored rate for the date
+ * Each side records the realized rate into the other side's currency
+ */
+export const resolveTransferAmount = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  params: {
+    userId: string;
+    amount: string;
+    otherAmount?: string | null;
+    fromCurrency: string;
+    toCurrency: string;
+    transactionDateTime: Date;
+  }
+): Promise<{
+  otherAmount: string;
+  exchangeRate: string | null;
+  otherExchangeRate: string | null;
+}> => {
+  const { userId, amount, fromCurrency, toCurrency } = params;
+  if (fromCurrency === toCurrency) {
+    return { otherAmount: amount, exchangeRate: null, otherExchangeRate: null };
+  }
+
+  const amountNum = Number.parseFloat(amount);
+  let otherAmountNum: number;
+  if (params.otherAmount) {
+    otherAmountNum = Number.parseFloat(params.otherAmount);
+  } else {
+    const rate = await getExchangeRate(dbOrTx, {
+      userId,
+      from: fromCurrency,
+      to: toCurrency,
+      at: params.transactionDateTime,
+    });
+    if (!rate) {
+      throw new GraphQLError(
+        `No ${fromCurrency} to ${toCurrency} exchange rate found. Add a rate or provide otherAmount`,
+        { extensions: { code: "BAD_USER_INPUT" } }
+      );
+    }
+    otherAmountNum = amountNum * Number.parseFloat(rate);
+  }
+
+  if (!(otherAmountNum > 0 && amountNum > 0)) {
+    throw new GraphQLError("Transfer amounts must be positive", {
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+
+  return {
+    otherAmount: otherAmountNum.toFixed(AMOUNT_DECIMALS),
+    exchangeRate: (otherAmountNum / amountNum).toFixed(RATE_DECIMALS),
+    otherExchangeRate: (amountNum / otherAmountNum).toFixed(RATE_DECIMALS),
+  };
+};
+
+// ===========================
+// TRANSACTION SPLIT HELPERS
+// ===========================
+
+// Helper to compare amounts without floating point drift
+const toCents = (amount: string) =>
+  Math.round(Number.parseFloat(amount) * CENTS_PER_UNIT);
+
+// Helper to check that split amounts add up to the transaction amount
+const assertSplitTotal = (amount: string, splitAmounts: string[]) => {
+  const total = splitAmounts.reduce((sum, value) => sum + toCents(value), 0);
+  if (total !== toCents(amount)) {
+    throw new GraphQLError(
+      `Split amounts must add up to the transaction amount (${amount})`,
+      { extensions: { code: "BAD_USER_INPUT" } }
+    );
+  }
+};
+
+/**
+ * Remove all splits of a transaction
+ * Releases the custom names used by the removed splits
+ */
+export const clearTransactionSplits = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  transactionId: string
+): Promise<void> => {
+  const removed = await dbOrTx
+    .delete(transactionSplits)
+    .where(eq(transactionSplits.transactionId, transactionId))
+    .returning();
+
+  for (const split of removed) {
+    if (split.customNameId) {
+      await updateCustomName(dbOrTx, "delete", {
+        userId: split.userId,
+        categoryId: split.categoryId,
+        oldCustomNameId: split.customNameId,
+      });
+    }
+  }
+};
+
+/**
+ * Replace the splits of a transaction
+ * Handles: validation (at least two positive splits summing to the amount),
+ * category lookup and custom names per split; an empty list removes the splits
+ * Transfers and investment transactions cannot be split
+ */
+export const replaceTransactionSplits = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  params: {
+    userId: string;
+    transaction: typeof transactions.$inferSelect;
+    splits: TransactionSplitInput[] | null | undefined;
+  }
+): Promise<(typeof transactionSplits.$inferSelect)[]> => {
+  const { userId, transaction } = params;
+  const splits = params.splits ?? [];
+
+  if (splits.length > 0) {
+    if (transaction.isTransfer || transaction.isInvestment) {
+      throw new GraphQLError(
+        "Transfers and investment transactions cannot be split",
+        { extensions: { code: "BAD_USER_INPUT" } }
+      );
+    }
+    if (splits.length < MIN_SPLITS) {
+      throw new GraphQLError(`Provide at least ${MIN_SPLITS} splits`, {
+        extensions: { code: "BAD_USER_INPUT" },
+      });
+    }
+    if (splits.some((split) => !(toCents(split.amount) > 0))) {
+      throw new GraphQLError("Split amounts must be positive", {
+        extensions: { code: "BAD_USER_INPUT" },
+      });
+    }
+    assertSplitTotal(
+      transaction.amount,
+      splits.map((split) => split.amount)
+    );
+  }
+
+  await clearTransactionSplits(dbOrTx, transaction.transactionId);
+  if (splits.length === 0) {
+    return [];
+  }
+
+  const rows: (typeof transactionSplits.$inferInsert)[] = [];
+  for (const split of splits) {
+    const category = await getCategoryByNumber(
+      dbOrTx,
+      split.categoryNumber,
+      userId
+    );
+    const customNameId = await updateCustomName(dbOrTx, "create", {
+      userId,
+      customName: split.customName,
+      categoryId: category.categoryId,
+    });
+
+    rows.push({
+      transactionId: transaction.transactionId,
+      userId,
+      categoryId: category.categoryId,
+      customNameId,
+      amount: Number.parseFloat(split.amount).toFixed(AMOUNT_DECIMALS),
+      description: split.description,
+    });
+  }
+
+  return await dbOrTx.insert(transactionSplits).values(rows).returning();
+};
+
+/**
+ * Verify existing splits still add up after the transaction amount changes
+ */
+export const verifySplitTotal = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  transactionId: string,
+  amount: string
+): Promise<void> => {
+  const existing = await dbOrTx
+    .select({ amount: transactionSplits.amount })
+    .from(transactionSplits)
+    .where(eq(transactionSplits.transactionId, transactionId));
+
+  if (existing.length > 0) {
+    assertSplitTotal(
+      amount,
+      existing.map((split) => split.amount)
+    );
+  }
+};
+
+// ===========================
+// TRANSACTION CREATION HELPER
+// ===========================
+
+/**
+ * Create a transaction with all of its side effects
+ * Handles: custom name, balances, transfer pairing, splits, tags, investment holdings and recurring patterns
+ * Must be called inside a database transaction
+ */
+export const createTransactionWithEffects = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  params: {
+    userId: string;
+    input: CreateTransactionInput;
+    location: string | null;
+  }
+): Promise<typeof transactions.$inferSelect> => {
+  const { userId, input, location } = params;
+
+  // Verify account ownership
+  const account = await verifyAccountOwnership(tx, input.accountId, userId);
+  const currency = account.currency ?? DEFAULT_BASE_CURRENCY;
+
+  // Get category
+  const category = await getCategoryByNumber(tx, input.categoryNumber, userId);
+
+  // Handle custom name
+  const customNameId = await updateCustomName(tx, "create", {
+    userId,
+    customName: input.customName,
+    categoryId: category.categoryId,
+    assetSymbol: input.assetSymbol || null,
+  });
+
+  // Check if transfer and verify other account
+  let otherAccount: typeof accounts.$inferSelect | undefined;
+  if (input.isTransfer && input.otherAccountId) {
+    otherAccount = await verifyAccountOwnership(
+      tx,
+      input.otherAccountId,
+      userId
+    );
+  }
+
+  // Cross-currency transfers book the converted amount on the other side
+  const otherCurrency = otherAccount?.currency ?? currency;
+  const transfer = await resolveTransferAmount(tx, {
+    userId,
+    amount: input.amount,
+    otherAmount: input.otherAmount,
+    fromCurrency: currency,
+    toCurrency: otherCurrency,
+    transactionDateTime: new Date(input.transactionDateTime),
+  });
+
+  // Determine if investment transaction
+  const isInvestmentTransaction =
+    input.isInvestment ||
+    (input.isTransfer && otherAccount?.accountGroup === "INVESTMENT");
+
+  // Create main transaction
+  const [transaction] = await tx
+    .insert(transactions)
+    .values({
+      userId,
+      accountId: input.accountId,
+      categoryId: category.categoryId,
+      amount: input.amount,
+      currency,
+      transactionType: input.transactionType,
+      transactionDateTime: new Date(input.transactionDateTime),
+      description: input.description,
+      customNameId,
+      isInvestment: isInvestmentTransaction,
+      assetSymbol: input.assetSymbol,
+      quantity: input.quantity,
+      pricePerUnit: input.pricePerUnit,
+      investmentAction: input.investmentAction,
+      corporateActionRatio: normalizeCorporateActionRatio(
+        input.investmentAction,
+        input.corporateActionRatio
+      ),
+      isTransfer: Boolean(input.isTransfer),
+      exchangeRate: transfer.exchangeRate,
+      counterpartyId: await resolveCounterpartyId(tx, {
+        userId,
+        counterpartyId: input.counterpartyId,
+        counterpartyName: input.counterpartyName,
+      }),
+      isRecurring: Boolean(input.isRecurring),
+      location,
+      paymentMethod: input.paymentMethod,
+    } as typeof transactions.$inferInsert)
+    .returning();
+
+  // Update account balance
+  await updateAccountBalances(tx, "create", {
+    newAccountId: input.accountId,
+    newAmount: input.amount,
+    newTransactionType: input.transactionType,
+    newTransactionDateTime: new Date(input.transactionDateTime),
+  });
+
+  // Handle transfer paired transaction
+  if (input.isTransfer && input.otherAccountId) {
+    const pairedTransactionType =
+      input.transactionType === "DEBIT" ? "CREDIT" : "DEBIT";
+
+    const [pairedTransaction] = await tx
+      .insert(transactions)
+      .values({
+        userId,
+        accountId: input.otherAccountId,
+        categoryId: category.categoryId,
+        amount: transfer.otherAmount,
+        currency: otherCurrency,
+        transactionType: pairedTransactionType,
+        transactionDateTime: new Date(input.transactionDateTime),
+        description: input.description,
+        customNameId,
+        isTransfer: true,
+        isInvestment: Boolean(isInvestmentTransaction),
+        linkedTransactionId: transaction.transactionId,
+        exchangeRate: transfer.otherExchangeRate,
+        location,
+        paymentMethod: input.paymentMethod,
+      })
+      .returning();
+
+    // Update paired account balance
+    await updateAccountBalances(tx, "create", {
+      newAccountId: input.otherAccountId,
+      newAmount: transfer.otherAmount,
+      newTransactionType: pairedTransactionType,
+      newTransactionDateTime: new Date(input.transactionDateTime),
+    });
+
+    // Link transactions
+    await tx
+      .update(transactions)
+      .set({
+        linkedTransactionId: pairedTransaction.transactionId,
+        isTransfer: true,
+      })
+      .where(eq(transactions.transactionId, transaction.transactionId));
+  }
+
+  // Handle splits
+  await replaceTransactionSplits(tx, {
+    userId,
+    transaction,
+    splits: input.splits,
+  });
+
+  // Handle tags
+  await setTransactionTags(tx, {
+    userId,
+    transactionId: transaction.transactionId,
+    tagNames: input.tags,
+  });
+
+  // Handle lots picked for a SELL
+  await setTaxLotSelections(tx, {
+    userId,
+    transaction,
+    selections: input.lotSelections,
+  });
+
+  // Update investment holdings
+  if (
+    isInvestmentTransaction &&
+    input.assetSymbol &&
+    input.quantity &&
+    input.pricePerUnit &&
+    input.investmentAction
+  ) {
+    await updateInvestmentHoldings(tx, "create", {
+      userId,
+      newAccountId: input.accountId,
+      newCategoryId: category.categoryId,
+      newAssetSymbol: input.assetSymbol,
+      newQuantity: input.quantity,
+      newPricePerUnit: input.pricePerUnit,
+      newInvestmentAction: input.investmentAction,
+      newAmount: input.amount,
+      transactionId: transaction.transactionId,
+    });
+    await rebuildTaxLots(tx, userId, [input.assetSymbol]);
+  }
+
+  // Apply SPLIT / BONUS to the holding and its lots
+  await applyCorporateAction(tx, { userId, transaction });
+
+  // Handle recurring pattern
+  if (input.isRecurring && input.recurringFrequency) {
+    await updateRecurringPatterns(tx, "create", {
+      userId,
+      transactionId: transaction.transactionId,
+      newIsRecurring: true,
+      newAccountId: input.accountId,
+      newCategoryId: category.categoryId,
+      newCustomNameId: customNameId,
+      newAmount: input.amount,
+      newTransactionType: input.transactionType,
+      newDescription: input.description,
+      newLocation: location,
+      newPaymentMethod: input.paymentMethod,
+      newFrequency: input.recurringFrequency,
+      newCustomFrequencyDays: input.customFrequencyDays,
+      newTransactionDateTime: new Date(input.transactionDateTime),
+    });
+  }
+
+  // Return the row as stored, with the transfer and recurring links made above
+  const [stored] = await tx
+    .select()
+    .from(transactions)
+    .where(eq(transactions.transactionId, transaction.transactionId))
+    .limit(1);
+  return stored;
+};
@@ -1,25 +1,81 @@
-import { and, eq, or } from "drizzle-orm";
+import { and, eq, isNotNull, isNull } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
 import { GraphQLError } from "graphql";
-import type { accounts } from "../../db/schema";
-import { transactions } from "../../db/schema";
+import { DEFAULT_BASE_CURRENCY } from "../../config/constants";
+import type * as schema from "../../db/schema";
+import {
+  type DbRecurringPattern,
+  type DbTransaction,
+  recurringPatterns,
+  transactions,
+} from "../../db/schema";
 import type { MutationResolvers, Transaction } from "../../generated/graphql";
 import { fetchLocationFromIP } from "../../lib/location";
+import { type AuditChange, recordAuditEvents } from "../audit-helpers";
+import { resolveCounterpartyId } from "../counterparty-helpers";
+import {
+  normalizeCorporateActionRatio,
+  rebuildTaxLots,
+  setTaxLotSelections,
+} from "../lot-helpers";
 import { formatTransactionForGraphQL } from "../queries/transactions";
+import { publishChanges, snapshotHoldings } from "../subscriptions/publishers";
+import { setTransactionTags } from "../tag-helpers";
+import { restoreTransaction, trashTransaction } from "../trash-helpers";
 import {
+  createTransactionWithEffects,
   getCategoryByNumber,
+  replaceTransactionSplits,
+  resolveTransferAmount,
   updateAccountBalances,
   updateCustomName,
   updateInvestmentHoldings,
   updateRecurringPatterns,
   verifyAccountOwnership,
+  verifySplitTotal,
   verifyTransactionOwnership,
 } from "./transaction-helpers";
 
+// Recurring pattern started by a new transaction; a pattern it was linked to
+// instead already has other transactions
+const getStartedPattern = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  transaction: DbTransaction
+): Promise<DbRecurringPattern | undefined> => {
+  const patternId = transaction.recurringPatternId;
+  if (!patternId) {
+    return;
+  }
+
+  const linked = await tx
+    .select({ transactionId: transactions.transactionId })
+    .from(transactions)
+    .where(eq(transactions.recurringPatternId, patternId))
+    .limit(2);
+  if (linked.length !== 1) {
+    return;
+  }
+
+  const [pattern] = await tx
+    .select()
+    .from(recurringPatterns)
+    .where(eq(recurringPatterns.patternId, patternId))
+    .limit(1);
+  return pattern;
+};
+
 export const transactionMutations: Pick<
   MutationResolvers,
-  "createTransaction" | "updateTransaction" | "deleteTransaction"
+  | "createTransaction"
+  | "updateTransaction"
+  | "deleteTransaction"
+  | "restoreTransaction"
 > = {
-  createTransaction: async (_, { input }, { db, user }) => {
+  createTransaction: async (
+    _,
+    { input },
+    { db, user, pubsub, app, request }
+  ) => {
     if (!user) {
       throw new GraphQLError("Not authenticated", {
         extensions: { code: "UNAUTHENTICATED" },
@@ -28,162 +84,86 @@ export const transactionMutations: Pick<
 
     const location = await fetchLocationFromIP();
 
-    // biome-ignore lint(complexity/noExcessiveCognitiveComplexity): Complex atomic transaction logic required for data integrity
-    return await db.transaction(async (tx) => {
-      // Verify account ownership
-      await verifyAccountOwnership(tx, input.accountId, user.id);
+    const created = await db.transaction(async (tx) => {
+      const holdingsBefore = await snapshotHoldings(tx, user.id, [
+        input.assetSymbol,
+      ]);
 
-      // Get category
-      const category = await getCategoryByNumber(tx, input.categoryNumber);
-
-      // Handle custom name
-      const customNameId = await updateCustomName(tx, "create", {
+      const transaction = await createTransactionWithEffects(tx, {
         userId: user.id,
-        customName: input.customName,
-        categoryId: category.categoryId,
-        assetSymbol: input.assetSymbol || null,
+        input,
+        location,
       });
 
-      // Check if transfer and verify other account
-      let otherAccount: typeof accounts.$inferSelect | undefined;
-      if (input.isTransfer && input.otherAccountId) {
-        otherAccount = await verifyAccountOwnership(
-          tx,
-          input.otherAccountId,
-          user.id
-        );
-      }
-
-      // Determine if investment transaction
-      const isInvestmentTransaction =
-        input.isInvestment ||
-        (input.isTransfer && otherAccount?.accountGroup === "INVESTMENT");
+      // Transfers also create the paired transaction in the other account
+      const [pairedTransaction] = await tx
+        .select()
+        .from(transactions)
+        .where(eq(transactions.linkedTransactionId, transaction.transactionId))
+        .limit(1);
 
-      // Create main transaction
-      const [transaction] = await tx
-        .insert(transactions)
-        .values({
-          userId: user.id,
-          accountId: input.accountId,
-          categoryId: category.categoryId,
-          amount: input.amount,
-          transactionType: input.transactionType,
-          transactionDateTime: new Date(input.transactionDateTime),
-          description: input.description,
-          customNameId,
-          isInvestment: isInvestmentTransaction,
-          assetSymbol: input.assetSymbol,
-          quantity: input.quantity,
-          pricePerUnit: input.pricePerUnit,
-          investmentAction: input.investmentAction,
-          isTransfer: Boolean(input.isTransfer),
-          isRecurring: Boolean(input.isRecurring),
-          location,
-          paymentMethod: input.paymentMethod,
-        } as typeof transactions.$inferInsert)
-        .returning();
+      // The pattern goes first so a redo recreates it before the transaction
+      const startedPattern = await getStartedPattern(tx, transaction);
+      const changes: AuditChange[] = startedPattern
+        ? [
+            {
+              operation: "CREATE",
+              entityType: "RECURRING_PATTERN",
+              entityId: startedPattern.patternId,
+              after: startedPattern,
+            },
+          ]
+        : [];
+      for (const t of [transaction, pairedTransaction]) {
+        if (t) {
+          changes.push({
+            operation: "CREATE",
+            entityType: "TRANSACTION",
+            entityId: t.transactionId,
+            after: t,
+          });
+        }
+      }
 
-      // Update account balance
-      await updateAccountBalances(tx, "create", {
-        newAccountId: input.accountId,
-        newAmount: input.amount,
-        newTransactionType: input.transactionType,
-        newTransactionDateTime: new Date(input.transactionDateTime),
+      await recordAuditEvents(tx, {
+        userId: user.id,
+        source: "createTransaction",
+        request,
+        undoable: true,
+        changes,
       });
 
-      // Handle transfer paired transaction
-      if (input.isTransfer && input.otherAccountId) {
-        const pairedTransactionType =
-          input.transactionType === "DEBIT" ? "CREDIT" : "DEBIT";
-
-        const [pairedTransaction] = await tx
-          .insert(transactions)
-          .values({
-            userId: user.id,
-            accountId: input.otherAccountId,
-            categoryId: category.categoryId,
-            amount: input.amount,
-            transactionType: pairedTransactionType,
-            transactionDateTime: new Date(input.transactionDateTime),
-            description: input.description,
-            customNameId,
-            isTransfer: true,
-            isInvestment: Boolean(isInvestmentTransaction),
-            linkedTransactionId: transaction.transactionId,
-            location,
-            paymentMethod: input.paymentMethod,
-          })
-          .returning();
-
-        // Update paired account balance
-        await updateAccountBalances(tx, "create", {
-          newAccountId: input.otherAccountId,
-          newAmount: input.amount,
-          newTransactionType: pairedTransactionType,
-          newTransactionDateTime: new Date(input.transactionDateTime),
-        });
-
-        // Link transactions
-        await tx
-          .update(transactions)
-          .set({
-            linkedTransactionId: pairedTransaction.transactionId,
-            isTransfer: true,
-          })
-          .where(eq(transactions.transactionId, transaction.transactionId));
-      }
-
-      // Update investment holdings
-      if (
-        isInvestmentTransaction &&
-        input.assetSymbol &&
-        input.quantity &&
-        input.pricePerUnit &&
-        input.investmentAction
-      ) {
-        await updateInvestmentHoldings(tx, "create", {
-          userId: user.id,
-          newAccountId: input.accountId,
-          newCategoryId: category.categoryId,
-          newAssetSymbol: input.assetSymbol,
-          newQuantity: input.quantity,
-          newPricePerUnit: input.pricePerUnit,
-          newInvestmentAction: input.investmentAction,
-          newAmount: input.amount,
-          transactionId: transaction.transactionId,
-        });
-      }
+      return { transaction, pairedTransaction, holdingsBefore };
+    });
 
-      // Handle recurring pattern
-      if (input.isRecurring && input.recurringFrequency) {
-        await updateRecurringPatterns(tx, "create", {
-          userId: user.id,
-          transactionId: transaction.transactionId,
-          newIsRecurring: true,
-          newAccountId: input.accountId,
-          newCategoryId: category.categoryId,
-          newCustomNameId: customNameId,
-          newAmount: input.amount,
-          newTransactionType: input.transactionType,
-          newDescription: input.description,
-          newLocation: location,
-          newPaymentMethod: input.paymentMethod,
-          newFrequency: input.recurringFrequency as
-            | "DAILY"
-            | "WEEKLY"
-            | "MONTHLY"
-            | "YEARLY"
-            | "CUSTOM",
-          newCustomFrequencyDays: input.customFrequencyDays,
-          newTransactionDateTime: new Date(input.transactionDateTime),
-        });
+    await publishChanges(
+      { db, pubsub, app },
+      {
+        userId: user.id,
+        transactions: [created.transaction, created.pairedTransaction]
+          .filter((t): t is DbTransaction => Boolean(t))
+          .map((t) => ({ operation: "CREATED", transaction: t })),
+        accountIds: [
+          created.transaction.accountId,
+          created.pairedTransaction?.accountId,
+        ],
+        holdings: {
+          assetSymbols: [input.assetSymbol],
+          before: created.holdingsBefore,
+        },
       }
+    );
 
-      return formatTransactionForGraphQL(transaction) as unknown as Transaction;
-    });
+    return formatTransactionForGraphQL(
+      created.transaction
+    ) as unknown as Transaction;
   },
 
-  updateTransaction: async (_, { transactionId, input }, { db, user }) => {
+  updateTransaction: async (
+    _,
+    { transactionId, input },
+    { db, user, pubsub, app, request }
+  ) => {
     if (!user) {
       throw new GraphQLError("Not authenticated", {
         extensions: { code: "UNAUTHENTICATED" },
@@ -191,7 +171,7 @@ export const transactionMutations: Pick<
     }
 
     // biome-ignore lint(complexity/noExcessiveCognitiveComplexity): Complex atomic transaction logic required for data integrity
-    return await db.transaction(async (tx) => {
+    const updated = await db.transaction(async (tx) => {
       // Verify transaction ownership
       const existing = await verifyTransactionOwnership(
         tx,
@@ -199,6 +179,11 @@ export const transactionMutations: Pick<
         user.id
       );
 
+      const holdingsBefore = await snapshotHoldings(tx, user.id, [
+        existing.assetSymbol,
+        input.assetSymbol,
+      ]);
+
       // Build updates object
       const updates: Partial<typeof transactions.$inferInsert> & {
         updatedAt: Date;
@@ -223,7 +208,11 @@ export const transactionMutations: Pick<
       // Category update
       let newCategoryId = existing.categoryId;
       if (input.categoryNumber !== undefined && input.categoryNumber !== null) {
-        const category = await getCategoryByNumber(tx, input.categoryNumber);
+        const category = await getCategoryByNumber(
+          tx,
+          input.categoryNumber,
+          user.id
+        );
         updates.categoryId = category.categoryId;
         newCategoryId = category.categoryId;
       }
@@ -248,11 +237,71 @@ export const transactionMutations: Pick<
       if (input.quantity !== undefined && input.quantity !== null) {
         updates.quantity = input.quantity;
       }
+      if (
+        input.corporateActionRatio !== undefined &&
+        input.corporateActionRatio !== null
+      ) {
+        updates.corporateActionRatio = normalizeCorporateActionRatio(
+          existing.investmentAction,
+          input.corporateActionRatio
+        );
+      }
 
       // Account ID update
       if (input.accountId !== undefined && input.accountId !== null) {
-        await verifyAccountOwnership(tx, input.accountId, user.id);
+        const newAccount = await verifyAccountOwnership(
+          tx,
+          input.accountId,
+          user.id
+        );
+        // Amounts are in the account's currency, so a move to another
+        // currency needs the amount in that currency
+        const fromCurrency = existing.currency ?? DEFAULT_BASE_CURRENCY;
+        const toCurrency = newAccount.currency ?? DEFAULT_BASE_CURRENCY;
+        if (toCurrency !== fromCurrency) {
+          if (existing.isInvestment) {
+            throw new GraphQLError(
+              `Investment transactions cannot move from a ${fromCurrency} account to a ${toCurrency} account`,
+              { extensions: { code: "BAD_USER_INPUT" } }
+            );
+          }
+          if (!input.amount) {
+            throw new GraphQLError(
+              `Moving this transaction to a ${toCurrency} account needs its amount in ${toCurrency}`,
+              { extensions: { code: "BAD_USER_INPUT" } }
+            );
+          }
+        }
         updates.accountId = input.accountId;
+        updates.currency = newAccount.currency;
+      }
+
+      // Split update (replace all, or re-check existing splits against a new amount)
+      if (input.splits !== undefined && input.splits !== null) {
+        await replaceTransactionSplits(tx, {
+          userId: user.id,
+          transaction: { ...existing, amount: input.amount || existing.amount },
+          splits: input.splits,
+        });
+      } else if (input.amount !== undefined && input.amount !== null) {
+        await verifySplitTotal(tx, transactionId, input.amount);
+      }
+
+      // Tag update (replace all)
+      await setTransactionTags(tx, {
+        userId: user.id,
+        transactionId,
+        tagNames: input.tags,
+      });
+
+      // Counterparty update
+      const counterpartyId = await resolveCounterpartyId(tx, {
+        userId: user.id,
+        counterpartyId: input.counterpartyId,
+        counterpartyName: input.counterpartyName,
+      });
+      if (counterpartyId !== undefined) {
+        updates.counterpartyId = counterpartyId;
       }
 
       // Determine old and new values for updates
@@ -284,13 +333,20 @@ export const transactionMutations: Pick<
       }
 
       // Update transfer linked transaction
+      const linkedAccountIds: string[] = [];
+      let linkedTransaction: DbTransaction | undefined;
+      let updatedLinkedTransaction: DbTransaction | undefined;
       if (
         existing.isTransfer &&
         input.otherAccountId !== undefined &&
         input.otherAccountId !== null &&
         existing.linkedTransactionId
       ) {
-        await verifyAccountOwnership(tx, input.otherAccountId, user.id);
+        const otherAccount = await verifyAccountOwnership(
+          tx,
+          input.otherAccountId,
+          user.id
+        );
 
         const [linkedTxn] = await tx
           .select()
@@ -299,28 +355,55 @@ export const transactionMutations: Pick<
           .limit(1);
 
         if (linkedTxn) {
+          linkedTransaction = linkedTxn;
+          linkedAccountIds.push(linkedTxn.accountId);
+
+          // Keep the realized rate unless either side changed currency
+          const fromCurrency =
+            updates.currency ?? existing.currency ?? DEFAULT_BASE_CURRENCY;
+          const toCurrency = otherAccount.currency ?? fromCurrency;
+          const keepsRate =
+            existing.exchangeRate &&
+            fromCurrency === existing.currency &&
+            toCurrency === linkedTxn.currency;
+          const transfer = await resolveTransferAmount(tx, {
+            userId: user.id,
+            amount: newAmount,
+            otherAmount: keepsRate
+              ? (
+                  Number.parseFloat(newAmount) *
+                  Number.parseFloat(existing.exchangeRate ?? "1")
+                ).toFixed(2)
+              : null,
+            fromCurrency,
+            toCurrency,
+            transactionDateTime: newTransactionDateTime,
+          });
+          updates.exchangeRate = transfer.exchangeRate;
+
           // Update linked transaction balances
           await updateAccountBalances(tx, "update", {
             oldAccountId: linkedTxn.accountId,
             oldAmount: linkedTxn.amount,
             oldTransactionDateTime: new Date(linkedTxn.transactionDateTime),
             newAccountId: input.otherAccountId,
-            newAmount,
+            newAmount: transfer.otherAmount,
             newTransactionDateTime,
           });
 
           // Update linked transaction record
-          await tx
+          [updatedLinkedTransaction] = await tx
             .update(transactions)
             .set({
               accountId: input.otherAccountId,
-              amount: newAmount,
+              amount: transfer.otherAmount,
+              currency: toCurrency,
+              exchangeRate: transfer.otherExchangeRate,
               transactionDateTime: newTransactionDateTime,
               updatedAt: new Date(),
             })
-            .where(
-              eq(transactions.transactionId, existing.linkedTransactionId)
-            );
+            .where(eq(transactions.transactionId, existing.linkedTransactionId))
+            .returning();
         }
       }
 
@@ -392,21 +475,95 @@ export const transactionMutations: Pick<
         .where(eq(transactions.transactionId, transactionId))
         .returning();
 
-      return formatTransactionForGraphQL(
-        updatedTransaction
-      ) as unknown as Transaction;
+      // Lot selection update (replace all), then re-match the asset's lots
+      if (updatedTransaction.isInvestment) {
+        await setTaxLotSelections(tx, {
+          userId: user.id,
+          transaction: updatedTransaction,
+          selections: input.lotSelections,
+        });
+        await rebuildTaxLots(tx, user.id, [
+          existing.assetSymbol,
+          updatedTransaction.assetSymbol,
+        ]);
+      }
+
+      await recordAuditEvents(tx, {
+        userId: user.id,
+        source: "updateTransaction",
+        request,
+        undoable: true,
+        changes: [
+          {
+            operation: "UPDATE",
+            entityType: "TRANSACTION",
+            entityId: transactionId,
+            before: existing,
+            after: updatedTransaction,
+          },
+          ...(linkedTransaction && updatedLinkedTransaction
+            ? [
+                {
+                  operation: "UPDATE",
+                  entityType: "TRANSACTION",
+                  entityId: linkedTransaction.transactionId,
+                  before: linkedTransaction,
+                  after: updatedLinkedTransaction,
+                } satisfies AuditChange,
+              ]
+            : []),
+        ],
+      });
+
+      return {
+        existing,
+        updatedTransaction,
+        linkedAccountIds,
+        updatedLinkedTransaction,
+        holdingsBefore,
+      };
     });
+
+    await publishChanges(
+      { db, pubsub, app },
+      {
+        userId: user.id,
+        transactions: [
+          updated.updatedTransaction,
+          updated.updatedLinkedTransaction,
+        ]
+          .filter((t): t is DbTransaction => Boolean(t))
+          .map((t) => ({ operation: "UPDATED", transaction: t })),
+        accountIds: [
+          updated.existing.accountId,
+          updated.updatedTransaction.accountId,
+          ...updated.linkedAccountIds,
+          updated.updatedLinkedTransaction?.accountId,
+        ],
+        holdings: {
+          assetSymbols: [updated.updatedTransaction.assetSymbol],
+          before: updated.holdingsBefore,
+        },
+      }
+    );
+
+    return formatTransactionForGraphQL(
+      updated.updatedTransaction
+    ) as unknown as Transaction;
   },
 
-  deleteTransaction: async (_, { transactionId }, { db, user }) => {
+  deleteTransaction: async (
+    _,
+    { transactionId },
+    { db, user, pubsub, app, request }
+  ) => {
     if (!user) {
       throw new GraphQLError("Not authenticated", {
         extensions: { code: "UNAUTHENTICATED" },
       });
     }
 
-    // biome-ignore lint(complexity/noExcessiveCognitiveComplexity): Complex cleanup logic for transfers, investments, and recurring patterns
-    return await db.transaction(async (tx) => {
+    const deleted = await db.transaction(async (tx) => {
       // Check if transaction exists
       const [transaction] = await tx
         .select()
@@ -414,98 +571,146 @@ export const transactionMutations: Pick<
         .where(
           and(
             eq(transactions.transactionId, transactionId),
-            eq(transactions.userId, user.id)
+            eq(transactions.userId, user.id),
+            isNull(transactions.deletedAt)
           )
         )
         .limit(1);
 
       if (!transaction) {
-        return { success: true, transactionId };
+        return null;
       }
 
-      // Update custom name (delete or decrement usage)
-      if (transaction.customNameId) {
-        await updateCustomName(tx, "delete", {
-          userId: user.id,
-          customName: null,
-          categoryId: transaction.categoryId,
-          oldCustomNameId: transaction.customNameId,
-        });
-      }
+      const holdingsBefore = await snapshotHoldings(tx, user.id, [
+        transaction.assetSymbol,
+      ]);
 
-      // Update account balances (reverse)
-      await updateAccountBalances(tx, "delete", {
-        oldAccountId: transaction.accountId,
-        oldAmount: transaction.amount,
-        oldTransactionType: transaction.transactionType,
+      // Move to the trash, reversing balance and holding effects
+      const [, deletedLinkedTransaction] = await trashTransaction(tx, {
+        userId: user.id,
+        transaction,
       });
 
-      // Update investment holdings (reverse)
-      if (
-        transaction.isInvestment &&
-        transaction.assetSymbol &&
-        transaction.quantity &&
-        transaction.pricePerUnit &&
-        transaction.investmentAction
-      ) {
-        await updateInvestmentHoldings(tx, "delete", {
-          userId: user.id,
-          oldAccountId: transaction.accountId,
-          oldCategoryId: transaction.categoryId,
-          oldAssetSymbol: transaction.assetSymbol,
-          oldQuantity: transaction.quantity,
-          oldPricePerUnit: transaction.pricePerUnit,
-          oldInvestmentAction: transaction.investmentAction,
-          oldAmount: transaction.amount,
-        });
-      }
+      await recordAuditEvents(tx, {
+        userId: user.id,
+        source: "deleteTransaction",
+        request,
+        undoable: true,
+        changes: [transaction, deletedLinkedTransaction]
+          .filter((t): t is DbTransaction => Boolean(t))
+          .map((t) => ({
+            operation: "DELETE",
+            entityType: "TRANSACTION",
+            entityId: t.transactionId,
+            before: t,
+          })),
+      });
 
-      // Handle transfer deletion
-      if (transaction.isTransfer && transaction.linkedTransactionId) {
-        const [linkedTransaction] = await tx
-          .select()
-          .from(transactions)
-          .where(
-            eq(transactions.transactionId, transaction.linkedTransactionId)
-          )
-          .limit(1);
+      return { transaction, deletedLinkedTransaction, holdingsBefore };
+    });
 
-        if (linkedTransaction) {
-          // Reverse linked transaction balance
-          await updateAccountBalances(tx, "delete", {
-            oldAccountId: linkedTransaction.accountId,
-            oldAmount: linkedTransaction.amount,
-            oldTransactionType: linkedTransaction.transactionType,
-          });
+    if (deleted) {
+      await publishChanges(
+        { db, pubsub, app },
+        {
+          userId: user.id,
+          transactions: [deleted.transaction, deleted.deletedLinkedTransaction]
+            .filter((t): t is DbTransaction => Boolean(t))
+            .map((t) => ({ operation: "DELETED", transaction: t })),
+          accountIds: [
+            deleted.transaction.accountId,
+            deleted.deletedLinkedTransaction?.accountId,
+          ],
+          holdings: {
+            assetSymbols: [deleted.transaction.assetSymbol],
+            before: deleted.holdingsBefore,
+          },
         }
+      );
+    }
 
-        // Delete both transactions
-        await tx
-          .delete(transactions)
-          .where(
-            or(
-              eq(transactions.transactionId, transactionId),
-              eq(transactions.transactionId, transaction.linkedTransactionId)
-            )
-          );
-      } else {
-        // Delete single transaction
-        await tx
-          .delete(transactions)
-          .where(eq(transactions.transactionId, transactionId));
-      }
+    return { success: true, transactionId };
+  },
 
-      // Update recurring patterns
-      if (transaction.isRecurring && transaction.recurringPatternId) {
-        await updateRecurringPatterns(tx, "delete", {
-          userId: user.id,
-          transactionId,
-          oldRecurringPatternId: transaction.recurringPatternId,
-          oldTransactionDateTime: new Date(transaction.transactionDateTime),
+  // Brings a transaction back from the trash, re-applying its effects
+  restoreTransaction: async (
+    _,
+    { transactionId },
+    { db, user, pubsub, app, request }
+  ) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const restored = await db.transaction(async (tx) => {
+      const [transaction] = await tx
+        .select()
+        .from(transactions)
+        .where(
+          and(
+            eq(transactions.transactionId, transactionId),
+            eq(transactions.userId, user.id),
+            isNotNull(transactions.deletedAt)
+          )
+        )
+        .limit(1)
+        .for("update");
+
+      if (!transaction) {
+        throw new GraphQLError("Transaction not found in the trash", {
+          extensions: { code: "FORBIDDEN" },
         });
       }
 
-      return { success: true, transactionId };
+      const holdingsBefore = await snapshotHoldings(tx, user.id, [
+        transaction.assetSymbol,
+      ]);
+
+      const legs = await restoreTransaction(tx, {
+        userId: user.id,
+        transaction,
+      });
+
+      await recordAuditEvents(tx, {
+        userId: user.id,
+        source: "restoreTransaction",
+        request,
+        undoable: true,
+        changes: legs.map((leg) => ({
+          operation: "RESTORE",
+          entityType: "TRANSACTION",
+          entityId: leg.transactionId,
+          before:
+            leg.transactionId === transactionId
+              ? transaction
+              : { ...leg, deletedAt: transaction.deletedAt },
+          after: leg,
+        })),
+      });
+
+      return { legs, holdingsBefore };
     });
+
+    await publishChanges(
+      { db, pubsub, app },
+      {
+        userId: user.id,
+        transactions: restored.legs.map((leg) => ({
+          operation: "CREATED",
+          transaction: leg,
+        })),
+        accountIds: restored.legs.map((leg) => leg.accountId),
+        holdings: {
+          assetSymbols: restored.legs.map((leg) => leg.assetSymbol),
+          before: restored.holdingsBefore,
+        },
+      }
+    );
+
+    return formatTransactionForGraphQL(
+      restored.legs[0]
+    ) as unknown as Transaction;
   },
 };
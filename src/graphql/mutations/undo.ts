@@ -0,0 +1,70 @@
+import { GraphQLError } from "graphql";
+import type { DbAuditEvent, DbOperation } from "../../db/schema";
+import type {
+  JournalOperation,
+  MutationResolvers,
+  Transaction,
+  UndoResult,
+} from "../../generated/graphql";
+import type { MercuriusContext } from "../../types";
+import { formatAccountForGraphQL } from "../queries/accounts";
+import { formatAuditEventForGraphQL } from "../queries/audit";
+import { formatTransactionForGraphQL } from "../queries/transactions";
+import { publishChanges } from "../subscriptions/publishers";
+import {
+  type MovedOperation,
+  moveLastOperation,
+  type UndoDirection,
+} from "../undo-helpers";
+
+// Helper function to format a journal operation for GraphQL
+const formatJournalOperationForGraphQL = (
+  operation: DbOperation,
+  events: DbAuditEvent[]
+): JournalOperation => ({
+  operationId: operation.operationId,
+  source: operation.source,
+  status: operation.status,
+  changes: events.map(formatAuditEventForGraphQL),
+  createdAt: operation.createdAt.toISOString(),
+  undoneAt: operation.undoneAt?.toISOString() ?? null,
+});
+
+const formatUndoResultForGraphQL = (result: MovedOperation): UndoResult => ({
+  operation: formatJournalOperationForGraphQL(result.operation, result.events),
+  transactions: result.transactions.map((transaction) =>
+    formatTransactionForGraphQL(transaction)
+  ) as unknown as Transaction[],
+  accounts: result.accounts.map(formatAccountForGraphQL),
+});
+
+// Undo or redo in one database transaction, then notify the user's devices
+const moveLast = async (
+  { db, user, pubsub, app, request }: MercuriusContext,
+  direction: UndoDirection
+): Promise<UndoResult> => {
+  if (!user) {
+    throw new GraphQLError("Not authenticated", {
+      extensions: { code: "UNAUTHENTICATED" },
+    });
+  }
+
+  const result = await db.transaction((tx) =>
+    moveLastOperation(tx, { userId: user.id, direction, request })
+  );
+
+  await publishChanges({ db, pubsub, app }, result.changes);
+
+  return formatUndoResultForGraphQL(result);
+};
+
+export const undoMutations: Pick<
+  MutationResolvers,
+  "undoLastOperation" | "redoLastOperation"
+> = {
+  // Revert the latest change of the user
+  undoLastOperation: (_, __, context) => moveLast(context, "UNDO"),
+
+  // Apply the latest undone change again
+  redoLastOperation: (_, __, context) => moveLast(context, "REDO"),
+};
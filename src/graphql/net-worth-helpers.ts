@@ -0,0 +1,231 @@
+import { and, asc, eq, gte, isNull, lte, sql } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import type * as schema from "../db/schema";
+import {
+  accountBalanceSnapshots,
+  accounts,
+  type DbAccount,
+  transactions,
+} from "../db/schema";
+import { AMOUNT_DECIMALS, roundAmount, toRateDate } from "../lib/currency";
+import {
+  balanceOn,
+  type DailyBalance,
+  type NetWorthInterval,
+  netWorthPointDates,
+  replayDailyBalances,
+} from "../lib/net-worth";
+import { getBaseCurrency, toBaseCurrency } from "./currency-helpers";
+import { getBalanceChange } from "./mutations/transaction-helpers";
+
+const SNAPSHOT_BATCH_SIZE = 500;
+
+export type NetWorthPointResult = {
+  date: Date;
+  assets: number;
+  liabilities: number;
+  netWorth: number;
+};
+
+export type NetWorthHistoryResult = {
+  currency: string;
+  points: NetWorthPointResult[];
+};
+
+// Credit cards and borrowed loans are owed; every other account is owned
+const isLiability = (
+  account: Pick<DbAccount, "accountGroup" | "accountType">
+) =>
+  account.accountGroup === "POSTPAID" ||
+  account.accountType === "LOAN_BORROWED";
+
+// ===========================
+// SNAPSHOTS
+// ===========================
+
+/**
+ * Replay the daily balances of an account since its manual balance checkpoint
+ * Transactions before the checkpoint never touched the balance, so only the
+ * days from the checkpoint on are derived; earlier snapshots are kept as they
+ * were recorded under the previous checkpoint
+ */
+const replayAccountBalances = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  account: DbAccount,
+  now: Date
+): Promise<DailyBalance[]> => {
+  const rows = await dbOrTx
+    .select({
+      amount: transactions.amount,
+      transactionType: transactions.transactionType,
+      transactionDateTime: transactions.transactionDateTime,
+    })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.accountId, account.accountId),
+        isNull(transactions.deletedAt),
+        gte(transactions.transactionDateTime, account.manualBalanceUpdatedAt)
+      )
+    );
+
+  return replayDailyBalances({
+    checkpoint: account.manualBalanceUpdatedAt,
+    currentBalance: Number.parseFloat(account.currentBalance),
+    changes: rows.map((row) => ({
+      date: row.transactionDateTime,
+      delta: getBalanceChange(
+        account.accountGroup,
+        row.transactionType,
+        Number.parseFloat(row.amount)
+      ),
+    })),
+    now,
+  });
+};
+
+/**
+ * Store the end-of-day balances of accounts, backfilled from the transactions
+ * Every day since each account's checkpoint is replayed, so back-dated,
+ * edited and deleted transactions are reflected on the next run
+ * Returns the number of snapshots written
+ */
+export const recordBalanceSnapshots = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  accountList: DbAccount[],
+  now: Date = new Date()
+): Promise<number> => {
+  let saved = 0;
+
+  for (const account of accountList) {
+    const balances = await replayAccountBalances(dbOrTx, account, now);
+
+    for (let i = 0; i < balances.length; i += SNAPSHOT_BATCH_SIZE) {
+      const rows = await dbOrTx
+        .insert(accountBalanceSnapshots)
+        .values(
+          balances.slice(i, i + SNAPSHOT_BATCH_SIZE).map((entry) => ({
+            userId: account.userId,
+            accountId: account.accountId,
+            snapshotDate: entry.date,
+            balance: entry.balance.toFixed(AMOUNT_DECIMALS),
+            currency: account.currency,
+          }))
+        )
+        .onConflictDoUpdate({
+          target: [
+            accountBalanceSnapshots.accountId,
+            accountBalanceSnapshots.snapshotDate,
+          ],
+          set: {
+            balance: sql`excluded.balance`,
+            currency: sql`excluded.currency`,
+            updatedAt: new Date(),
+          },
+        })
+        .returning({ snapshotId: accountBalanceSnapshots.snapshotId });
+      saved += rows.length;
+    }
+  }
+
+  return saved;
+};
+
+// ===========================
+// NET WORTH
+// ===========================
+
+/**
+ * Net worth of a user over time, in the base currency
+ * Assets (PREPAID, INVESTMENT and LOAN_LENT accounts) minus liabilities
+ * (POSTPAID and LOAN_BORROWED accounts), from the balance snapshots: each
+ * account counts with its latest snapshot on or before a day, converted at
+ * that day's rate, and today uses the live balances. One point per day, or
+ * per week or month (the last day of each)
+ */
+export const getNetWorthHistory = async (
+  db: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  params: {
+    startDate: Date;
+    endDate: Date;
+    interval: NetWorthInterval;
+    now?: Date;
+  }
+): Promise<NetWorthHistoryResult> => {
+  const now = params.now ?? new Date();
+  const endDate = params.endDate < now ? params.endDate : now;
+  const today = toRateDate(now);
+  const baseCurrency = await getBaseCurrency(db, userId);
+
+  const [accountList, snapshots] = await Promise.all([
+    db
+      .select({
+        accountId: accounts.accountId,
+        accountGroup: accounts.accountGroup,
+        accountType: accounts.accountType,
+        balance: toBaseCurrency({
+          amount: accounts.currentBalance,
+          currency: accounts.currency,
+          at: sql`now()`,
+          userId,
+          baseCurrency,
+        }).mapWith(Number),
+      })
+      .from(accounts)
+      .where(and(eq(accounts.userId, userId), isNull(accounts.deletedAt))),
+    db
+      .select({
+        accountId: accountBalanceSnapshots.accountId,
+        date: accountBalanceSnapshots.snapshotDate,
+        balance: toBaseCurrency({
+          amount: accountBalanceSnapshots.balance,
+          currency: accountBalanceSnapshots.currency,
+          at: accountBalanceSnapshots.snapshotDate,
+          userId,
+          baseCurrency,
+        }).mapWith(Number),
+      })
+      .from(accountBalanceSnapshots)
+      .where(
+        and(
+          eq(accountBalanceSnapshots.userId, userId),
+          lte(accountBalanceSnapshots.snapshotDate, endDate)
+        )
+      )
+      .orderBy(asc(accountBalanceSnapshots.snapshotDate)),
+  ]);
+
+  const series = accountList.map((account) => ({
+    account,
+    balances: snapshots.filter(
+      (snapshot) => snapshot.accountId === account.accountId
+    ),
+  }));
+
+  const points = netWorthPointDates(
+    params.startDate,
+    endDate,
+    params.interval
+  ).map((date): NetWorthPointResult => {
+    let assets = 0;
+    let liabilities = 0;
+    for (const { account, balances } of series) {
+      const balance =
+        date >= today ? account.balance : balanceOn(balances, date);
+      if (isLiability(account)) {
+        liabilities += balance;
+      } else {
+        assets += balance;
+      }
+    }
+    return {
+      date,
+      assets: roundAmount(assets),
+      liabilities: roundAmount(liabilities),
+      netWorth: roundAmount(assets - liabilities),
+    };
+  });
+
+  return { currency: baseCurrency, points };
+};
@@ -0,0 +1,477 @@
+import { and, asc, eq, inArray, isNull, lte, sql } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { GraphQLError } from "graphql";
+import type * as schema from "../db/schema";
+import {
+  type AccountType,
+  accounts,
+  accountValuations,
+  type DbAccount,
+  type DbInvestmentHolding,
+  investmentHoldings,
+  transactions,
+} from "../db/schema";
+import { AMOUNT_DECIMALS, toRateDate } from "../lib/currency";
+import {
+  type CashFlow,
+  combineValuations,
+  measurePerformance,
+  type PerformanceResult,
+  type Valuation,
+} from "../lib/performance";
+import { normalizeAssetSymbol } from "../lib/prices/file";
+import {
+  getBaseCurrency,
+  getExchangeRate,
+  toBaseCurrency,
+} from "./currency-helpers";
+import {
+  calculateMarketValues,
+  getLatestPrices,
+  getPriceOn,
+  latestPriceSql,
+} from "./price-helpers";
+
+// Accounts measured when no accounts are picked
+export const PERFORMANCE_ACCOUNT_TYPES: AccountType[] = [
+  "TRADING_DEMAT",
+  "FIXED_DEPOSIT",
+];
+
+export type AccountPerformanceResult = {
+  account: DbAccount;
+  performance: PerformanceResult;
+};
+
+export type HoldingPerformanceResult = {
+  holding: DbInvestmentHolding;
+  performance: PerformanceResult;
+};
+
+export type PortfolioPerformanceResult = {
+  currency: string;
+  portfolio: PerformanceResult;
+  accounts: AccountPerformanceResult[];
+  holdings: HoldingPerformanceResult[];
+};
+
+type FlowRow = {
+  accountId: string;
+  transactionDateTime: Date;
+  amount: string;
+  baseAmount: string;
+  transactionType: schema.TransactionType;
+  investmentAction: schema.InvestmentAction | null;
+  isTransfer: boolean;
+  assetSymbol: string | null;
+  quantity: string | null;
+  corporateActionUnits: string | null;
+};
+
+// Deposits are valued at their balance, other accounts at their holdings
+const isDepositAccount = (account: DbAccount) =>
+  account.accountType === "FIXED_DEPOSIT";
+
+// ===========================
+// VALUATIONS
+// ===========================
+
+/**
+ * Current market value of investment accounts, in each account's currency
+ * Deposits are worth their balance; other accounts are worth their holdings
+ * at the latest price (at cost while an asset is unpriced)
+ */
+export const getAccountMarketValues = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  accountList: DbAccount[]
+): Promise<Map<string, number>> => {
+  const holdingAccountIds = accountList
+    .filter((account) => !isDepositAccount(account))
+    .map((account) => account.accountId);
+
+  const holdingValues =
+    holdingAccountIds.length > 0
+      ? await dbOrTx
+          .select({
+            accountId: investmentHoldings.accountId,
+            value: sql<string>`COALESCE(SUM(COALESCE(${investmentHoldings.totalQuantity} * ${latestPriceSql(investmentHoldings.assetSymbol)}, ${investmentHoldings.totalInvestedAmount})), 0)`,
+          })
+          .from(investmentHoldings)
+          .where(inArray(investmentHoldings.accountId, holdingAccountIds))
+          .groupBy(investmentHoldings.accountId)
+      : [];
+  const valueByAccount = new Map(
+    holdingValues.map((row) => [row.accountId, Number.parseFloat(row.value)])
+  );
+
+  return new Map(
+    accountList.map((account) => [
+      account.accountId,
+      isDepositAccount(account)
+        ? Number.parseFloat(account.currentBalance)
+        : (valueByAccount.get(account.accountId) ?? 0),
+    ])
+  );
+};
+
+/**
+ * Store today's market value of investment accounts
+ * One valuation per account and day: later runs on the same day replace it
+ */
+export const recordAccountValuations = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  accountList: DbAccount[],
+  now: Date = new Date()
+): Promise<number> => {
+  if (accountList.length === 0) {
+    return 0;
+  }
+
+  const values = await getAccountMarketValues(dbOrTx, accountList);
+  const saved = await dbOrTx
+    .insert(accountValuations)
+    .values(
+      accountList.map((account) => ({
+        userId: account.userId,
+        accountId: account.accountId,
+        valuationDate: toRateDate(now),
+        marketValue: (values.get(account.accountId) ?? 0).toFixed(
+          AMOUNT_DECIMALS
+        ),
+        currency: account.currency,
+      }))
+    )
+    .onConflictDoUpdate({
+      target: [accountValuations.accountId, accountValuations.valuationDate],
+      set: {
+        marketValue: sql`excluded.market_value`,
+        currency: sql`excluded.currency`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning({ valuationId: accountValuations.valuationId });
+
+  return saved.length;
+};
+
+// ===========================
+// CASH FLOWS
+// ===========================
+
+/**
+ * Cash flow of one transaction, seen from the investor
+ * Deposits count transfers in (invested) and out (returned), so interest is
+ * growth; other accounts count BUY as invested and SELL / DIVIDEND as returned
+ */
+const toCashFlow = (
+  account: DbAccount,
+  row: FlowRow,
+  amount: string
+): CashFlow | null => {
+  const value = Number.parseFloat(amount);
+  const date = row.transactionDateTime;
+
+  if (isDepositAccount(account)) {
+    if (!row.isTransfer) {
+      return null;
+    }
+    return { date, amount: row.transactionType === "CREDIT" ? -value : value };
+  }
+
+  if (row.investmentAction === "BUY") {
+    return { date, amount: -value };
+  }
+  if (row.investmentAction === "SELL" || row.investmentAction === "DIVIDEND") {
+    return { date, amount: value };
+  }
+  return null;
+};
+
+// Units a row moved (SPLIT and BONUS rows record the units they added)
+const unitsOf = (row: FlowRow): string | null =>
+  row.investmentAction === "SPLIT" || row.investmentAction === "BONUS"
+    ? row.corporateActionUnits
+    : row.quantity;
+
+// Units of an asset held on a date
+const quantityOn = (rows: FlowRow[], date: Date): number =>
+  rows
+    .filter((row) => row.transactionDateTime <= date && unitsOf(row))
+    .reduce((sum, row) => {
+      const quantity = Number.parseFloat(unitsOf(row) ?? "0");
+      if (row.investmentAction === "SELL") {
+        return sum - quantity;
+      }
+      return row.investmentAction === "DIVIDEND" ? sum : sum + quantity;
+    }, 0);
+
+/**
+ * Value of a holding on a date from stored prices
+ * Returns null when units were held but the asset had no price by then
+ */
+const holdingValueOn = async (
+  db: PostgresJsDatabase<typeof schema>,
+  holding: DbInvestmentHolding,
+  rows: FlowRow[],
+  date: Date
+): Promise<Valuation | null> => {
+  const quantity = quantityOn(rows, date);
+  if (quantity <= 0) {
+    return { date, value: 0 };
+  }
+
+  const price = await getPriceOn(db, holding.assetSymbol, date);
+  return price === null
+    ? null
+    : { date, value: quantity * Number.parseFloat(price) };
+};
+
+// ===========================
+// PERFORMANCE
+// ===========================
+
+// Convert current account values into the base currency at today's rates
+const toBaseValues = async (
+  db: PostgresJsDatabase<typeof schema>,
+  params: {
+    userId: string;
+    baseCurrency: string;
+    accountList: DbAccount[];
+    now: Date;
+  }
+): Promise<Map<string, number>> => {
+  const { userId, baseCurrency, accountList, now } = params;
+  const values = await getAccountMarketValues(db, accountList);
+  const rates = new Map<string, number>();
+
+  for (const account of accountList) {
+    const currency = account.currency ?? baseCurrency;
+    if (!rates.has(currency)) {
+      const rate = await getExchangeRate(db, {
+        userId,
+        from: currency,
+        to: baseCurrency,
+        at: now,
+      });
+      // Amounts without any stored rate are counted unconverted, like totals
+      rates.set(currency, rate === null ? 1 : Number.parseFloat(rate));
+    }
+    values.set(
+      account.accountId,
+      (values.get(account.accountId) ?? 0) * (rates.get(currency) ?? 1)
+    );
+  }
+
+  return values;
+};
+
+// Performance of every current holding in the measured accounts
+const getHoldingPerformance = async (
+  db: PostgresJsDatabase<typeof schema>,
+  params: {
+    accountList: DbAccount[];
+    rows: FlowRow[];
+    startDate: Date | null;
+    endDate: Date;
+    isLive: boolean;
+  }
+): Promise<HoldingPerformanceResult[]> => {
+  const { accountList, rows, startDate, endDate, isLive } = params;
+  const accountsById = new Map(accountList.map((a) => [a.accountId, a]));
+  const holdingAccountIds = accountList
+    .filter((account) => !isDepositAccount(account))
+    .map((account) => account.accountId);
+  if (holdingAccountIds.length === 0) {
+    return [];
+  }
+
+  const holdings = await db
+    .select()
+    .from(investmentHoldings)
+    .where(inArray(investmentHoldings.accountId, holdingAccountIds))
+    .orderBy(asc(investmentHoldings.assetSymbol));
+  const latestPrices = await getLatestPrices(
+    db,
+    holdings.map((holding) => holding.assetSymbol)
+  );
+
+  const results: HoldingPerformanceResult[] = [];
+  for (const holding of holdings) {
+    const account = accountsById.get(holding.accountId) as DbAccount;
+    const holdingRows = rows.filter(
+      (row) =>
+        row.accountId === holding.accountId &&
+        row.assetSymbol === holding.assetSymbol
+    );
+
+    const startValue = startDate
+      ? await holdingValueOn(db, holding, holdingRows, startDate)
+      : null;
+    const endValue = isLive
+      ? null
+      : await holdingValueOn(db, holding, holdingRows, endDate);
+    const { currentValue } = calculateMarketValues(
+      holding,
+      latestPrices.get(normalizeAssetSymbol(holding.assetSymbol))
+    );
+
+    results.push({
+      holding,
+      performance: measurePerformance({
+        valuations: [startValue, endValue].filter(
+          (v): v is Valuation => v !== null
+        ),
+        cashFlows: holdingRows
+          .map((row) => toCashFlow(account, row, row.amount))
+          .filter((flow): flow is CashFlow => flow !== null),
+        startDate,
+        endDate,
+        endValue: isLive
+          ? Number.parseFloat(currentValue ?? holding.totalInvestedAmount)
+          : undefined,
+      }),
+    });
+  }
+
+  return results;
+};
+
+/**
+ * XIRR and time-weighted return of investment accounts between two dates
+ * Handles: per-account and combined results in the base currency (from the
+ * stored daily valuations, plus today's value when the period runs to now),
+ * and per-holding results in the holding's currency (from stored prices)
+ * Without startDate, or without a valuation on or before it, results cover
+ * the whole history up to endDate
+ */
+export const getPortfolioPerformance = async (
+  db: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  params: {
+    accountIds: string[] | null;
+    startDate: Date | null;
+    endDate: Date | null;
+    now?: Date;
+  }
+): Promise<PortfolioPerformanceResult> => {
+  const { accountIds, startDate } = params;
+  const now = params.now ?? new Date();
+  const endDate = params.endDate && params.endDate < now ? params.endDate : now;
+  const isLive = endDate === now;
+
+  const accountList = await db
+    .select()
+    .from(accounts)
+    .where(
+      and(
+        eq(accounts.userId, userId),
+        isNull(accounts.deletedAt),
+        accountIds
+          ? inArray(accounts.accountId, accountIds)
+          : inArray(accounts.accountType, PERFORMANCE_ACCOUNT_TYPES)
+      )
+    )
+    .orderBy(asc(accounts.accountName));
+
+  if (accountIds && accountList.length !== new Set(accountIds).size) {
+    throw new GraphQLError("Account not found or access denied", {
+      extensions: { code: "FORBIDDEN" },
+    });
+  }
+
+  const baseCurrency = await getBaseCurrency(db, userId);
+  const ids = accountList.map((account) => account.accountId);
+
+  const rows: FlowRow[] =
+    ids.length > 0
+      ? await db
+          .select({
+            accountId: transactions.accountId,
+            transactionDateTime: transactions.transactionDateTime,
+            amount: transactions.amount,
+            baseAmount: toBaseCurrency({
+              amount: transactions.amount,
+              currency: transactions.currency,
+              at: transactions.transactionDateTime,
+              userId,
+              baseCurrency,
+            }).mapWith(String),
+            transactionType: transactions.transactionType,
+            investmentAction: transactions.investmentAction,
+            isTransfer: transactions.isTransfer,
+            assetSymbol: transactions.assetSymbol,
+            quantity: transactions.quantity,
+            corporateActionUnits: transactions.corporateActionUnits,
+          })
+          .from(transactions)
+          .where(
+            and(
+              inArray(transactions.accountId, ids),
+              isNull(transactions.deletedAt),
+              lte(transactions.transactionDateTime, endDate)
+            )
+          )
+          .orderBy(asc(transactions.transactionDateTime))
+      : [];
+
+  const valuations =
+    ids.length > 0
+      ? await db
+          .select({
+            accountId: accountValuations.accountId,
+            date: accountValuations.valuationDate,
+            value: toBaseCurrency({
+              amount: accountValuations.marketValue,
+              currency: accountValuations.currency,
+              at: accountValuations.valuationDate,
+              userId,
+              baseCurrency,
+            }).mapWith(Number),
+          })
+          .from(accountValuations)
+          .where(
+            and(
+              inArray(accountValuations.accountId, ids),
+              lte(accountValuations.valuationDate, endDate)
+            )
+          )
+      : [];
+
+  const liveValues = isLive
+    ? await toBaseValues(db, { userId, baseCurrency, accountList, now })
+    : new Map<string, number>();
+
+  const series = accountList.map((account) => ({
+    account,
+    valuations: valuations.filter((v) => v.accountId === account.accountId),
+    cashFlows: rows
+      .filter((row) => row.accountId === account.accountId)
+      .map((row) => toCashFlow(account, row, row.baseAmount))
+      .filter((flow): flow is CashFlow => flow !== null),
+    endValue: isLive ? (liveValues.get(account.accountId) ?? 0) : undefined,
+  }));
+
+  return {
+    currency: baseCurrency,
+    portfolio: measurePerformance({
+      valuations: combineValuations(series.map((s) => s.valuations)),
+      cashFlows: series.flatMap((s) => s.cashFlows),
+      startDate,
+      endDate,
+      endValue: isLive
+        ? [...liveValues.values()].reduce((sum, value) => sum + value, 0)
+        : undefined,
+    }),
+    accounts: series.map(({ account, ...input }) => ({
+      account,
+      performance: measurePerformance({ ...input, startDate, endDate }),
+    })),
+    holdings: await getHoldingPerformance(db, {
+      accountList,
+      rows,
+      startDate,
+      endDate,
+      isLive,
+    }),
+  };
+};
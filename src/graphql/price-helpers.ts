@@ -0,0 +1,196 @@
+import {
+  and,
+  type Column,
+  desc,
+  eq,
+  inArray,
+  lte,
+  type SQL,
+  sql,
+} from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import type * as schema from "../db/schema";
+import { assetPrices, type DbInvestmentHolding } from "../db/schema";
+import { AMOUNT_DECIMALS, PRICE_DECIMALS } from "../lib/currency";
+import { normalizeAssetSymbol } from "../lib/prices/file";
+import type { PriceQuote } from "../lib/prices/types";
+
+export type LatestPrice = {
+  price: string;
+  priceDate: Date;
+  previousPrice: string | null; // Price on the trading day before priceDate
+};
+
+export type MarketValues = {
+  currentPrice: string | null;
+  currentValue: string | null;
+  unrealizedGainLoss: string | null;
+  dayChange: string | null;
+  priceDate: string | null;
+};
+
+// ===========================
+// PRICE STORAGE
+// ===========================
+
+/**
+ * Insert or update asset prices
+ * One price per symbol and day: later quotes for the same day replace earlier ones
+ */
+export const upsertAssetPrices = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  params: { quotes: PriceQuote[]; source: string }
+): Promise<schema.DbAssetPrice[]> => {
+  const { source } = params;
+
+  // Later quotes win when the same symbol and day appears twice
+  const unique = new Map(
+    params.quotes.map((quote) => [
+      `${quote.assetSymbol}:${quote.priceDate.toISOString()}`,
+      quote,
+    ])
+  );
+  if (unique.size === 0) {
+    return [];
+  }
+
+  return await dbOrTx
+    .insert(assetPrices)
+    .values([...unique.values()].map((quote) => ({ ...quote, source })))
+    .onConflictDoUpdate({
+      target: [assetPrices.assetSymbol, assetPrices.priceDate],
+      set: {
+        price: sql`excluded.price`,
+        currency: sql`excluded.currency`,
+        source: sql`excluded.source`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+};
+
+// ===========================
+// PRICE LOOKUP
+// ===========================
+
+// Latest stored price for an asset symbol column (NULL when never priced)
+export const latestPriceSql = (assetSymbol: Column | SQL): SQL =>
+  sql`(SELECT ${assetPrices.price} FROM ${assetPrices}
+    WHERE ${assetPrices.assetSymbol} = UPPER(${assetSymbol})
+    ORDER BY ${assetPrices.priceDate} DESC LIMIT 1)`;
+
+/**
+ * Get the latest price (and the one before it) for each asset symbol
+ * Keys of the returned map are normalised (upper-case) symbols
+ */
+export const getLatestPrices = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  assetSymbols: string[]
+): Promise<Map<string, LatestPrice>> => {
+  const symbols = [...new Set(assetSymbols.map(normalizeAssetSymbol))];
+  if (symbols.length === 0) {
+    return new Map();
+  }
+
+  const ranked = dbOrTx
+    .select({
+      assetSymbol: assetPrices.assetSymbol,
+      price: assetPrices.price,
+      priceDate: assetPrices.priceDate,
+      previousPrice: sql<string | null>`LEAD(${assetPrices.price}) OVER (
+        PARTITION BY ${assetPrices.assetSymbol} ORDER BY ${assetPrices.priceDate} DESC
+      )`.as("previous_price"),
+      rank: sql<number>`ROW_NUMBER() OVER (
+        PARTITION BY ${assetPrices.assetSymbol} ORDER BY ${assetPrices.priceDate} DESC
+      )`.as("rank"),
+    })
+    .from(assetPrices)
+    .where(inArray(assetPrices.assetSymbol, symbols))
+    .as("ranked");
+
+  const rows = await dbOrTx
+    .select({
+      assetSymbol: ranked.assetSymbol,
+      price: ranked.price,
+      priceDate: ranked.priceDate,
+      previousPrice: ranked.previousPrice,
+    })
+    .from(ranked)
+    .where(sql`${ranked.rank} = 1`);
+
+  return new Map(
+    rows.map((row) => [
+      row.assetSymbol,
+      {
+        price: row.price,
+        priceDate: row.priceDate,
+        previousPrice: row.previousPrice,
+      },
+    ])
+  );
+};
+
+/**
+ * Get the price of an asset on a date (the latest stored price on or before it)
+ * Returns null when no earlier price is stored
+ */
+export const getPriceOn = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  assetSymbol: string,
+  date: Date
+): Promise<string | null> => {
+  const [row] = await dbOrTx
+    .select({ price: assetPrices.price })
+    .from(assetPrices)
+    .where(
+      and(
+        eq(assetPrices.assetSymbol, normalizeAssetSymbol(assetSymbol)),
+        lte(assetPrices.priceDate, date)
+      )
+    )
+    .orderBy(desc(assetPrices.priceDate))
+    .limit(1);
+
+  return row?.price ?? null;
+};
+
+// ===========================
+// MARKET VALUES
+// ===========================
+
+/**
+ * Value a holding at its latest price
+ * All fields are null when the asset has no stored price; dayChange is null
+ * until a second day of prices exists
+ */
+export const calculateMarketValues = (
+  holding: DbInvestmentHolding,
+  latest: LatestPrice | undefined
+): MarketValues => {
+  if (!latest) {
+    return {
+      currentPrice: null,
+      currentValue: null,
+      unrealizedGainLoss: null,
+      dayChange: null,
+      priceDate: null,
+    };
+  }
+
+  const quantity = Number.parseFloat(holding.totalQuantity);
+  const price = Number.parseFloat(latest.price);
+  const currentValue = quantity * price;
+  const invested = Number.parseFloat(holding.totalInvestedAmount);
+
+  return {
+    currentPrice: price.toFixed(PRICE_DECIMALS),
+    currentValue: currentValue.toFixed(AMOUNT_DECIMALS),
+    unrealizedGainLoss: (currentValue - invested).toFixed(AMOUNT_DECIMALS),
+    dayChange: latest.previousPrice
+      ? (quantity * (price - Number.parseFloat(latest.previousPrice))).toFixed(
+          AMOUNT_DECIMALS
+        )
+      : null,
+    priceDate: latest.priceDate.toISOString(),
+  };
+};
@@ -1,7 +1,32 @@
-import { and, desc, eq } from "drizzle-orm";
+import { and, desc, eq, isNull } from "drizzle-orm";
 import { GraphQLError } from "graphql";
 import { accounts } from "../../db/schema";
 import type { Account, QueryResolvers } from "../../generated/graphql";
+import { calculateDepositValues } from "../deposit-helpers";
+import { calculateCreditUtilization } from "../statement-helpers";
+
+// Helper function to format account for GraphQL
+export const formatAccountForGraphQL = (
+  account: typeof accounts.$inferSelect
+): Account =>
+  ({
+    ...account,
+    balanceUpdatedAt: account.balanceUpdatedAt.toISOString(),
+    manualBalanceUpdatedAt: account.manualBalanceUpdatedAt.toISOString(),
+    loanStartDate: account.loanStartDate?.toISOString() ?? null,
+    loanEndDate: account.loanEndDate?.toISOString() ?? null,
+    depositStartDate: account.depositStartDate?.toISOString() ?? null,
+    depositMaturityDate: account.depositMaturityDate?.toISOString() ?? null,
+    depositMaturedAt: account.depositMaturedAt?.toISOString() ?? null,
+    deletedAt: account.deletedAt?.toISOString() ?? null,
+    creditUtilization: calculateCreditUtilization(account),
+    ...calculateDepositValues(account),
+    createdAt: account.createdAt.toISOString(),
+    updatedAt: account.updatedAt.toISOString(),
+    lastTransactionDate: account.balanceUpdatedAt
+      ? account.balanceUpdatedAt.toISOString()
+      : null,
+  }) as unknown as Account;
 
 export const accountQueries: Pick<
   QueryResolvers,
@@ -18,21 +43,10 @@ export const accountQueries: Pick<
     const result = await db
       .select()
       .from(accounts)
-      .where(eq(accounts.userId, user.id))
+      .where(and(eq(accounts.userId, user.id), isNull(accounts.deletedAt)))
       .orderBy(desc(accounts.createdAt));
 
-    return result.map((account) => ({
-      ...account,
-      balanceUpdatedAt: account.balanceUpdatedAt.toISOString(),
-      manualBalanceUpdatedAt: account.manualBalanceUpdatedAt.toISOString(),
-      loanStartDate: account.loanStartDate?.toISOString() ?? null,
-      loanEndDate: account.loanEndDate?.toISOString() ?? null,
-      createdAt: account.createdAt.toISOString(),
-      updatedAt: account.updatedAt.toISOString(),
-      lastTransactionDate: account.balanceUpdatedAt
-        ? account.balanceUpdatedAt.toISOString()
-        : null,
-    })) as unknown as Account[];
+    return result.map(formatAccountForGraphQL);
   },
 
   // Get specific account by ID
@@ -47,7 +61,11 @@ export const accountQueries: Pick<
       .select()
       .from(accounts)
       .where(
-        and(eq(accounts.accountId, accountId), eq(accounts.userId, user.id))
+        and(
+          eq(accounts.accountId, accountId),
+          eq(accounts.userId, user.id),
+          isNull(accounts.deletedAt)
+        )
       )
       .limit(1);
 
@@ -57,18 +75,6 @@ export const accountQueries: Pick<
       });
     }
 
-    const account = result[0];
-    return {
-      ...account,
-      balanceUpdatedAt: account.balanceUpdatedAt.toISOString(),
-      manualBalanceUpdatedAt: account.manualBalanceUpdatedAt.toISOString(),
-      loanStartDate: account.loanStartDate?.toISOString() ?? null,
-      loanEndDate: account.loanEndDate?.toISOString() ?? null,
-      createdAt: account.createdAt.toISOString(),
-      updatedAt: account.updatedAt.toISOString(),
-      lastTransactionDate: account.balanceUpdatedAt
-        ? account.balanceUpdatedAt.toISOString()
-        : null,
-    } as unknown as Account;
+    return formatAccountForGraphQL(result[0]);
   },
 };
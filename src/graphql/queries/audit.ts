@@ -0,0 +1,124 @@
+import { and, desc, eq, gte, lt, lte, or, type SQL, sql } from "drizzle-orm";
+import { GraphQLError } from "graphql";
+import { MAX_ACTIVITY_LOG_LIMIT } from "../../config/constants";
+import { auditEvents, type DbAuditEvent } from "../../db/schema";
+import type { AuditEvent, QueryResolvers } from "../../generated/graphql";
+import { getChangedFields } from "../audit-helpers";
+import { parseDateInput } from "../validation-helpers";
+
+const DEFAULT_ACTIVITY_LOG_LIMIT = 50;
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Helper function to format an audit event for GraphQL
+export const formatAuditEventForGraphQL = (
+  event: DbAuditEvent
+): AuditEvent => ({
+  eventId: event.eventId,
+  operation: event.operation,
+  entityType: event.entityType,
+  entityId: event.entityId,
+  actorId: event.actorId,
+  before: event.before ? JSON.stringify(event.before) : null,
+  after: event.after ? JSON.stringify(event.after) : null,
+  changedFields: getChangedFields(event),
+  source: event.source,
+  requestId: event.requestId,
+  ipAddress: event.ipAddress,
+  userAgent: event.userAgent,
+  createdAt: event.createdAt.toISOString(),
+});
+
+// Helper function to check an ID filter before it reaches a uuid column
+const parseIdFilter = (value: string, field: string): string => {
+  if (!UUID_REGEX.test(value)) {
+    throw new GraphQLError(`${field} must be a valid ID`, {
+      extensions: { code: "BAD_USER_INPUT" },
+    });
+  }
+  return value;
+};
+
+export const auditQueries: Pick<QueryResolvers, "getMyActivityLog"> = {
+  // Get the change history of the user's records, newest first
+  getMyActivityLog: async (_, { options }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const {
+      limit,
+      cursor,
+      entityType,
+      entityId,
+      operation,
+      startDate,
+      endDate,
+    } = options ?? {};
+
+    const conditions: SQL[] = [eq(auditEvents.userId, user.id)];
+    if (entityType) {
+      conditions.push(eq(auditEvents.entityType, entityType));
+    }
+    if (entityId) {
+      conditions.push(
+        eq(auditEvents.entityId, parseIdFilter(entityId, "entityId"))
+      );
+    }
+    if (operation) {
+      conditions.push(eq(auditEvents.operation, operation));
+    }
+    if (startDate) {
+      conditions.push(
+        gte(auditEvents.createdAt, parseDateInput(startDate, "startDate"))
+      );
+    }
+    if (endDate) {
+      conditions.push(
+        lte(auditEvents.createdAt, parseDateInput(endDate, "endDate"))
+      );
+    }
+
+    // Events older than the cursor event (ties broken by event ID)
+    if (cursor) {
+      parseIdFilter(cursor, "cursor");
+      const cursorDateSubquery = sql`(SELECT created_at FROM audit_events WHERE event_id = ${cursor})`;
+      const cursorCondition = or(
+        lt(auditEvents.createdAt, cursorDateSubquery),
+        and(
+          eq(auditEvents.createdAt, cursorDateSubquery),
+          lt(auditEvents.eventId, cursor)
+        )
+      );
+      if (cursorCondition) {
+        conditions.push(cursorCondition);
+      }
+    }
+
+    // Fetch one extra to determine if there's a next page
+    const pageSize = Math.min(
+      limit || DEFAULT_ACTIVITY_LOG_LIMIT,
+      MAX_ACTIVITY_LOG_LIMIT
+    );
+
+    const result = await db
+      .select()
+      .from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.eventId))
+      .limit(pageSize + 1);
+
+    const hasNextPage = result.length > pageSize;
+    const events = hasNextPage ? result.slice(0, pageSize) : result;
+
+    return {
+      events: events.map(formatAuditEventForGraphQL),
+      pageInfo: {
+        hasNextPage,
+        endCursor: events.at(-1)?.eventId ?? null,
+      },
+    };
+  },
+};
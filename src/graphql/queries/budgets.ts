@@ -0,0 +1,66 @@
+import { desc, eq } from "drizzle-orm";
+import { GraphQLError } from "graphql";
+import { budgets, type DbBudget } from "../../db/schema";
+import type { Budget, QueryResolvers } from "../../generated/graphql";
+import { getBudgetStatus, parseMonthString } from "../budget-helpers";
+
+// Helper function to format budget for GraphQL
+export const formatBudgetForGraphQL = (budget: DbBudget): Budget =>
+  ({
+    budgetId: budget.budgetId,
+    categoryId: budget.categoryId,
+    customNameId: budget.customNameId,
+    amount: budget.amount,
+    period: budget.period,
+    startDate: budget.startDate.toISOString(),
+    rollover: budget.rollover,
+    isActive: budget.isActive,
+    notes: budget.notes,
+    createdAt: budget.createdAt.toISOString(),
+    updatedAt: budget.updatedAt.toISOString(),
+  }) as unknown as Budget;
+
+export const budgetQueries: Pick<
+  QueryResolvers,
+  "getMyBudgets" | "getMyBudgetStatus"
+> = {
+  // Get all budgets for authenticated user
+  getMyBudgets: async (_, __, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const result = await db
+      .select()
+      .from(budgets)
+      .where(eq(budgets.userId, user.id))
+      .orderBy(desc(budgets.isActive), budgets.createdAt);
+
+    return result.map(formatBudgetForGraphQL);
+  },
+
+  // Get spending progress of every active budget for a month
+  getMyBudgetStatus: async (_, { month }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const monthStart = parseMonthString(month);
+    if (!monthStart) {
+      throw new GraphQLError("month must be in YYYY-MM format", {
+        extensions: { code: "INVALID_INPUT" },
+      });
+    }
+
+    const statuses = await getBudgetStatus(db, user.id, monthStart);
+
+    return statuses.map((status) => ({
+      ...status,
+      budget: formatBudgetForGraphQL(status.budget),
+    }));
+  },
+};
@@ -0,0 +1,85 @@
+import { GraphQLError } from "graphql";
+import type {
+  CapitalGainsReport,
+  QueryResolvers,
+} from "../../generated/graphql";
+import { QUANTITY_DECIMALS, toAmount } from "../../lib/currency";
+import {
+  type CapitalGainEntryResult,
+  type CapitalGainsReportResult,
+  getCapitalGainsReport,
+  parseFinancialYear,
+} from "../capital-gains-helpers";
+import { formatCategoryForGraphQL } from "./categories";
+
+// Helper function to format one capital gain entry for GraphQL
+export const formatCapitalGainEntryForGraphQL = (
+  entry: CapitalGainEntryResult
+) => ({
+  disposalId: entry.disposal.disposalId,
+  lotId: entry.lot.lotId,
+  sellTransactionId: entry.disposal.sellTransactionId,
+  assetSymbol: entry.lot.assetSymbol,
+  acquiredAt: entry.lot.acquiredAt.toISOString(),
+  soldAt: entry.disposal.soldAt.toISOString(),
+  holdingPeriodDays: entry.holdingPeriodDays,
+  term: entry.term,
+  quantity: entry.disposal.quantity,
+  proceeds: toAmount(entry.proceeds),
+  costAmount: toAmount(entry.costAmount),
+  fairMarketValue:
+    entry.fairMarketValue === null ? null : toAmount(entry.fairMarketValue),
+  costBasis: toAmount(entry.costBasis),
+  gainLoss: toAmount(entry.gainLoss),
+});
+
+// Helper function to format capital gains report for GraphQL
+export const formatCapitalGainsReportForGraphQL = (
+  report: CapitalGainsReportResult
+): CapitalGainsReport => ({
+  financialYear: report.financialYear.label,
+  startDate: report.financialYear.start.toISOString(),
+  endDate: report.financialYear.end.toISOString(),
+  currency: report.currency,
+  shortTermGainLoss: toAmount(report.shortTermGainLoss),
+  longTermGainLoss: toAmount(report.longTermGainLoss),
+  longTermExemption: toAmount(report.longTermExemption),
+  taxableLongTermGain: toAmount(report.taxableLongTermGain),
+  totalGainLoss: toAmount(report.shortTermGainLoss + report.longTermGainLoss),
+  assets: report.assets.map((asset) => ({
+    assetSymbol: asset.assetSymbol,
+    category: formatCategoryForGraphQL(asset.category),
+    investmentSector: asset.category.investmentSector,
+    quantity: asset.quantity.toFixed(QUANTITY_DECIMALS),
+    proceeds: toAmount(asset.proceeds),
+    costBasis: toAmount(asset.costBasis),
+    shortTermGainLoss: toAmount(asset.shortTermGainLoss),
+    longTermGainLoss: toAmount(asset.longTermGainLoss),
+  })),
+  entries: report.entries.map(formatCapitalGainEntryForGraphQL),
+});
+
+export const capitalGainsQueries: Pick<
+  QueryResolvers,
+  "getMyCapitalGainsReport"
+> = {
+  // Get realized capital gains for a financial year
+  getMyCapitalGainsReport: async (_, { financialYear }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const year = parseFinancialYear(financialYear);
+    if (!year) {
+      throw new GraphQLError('financialYear must be in "YYYY-YY" format', {
+        extensions: { code: "INVALID_INPUT" },
+      });
+    }
+
+    const report = await getCapitalGainsReport(db, user.id, year);
+
+    return formatCapitalGainsReportForGraphQL(report);
+  },
+};
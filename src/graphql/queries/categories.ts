@@ -0,0 +1,50 @@
+import { and, asc, eq, type SQL } from "drizzle-orm";
+import { GraphQLError } from "graphql";
+import { categories, type DbCategory } from "../../db/schema";
+import type { Category, QueryResolvers } from "../../generated/graphql";
+import { categoryVisibleTo } from "../category-helpers";
+
+// Helper function to format category for GraphQL
+export const formatCategoryForGraphQL = (category: DbCategory): Category =>
+  ({
+    categoryId: category.categoryId,
+    categoryName: category.categoryName,
+    categoryNumber: category.categoryNumber,
+    categoryType: category.categoryType,
+    investmentSector: category.investmentSector,
+    iconUrl: category.defaultIconUrl,
+    description: category.description,
+    isSystemCategory: category.isSystemCategory,
+    isArchived: category.isArchived,
+    parentCategoryId: category.parentCategoryId,
+    createdAt: category.createdAt.toISOString(),
+    updatedAt: category.updatedAt.toISOString(),
+  }) as unknown as Category;
+
+export const categoryQueries: Pick<QueryResolvers, "getMyCategories"> = {
+  // Get system categories plus the authenticated user's own categories
+  getMyCategories: async (_, { includeArchived }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const conditions: SQL[] = [categoryVisibleTo(user.id)];
+    if (!includeArchived) {
+      conditions.push(eq(categories.isArchived, false));
+    }
+
+    const result = await db
+      .select()
+      .from(categories)
+      .where(and(...conditions))
+      .orderBy(
+        asc(categories.categoryType),
+        asc(categories.displayOrder),
+        asc(categories.categoryNumber)
+      );
+
+    return result.map(formatCategoryForGraphQL);
+  },
+};
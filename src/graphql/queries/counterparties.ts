@@ -0,0 +1,82 @@
+import { asc, eq } from "drizzle-orm";
+import { GraphQLError } from "graphql";
+import { counterparties, type DbCounterparty } from "../../db/schema";
+import type {
+  Counterparty,
+  CounterpartyBalance,
+  QueryResolvers,
+} from "../../generated/graphql";
+import { toAmount } from "../../lib/currency";
+import {
+  type CounterpartyBalanceResult,
+  getCounterpartySummary,
+} from "../counterparty-helpers";
+
+// Helper function to format counterparty for GraphQL
+export const formatCounterpartyForGraphQL = (
+  counterparty: DbCounterparty
+): Counterparty => ({
+  counterpartyId: counterparty.counterpartyId,
+  name: counterparty.name,
+  phone: counterparty.phone,
+  notes: counterparty.notes,
+  reminderDate: counterparty.reminderDate?.toISOString() ?? null,
+  createdAt: counterparty.createdAt.toISOString(),
+  updatedAt: counterparty.updatedAt.toISOString(),
+});
+
+// Helper function to format a counterparty balance for GraphQL
+const formatCounterpartyBalanceForGraphQL = (
+  balance: CounterpartyBalanceResult
+): CounterpartyBalance => ({
+  counterparty: formatCounterpartyForGraphQL(balance.counterparty),
+  given: toAmount(balance.given),
+  received: toAmount(balance.received),
+  outstanding: toAmount(balance.outstanding),
+  transactionsCount: balance.transactionsCount,
+  lastTransactionDate: balance.lastTransactionDate?.toISOString() ?? null,
+  isReminderDue: balance.isReminderDue,
+});
+
+export const counterpartyQueries: Pick<
+  QueryResolvers,
+  "getMyCounterparties" | "getMyCounterpartySummary"
+> = {
+  // Get all counterparties for authenticated user
+  getMyCounterparties: async (_, __, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const result = await db
+      .select()
+      .from(counterparties)
+      .where(eq(counterparties.userId, user.id))
+      .orderBy(asc(counterparties.name));
+
+    return result.map(formatCounterpartyForGraphQL);
+  },
+
+  // Get what each person owes the user (and what the user owes them)
+  getMyCounterpartySummary: async (_, { includeSettled }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const summary = await getCounterpartySummary(db, user.id, {
+      includeSettled: includeSettled ?? false,
+    });
+
+    return {
+      currency: summary.currency,
+      owedToMe: toAmount(summary.owedToMe),
+      iOwe: toAmount(summary.iOwe),
+      net: toAmount(summary.owedToMe - summary.iOwe),
+      balances: summary.balances.map(formatCounterpartyBalanceForGraphQL),
+    };
+  },
+};
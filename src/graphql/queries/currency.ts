@@ -0,0 +1,101 @@
+import { and, desc, eq, gte, isNull, lte, or, type SQL } from "drizzle-orm";
+import { GraphQLError } from "graphql";
+import { DEFAULT_BASE_CURRENCY } from "../../config/constants";
+import {
+  type DbExchangeRate,
+  type DbUserSettings,
+  exchangeRates,
+  userSettings,
+} from "../../db/schema";
+import type {
+  ExchangeRate,
+  QueryResolvers,
+  UserSettings,
+} from "../../generated/graphql";
+
+const DEFAULT_RATE_LIMIT = 100;
+const MAX_RATE_LIMIT = 1000;
+
+// Helper function to format exchange rate for GraphQL
+export const formatExchangeRateForGraphQL = (
+  rate: DbExchangeRate
+): ExchangeRate => ({
+  rateId: rate.rateId,
+  baseCurrency: rate.baseCurrency,
+  quoteCurrency: rate.quoteCurrency,
+  rate: rate.rate,
+  rateDate: rate.rateDate.toISOString(),
+  source: rate.source,
+  isShared: rate.userId === null,
+  createdAt: rate.createdAt.toISOString(),
+  updatedAt: rate.updatedAt.toISOString(),
+});
+
+// Helper function to format user settings for GraphQL (defaults when unset)
+export const formatSettingsForGraphQL = (
+  settings: DbUserSettings | undefined
+): UserSettings => ({
+  baseCurrency: settings?.baseCurrency ?? DEFAULT_BASE_CURRENCY,
+  updatedAt: settings?.updatedAt.toISOString() ?? null,
+});
+
+export const currencyQueries: Pick<
+  QueryResolvers,
+  "getMySettings" | "getExchangeRates"
+> = {
+  // Get settings for authenticated user
+  getMySettings: async (_, __, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const [settings] = await db
+      .select()
+      .from(userSettings)
+      .where(eq(userSettings.userId, user.id))
+      .limit(1);
+
+    return formatSettingsForGraphQL(settings);
+  },
+
+  // Get the user's own and shared exchange rates, newest first
+  getExchangeRates: async (_, { input }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const conditions: (SQL | undefined)[] = [
+      or(eq(exchangeRates.userId, user.id), isNull(exchangeRates.userId)),
+    ];
+
+    if (input?.baseCurrency) {
+      conditions.push(
+        eq(exchangeRates.baseCurrency, input.baseCurrency.toUpperCase())
+      );
+    }
+    if (input?.quoteCurrency) {
+      conditions.push(
+        eq(exchangeRates.quoteCurrency, input.quoteCurrency.toUpperCase())
+      );
+    }
+    if (input?.startDate) {
+      conditions.push(gte(exchangeRates.rateDate, new Date(input.startDate)));
+    }
+    if (input?.endDate) {
+      conditions.push(lte(exchangeRates.rateDate, new Date(input.endDate)));
+    }
+
+    const result = await db
+      .select()
+      .from(exchangeRates)
+      .where(and(...conditions))
+      .orderBy(desc(exchangeRates.rateDate))
+      .limit(Math.min(input?.limit || DEFAULT_RATE_LIMIT, MAX_RATE_LIMIT));
+
+    return result.map(formatExchangeRateForGraphQL);
+  },
+};
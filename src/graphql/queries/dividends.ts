@@ -0,0 +1,41 @@
+import { GraphQLError } from "graphql";
+import type { QueryResolvers } from "../../generated/graphql";
+import { getDividendIncome } from "../dividend-helpers";
+import { parseDateInput } from "../validation-helpers";
+
+export const dividendQueries: Pick<QueryResolvers, "getMyDividendIncome"> = {
+  // Get dividend income between two dates, grouped by asset, account or month
+  getMyDividendIncome: async (
+    _,
+    { startDate, endDate, groupBy },
+    { db, user }
+  ) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const start = parseDateInput(startDate, "startDate");
+    const end = parseDateInput(endDate, "endDate");
+    if (start > end) {
+      throw new GraphQLError("startDate must be before endDate", {
+        extensions: { code: "BAD_USER_INPUT" },
+      });
+    }
+
+    const grouping = groupBy ?? "ASSET";
+    const income = await getDividendIncome(db, user.id, {
+      startDate: start,
+      endDate: end,
+      groupBy: grouping,
+    });
+
+    return {
+      ...income,
+      startDate: start.toISOString(),
+      endDate: end.toISOString(),
+      groupBy: grouping,
+    };
+  },
+};
@@ -1,14 +1,136 @@
-import { and, desc, eq, inArray, type SQL, sql } from "drizzle-orm";
+import { and, desc, eq, gte, inArray, lte, type SQL, sql } from "drizzle-orm";
 import { GraphQLError } from "graphql";
-import { categories, investmentHoldings } from "../../db/schema";
+import {
+  assetPrices,
+  categories,
+  type DbAssetPrice,
+  type DbTaxLot,
+  type DbTaxLotDisposal,
+  investmentHoldings,
+  taxLotDisposals,
+  taxLots,
+} from "../../db/schema";
 import type {
+  AssetPrice,
   InvestmentHolding,
   QueryResolvers,
+  TaxLot,
 } from "../../generated/graphql";
+import { AMOUNT_DECIMALS } from "../../lib/currency";
+import { normalizeAssetSymbol } from "../../lib/prices/file";
+import { getBaseCurrency, toBaseCurrency } from "../currency-helpers";
+import {
+  calculateDividendValues,
+  getHoldingDividends,
+  type HoldingDividends,
+} from "../dividend-helpers";
+import { backfillTaxLots } from "../lot-helpers";
+import {
+  calculateMarketValues,
+  getLatestPrices,
+  type LatestPrice,
+  latestPriceSql,
+} from "../price-helpers";
+import { formatCategoryForGraphQL } from "./categories";
+
+// Helper function to format investment holding for GraphQL
+// Market fields are null unless the latest price of the asset is passed in;
+// dividend fields are zero unless the asset's dividends are passed in
+export const formatHoldingForGraphQL = (
+  holding: typeof investmentHoldings.$inferSelect,
+  latestPrice?: LatestPrice,
+  dividends?: HoldingDividends
+): InvestmentHolding => {
+  const marketValues = calculateMarketValues(holding, latestPrice);
+
+  return {
+    holdingId: holding.holdingId,
+    accountId: holding.accountId,
+    categoryId: holding.categoryId,
+    assetSymbol: holding.assetSymbol,
+    assetName: holding.assetName,
+    totalQuantity: holding.totalQuantity,
+    averageBuyPrice: holding.averageBuyPrice,
+    totalInvestedAmount: holding.totalInvestedAmount,
+    realizedGainLoss: holding.realizedGainLoss,
+    currency: holding.currency,
+    sector: holding.sector,
+    notes: holding.notes,
+    ...marketValues,
+    ...calculateDividendValues(holding, dividends, marketValues),
+    createdAt: holding.createdAt.toISOString(),
+    updatedAt: holding.updatedAt.toISOString(),
+  } as unknown as InvestmentHolding;
+};
+
+// Helper function to format asset price for GraphQL
+export const formatAssetPriceForGraphQL = (
+  price: DbAssetPrice
+): AssetPrice => ({
+  priceId: price.priceId,
+  assetSymbol: price.assetSymbol,
+  priceDate: price.priceDate.toISOString(),
+  price: price.price,
+  currency: price.currency,
+  source: price.source,
+  createdAt: price.createdAt.toISOString(),
+  updatedAt: price.updatedAt.toISOString(),
+});
+
+const MS_PER_DAY = 86_400_000;
+
+// Helper function to format tax lot (with its disposals) for GraphQL
+export const formatTaxLotForGraphQL = (
+  lot: DbTaxLot,
+  disposals: DbTaxLotDisposal[]
+): TaxLot => {
+  let soldCost = 0;
+  let realized = 0;
+  for (const disposal of disposals) {
+    soldCost += Number.parseFloat(disposal.costAmount);
+    realized += Number.parseFloat(disposal.realizedGainLoss);
+  }
+
+  return {
+    lotId: lot.lotId,
+    accountId: lot.accountId,
+    buyTransactionId: lot.buyTransactionId,
+    assetSymbol: lot.assetSymbol,
+    acquiredAt: lot.acquiredAt.toISOString(),
+    quantity: lot.quantity,
+    remainingQuantity: lot.remainingQuantity,
+    costPerUnit: lot.costPerUnit,
+    costAmount: lot.costAmount,
+    remainingCost: (Number.parseFloat(lot.costAmount) - soldCost).toFixed(
+      AMOUNT_DECIMALS
+    ),
+    realizedGainLoss: realized.toFixed(AMOUNT_DECIMALS),
+    isClosed: Number.parseFloat(lot.remainingQuantity) === 0,
+    disposals: disposals.map((disposal) => ({
+      disposalId: disposal.disposalId,
+      lotId: disposal.lotId,
+      sellTransactionId: disposal.sellTransactionId,
+      soldAt: disposal.soldAt.toISOString(),
+      quantity: disposal.quantity,
+      costAmount: disposal.costAmount,
+      proceeds: disposal.proceeds,
+      realizedGainLoss: disposal.realizedGainLoss,
+      holdingPeriodDays: Math.floor(
+        (disposal.soldAt.getTime() - lot.acquiredAt.getTime()) / MS_PER_DAY
+      ),
+      matchMethod: disposal.matchMethod,
+    })),
+    createdAt: lot.createdAt.toISOString(),
+    updatedAt: lot.updatedAt.toISOString(),
+  };
+};
 
 export const holdingsQueries: Pick<
   QueryResolvers,
-  "getMyInvestmentHoldings" | "getMyPortfolioDistribution"
+  | "getMyInvestmentHoldings"
+  | "getAssetPrices"
+  | "getMyHoldingLots"
+  | "getMyPortfolioDistribution"
 > = {
   // Get investment holdings for authenticated user
   getMyInvestmentHoldings: async (_, { accountId }, { db, user }) => {
@@ -31,22 +153,116 @@ export const holdingsQueries: Pick<
       .where(and(...conditions))
       .orderBy(desc(investmentHoldings.totalInvestedAmount));
 
-    return result.map((holding) => ({
-      holdingId: holding.holdingId,
-      accountId: holding.accountId,
-      categoryId: holding.categoryId,
-      assetSymbol: holding.assetSymbol,
-      assetName: holding.assetName,
-      totalQuantity: holding.totalQuantity,
-      averageBuyPrice: holding.averageBuyPrice,
-      totalInvestedAmount: holding.totalInvestedAmount,
-      realizedGainLoss: holding.realizedGainLoss,
-      currency: holding.currency,
-      sector: holding.sector,
-      notes: holding.notes,
-      createdAt: holding.createdAt.toISOString(),
-      updatedAt: holding.updatedAt.toISOString(),
-    })) as unknown as InvestmentHolding[];
+    const symbols = result.map((holding) => holding.assetSymbol);
+    const [latestPrices, dividends] = await Promise.all([
+      getLatestPrices(db, symbols),
+      getHoldingDividends(db, user.id, symbols),
+    ]);
+
+    return result.map((holding) =>
+      formatHoldingForGraphQL(
+        holding,
+        latestPrices.get(normalizeAssetSymbol(holding.assetSymbol)),
+        dividends.get(holding.assetSymbol)
+      )
+    );
+  },
+
+  // Get the stored price history of an asset, newest first
+  getAssetPrices: async (
+    _,
+    { assetSymbol, startDate, endDate },
+    { db, user }
+  ) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const conditions: SQL[] = [
+      eq(assetPrices.assetSymbol, normalizeAssetSymbol(assetSymbol)),
+    ];
+
+    if (startDate) {
+      conditions.push(gte(assetPrices.priceDate, new Date(startDate)));
+    }
+    if (endDate) {
+      conditions.push(lte(assetPrices.priceDate, new Date(endDate)));
+    }
+
+    const result = await db
+      .select()
+      .from(assetPrices)
+      .where(and(...conditions))
+      .orderBy(desc(assetPrices.priceDate));
+
+    return result.map(formatAssetPriceForGraphQL);
+  },
+
+  // Get the tax lots of a holding, oldest first
+  getMyHoldingLots: async (_, { holdingId, includeClosed }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const [holding] = await db
+      .select()
+      .from(investmentHoldings)
+      .where(
+        and(
+          eq(investmentHoldings.holdingId, holdingId),
+          eq(investmentHoldings.userId, user.id)
+        )
+      )
+      .limit(1);
+
+    if (!holding) {
+      throw new GraphQLError("Holding not found or access denied", {
+        extensions: { code: "FORBIDDEN" },
+      });
+    }
+
+    // Holdings recorded before lots were tracked are backfilled on first read
+    await backfillTaxLots(db, user.id);
+
+    let lots = await db
+      .select()
+      .from(taxLots)
+      .where(
+        and(
+          eq(taxLots.userId, user.id),
+          eq(taxLots.assetSymbol, holding.assetSymbol)
+        )
+      )
+      .orderBy(taxLots.acquiredAt);
+
+    if (!includeClosed) {
+      lots = lots.filter((lot) => Number.parseFloat(lot.remainingQuantity) > 0);
+    }
+
+    const disposals =
+      lots.length > 0
+        ? await db
+            .select()
+            .from(taxLotDisposals)
+            .where(
+              inArray(
+                taxLotDisposals.lotId,
+                lots.map((lot) => lot.lotId)
+              )
+            )
+            .orderBy(taxLotDisposals.soldAt)
+        : [];
+
+    return lots.map((lot) =>
+      formatTaxLotForGraphQL(
+        lot,
+        disposals.filter((disposal) => disposal.lotId === lot.lotId)
+      )
+    );
   },
 
   // Get portfolio distribution for donut chart
@@ -82,11 +298,29 @@ export const holdingsQueries: Pick<
       }
     }
 
-    // Aggregate by categoryId
+    // Aggregate by categoryId, converting each holding at today's rate
+    const baseCurrency = await getBaseCurrency(db, user.id);
+    const investedAmount = toBaseCurrency({
+      amount: investmentHoldings.totalInvestedAmount,
+      currency: investmentHoldings.currency,
+      at: sql`NOW()`,
+      userId: user.id,
+      baseCurrency,
+    });
+    // Holdings without a stored price are valued at cost
+    const currentValue = toBaseCurrency({
+      amount: sql`COALESCE(${investmentHoldings.totalQuantity} * ${latestPriceSql(investmentHoldings.assetSymbol)}, ${investmentHoldings.totalInvestedAmount})`,
+      currency: investmentHoldings.currency,
+      at: sql`NOW()`,
+      userId: user.id,
+      baseCurrency,
+    });
+
     const result = await db
       .select({
         categoryId: investmentHoldings.categoryId,
-        totalInvestedAmount: sql<string>`COALESCE(SUM(${investmentHoldings.totalInvestedAmount}), '0')`,
+        totalInvestedAmount: sql<string>`COALESCE(ROUND(SUM(${investedAmount}), 2), 0)`,
+        totalCurrentValue: sql<string>`COALESCE(ROUND(SUM(${currentValue}), 2), 0)`,
         holdingsCount: sql<number>`COUNT(*)::int`,
       })
       .from(investmentHoldings)
@@ -119,18 +353,10 @@ export const holdingsQueries: Pick<
         categoryName: category.categoryName,
         investmentSector: category.investmentSector,
         totalInvestedAmount: r.totalInvestedAmount,
-        totalCurrentValue: null,
+        totalCurrentValue: r.totalCurrentValue,
+        currency: baseCurrency,
         holdingsCount: r.holdingsCount,
-        category: {
-          categoryId: category.categoryId,
-          categoryName: category.categoryName,
-          categoryNumber: category.categoryNumber,
-          categoryType: category.categoryType,
-          investmentSector: category.investmentSector,
-          iconUrl: category.defaultIconUrl,
-          createdAt: category.createdAt.toISOString(),
-          updatedAt: category.createdAt.toISOString(),
-        },
+        category: formatCategoryForGraphQL(category),
       };
     });
   },
@@ -0,0 +1,16 @@
+import { GraphQLError } from "graphql";
+import type { QueryResolvers } from "../../generated/graphql";
+import { buildImportPreview } from "../import-helpers";
+
+export const importQueries: Pick<QueryResolvers, "previewImport"> = {
+  // Parse a bank statement and preview the transactions it would create
+  previewImport: async (_, { input }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    return await buildImportPreview(db, user.id, input);
+  },
+};
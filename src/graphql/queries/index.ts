@@ -1,9 +1,24 @@
 import type { QueryResolvers } from "../../generated/graphql";
 import { accountQueries } from "./accounts";
+import { auditQueries } from "./audit";
+import { budgetQueries } from "./budgets";
+import { capitalGainsQueries } from "./capital-gains";
+import { categoryQueries } from "./categories";
+import { counterpartyQueries } from "./counterparties";
+import { currencyQueries } from "./currency";
+import { dividendQueries } from "./dividends";
 import { holdingsQueries } from "./holdings";
+import { importQueries } from "./imports";
 import { insightQueries } from "./insights";
+import { loanQueries } from "./loans";
+import { netWorthQueries } from "./net-worth";
+import { performanceQueries } from "./performance";
+import { reconciliationQueries } from "./reconciliations";
 import { recurringQueries } from "./recurring";
+import { statementQueries } from "./statements";
+import { tagQueries } from "./tags";
 import { transactionQueries } from "./transactions";
+import { trashQueries } from "./trash";
 
 export const queries: QueryResolvers = {
   ...accountQueries,
@@ -11,4 +26,19 @@ export const queries: QueryResolvers = {
   ...holdingsQueries,
   ...recurringQueries,
   ...insightQueries,
+  ...importQueries,
+  ...currencyQueries,
+  ...budgetQueries,
+  ...tagQueries,
+  ...categoryQueries,
+  ...capitalGainsQueries,
+  ...dividendQueries,
+  ...performanceQueries,
+  ...loanQueries,
+  ...counterpartyQueries,
+  ...statementQueries,
+  ...netWorthQueries,
+  ...reconciliationQueries,
+  ...auditQueries,
+  ...trashQueries,
 };
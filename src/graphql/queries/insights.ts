@@ -1,13 +1,16 @@
-import { eq, gte, inArray, lte, or, type SQL, sql } from "drizzle-orm";
+import { eq, gte, inArray, isNull, lte, or, type SQL, sql } from "drizzle-orm";
 import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
 import { GraphQLError } from "graphql";
 import type * as schema from "../../db/schema";
 import { categories, transactions } from "../../db/schema";
 import type {
+  GroupByDimension,
   QueryResolvers,
   TotalsFilterInput,
 } from "../../generated/graphql";
-import { aggregateTotals } from "../totals-helpers";
+import { getBaseCurrency } from "../currency-helpers";
+import { tagFilterCondition } from "../tag-helpers";
+import { aggregateTotals, lineCategoryId } from "../totals-helpers";
 
 // Constants for start and end of day time
 const START_OF_DAY_HOURS = 0;
@@ -23,8 +26,15 @@ const END_OF_DAY_MILLISECONDS = 999;
 const buildFilterConditions = async (
   db: PostgresJsDatabase<typeof schema>,
   conditions: SQL[],
-  filters: TotalsFilterInput | null | undefined
+  filters: TotalsFilterInput | null | undefined,
+  groupBy: GroupByDimension
 ): Promise<void> => {
+  // Category grouping attributes split transactions line by line
+  const categoryColumn =
+    groupBy === "CATEGORY"
+      ? lineCategoryId
+      : sql<string>`${transactions.categoryId}`;
+
   if (filters?.transactionType) {
     conditions.push(eq(transactions.transactionType, filters.transactionType));
   }
@@ -38,7 +48,7 @@ const buildFilterConditions = async (
   }
 
   if (filters?.categoryId) {
-    conditions.push(eq(transactions.categoryId, filters.categoryId));
+    conditions.push(eq(categoryColumn, filters.categoryId));
   }
 
   if (
@@ -52,15 +62,17 @@ const buildFilterConditions = async (
       .limit(1);
 
     if (categoryResult[0]) {
-      conditions.push(
-        eq(transactions.categoryId, categoryResult[0].categoryId)
-      );
+      conditions.push(eq(categoryColumn, categoryResult[0].categoryId));
     }
   }
 
   if (filters?.customNameId) {
     conditions.push(eq(transactions.customNameId, filters.customNameId));
   }
+
+  if (filters?.tagIds && filters.tagIds.length > 0) {
+    conditions.push(tagFilterCondition(filters.tagIds));
+  }
 };
 
 export const insightQueries: Pick<QueryResolvers, "getMyTotals"> = {
@@ -108,7 +120,10 @@ export const insightQueries: Pick<QueryResolvers, "getMyTotals"> = {
     }
 
     // Build base conditions
-    const conditions: SQL[] = [eq(transactions.userId, user.id)];
+    const conditions: SQL[] = [
+      eq(transactions.userId, user.id),
+      isNull(transactions.deletedAt),
+    ];
 
     // Only add date filters if dates are provided
     if (startDate) {
@@ -149,11 +164,13 @@ export const insightQueries: Pick<QueryResolvers, "getMyTotals"> = {
     }
 
     // Apply additional filters
-    await buildFilterConditions(db, conditions, filters);
+    await buildFilterConditions(db, conditions, filters, groupBy || "NONE");
 
     // Use the new unified aggregation function
     return aggregateTotals({
       db,
+      userId: user.id,
+      baseCurrency: await getBaseCurrency(db, user.id),
       conditions,
       startDate: startDate || start.toISOString(),
       endDate: endDate || end.toISOString(),
@@ -0,0 +1,91 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { GraphQLError } from "graphql";
+import { accounts, type DbAccount } from "../../db/schema";
+import type {
+  LoanInstallment,
+  LoanSchedule,
+  QueryResolvers,
+} from "../../generated/graphql";
+import type { AmortizationSchedule, Installment } from "../../lib/amortization";
+import { toAmount } from "../../lib/currency";
+import { getLoanSchedule } from "../loan-helpers";
+
+// Helper function to format an installment for GraphQL
+const formatInstallmentForGraphQL = (
+  installment: Installment
+): LoanInstallment => ({
+  installmentNumber: installment.installmentNumber,
+  dueDate: installment.dueDate.toISOString(),
+  openingBalance: toAmount(installment.openingBalance),
+  amountDue: toAmount(installment.amountDue),
+  principal: toAmount(installment.principal),
+  interest: toAmount(installment.interest),
+  prepayment: toAmount(installment.prepayment),
+  closingBalance: toAmount(installment.closingBalance),
+  paidAmount: toAmount(installment.paidAmount),
+  paidAt: installment.paidAt?.toISOString() ?? null,
+  status: installment.status,
+});
+
+// Helper function to format a loan schedule for GraphQL
+export const formatLoanScheduleForGraphQL = (
+  account: DbAccount,
+  schedule: AmortizationSchedule
+): LoanSchedule => {
+  const paid = schedule.installments.filter(
+    (installment) => installment.status === "PAID"
+  );
+  const nextDue = schedule.installments.find(
+    (installment) => installment.status !== "PAID"
+  );
+
+  return {
+    accountId: account.accountId,
+    currency: account.currency,
+    loanAmount: account.loanAmount ?? "0.00",
+    interestRate: account.interestRate ?? "0.00",
+    prepaymentMode: account.loanPrepaymentMode,
+    originalEmi: toAmount(schedule.originalEmi),
+    emi: toAmount(schedule.emi),
+    tenureMonths: schedule.tenureMonths,
+    installmentsPaid: paid.length,
+    installmentsRemaining: schedule.installments.length - paid.length,
+    nextDueDate: nextDue?.dueDate.toISOString() ?? null,
+    totalInterest: toAmount(schedule.totalInterest),
+    totalPrepaid: toAmount(schedule.totalPrepaid),
+    outstandingPrincipal: toAmount(schedule.outstandingPrincipal),
+    installments: schedule.installments.map(formatInstallmentForGraphQL),
+  };
+};
+
+export const loanQueries: Pick<QueryResolvers, "getLoanSchedule"> = {
+  // Get the EMI schedule of a borrowed loan, with paid installments
+  getLoanSchedule: async (_, { accountId }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const [account] = await db
+      .select()
+      .from(accounts)
+      .where(
+        and(
+          eq(accounts.accountId, accountId),
+          eq(accounts.userId, user.id),
+          isNull(accounts.deletedAt)
+        )
+      )
+      .limit(1);
+
+    if (!account) {
+      throw new GraphQLError("Account not found or access denied", {
+        extensions: { code: "FORBIDDEN" },
+      });
+    }
+
+    const schedule = await getLoanSchedule(db, account);
+    return formatLoanScheduleForGraphQL(account, schedule);
+  },
+};
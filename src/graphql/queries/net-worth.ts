@@ -0,0 +1,59 @@
+import { GraphQLError } from "graphql";
+import type { NetWorthPoint, QueryResolvers } from "../../generated/graphql";
+import { toAmount } from "../../lib/currency";
+import {
+  getNetWorthHistory,
+  type NetWorthPointResult,
+} from "../net-worth-helpers";
+import { parseDateInput } from "../validation-helpers";
+
+// Helper function to format a net worth point for GraphQL
+const formatNetWorthPointForGraphQL = (
+  point: NetWorthPointResult
+): NetWorthPoint => ({
+  date: point.date.toISOString(),
+  assets: toAmount(point.assets),
+  liabilities: toAmount(point.liabilities),
+  netWorth: toAmount(point.netWorth),
+});
+
+export const netWorthQueries: Pick<QueryResolvers, "getMyNetWorthHistory"> = {
+  // Get assets, liabilities and net worth per day, week or month
+  getMyNetWorthHistory: async (
+    _,
+    { startDate, endDate, interval },
+    { db, user }
+  ) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const start = parseDateInput(startDate, "startDate");
+    const end = parseDateInput(endDate, "endDate");
+    if (start > end) {
+      throw new GraphQLError("startDate must be before endDate", {
+        extensions: { code: "BAD_USER_INPUT" },
+      });
+    }
+
+    const grouping = interval ?? "DAY";
+    const history = await getNetWorthHistory(db, user.id, {
+      startDate: start,
+      endDate: end,
+      interval: grouping,
+    });
+    const first = history.points[0];
+    const last = history.points.at(-1);
+
+    return {
+      currency: history.currency,
+      startDate: start.toISOString(),
+      endDate: end.toISOString(),
+      interval: grouping,
+      change: toAmount(first && last ? last.netWorth - first.netWorth : 0),
+      points: history.points.map(formatNetWorthPointForGraphQL),
+    };
+  },
+};
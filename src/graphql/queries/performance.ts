@@ -0,0 +1,78 @@
+import { GraphQLError } from "graphql";
+import type {
+  PerformanceSummary,
+  QueryResolvers,
+} from "../../generated/graphql";
+import { AMOUNT_DECIMALS, toAmount } from "../../lib/currency";
+import type { PerformanceResult } from "../../lib/performance";
+import { getPortfolioPerformance } from "../performance-helpers";
+import { parseDateInput } from "../validation-helpers";
+
+const PERCENT = 100;
+
+const toPercent = (value: number | null): number | null =>
+  value === null ? null : Number((value * PERCENT).toFixed(AMOUNT_DECIMALS));
+
+// Helper function to format a performance result for GraphQL
+export const formatPerformanceForGraphQL = (
+  result: PerformanceResult
+): PerformanceSummary => ({
+  startDate: result.startDate.toISOString(),
+  endDate: result.endDate.toISOString(),
+  startValue: toAmount(result.startValue),
+  endValue: result.endValue === null ? null : toAmount(result.endValue),
+  netContributions: toAmount(result.netContributions),
+  gainLoss: result.gainLoss === null ? null : toAmount(result.gainLoss),
+  xirr: toPercent(result.xirr),
+  timeWeightedReturn: toPercent(result.timeWeightedReturn),
+});
+
+export const performanceQueries: Pick<
+  QueryResolvers,
+  "getMyPortfolioPerformance"
+> = {
+  // Get XIRR and time-weighted returns of investment accounts and holdings
+  getMyPortfolioPerformance: async (
+    _,
+    { accountIds, startDate, endDate },
+    { db, user }
+  ) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const start = startDate ? parseDateInput(startDate, "startDate") : null;
+    const end = endDate ? parseDateInput(endDate, "endDate") : null;
+    if (start && end && start > end) {
+      throw new GraphQLError("startDate must be before endDate", {
+        extensions: { code: "BAD_USER_INPUT" },
+      });
+    }
+
+    const result = await getPortfolioPerformance(db, user.id, {
+      accountIds: accountIds ?? null,
+      startDate: start,
+      endDate: end,
+    });
+
+    return {
+      currency: result.currency,
+      portfolio: formatPerformanceForGraphQL(result.portfolio),
+      accounts: result.accounts.map(({ account, performance }) => ({
+        accountId: account.accountId,
+        accountName: account.accountName,
+        accountType: account.accountType,
+        performance: formatPerformanceForGraphQL(performance),
+      })),
+      holdings: result.holdings.map(({ holding, performance }) => ({
+        holdingId: holding.holdingId,
+        accountId: holding.accountId,
+        assetSymbol: holding.assetSymbol,
+        currency: holding.currency,
+        performance: formatPerformanceForGraphQL(performance),
+      })),
+    };
+  },
+};
@@ -0,0 +1,121 @@
+import { and, desc, eq, inArray, isNull } from "drizzle-orm";
+import { GraphQLError } from "graphql";
+import { accounts, reconciliations } from "../../db/schema";
+import type {
+  QueryResolvers,
+  Reconciliation,
+  Transaction,
+} from "../../generated/graphql";
+import { toAmount } from "../../lib/currency";
+import {
+  getReconciliationDetails,
+  type ReconciliationDetails,
+  verifyReconciliationOwnership,
+} from "../reconciliation-helpers";
+import { formatTransactionForGraphQL } from "./transactions";
+
+// Helper function to format a reconciliation for GraphQL
+export const formatReconciliationForGraphQL = (
+  details: ReconciliationDetails
+): Reconciliation => {
+  const { reconciliation } = details;
+
+  return {
+    reconciliationId: reconciliation.reconciliationId,
+    accountId: reconciliation.accountId,
+    statementDate: reconciliation.statementDate.toISOString(),
+    statementBalance: reconciliation.statementBalance,
+    status: reconciliation.status,
+    expectedBalance: toAmount(details.expectedBalance),
+    clearedBalance: toAmount(details.clearedBalance),
+    difference: toAmount(details.difference),
+    adjustmentAmount: reconciliation.adjustmentAmount,
+    adjustmentTransactionId: reconciliation.adjustmentTransactionId,
+    notes: reconciliation.notes,
+    completedAt: reconciliation.completedAt?.toISOString() ?? null,
+    createdAt: reconciliation.createdAt.toISOString(),
+    updatedAt: reconciliation.updatedAt.toISOString(),
+    transactions: details.transactions.map((transaction) =>
+      formatTransactionForGraphQL(transaction)
+    ) as unknown as Transaction[],
+  };
+};
+
+export const reconciliationQueries: Pick<
+  QueryResolvers,
+  "getMyReconciliations" | "getReconciliation"
+> = {
+  // Get reconciliations, newest statement first, optionally for one account
+  getMyReconciliations: async (_, { accountId }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const conditions = [eq(reconciliations.userId, user.id)];
+    if (accountId) {
+      conditions.push(eq(reconciliations.accountId, accountId));
+    }
+
+    const result = await db
+      .select()
+      .from(reconciliations)
+      .where(and(...conditions))
+      .orderBy(desc(reconciliations.statementDate));
+
+    const accountIds = [...new Set(result.map((r) => r.accountId))];
+    const accountList =
+      accountIds.length > 0
+        ? await db
+            .select()
+            .from(accounts)
+            .where(
+              and(
+                inArray(accounts.accountId, accountIds),
+                isNull(accounts.deletedAt)
+              )
+            )
+        : [];
+    const accountsById = new Map(
+      accountList.map((account) => [account.accountId, account])
+    );
+
+    return Promise.all(
+      result.flatMap((reconciliation) => {
+        const account = accountsById.get(reconciliation.accountId);
+        return account
+          ? [
+              getReconciliationDetails(db, account, reconciliation).then(
+                formatReconciliationForGraphQL
+              ),
+            ]
+          : [];
+      })
+    );
+  },
+
+  // Get a reconciliation with its expected balance and transactions
+  getReconciliation: async (_, { reconciliationId }, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const reconciliation = await verifyReconciliationOwnership(
+      db,
+      reconciliationId,
+      user.id
+    );
+    const [account] = await db
+      .select()
+      .from(accounts)
+      .where(eq(accounts.accountId, reconciliation.accountId))
+      .limit(1);
+
+    return formatReconciliationForGraphQL(
+      await getReconciliationDetails(db, account, reconciliation)
+    );
+  },
+};
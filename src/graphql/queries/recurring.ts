@@ -3,6 +3,7 @@ import { GraphQLError } from "graphql";
 import type { QueryResolvers } from "@/generated/graphql";
 import type { MercuriusContext } from "@/types";
 import { categories, recurringPatterns } from "../../db/schema";
+import { inLiveAccount } from "../trash-helpers";
 
 const DEFAULT_PATTERN_LIMIT = 100;
 const END_OF_MONTH_HOURS = 23;
@@ -86,7 +87,10 @@ export const recurringQueries: Pick<
     } = input ?? {};
 
     // Build base conditions
-    const conditions: SQL[] = [eq(recurringPatterns.userId, user.id)];
+    const conditions: SQL[] = [
+      eq(recurringPatterns.userId, user.id),
+      inLiveAccount(recurringPatterns.accountId),
+    ];
 
     // Filter by account IDs if provided
     if (accountId && accountId.length > 0) {
@@ -209,7 +213,8 @@ export const recurringQueries: Pick<
       .where(
         and(
           eq(recurringPatterns.patternId, patternId),
-          eq(recurringPatterns.userId, user.id)
+          eq(recurringPatterns.userId, user.id),
+          inLiveAccount(recurringPatterns.accountId)
         )
       )
       .limit(1);
@@ -260,7 +265,8 @@ export const recurringQueries: Pick<
       .where(
         and(
           eq(recurringPatterns.userId, user.id),
-          eq(recurringPatterns.isActive, true)
+          eq(recurringPatterns.isActive, true),
+          inLiveAccount(recurringPatterns.accountId)
         )
       )
       .orderBy(desc(recurringPatterns.nextDueDate));
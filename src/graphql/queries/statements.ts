@@ -0,0 +1,90 @@
+import { and, eq, isNull } from "drizzle-orm";
+import { GraphQLError } from "graphql";
+import { CREDIT_CARD_DEFAULT_GRACE_DAYS } from "../../config/constants";
+import { accounts } from "../../db/schema";
+import type {
+  CreditCardStatement,
+  QueryResolvers,
+} from "../../generated/graphql";
+import { toAmount } from "../../lib/currency";
+import type { Statement } from "../../lib/statements";
+import {
+  calculateCreditUtilization,
+  getCreditCardStatements,
+} from "../statement-helpers";
+
+const DEFAULT_STATEMENT_LIMIT = 6;
+
+// Helper function to format a statement for GraphQL
+const formatStatementForGraphQL = (
+  statement: Statement
+): CreditCardStatement => ({
+  periodStart: statement.periodStart.toISOString(),
+  statementDate: statement.statementDate.toISOString(),
+  dueDate: statement.dueDate.toISOString(),
+  openingBalance: toAmount(statement.openingBalance),
+  purchases: toAmount(statement.purchases),
+  credits: toAmount(statement.credits),
+  payments: toAmount(statement.payments),
+  closingBalance: toAmount(statement.closingBalance),
+  totalDue: toAmount(statement.totalDue),
+  minimumDue: toAmount(statement.minimumDue),
+  paidAmount: toAmount(statement.paidAmount),
+  paidAt: statement.paidAt?.toISOString() ?? null,
+  status: statement.status,
+  utilization:
+    statement.utilization === null ? null : toAmount(statement.utilization),
+});
+
+export const statementQueries: Pick<QueryResolvers, "getCreditCardStatements"> =
+  {
+    // Get the latest statements of a credit card, newest (open cycle) first
+    getCreditCardStatements: async (_, { accountId, limit }, { db, user }) => {
+      if (!user) {
+        throw new GraphQLError("Not authenticated", {
+          extensions: { code: "UNAUTHENTICATED" },
+        });
+      }
+
+      const [account] = await db
+        .select()
+        .from(accounts)
+        .where(
+          and(
+            eq(accounts.accountId, accountId),
+            eq(accounts.userId, user.id),
+            isNull(accounts.deletedAt)
+          )
+        )
+        .limit(1);
+
+      if (!account) {
+        throw new GraphQLError("Account not found or access denied", {
+          extensions: { code: "FORBIDDEN" },
+        });
+      }
+
+      const statements = await getCreditCardStatements(db, account);
+      const creditLimit = account.creditLimit
+        ? Number.parseFloat(account.creditLimit)
+        : null;
+
+      return {
+        accountId: account.accountId,
+        currency: account.currency,
+        creditLimit: account.creditLimit,
+        availableCredit:
+          creditLimit === null
+            ? null
+            : toAmount(creditLimit - Number.parseFloat(account.currentBalance)),
+        utilization: calculateCreditUtilization(account),
+        billingCycleDay: account.billingCycleDay ?? 0,
+        paymentGraceDays:
+          account.paymentGraceDays ?? CREDIT_CARD_DEFAULT_GRACE_DAYS,
+        statements: statements
+          .slice(-(limit ?? DEFAULT_STATEMENT_LIMIT))
+          .reverse()
+          .map(formatStatementForGraphQL),
+      };
+    },
+  };
@@ -0,0 +1,32 @@
+import { asc, eq } from "drizzle-orm";
+import { GraphQLError } from "graphql";
+import { type DbTag, tags } from "../../db/schema";
+import type { QueryResolvers, Tag } from "../../generated/graphql";
+
+// Helper function to format tag for GraphQL
+export const formatTagForGraphQL = (tag: DbTag): Tag => ({
+  tagId: tag.tagId,
+  name: tag.name,
+  color: tag.color,
+  createdAt: tag.createdAt.toISOString(),
+  updatedAt: tag.updatedAt.toISOString(),
+});
+
+export const tagQueries: Pick<QueryResolvers, "getMyTags"> = {
+  // Get all tags for authenticated user
+  getMyTags: async (_, __, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const result = await db
+      .select()
+      .from(tags)
+      .where(eq(tags.userId, user.id))
+      .orderBy(asc(tags.name));
+
+    return result.map(formatTagForGraphQL);
+  },
+};
@@ -7,6 +7,7 @@ import {
   gte,
   ilike,
   inArray,
+  isNull,
   lt,
   lte,
   or,
@@ -22,6 +23,8 @@ import {
   transactions,
 } from "../../db/schema";
 import type { QueryResolvers, Transaction } from "../../generated/graphql";
+import { getBaseCurrency, toBaseCurrency } from "../currency-helpers";
+import { tagFilterCondition } from "../tag-helpers";
 
 const DEFAULT_TRANSACTION_LIMIT = 50;
 
@@ -62,6 +65,8 @@ export const formatTransactionForGraphQL = (
   quantity: transaction.quantity,
   pricePerUnit: transaction.pricePerUnit,
   investmentAction: transaction.investmentAction,
+  corporateActionRatio: transaction.corporateActionRatio,
+  corporateActionUnits: transaction.corporateActionUnits,
   feesCharges: transaction.feesCharges,
 
   // Recurring fields
@@ -71,10 +76,19 @@ export const formatTransactionForGraphQL = (
   // Transfer fields
   isTransfer: transaction.isTransfer,
   linkedTransactionId: transaction.linkedTransactionId,
+  exchangeRate: transaction.exchangeRate,
+
+  // Counterparty
+  counterpartyId: transaction.counterpartyId,
+
+  // Reconciliation
+  clearingStatus: transaction.clearingStatus,
+  reconciliationId: transaction.reconciliationId,
 
   // Timestamps
   createdAt: transaction.createdAt.toISOString(),
   updatedAt: transaction.updatedAt.toISOString(),
+  deletedAt: transaction.deletedAt?.toISOString() ?? null,
 
   // Joined data
   accountName: joinedData?.accountName ?? null,
@@ -273,6 +287,7 @@ const applyAdditionalFilters = (
     paymentMethod?: string | null;
     investmentHoldingId?: string | null;
     recurringPatternId?: string | null;
+    counterpartyId?: string | null;
   }
 ): void => {
   // Boolean filters
@@ -343,10 +358,14 @@ const applyAdditionalFilters = (
       eq(transactions.recurringPatternId, options.recurringPatternId)
     );
   }
+
+  if (options.counterpartyId) {
+    conditions.push(eq(transactions.counterpartyId, options.counterpartyId));
+  }
 };
 
 // Helper function to build all filter conditions
-const buildFilterConditions = (
+export const buildFilterConditions = (
   userId: string,
   options: {
     accountId?: string | string[] | null;
@@ -370,9 +389,14 @@ const buildFilterConditions = (
     paymentMethod?: string | null;
     investmentHoldingId?: string | null;
     recurringPatternId?: string | null;
+    tagIds?: string[] | null;
+    counterpartyId?: string | null;
   }
 ): SQL[] => {
-  const conditions: SQL[] = [eq(transactions.userId, userId)];
+  const conditions: SQL[] = [
+    eq(transactions.userId, userId),
+    isNull(transactions.deletedAt),
+  ];
 
   if (options.accountId) {
     addAccountFilter(conditions, options.accountId);
@@ -386,6 +410,10 @@ const buildFilterConditions = (
     conditions.push(eq(transactions.customNameId, options.customNameId));
   }
 
+  if (options.tagIds && options.tagIds.length > 0) {
+    conditions.push(tagFilterCondition(options.tagIds));
+  }
+
   if (options.type) {
     addTypeFilter(conditions, options.type);
   }
@@ -447,6 +475,8 @@ export const transactionQueries: Pick<
       paymentMethod,
       investmentHoldingId,
       recurringPatternId,
+      tagIds,
+      counterpartyId,
     } = options ?? {};
 
     // Build all filter conditions
@@ -472,6 +502,8 @@ export const transactionQueries: Pick<
       paymentMethod,
       investmentHoldingId,
       recurringPatternId,
+      tagIds,
+      counterpartyId,
     });
 
     const orderByClause = getOrderByClause(order || "new_to_old");
@@ -482,6 +514,16 @@ export const transactionQueries: Pick<
       MAX_TRANSACTION_LIMIT
     );
 
+    // Totals are converted into the user's base currency
+    const baseCurrency = await getBaseCurrency(db, user.id);
+    const convertedAmount = toBaseCurrency({
+      amount: transactions.amount,
+      currency: transactions.currency,
+      at: transactions.transactionDateTime,
+      userId: user.id,
+      baseCurrency,
+    });
+
     // Single optimized query that gets both paginated results AND totals using window functions
     // This avoids making two separate queries
     const result = await db
@@ -502,8 +544,8 @@ export const transactionQueries: Pick<
         customLogoUrl: customTransactionNames.customLogoUrl,
         // Totals using window functions (calculated once for all rows)
         totalCount: sql<number>`COUNT(*) OVER()::int`,
-        totalCreditAmount: sql<string>`SUM(CASE WHEN ${transactions.transactionType} = 'CREDIT' THEN ${transactions.amount}::numeric ELSE 0 END) OVER()::text`,
-        totalDebitAmount: sql<string>`SUM(CASE WHEN ${transactions.transactionType} = 'DEBIT' THEN ${transactions.amount}::numeric ELSE 0 END) OVER()::text`,
+        totalCreditAmount: sql<string>`ROUND(SUM(CASE WHEN ${transactions.transactionType} = 'CREDIT' THEN ${convertedAmount} ELSE 0 END) OVER(), 2)::text`,
+        totalDebitAmount: sql<string>`ROUND(SUM(CASE WHEN ${transactions.transactionType} = 'DEBIT' THEN ${convertedAmount} ELSE 0 END) OVER(), 2)::text`,
       })
       .from(transactions)
       .leftJoin(accounts, eq(transactions.accountId, accounts.accountId))
@@ -569,6 +611,7 @@ export const transactionQueries: Pick<
         totalCreditAmount: totals.totalCreditAmount || "0",
         totalDebitAmount: totals.totalDebitAmount || "0",
         netAmount: netAmount.toFixed(2),
+        currency: baseCurrency,
       },
     };
   },
@@ -593,7 +636,8 @@ export const transactionQueries: Pick<
       .where(
         and(
           eq(transactions.transactionId, transactionId),
-          eq(transactions.userId, user.id)
+          eq(transactions.userId, user.id),
+          isNull(transactions.deletedAt)
         )
       )
       .limit(1);
@@ -0,0 +1,27 @@
+import { GraphQLError } from "graphql";
+import { TRASH_RETENTION_DAYS } from "../../config/constants";
+import type { QueryResolvers, Transaction } from "../../generated/graphql";
+import { getTrash } from "../trash-helpers";
+import { formatAccountForGraphQL } from "./accounts";
+import { formatTransactionForGraphQL } from "./transactions";
+
+export const trashQueries: Pick<QueryResolvers, "getMyTrash"> = {
+  // Get deleted accounts and transactions that can still be restored
+  getMyTrash: async (_, __, { db, user }) => {
+    if (!user) {
+      throw new GraphQLError("Not authenticated", {
+        extensions: { code: "UNAUTHENTICATED" },
+      });
+    }
+
+    const trash = await getTrash(db, user.id);
+
+    return {
+      accounts: trash.accounts.map(formatAccountForGraphQL),
+      transactions: trash.transactions.map((transaction) =>
+        formatTransactionForGraphQL(transaction)
+      ) as unknown as Transaction[],
+      retentionDays: TRASH_RETENTION_DAYS,
+    };
+  },
+};
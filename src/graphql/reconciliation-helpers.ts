@@ -0,0 +1,372 @@
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNull,
+  lt,
+  lte,
+  ne,
+  type SQL,
+  sql,
+} from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import type { FastifyRequest } from "fastify";
+import { GraphQLError } from "graphql";
+import { RECONCILIATION_ADJUSTMENT_CATEGORY_NUMBER } from "../config/constants";
+import type * as schema from "../db/schema";
+import {
+  type DbAccount,
+  type DbReconciliation,
+  type DbTransaction,
+  reconciliations,
+  transactions,
+} from "../db/schema";
+import { AMOUNT_DECIMALS, roundAmount } from "../lib/currency";
+import { type AuditChange, recordAuditEvents } from "./audit-helpers";
+import {
+  createTransactionWithEffects,
+  getBalanceChange,
+} from "./mutations/transaction-helpers";
+import { badInput } from "./validation-helpers";
+
+const EPSILON = 0.005; // Half a cent
+
+export type ReconciliationDetails = {
+  reconciliation: DbReconciliation;
+  expectedBalance: number;
+  clearedBalance: number; // Expected balance without the uncleared transactions
+  difference: number; // Statement balance minus expected balance
+  transactions: DbTransaction[];
+};
+
+export type CompletedReconciliation = {
+  reconciliation: DbReconciliation;
+  adjustment: DbTransaction | null;
+};
+
+// Transaction type that raises the balance of an account
+const increasingType = (account: DbAccount): schema.TransactionType =>
+  getBalanceChange(account.accountGroup, "DEBIT", 1) > 0 ? "DEBIT" : "CREDIT";
+
+// Net change of the balance from the matching transactions of an account
+const sumBalanceChanges = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  account: DbAccount,
+  conditions: SQL[]
+): Promise<number> => {
+  const [row] = await dbOrTx
+    .select({
+      total: sql<string>`COALESCE(SUM(CASE WHEN ${transactions.transactionType} = ${increasingType(account)} THEN ${transactions.amount} ELSE -${transactions.amount} END), 0)`,
+    })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.accountId, account.accountId),
+        isNull(transactions.deletedAt),
+        ...conditions
+      )
+    );
+  return Number.parseFloat(row?.total ?? "0");
+};
+
+// ===========================
+// RECONCILIATIONS
+// ===========================
+
+/**
+ * Verify reconciliation ownership
+ */
+export const verifyReconciliationOwnership = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  reconciliationId: string,
+  userId: string
+): Promise<DbReconciliation> => {
+  const [reconciliation] = await dbOrTx
+    .select()
+    .from(reconciliations)
+    .where(
+      and(
+        eq(reconciliations.reconciliationId, reconciliationId),
+        eq(reconciliations.userId, userId)
+      )
+    )
+    .limit(1);
+
+  if (!reconciliation) {
+    throw new GraphQLError("Reconciliation not found or access denied", {
+      extensions: { code: "FORBIDDEN" },
+    });
+  }
+
+  return reconciliation;
+};
+
+/**
+ * Balance of an account at a point in time
+ * Replayed back from the current balance by undoing the later transactions
+ * dated on or after manualBalanceUpdatedAt; earlier ones never moved it
+ */
+export const getBalanceAt = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  account: DbAccount,
+  at: Date
+): Promise<number> => {
+  const later = await sumBalanceChanges(dbOrTx, account, [
+    gt(transactions.transactionDateTime, at),
+    gte(transactions.transactionDateTime, account.manualBalanceUpdatedAt),
+  ]);
+  return roundAmount(Number.parseFloat(account.currentBalance) - later);
+};
+
+// Statement date of the latest completed reconciliation before this one
+const getPreviousStatementDate = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  reconciliation: DbReconciliation
+): Promise<Date | null> => {
+  const [previous] = await dbOrTx
+    .select({ statementDate: reconciliations.statementDate })
+    .from(reconciliations)
+    .where(
+      and(
+        eq(reconciliations.accountId, reconciliation.accountId),
+        eq(reconciliations.status, "COMPLETED"),
+        lt(reconciliations.statementDate, reconciliation.statementDate)
+      )
+    )
+    .orderBy(desc(reconciliations.statementDate))
+    .limit(1);
+  return previous?.statementDate ?? null;
+};
+
+// Transactions since the previous statement that are not yet reconciled
+const unreconciledConditions = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  reconciliation: DbReconciliation
+) => {
+  const previousDate = await getPreviousStatementDate(dbOrTx, reconciliation);
+  const conditions: SQL[] = [
+    eq(transactions.accountId, reconciliation.accountId),
+    lte(transactions.transactionDateTime, reconciliation.statementDate),
+    ne(transactions.clearingStatus, "RECONCILED"),
+    isNull(transactions.deletedAt),
+  ];
+  if (previousDate) {
+    conditions.push(gt(transactions.transactionDateTime, previousDate));
+  }
+  return conditions;
+};
+
+/**
+ * Expected balance, discrepancy and transactions of a reconciliation
+ * An open reconciliation is measured live against the transactions and lists
+ * the unreconciled transactions since the previous statement; a completed
+ * one reports what was recorded and the transactions it reconciled
+ */
+export const getReconciliationDetails = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  account: DbAccount,
+  reconciliation: DbReconciliation
+): Promise<ReconciliationDetails> => {
+  const statementBalance = Number.parseFloat(reconciliation.statementBalance);
+
+  if (reconciliation.status === "COMPLETED") {
+    const recorded = Number.parseFloat(
+      reconciliation.expectedBalance ?? reconciliation.statementBalance
+    );
+    return {
+      reconciliation,
+      expectedBalance: recorded,
+      clearedBalance: statementBalance,
+      difference: roundAmount(statementBalance - recorded),
+      transactions: await dbOrTx
+        .select()
+        .from(transactions)
+        .where(
+          and(
+            eq(transactions.reconciliationId, reconciliation.reconciliationId),
+            isNull(transactions.deletedAt)
+          )
+        )
+        .orderBy(asc(transactions.transactionDateTime)),
+    };
+  }
+
+  const conditions = await unreconciledConditions(dbOrTx, reconciliation);
+  const [expectedBalance, uncleared, pending] = await Promise.all([
+    getBalanceAt(dbOrTx, account, reconciliation.statementDate),
+    sumBalanceChanges(dbOrTx, account, [
+      ...conditions,
+      eq(transactions.clearingStatus, "UNCLEARED"),
+    ]),
+    dbOrTx
+      .select()
+      .from(transactions)
+      .where(and(...conditions))
+      .orderBy(asc(transactions.transactionDateTime)),
+  ]);
+
+  return {
+    reconciliation,
+    expectedBalance,
+    clearedBalance: roundAmount(expectedBalance - uncleared),
+    difference: roundAmount(statementBalance - expectedBalance),
+    transactions: pending,
+  };
+};
+
+/**
+ * Mark the cleared transactions and the adjustment of a reconciliation as
+ * RECONCILED and audit them
+ * Returns the adjustment as stored
+ */
+const reconcileTransactions = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  params: {
+    userId: string;
+    reconciliationId: string;
+    cleared: DbTransaction[];
+    adjustment: DbTransaction | null;
+    request: FastifyRequest | null;
+  }
+): Promise<DbTransaction | null> => {
+  const { cleared, adjustment } = params;
+  const ids = cleared.map((transaction) => transaction.transactionId);
+  if (adjustment) {
+    ids.push(adjustment.transactionId);
+  }
+  if (ids.length === 0) {
+    return adjustment;
+  }
+
+  const reconciled = await tx
+    .update(transactions)
+    .set({
+      clearingStatus: "RECONCILED",
+      reconciliationId: params.reconciliationId,
+      updatedAt: new Date(),
+    })
+    .where(inArray(transactions.transactionId, ids))
+    .returning();
+
+  const changes: AuditChange[] = reconciled.map((after) => {
+    const before = cleared.find(
+      (transaction) => transaction.transactionId === after.transactionId
+    );
+    return before
+      ? {
+          operation: "UPDATE",
+          entityType: "TRANSACTION",
+          entityId: after.transactionId,
+          before,
+          after,
+        }
+      : {
+          operation: "CREATE",
+          entityType: "TRANSACTION",
+          entityId: after.transactionId,
+          after,
+        };
+  });
+  await recordAuditEvents(tx, {
+    userId: params.userId,
+    source: "completeReconciliation",
+    request: params.request,
+    changes,
+  });
+
+  return (
+    reconciled.find((row) => row.transactionId === adjustment?.transactionId) ??
+    adjustment
+  );
+};
+
+/**
+ * Complete a reconciliation
+ * Handles: cleared transactions since the previous statement become
+ * RECONCILED (uncleared ones stay outstanding), and a discrepancy is either
+ * rejected or, with postAdjustment, booked as an adjustment transaction at
+ * the statement date instead of overwriting the balance; the changed
+ * transactions are audited
+ * Expects to run inside a database transaction
+ */
+export const completeReconciliation = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  params: {
+    userId: string;
+    account: DbAccount;
+    reconciliation: DbReconciliation;
+    postAdjustment: boolean;
+    request: FastifyRequest | null;
+  }
+): Promise<CompletedReconciliation> => {
+  const { userId, account, reconciliation, postAdjustment } = params;
+  if (reconciliation.status === "COMPLETED") {
+    throw badInput("Reconciliation is already completed");
+  }
+
+  const details = await getReconciliationDetails(tx, account, reconciliation);
+  const difference = details.difference;
+  const isBalanced = Math.abs(difference) < EPSILON;
+
+  let adjustment: DbTransaction | null = null;
+  if (!isBalanced) {
+    if (!postAdjustment) {
+      throw badInput(
+        `Statement balance differs from the expected balance by ${difference.toFixed(AMOUNT_DECIMALS)}; fix the transactions or post an adjustment`
+      );
+    }
+    // Transactions before the checkpoint never touch the balance
+    if (reconciliation.statementDate < account.manualBalanceUpdatedAt) {
+      throw badInput(
+        "Cannot post an adjustment before the last manual balance update"
+      );
+    }
+
+    const raises = difference > 0;
+    const decreasingType =
+      increasingType(account) === "DEBIT" ? "CREDIT" : "DEBIT";
+    adjustment = await createTransactionWithEffects(tx, {
+      userId,
+      input: {
+        accountId: account.accountId,
+        categoryNumber: RECONCILIATION_ADJUSTMENT_CATEGORY_NUMBER,
+        amount: Math.abs(difference).toFixed(AMOUNT_DECIMALS),
+        transactionType: raises ? increasingType(account) : decreasingType,
+        transactionDateTime: reconciliation.statementDate.toISOString(),
+        description: `Reconciliation adjustment for ${account.accountName}`,
+      },
+      location: null,
+    });
+  }
+
+  adjustment = await reconcileTransactions(tx, {
+    userId,
+    reconciliationId: reconciliation.reconciliationId,
+    cleared: details.transactions.filter(
+      (transaction) => transaction.clearingStatus === "CLEARED"
+    ),
+    adjustment,
+    request: params.request,
+  });
+
+  const [completed] = await tx
+    .update(reconciliations)
+    .set({
+      status: "COMPLETED",
+      expectedBalance: details.expectedBalance.toFixed(AMOUNT_DECIMALS),
+      adjustmentAmount: isBalanced ? null : difference.toFixed(AMOUNT_DECIMALS),
+      adjustmentTransactionId: adjustment?.transactionId ?? null,
+      completedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(
+      eq(reconciliations.reconciliationId, reconciliation.reconciliationId)
+    )
+    .returning();
+
+  return { reconciliation: completed, adjustment };
+};
@@ -1,8 +1,10 @@
 import type { Resolvers } from "../generated/graphql";
 import { mutations } from "./mutations/index";
 import { queries } from "./queries/index";
+import { subscriptions } from "./subscriptions/index";
 
 export const resolvers: Resolvers = {
   Query: queries,
   Mutation: mutations,
+  Subscription: subscriptions,
 };
@@ -0,0 +1,202 @@
+import { and, asc, eq, inArray, isNull } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import {
+  CREDIT_CARD_DEFAULT_GRACE_DAYS,
+  CREDIT_CARD_MINIMUM_DUE_PERCENT,
+} from "../config/constants";
+import type * as schema from "../db/schema";
+import { accounts, type DbAccount, transactions } from "../db/schema";
+import type { AccountGroup, CreateAccountInput } from "../generated/graphql";
+import { AMOUNT_DECIMALS } from "../lib/currency";
+import {
+  buildStatements,
+  type Statement,
+  type StatementEntry,
+} from "../lib/statements";
+import { badInput } from "./validation-helpers";
+
+const MAX_BILLING_CYCLE_DAY = 31;
+const MAX_GRACE_DAYS = 60;
+const PERCENT = 100;
+
+export type CreditCardInput = Pick<
+  CreateAccountInput,
+  "creditLimit" | "billingCycleDay" | "paymentGraceDays"
+>;
+
+// ===========================
+// VALIDATION
+// ===========================
+
+const hasCreditCardFields = (input: CreditCardInput) =>
+  [input.creditLimit, input.billingCycleDay, input.paymentGraceDays].some(
+    (value) => value !== undefined && value !== null
+  );
+
+/**
+ * Resolve the credit card fields of a create or update
+ * Handles: credit card fields on POSTPAID accounts only, non-negative limit,
+ * billing cycle day between 1 and 31, grace period between 0 and 60 days
+ * Returns only the columns to write
+ */
+export const resolveCreditCardFields = (params: {
+  accountGroup: AccountGroup;
+  input: CreditCardInput;
+}): Partial<typeof accounts.$inferInsert> => {
+  const { accountGroup, input } = params;
+  const updates: Partial<typeof accounts.$inferInsert> = {};
+  if (!hasCreditCardFields(input)) {
+    return updates;
+  }
+  if (accountGroup !== "POSTPAID") {
+    throw badInput("Credit card fields only apply to POSTPAID accounts");
+  }
+
+  if (input.creditLimit) {
+    if (!(Number.parseFloat(input.creditLimit) >= 0)) {
+      throw badInput("creditLimit cannot be negative");
+    }
+    updates.creditLimit = input.creditLimit;
+  }
+  if (input.billingCycleDay !== undefined && input.billingCycleDay !== null) {
+    if (
+      !Number.isInteger(input.billingCycleDay) ||
+      input.billingCycleDay < 1 ||
+      input.billingCycleDay > MAX_BILLING_CYCLE_DAY
+    ) {
+      throw badInput(
+        `billingCycleDay must be between 1 and ${MAX_BILLING_CYCLE_DAY}`
+      );
+    }
+    updates.billingCycleDay = input.billingCycleDay;
+  }
+  if (input.paymentGraceDays !== undefined && input.paymentGraceDays !== null) {
+    if (
+      !Number.isInteger(input.paymentGraceDays) ||
+      input.paymentGraceDays < 0 ||
+      input.paymentGraceDays > MAX_GRACE_DAYS
+    ) {
+      throw badInput(
+        `paymentGraceDays must be between 0 and ${MAX_GRACE_DAYS}`
+      );
+    }
+    updates.paymentGraceDays = input.paymentGraceDays;
+  }
+
+  return updates;
+};
+
+// ===========================
+// STATEMENTS
+// ===========================
+
+/**
+ * Share of the credit limit in use, in percent
+ * Null unless the account is a POSTPAID account with a credit limit
+ */
+export const calculateCreditUtilization = (
+  account: DbAccount
+): string | null => {
+  const creditLimit = account.creditLimit
+    ? Number.parseFloat(account.creditLimit)
+    : 0;
+  if (account.accountGroup !== "POSTPAID" || !(creditLimit > 0)) {
+    return null;
+  }
+  return (
+    (Number.parseFloat(account.currentBalance) / creditLimit) *
+    PERCENT
+  ).toFixed(AMOUNT_DECIMALS);
+};
+
+/**
+ * Transactions of a credit card as statement entries
+ * Debits are purchases; a credit is a statement payment when it is the
+ * receiving side of a transfer from a PREPAID account, and any other credit
+ * (refund, cashback, reversal) is a statement credit
+ */
+const getStatementEntries = async (
+  db: PostgresJsDatabase<typeof schema>,
+  accountId: string
+): Promise<StatementEntry[]> => {
+  const rows = await db
+    .select({
+      amount: transactions.amount,
+      transactionType: transactions.transactionType,
+      transactionDateTime: transactions.transactionDateTime,
+      isTransfer: transactions.isTransfer,
+      linkedTransactionId: transactions.linkedTransactionId,
+    })
+    .from(transactions)
+    .where(
+      and(eq(transactions.accountId, accountId), isNull(transactions.deletedAt))
+    )
+    .orderBy(asc(transactions.transactionDateTime));
+
+  const linkedIds = rows.flatMap((row) =>
+    row.transactionType === "CREDIT" &&
+    row.isTransfer &&
+    row.linkedTransactionId
+      ? [row.linkedTransactionId]
+      : []
+  );
+  const prepaidLegs =
+    linkedIds.length > 0
+      ? await db
+          .select({ transactionId: transactions.transactionId })
+          .from(transactions)
+          .innerJoin(accounts, eq(transactions.accountId, accounts.accountId))
+          .where(
+            and(
+              inArray(transactions.transactionId, linkedIds),
+              eq(accounts.accountGroup, "PREPAID")
+            )
+          )
+      : [];
+  const paymentSources = new Set(prepaidLegs.map((leg) => leg.transactionId));
+
+  return rows.map((row): StatementEntry => {
+    let kind: StatementEntry["kind"] = "PURCHASE";
+    if (row.transactionType === "CREDIT") {
+      kind =
+        row.linkedTransactionId && paymentSources.has(row.linkedTransactionId)
+          ? "PAYMENT"
+          : "CREDIT";
+    }
+    return {
+      date: row.transactionDateTime,
+      amount: Number.parseFloat(row.amount),
+      kind,
+    };
+  });
+};
+
+/**
+ * Statements of a credit card, oldest first, ending with the open cycle
+ */
+export const getCreditCardStatements = async (
+  db: PostgresJsDatabase<typeof schema>,
+  account: DbAccount,
+  now: Date = new Date()
+): Promise<Statement[]> => {
+  if (account.accountGroup !== "POSTPAID") {
+    throw badInput("Statements are only available for POSTPAID accounts");
+  }
+  if (!account.billingCycleDay) {
+    throw badInput("Set billingCycleDay to build credit card statements");
+  }
+
+  const entries = await getStatementEntries(db, account.accountId);
+  return buildStatements(
+    {
+      billingCycleDay: account.billingCycleDay,
+      graceDays: account.paymentGraceDays ?? CREDIT_CARD_DEFAULT_GRACE_DAYS,
+      minimumDuePercent: CREDIT_CARD_MINIMUM_DUE_PERCENT,
+      creditLimit: account.creditLimit
+        ? Number.parseFloat(account.creditLimit)
+        : null,
+    },
+    entries,
+    now
+  );
+};
@@ -0,0 +1,55 @@
+import { GraphQLError } from "graphql";
+import { withFilter } from "mercurius";
+import type { Account, SubscriptionResolvers } from "../../generated/graphql";
+import type { MercuriusContext } from "../../types";
+import { verifyAccountOwnership } from "../mutations/accounts";
+import { subscriptionTopics } from "./publishers";
+
+// Helper function to reject unauthenticated subscribers
+const requireUser = (user: MercuriusContext["user"]) => {
+  if (!user) {
+    throw new GraphQLError("Not authenticated", {
+      extensions: { code: "UNAUTHENTICATED" },
+    });
+  }
+  return user;
+};
+
+export const subscriptions: SubscriptionResolvers = {
+  // Transactions created, updated or deleted by the authenticated user
+  transactionChanged: {
+    subscribe: async (_, __, { pubsub, user }) => {
+      const { id } = requireUser(user);
+      return await pubsub.subscribe(subscriptionTopics.transactionChanged(id));
+    },
+  },
+
+  // Balance updates for a single account owned by the authenticated user
+  accountBalanceChanged: {
+    subscribe: withFilter<
+      { accountBalanceChanged: Account },
+      unknown,
+      MercuriusContext,
+      { accountId: string }
+    >(
+      async (_, { accountId }, { db, pubsub, user }) => {
+        const { id } = requireUser(user);
+        await verifyAccountOwnership(db, accountId, id);
+
+        return await pubsub.subscribe(
+          subscriptionTopics.accountBalanceChanged(id)
+        );
+      },
+      (payload, { accountId }) =>
+        payload.accountBalanceChanged.accountId === accountId
+    ),
+  },
+
+  // Investment holdings created, updated or closed by the authenticated user
+  holdingChanged: {
+    subscribe: async (_, __, { pubsub, user }) => {
+      const { id } = requireUser(user);
+      return await pubsub.subscribe(subscriptionTopics.holdingChanged(id));
+    },
+  },
+};
@@ -0,0 +1,231 @@
+import { and, eq, inArray } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import type * as schema from "../../db/schema";
+import {
+  accounts,
+  type DbInvestmentHolding,
+  type DbTransaction,
+  investmentHoldings,
+} from "../../db/schema";
+import type {
+  ChangeOperation,
+  HoldingChangeEvent,
+  TransactionChangeEvent,
+} from "../../generated/graphql";
+import { normalizeAssetSymbol } from "../../lib/prices/file";
+import type { MercuriusContext } from "../../types";
+import { getHoldingDividends } from "../dividend-helpers";
+import { getLatestPrices } from "../price-helpers";
+import { formatAccountForGraphQL } from "../queries/accounts";
+import { formatHoldingForGraphQL } from "../queries/holdings";
+import { formatTransactionForGraphQL } from "../queries/transactions";
+
+// ===========================
+// TOPICS
+// ===========================
+
+// Topics are scoped per user so events never leave the owner's devices
+export const subscriptionTopics = {
+  transactionChanged: (userId: string) => `TRANSACTION_CHANGED:${userId}`,
+  accountBalanceChanged: (userId: string) =>
+    `ACCOUNT_BALANCE_CHANGED:${userId}`,
+  holdingChanged: (userId: string) => `HOLDING_CHANGED:${userId}`,
+};
+
+// ===========================
+// CHANGE SET
+// ===========================
+
+export type ChangeSet = {
+  userId: string;
+  transactions?: {
+    operation: ChangeOperation;
+    transaction: DbTransaction;
+  }[];
+  accountIds?: (string | null | undefined)[];
+  holdings?: {
+    assetSymbols: (string | null | undefined)[];
+    before: DbInvestmentHolding[];
+  };
+};
+
+/**
+ * Load the holdings of the given asset symbols
+ * Taken before a mutation applies its effects so holdingChanged can tell
+ * created, updated and closed positions apart afterwards
+ */
+export const snapshotHoldings = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  assetSymbols: (string | null | undefined)[]
+): Promise<DbInvestmentHolding[]> => {
+  const symbols = [
+    ...new Set(assetSymbols.filter((s): s is string => Boolean(s))),
+  ];
+
+  if (symbols.length === 0) {
+    return [];
+  }
+
+  return await dbOrTx
+    .select()
+    .from(investmentHoldings)
+    .where(
+      and(
+        eq(investmentHoldings.userId, userId),
+        inArray(investmentHoldings.assetSymbol, symbols)
+      )
+    );
+};
+
+const publishTransactionChanges = async (
+  pubsub: MercuriusContext["pubsub"],
+  changes: ChangeSet
+) => {
+  for (const { operation, transaction } of changes.transactions ?? []) {
+    const event: TransactionChangeEvent = {
+      operation,
+      transactionId: transaction.transactionId,
+      accountId: transaction.accountId,
+      transaction:
+        operation === "DELETED"
+          ? null
+          : (formatTransactionForGraphQL(
+              transaction
+            ) as unknown as TransactionChangeEvent["transaction"]),
+    };
+
+    await pubsub.publish({
+      topic: subscriptionTopics.transactionChanged(changes.userId),
+      payload: { transactionChanged: event },
+    });
+  }
+};
+
+const publishAccountBalanceChanges = async (
+  db: PostgresJsDatabase<typeof schema>,
+  pubsub: MercuriusContext["pubsub"],
+  changes: ChangeSet
+) => {
+  const accountIds = [
+    ...new Set(
+      (changes.accountIds ?? []).filter((id): id is string => Boolean(id))
+    ),
+  ];
+
+  if (accountIds.length === 0) {
+    return;
+  }
+
+  // Re-read after commit so subscribers receive the settled balances
+  const changedAccounts = await db
+    .select()
+    .from(accounts)
+    .where(
+      and(
+        eq(accounts.userId, changes.userId),
+        inArray(accounts.accountId, accountIds)
+      )
+    );
+
+  for (const account of changedAccounts) {
+    await pubsub.publish({
+      topic: subscriptionTopics.accountBalanceChanged(changes.userId),
+      payload: { accountBalanceChanged: formatAccountForGraphQL(account) },
+    });
+  }
+};
+
+const publishHoldingChanges = async (
+  db: PostgresJsDatabase<typeof schema>,
+  pubsub: MercuriusContext["pubsub"],
+  changes: ChangeSet
+) => {
+  if (!changes.holdings) {
+    return;
+  }
+
+  const { before: holdingsBefore } = changes.holdings;
+  const holdingsAfter = await snapshotHoldings(db, changes.userId, [
+    ...changes.holdings.assetSymbols,
+    ...holdingsBefore.map((holding) => holding.assetSymbol),
+  ]);
+
+  const beforeById = new Map(
+    holdingsBefore.map((holding) => [holding.holdingId, holding])
+  );
+  const afterIds = new Set(holdingsAfter.map((holding) => holding.holdingId));
+  const symbols = holdingsAfter.map((holding) => holding.assetSymbol);
+  const [latestPrices, dividends] = await Promise.all([
+    getLatestPrices(db, symbols),
+    getHoldingDividends(db, changes.userId, symbols),
+  ]);
+
+  const events: HoldingChangeEvent[] = [];
+
+  for (const holding of holdingsAfter) {
+    const previous = beforeById.get(holding.holdingId);
+
+    // Untouched by this mutation
+    if (
+      previous &&
+      previous.updatedAt.getTime() === holding.updatedAt.getTime()
+    ) {
+      continue;
+    }
+
+    events.push({
+      operation: previous ? "UPDATED" : "CREATED",
+      holdingId: holding.holdingId,
+      accountId: holding.accountId,
+      assetSymbol: holding.assetSymbol,
+      holding: formatHoldingForGraphQL(
+        holding,
+        latestPrices.get(normalizeAssetSymbol(holding.assetSymbol)),
+        dividends.get(holding.assetSymbol)
+      ),
+    });
+  }
+
+  // Holdings are removed once their quantity reaches zero
+  for (const holding of holdingsBefore) {
+    if (!afterIds.has(holding.holdingId)) {
+      events.push({
+        operation: "DELETED",
+        holdingId: holding.holdingId,
+        accountId: holding.accountId,
+        assetSymbol: holding.assetSymbol,
+        holding: null,
+      });
+    }
+  }
+
+  for (const event of events) {
+    await pubsub.publish({
+      topic: subscriptionTopics.holdingChanged(changes.userId),
+      payload: { holdingChanged: event },
+    });
+  }
+};
+
+/**
+ * Publish subscription events for a committed mutation
+ * Handles: transactionChanged, accountBalanceChanged, holdingChanged
+ * Must be called after the database transaction commits; failures are logged
+ * and never fail the mutation that already succeeded
+ */
+export const publishChanges = async (
+  { db, pubsub, app }: Pick<MercuriusContext, "db" | "pubsub" | "app">,
+  changes: ChangeSet
+): Promise<void> => {
+  try {
+    await publishTransactionChanges(pubsub, changes);
+    await publishAccountBalanceChanges(db, pubsub, changes);
+    await publishHoldingChanges(db, pubsub, changes);
+  } catch (error) {
+    app.log.error(
+      { error, userId: changes.userId },
+      "❌ Failed to publish subscription events"
+    );
+  }
+};
@@ -0,0 +1,119 @@
+import { and, eq, inArray, type SQL, sql } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { GraphQLError } from "graphql";
+import type * as schema from "../db/schema";
+import { type DbTag, tags, transactions, transactionTags } from "../db/schema";
+
+const TAG_NAME_MAX_LENGTH = 100;
+const WHITESPACE_REGEX = /\s+/g;
+
+// ===========================
+// TAG NAMES
+// ===========================
+
+/**
+ * Normalise a tag name (trimmed, inner whitespace collapsed)
+ * Throws for empty or overly long names
+ */
+export const normalizeTagName = (name: string): string => {
+  const normalized = name.trim().replace(WHITESPACE_REGEX, " ");
+  if (!normalized || normalized.length > TAG_NAME_MAX_LENGTH) {
+    throw new GraphQLError(
+      `Tag names must be between 1 and ${TAG_NAME_MAX_LENGTH} characters`,
+      { extensions: { code: "BAD_USER_INPUT" } }
+    );
+  }
+  return normalized;
+};
+
+/**
+ * Find or create tags by name
+ * Names match existing tags case-insensitively, so "Reimbursable" and
+ * "reimbursable" resolve to the same tag
+ */
+export const findOrCreateTags = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  names: string[]
+): Promise<DbTag[]> => {
+  // Deduplicate case-insensitively, keeping the first spelling
+  const namesByKey = new Map<string, string>();
+  for (const name of names.map(normalizeTagName)) {
+    if (!namesByKey.has(name.toLowerCase())) {
+      namesByKey.set(name.toLowerCase(), name);
+    }
+  }
+  if (namesByKey.size === 0) {
+    return [];
+  }
+
+  const existing = await dbOrTx
+    .select()
+    .from(tags)
+    .where(
+      and(
+        eq(tags.userId, userId),
+        inArray(sql`lower(${tags.name})`, [...namesByKey.keys()])
+      )
+    );
+
+  const existingKeys = new Set(existing.map((tag) => tag.name.toLowerCase()));
+  const missing = [...namesByKey.entries()]
+    .filter(([key]) => !existingKeys.has(key))
+    .map(([, name]) => ({ userId, name }));
+
+  const created =
+    missing.length > 0
+      ? await dbOrTx.insert(tags).values(missing).returning()
+      : [];
+
+  return [...existing, ...created];
+};
+
+// ===========================
+// TRANSACTION TAGS
+// ===========================
+
+/**
+ * Replace the tags of a transaction
+ * Handles: lookup or creation of tags by name; an empty list removes all tags
+ * and null/undefined leaves the tags untouched
+ */
+export const setTransactionTags = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  params: {
+    userId: string;
+    transactionId: string;
+    tagNames: string[] | null | undefined;
+  }
+): Promise<DbTag[]> => {
+  const { userId, transactionId, tagNames } = params;
+  if (!tagNames) {
+    return [];
+  }
+
+  const tagList = await findOrCreateTags(dbOrTx, userId, tagNames);
+
+  await dbOrTx
+    .delete(transactionTags)
+    .where(eq(transactionTags.transactionId, transactionId));
+
+  if (tagList.length > 0) {
+    await dbOrTx.insert(transactionTags).values(
+      tagList.map((tag) => ({
+        transactionId,
+        tagId: tag.tagId,
+        userId,
+      }))
+    );
+  }
+
+  return tagList;
+};
+
+// Condition matching transactions that carry any of the given tags
+export const tagFilterCondition = (tagIds: string[]): SQL =>
+  inArray(
+    transactions.transactionId,
+    sql`(SELECT ${transactionTags.transactionId} FROM ${transactionTags} WHERE ${inArray(transactionTags.tagId, tagIds)})`
+  );
@@ -1,11 +1,14 @@
-import { and, eq, gte, inArray, lte, type SQL, sql } from "drizzle-orm";
+import { and, eq, gte, inArray, isNull, lte, type SQL, sql } from "drizzle-orm";
 import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
 import type * as schema from "../db/schema";
 import {
   accounts,
   categories,
   customTransactionNames,
+  tags,
+  transactionSplits,
   transactions,
+  transactionTags,
 } from "../db/schema";
 import type {
   GroupByDimension,
@@ -13,9 +16,13 @@ import type {
   TotalResult,
   TotalsFilterInput,
 } from "../generated/graphql";
+import { toBaseCurrency } from "./currency-helpers";
+import { formatCategoryForGraphQL } from "./queries/categories";
 
 type AggregationOptions = {
   db: PostgresJsDatabase<typeof schema>;
+  userId: string;
+  baseCurrency: string; // Every total is converted into this currency
   conditions: SQL[];
   startDate: string;
   endDate: string;
@@ -31,6 +38,23 @@ type MonthRange = {
   monthString: string; // YYYY-MM format
 };
 
+// Category of a transaction line: the split's category for split transactions
+// (requires the transaction_splits join used by aggregateByCategory)
+export const lineCategoryId = sql<string>`COALESCE(${transactionSplits.categoryId}, ${transactions.categoryId})`;
+
+// Helper to sum transaction amounts converted into the base currency
+const sumInBaseCurrency = (
+  { userId, baseCurrency }: AggregationOptions,
+  amount: SQL | typeof transactions.amount = transactions.amount
+) =>
+  sql<string>`COALESCE(ROUND(SUM(${toBaseCurrency({
+    amount,
+    currency: transactions.currency,
+    at: transactions.transactionDateTime,
+    userId,
+    baseCurrency,
+  })}), 2), 0)`;
+
 // Helper to get prepaid account IDs
 export const getPrepaidAccountIds = async (
   db: PostgresJsDatabase<typeof schema>,
@@ -40,6 +64,7 @@ export const getPrepaidAccountIds = async (
   const conditions: SQL[] = [
     eq(accounts.userId, userId),
     eq(accounts.accountGroup, "PREPAID"),
+    isNull(accounts.deletedAt),
   ];
 
   if (filterAccountIds && filterAccountIds.length > 0) {
@@ -132,6 +157,8 @@ const aggregateForPeriod = (
       return aggregateByCustomName(options);
     case "ACCOUNT":
       return aggregateByAccount(options);
+    case "TAG":
+      return aggregateByTag(options);
     default:
       return aggregateWithoutGrouping(options);
   }
@@ -141,7 +168,16 @@ const aggregateForPeriod = (
 const aggregateByMonths = async (
   options: AggregationOptions
 ): Promise<TotalResult[]> => {
-  const { startDate, endDate, groupBy, db, conditions, filters } = options;
+  const {
+    startDate,
+    endDate,
+    groupBy,
+    db,
+    userId,
+    baseCurrency,
+    conditions,
+    filters,
+  } = options;
 
   const start = new Date(startDate);
   const end = new Date(endDate);
@@ -170,6 +206,8 @@ const aggregateByMonths = async (
     // Create new options for this month
     const monthOptions: AggregationOptions = {
       db,
+      userId,
+      baseCurrency,
       conditions: monthConditions,
       startDate: monthRange.startDate.toISOString(),
       endDate: monthRange.endDate.toISOString(),
@@ -194,6 +232,7 @@ const aggregateByMonths = async (
               category: null,
               customName: null,
               account: null,
+              tag: null,
               month: monthRange.monthString,
             },
       });
@@ -207,11 +246,11 @@ const aggregateByMonths = async (
 export const aggregateWithoutGrouping = async (
   options: AggregationOptions
 ): Promise<TotalResult[]> => {
-  const { db, conditions, startDate, endDate, filters } = options;
+  const { db, conditions, startDate, endDate, filters, baseCurrency } = options;
 
   const result = await db
     .select({
-      total: sql<string>`COALESCE(SUM(${transactions.amount}), '0')`,
+      total: sumInBaseCurrency(options),
     })
     .from(transactions)
     .where(and(...conditions));
@@ -219,6 +258,7 @@ export const aggregateWithoutGrouping = async (
   return [
     {
       total: result[0]?.total || "0",
+      currency: baseCurrency,
       startDate,
       endDate,
       filters: filters || null,
@@ -231,17 +271,27 @@ export const aggregateWithoutGrouping = async (
 export const aggregateByCategory = async (
   options: AggregationOptions
 ): Promise<TotalResult[]> => {
-  const { db, conditions, startDate, endDate, filters, limit } = options;
+  const { db, conditions, startDate, endDate, filters, limit, baseCurrency } =
+    options;
+  // Split transactions contribute each split amount to its own category
+  const total = sumInBaseCurrency(
+    options,
+    sql`COALESCE(${transactionSplits.amount}, ${transactions.amount})`
+  );
 
   let query = db
     .select({
-      total: sql<string>`COALESCE(SUM(${transactions.amount}), '0')`,
-      categoryId: transactions.categoryId,
+      total,
+      categoryId: lineCategoryId,
     })
     .from(transactions)
+    .leftJoin(
+      transactionSplits,
+      eq(transactionSplits.transactionId, transactions.transactionId)
+    )
     .where(and(...conditions))
-    .groupBy(transactions.categoryId)
-    .orderBy(sql`COALESCE(SUM(${transactions.amount}), '0') DESC`);
+    .groupBy(lineCategoryId)
+    .orderBy(sql`${total} DESC`);
 
   if (limit) {
     query = query.limit(limit) as typeof query;
@@ -267,23 +317,16 @@ export const aggregateByCategory = async (
     const category = r.categoryId ? categoryMap.get(r.categoryId) : null;
     return {
       total: r.total,
+      currency: baseCurrency,
       startDate,
       endDate,
       filters: filters || null,
       metadata: category
         ? {
-            category: {
-              categoryId: category.categoryId,
-              categoryName: category.categoryName,
-              categoryNumber: category.categoryNumber,
-              categoryType: category.categoryType,
-              investmentSector: category.investmentSector,
-              iconUrl: category.defaultIconUrl,
-              createdAt: category.createdAt.toISOString(),
-              updatedAt: category.createdAt.toISOString(),
-            },
+            category: formatCategoryForGraphQL(category),
             customName: null,
             account: null,
+            tag: null,
             month: null,
           }
         : null,
@@ -295,17 +338,19 @@ export const aggregateByCategory = async (
 export const aggregateByCustomName = async (
   options: AggregationOptions
 ): Promise<TotalResult[]> => {
-  const { db, conditions, startDate, endDate, filters, limit } = options;
+  const { db, conditions, startDate, endDate, filters, limit, baseCurrency } =
+    options;
+  const total = sumInBaseCurrency(options);
 
   let query = db
     .select({
-      total: sql<string>`COALESCE(SUM(${transactions.amount}), '0')`,
+      total,
       customNameId: transactions.customNameId,
     })
     .from(transactions)
     .where(and(...conditions))
     .groupBy(transactions.customNameId)
-    .orderBy(sql`COALESCE(SUM(${transactions.amount}), '0') DESC`);
+    .orderBy(sql`${total} DESC`);
 
   if (limit) {
     query = query.limit(limit) as typeof query;
@@ -335,6 +380,7 @@ export const aggregateByCustomName = async (
       : null;
     return {
       total: r.total,
+      currency: baseCurrency,
       startDate,
       endDate,
       filters: filters || null,
@@ -350,6 +396,7 @@ export const aggregateByCustomName = async (
             },
             category: null,
             account: null,
+            tag: null,
             month: null,
           }
         : null,
@@ -361,17 +408,19 @@ export const aggregateByCustomName = async (
 export const aggregateByAccount = async (
   options: AggregationOptions
 ): Promise<TotalResult[]> => {
-  const { db, conditions, startDate, endDate, filters, limit } = options;
+  const { db, conditions, startDate, endDate, filters, limit, baseCurrency } =
+    options;
+  const total = sumInBaseCurrency(options);
 
   let query = db
     .select({
-      total: sql<string>`COALESCE(SUM(${transactions.amount}), '0')`,
+      total,
       accountId: transactions.accountId,
     })
     .from(transactions)
     .where(and(...conditions))
     .groupBy(transactions.accountId)
-    .orderBy(sql`COALESCE(SUM(${transactions.amount}), '0') DESC`);
+    .orderBy(sql`${total} DESC`);
 
   if (limit) {
     query = query.limit(limit) as typeof query;
@@ -395,6 +444,7 @@ export const aggregateByAccount = async (
     const account = accountMap.get(r.accountId);
     return {
       total: r.total,
+      currency: baseCurrency,
       startDate,
       endDate,
       filters: filters || null,
@@ -411,13 +461,16 @@ export const aggregateByAccount = async (
               balanceUpdatedAt: account.balanceUpdatedAt.toISOString(),
               manualBalanceUpdatedAt:
                 account.manualBalanceUpdatedAt.toISOString(),
+              manualBalance: account.manualBalance,
               currency: account.currency,
               creditLimit: account.creditLimit,
               billingCycleDay: account.billingCycleDay,
+              paymentGraceDays: account.paymentGraceDays,
               loanAmount: account.loanAmount,
               interestRate: account.interestRate,
               loanStartDate: account.loanStartDate?.toISOString() ?? null,
               loanEndDate: account.loanEndDate?.toISOString() ?? null,
+              loanPrepaymentMode: account.loanPrepaymentMode,
               logoUrl: account.logoUrl,
               notes: account.notes,
               isActive: account.isActive,
@@ -427,9 +480,76 @@ export const aggregateByAccount = async (
               lastTransactionDate: account.balanceUpdatedAt
                 ? account.balanceUpdatedAt.toISOString()
                 : null,
+              history: [], // Resolved by loaders
+            },
+            category: null,
+            customName: null,
+            tag: null,
+            month: null,
+          }
+        : null,
+    };
+  });
+};
+
+// Helper to aggregate by tag
+// A transaction with several tags counts towards each of them
+export const aggregateByTag = async (
+  options: AggregationOptions
+): Promise<TotalResult[]> => {
+  const { db, conditions, startDate, endDate, filters, limit, baseCurrency } =
+    options;
+  const total = sumInBaseCurrency(options);
+
+  let query = db
+    .select({
+      total,
+      tagId: transactionTags.tagId,
+    })
+    .from(transactions)
+    .innerJoin(
+      transactionTags,
+      eq(transactionTags.transactionId, transactions.transactionId)
+    )
+    .where(and(...conditions))
+    .groupBy(transactionTags.tagId)
+    .orderBy(sql`${total} DESC`);
+
+  if (limit) {
+    query = query.limit(limit) as typeof query;
+  }
+
+  const result = await query;
+
+  const tagIds = result.map((r) => r.tagId);
+
+  const tagsResult =
+    tagIds.length > 0
+      ? await db.select().from(tags).where(inArray(tags.tagId, tagIds))
+      : [];
+
+  const tagMap = new Map(tagsResult.map((t) => [t.tagId, t]));
+
+  return result.map((r) => {
+    const tag = tagMap.get(r.tagId);
+    return {
+      total: r.total,
+      currency: baseCurrency,
+      startDate,
+      endDate,
+      filters: filters || null,
+      metadata: tag
+        ? {
+            tag: {
+              tagId: tag.tagId,
+              name: tag.name,
+              color: tag.color,
+              createdAt: tag.createdAt.toISOString(),
+              updatedAt: tag.updatedAt.toISOString(),
             },
             category: null,
             customName: null,
+            account: null,
             month: null,
           }
         : null,
@@ -0,0 +1,538 @@
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  inArray,
+  isNotNull,
+  isNull,
+  lt,
+  type SQL,
+  sql,
+} from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import type { FastifyBaseLogger } from "fastify";
+import {
+  TRASH_PURGE_BATCH_SIZE,
+  TRASH_RETENTION_DAYS,
+} from "../config/constants";
+import type * as schema from "../db/schema";
+import {
+  accounts,
+  type DbAccount,
+  type DbTransaction,
+  transactions,
+} from "../db/schema";
+import { rebuildTaxLots } from "./lot-helpers";
+import {
+  clearTransactionSplits,
+  updateAccountBalances,
+  updateCustomName,
+  updateInvestmentHoldings,
+  updateRecurringPatterns,
+} from "./mutations/transaction-helpers";
+import { badInput } from "./validation-helpers";
+
+const MS_PER_DAY = 86_400_000;
+
+export type TrashResult = {
+  accounts: DbAccount[];
+  transactions: DbTransaction[];
+};
+
+export type PurgeResult = {
+  accounts: number;
+  transactions: number;
+};
+
+/**
+ * Condition excluding rows of accounts in the trash
+ */
+export const inLiveAccount = (accountId: AnyPgColumn): SQL =>
+  sql`${accountId} NOT IN (SELECT ${accounts.accountId} FROM ${accounts} WHERE ${accounts.deletedAt} IS NOT NULL)`;
+
+/**
+ * Reverse (delete) or re-apply (create) the holding effect of a transaction
+ * Transactions without complete investment details have no effect
+ */
+export const applyHoldingEffect = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  operation: "create" | "delete",
+  userId: string,
+  transaction: DbTransaction
+) => {
+  if (
+    !(
+      transaction.isInvestment &&
+      transaction.assetSymbol &&
+      transaction.quantity &&
+      transaction.pricePerUnit &&
+      transaction.investmentAction
+    )
+  ) {
+    return;
+  }
+
+  if (operation === "create") {
+    await updateInvestmentHoldings(tx, "create", {
+      userId,
+      newAccountId: transaction.accountId,
+      newCategoryId: transaction.categoryId,
+      newAssetSymbol: transaction.assetSymbol,
+      newQuantity: transaction.quantity,
+      newPricePerUnit: transaction.pricePerUnit,
+      newInvestmentAction: transaction.investmentAction,
+      newAmount: transaction.amount,
+      transactionId: transaction.transactionId,
+    });
+  } else {
+    await updateInvestmentHoldings(tx, "delete", {
+      userId,
+      oldAccountId: transaction.accountId,
+      oldCategoryId: transaction.categoryId,
+      oldAssetSymbol: transaction.assetSymbol,
+      oldQuantity: transaction.quantity,
+      oldPricePerUnit: transaction.pricePerUnit,
+      oldInvestmentAction: transaction.investmentAction,
+      oldAmount: transaction.amount,
+    });
+  }
+};
+
+/**
+ * Reverse (delete) or re-apply (create) the balance effect of a transaction
+ * Both follow the manual balance checkpoint: a transaction dated before the
+ * account's manualBalanceUpdatedAt never moved the balance, so it is skipped
+ * either way and a trash and restore leave the balance where it was
+ */
+export const applyBalanceEffect = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  operation: "create" | "delete",
+  transaction: DbTransaction
+) => {
+  if (operation === "create") {
+    await updateAccountBalances(tx, "create", {
+      newAccountId: transaction.accountId,
+      newAmount: transaction.amount,
+      newTransactionType: transaction.transactionType,
+      newTransactionDateTime: transaction.transactionDateTime,
+    });
+    return;
+  }
+
+  const [account] = await tx
+    .select({ manualBalanceUpdatedAt: accounts.manualBalanceUpdatedAt })
+    .from(accounts)
+    .where(eq(accounts.accountId, transaction.accountId))
+    .limit(1);
+  if (
+    account &&
+    transaction.transactionDateTime < account.manualBalanceUpdatedAt
+  ) {
+    return;
+  }
+
+  await updateAccountBalances(tx, "delete", {
+    oldAccountId: transaction.accountId,
+    oldAmount: transaction.amount,
+    oldTransactionType: transaction.transactionType,
+  });
+};
+
+// ===========================
+// TRANSACTIONS
+// ===========================
+
+/**
+ * Move a transaction to the trash, with the other leg of a transfer
+ * Returns the legs as they were before, the transaction first
+ * Handles: balance and holding effects are reversed, skipping legs dated
+ * before the balance checkpoint as a restore would, and the lots of the asset
+ * are re-matched; splits, tags, custom names and recurring
+ * links are kept so a restore brings the transaction back unchanged
+ * Expects to run inside a database transaction
+ */
+export const trashTransaction = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  params: { userId: string; transaction: DbTransaction }
+): Promise<DbTransaction[]> => {
+  const { userId, transaction } = params;
+
+  const legs = [transaction];
+  if (transaction.isTransfer && transaction.linkedTransactionId) {
+    const [linked] = await tx
+      .select()
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.transactionId, transaction.linkedTransactionId),
+          isNull(transactions.deletedAt)
+        )
+      )
+      .limit(1);
+    if (linked) {
+      legs.push(linked);
+    }
+  }
+
+  for (const leg of legs) {
+    await applyBalanceEffect(tx, "delete", leg);
+    await applyHoldingEffect(tx, "delete", userId, leg);
+  }
+
+  await tx
+    .update(transactions)
+    .set({ deletedAt: new Date() })
+    .where(
+      inArray(
+        transactions.transactionId,
+        legs.map((leg) => leg.transactionId)
+      )
+    );
+
+  await rebuildTaxLots(
+    tx,
+    userId,
+    legs.map((leg) => leg.assetSymbol)
+  );
+
+  return legs;
+};
+
+/**
+ * Restore a transaction from the trash, with the other leg of a transfer
+ * Returns the restored legs, the transaction first
+ * Handles: balance and holding effects are re-applied at the original date
+ * and the lots of the asset are re-matched
+ * Throws when the account of a leg is itself in the trash
+ * Expects to run inside a database transaction
+ */
+export const restoreTransaction = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  params: { userId: string; transaction: DbTransaction }
+): Promise<DbTransaction[]> => {
+  const { userId, transaction } = params;
+  if (!transaction.deletedAt) {
+    throw badInput("Transaction is not in the trash");
+  }
+
+  const legs = [transaction];
+  if (transaction.isTransfer && transaction.linkedTransactionId) {
+    const [linked] = await tx
+      .select()
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.transactionId, transaction.linkedTransactionId),
+          isNotNull(transactions.deletedAt)
+        )
+      )
+      .limit(1);
+    if (linked) {
+      legs.push(linked);
+    }
+  }
+
+  const accountIds = [...new Set(legs.map((leg) => leg.accountId))];
+  const liveAccounts = await tx
+    .select({ accountId: accounts.accountId })
+    .from(accounts)
+    .where(
+      and(inArray(accounts.accountId, accountIds), isNull(accounts.deletedAt))
+    );
+  if (liveAccounts.length !== accountIds.length) {
+    throw badInput("Restore the account of this transaction first");
+  }
+
+  const restored = await tx
+    .update(transactions)
+    .set({ deletedAt: null, updatedAt: new Date() })
+    .where(
+      inArray(
+        transactions.transactionId,
+        legs.map((leg) => leg.transactionId)
+      )
+    )
+    .returning();
+
+  for (const leg of legs) {
+    await applyBalanceEffect(tx, "create", leg);
+    await applyHoldingEffect(tx, "create", userId, leg);
+  }
+
+  await rebuildTaxLots(
+    tx,
+    userId,
+    legs.map((leg) => leg.assetSymbol)
+  );
+
+  return legs.map(
+    (leg) =>
+      restored.find((row) => row.transactionId === leg.transactionId) ?? leg
+  );
+};
+
+// ===========================
+// ACCOUNTS
+// ===========================
+
+/**
+ * Move an account to the trash with its transactions
+ * Handles: the account's transactions share its deletedAt so a restore can
+ * tell them from ones trashed earlier, and their holding effects are reversed;
+ * other legs of transfers stay in their accounts
+ * Expects to run inside a database transaction
+ */
+export const trashAccount = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  params: { userId: string; account: DbAccount }
+): Promise<TrashResult> => {
+  const { userId, account } = params;
+  const deletedAt = new Date();
+
+  const live = await tx
+    .select()
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.accountId, account.accountId),
+        isNull(transactions.deletedAt)
+      )
+    );
+  for (const transaction of live) {
+    await applyHoldingEffect(tx, "delete", userId, transaction);
+  }
+
+  const trashedTransactions = await tx
+    .update(transactions)
+    .set({ deletedAt })
+    .where(
+      and(
+        eq(transactions.accountId, account.accountId),
+        isNull(transactions.deletedAt)
+      )
+    )
+    .returning();
+  await rebuildTaxLots(
+    tx,
+    userId,
+    live.map((transaction) => transaction.assetSymbol)
+  );
+
+  const trashedAccounts = await tx
+    .update(accounts)
+    .set({ deletedAt })
+    .where(eq(accounts.accountId, account.accountId))
+    .returning();
+
+  return { accounts: trashedAccounts, transactions: trashedTransactions };
+};
+
+/**
+ * Restore an account from the trash with the transactions trashed with it
+ * Transactions deleted on their own before the account stay in the trash
+ * Balances are left alone both ways, as the account's own balance is kept
+ * while it is in the trash
+ * Expects to run inside a database transaction
+ */
+export const restoreAccount = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  params: { userId: string; account: DbAccount }
+): Promise<TrashResult> => {
+  const { userId, account } = params;
+  if (!account.deletedAt) {
+    throw badInput("Account is not in the trash");
+  }
+
+  const restoredAccounts = await tx
+    .update(accounts)
+    .set({ deletedAt: null, updatedAt: new Date() })
+    .where(eq(accounts.accountId, account.accountId))
+    .returning();
+
+  const restoredTransactions = await tx
+    .update(transactions)
+    .set({ deletedAt: null, updatedAt: new Date() })
+    .where(
+      and(
+        eq(transactions.accountId, account.accountId),
+        eq(transactions.deletedAt, account.deletedAt)
+      )
+    )
+    .returning();
+  for (const transaction of restoredTransactions) {
+    await applyHoldingEffect(tx, "create", userId, transaction);
+  }
+  await rebuildTaxLots(
+    tx,
+    userId,
+    restoredTransactions.map((transaction) => transaction.assetSymbol)
+  );
+
+  return { accounts: restoredAccounts, transactions: restoredTransactions };
+};
+
+/**
+ * Assets traded in an account, so holding changes can be published
+ */
+export const getAccountAssetSymbols = async (
+  dbOrTx: PostgresJsDatabase<typeof schema>,
+  accountId: string
+): Promise<string[]> => {
+  const rows = await dbOrTx
+    .selectDistinct({ assetSymbol: transactions.assetSymbol })
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.accountId, accountId),
+        eq(transactions.isInvestment, true)
+      )
+    );
+  return rows
+    .map((row) => row.assetSymbol)
+    .filter((symbol): symbol is string => Boolean(symbol));
+};
+
+// ===========================
+// TRASH
+// ===========================
+
+/**
+ * Items in the trash of a user, newest deletion first
+ * Transactions of trashed accounts are left out; they come back with the
+ * account
+ */
+export const getTrash = async (
+  db: PostgresJsDatabase<typeof schema>,
+  userId: string
+): Promise<TrashResult> => {
+  const [trashedAccounts, trashedTransactions] = await Promise.all([
+    db
+      .select()
+      .from(accounts)
+      .where(and(eq(accounts.userId, userId), isNotNull(accounts.deletedAt)))
+      .orderBy(desc(accounts.deletedAt)),
+    db
+      .select()
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          isNotNull(transactions.deletedAt),
+          inLiveAccount(transactions.accountId)
+        )
+      )
+      .orderBy(desc(transactions.deletedAt)),
+  ]);
+
+  return { accounts: trashedAccounts, transactions: trashedTransactions };
+};
+
+/**
+ * Permanently delete a trashed transaction, with the other leg of a transfer
+ * when it is in the trash too
+ * Handles: custom name usage, splits and recurring pattern links are released
+ * as on the former hard delete
+ * Expects to run inside a database transaction
+ */
+const purgeTransaction = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  transaction: DbTransaction
+): Promise<number> => {
+  const ids = [transaction.transactionId];
+  let sharesCustomName = false;
+  if (transaction.linkedTransactionId) {
+    const [linked] = await tx
+      .select()
+      .from(transactions)
+      .where(eq(transactions.transactionId, transaction.linkedTransactionId))
+      .limit(1);
+    if (linked?.deletedAt) {
+      ids.push(linked.transactionId);
+      await clearTransactionSplits(tx, linked.transactionId);
+    } else if (linked) {
+      sharesCustomName = linked.customNameId === transaction.customNameId;
+    }
+  }
+
+  if (transaction.customNameId && !sharesCustomName) {
+    await updateCustomName(tx, "delete", {
+      userId: transaction.userId,
+      customName: null,
+      categoryId: transaction.categoryId,
+      oldCustomNameId: transaction.customNameId,
+    });
+  }
+  await clearTransactionSplits(tx, transaction.transactionId);
+
+  if (transaction.isRecurring && transaction.recurringPatternId) {
+    await updateRecurringPatterns(tx, "delete", {
+      userId: transaction.userId,
+      transactionId: transaction.transactionId,
+      oldRecurringPatternId: transaction.recurringPatternId,
+      oldTransactionDateTime: transaction.transactionDateTime,
+    });
+  }
+
+  const deleted = await tx
+    .delete(transactions)
+    .where(inArray(transactions.transactionId, ids))
+    .returning({ transactionId: transactions.transactionId });
+  return deleted.length;
+};
+
+/**
+ * Permanently delete trash older than the retention period
+ * Accounts go first (their transactions cascade), then transactions deleted
+ * on their own; each item is purged in its own transaction and a failing one
+ * is logged and skipped
+ */
+export const purgeExpiredTrash = async (
+  db: PostgresJsDatabase<typeof schema>,
+  log: FastifyBaseLogger,
+  now: Date = new Date()
+): Promise<PurgeResult> => {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * MS_PER_DAY);
+  const result: PurgeResult = { accounts: 0, transactions: 0 };
+
+  const expiredAccounts = await db
+    .select({ accountId: accounts.accountId })
+    .from(accounts)
+    .where(lt(accounts.deletedAt, cutoff))
+    .orderBy(asc(accounts.deletedAt))
+    .limit(TRASH_PURGE_BATCH_SIZE);
+  for (const { accountId } of expiredAccounts) {
+    try {
+      await db.delete(accounts).where(eq(accounts.accountId, accountId));
+      result.accounts += 1;
+    } catch (error) {
+      log.error({ error, accountId }, "❌ Failed to purge account");
+    }
+  }
+
+  const expiredTransactions = await db
+    .select({ transactionId: transactions.transactionId })
+    .from(transactions)
+    .where(lt(transactions.deletedAt, cutoff))
+    .orderBy(asc(transactions.deletedAt))
+    .limit(TRASH_PURGE_BATCH_SIZE);
+  for (const { transactionId } of expiredTransactions) {
+    try {
+      result.transactions += await db.transaction(async (tx) => {
+        // Already purged as the other leg of a transfer
+        const [transaction] = await tx
+          .select()
+          .from(transactions)
+          .where(eq(transactions.transactionId, transactionId))
+          .limit(1)
+          .for("update");
+        return transaction ? purgeTransaction(tx, transaction) : 0;
+      });
+    } catch (error) {
+      log.error({ error, transactionId }, "❌ Failed to purge transaction");
+    }
+  }
+
+  return result;
+};
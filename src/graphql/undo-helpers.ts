@@ -0,0 +1,612 @@
+import { and, desc, eq, getTableColumns, inArray } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import type { FastifyRequest } from "fastify";
+import type * as schema from "../db/schema";
+import {
+  accounts,
+  auditEvents,
+  type DbAccount,
+  type DbAuditEvent,
+  type DbOperation,
+  type DbRecurringPattern,
+  type DbTransaction,
+  operationJournal,
+  recurringPatterns,
+  transactions,
+} from "../db/schema";
+import { AMOUNT_DECIMALS } from "../lib/currency";
+import { type AuditChange, recordAuditEvents } from "./audit-helpers";
+import { rebuildTaxLots } from "./lot-helpers";
+import { type ChangeSet, snapshotHoldings } from "./subscriptions/publishers";
+import {
+  applyBalanceEffect,
+  applyHoldingEffect,
+  getAccountAssetSymbols,
+  restoreAccount,
+  restoreTransaction,
+  trashAccount,
+  trashTransaction,
+} from "./trash-helpers";
+import { badInput } from "./validation-helpers";
+
+// Columns never written back from a snapshot
+const KEY_FIELDS = ["userId", "createdAt", "updatedAt", "deletedAt"];
+
+// Columns that move without the user changing the record, left out when
+// checking that a record is as the operation left it
+const VOLATILE_FIELDS = new Set([
+  "updatedAt",
+  "balanceUpdatedAt",
+  "currentBalance",
+  "corporateActionUnits",
+]);
+
+// Transaction columns that drive the balance and holding effects
+const BALANCE_FIELDS = [
+  "accountId",
+  "amount",
+  "transactionType",
+  "transactionDateTime",
+];
+const HOLDING_FIELDS = [
+  "accountId",
+  "categoryId",
+  "amount",
+  "isInvestment",
+  "assetSymbol",
+  "quantity",
+  "pricePerUnit",
+  "investmentAction",
+];
+
+type Snapshot = Record<string, unknown>;
+
+export type UndoDirection = "UNDO" | "REDO";
+
+export type MovedOperation = {
+  operation: DbOperation;
+  events: DbAuditEvent[]; // Audit events of the original mutation
+  transactions: DbTransaction[]; // Live after the undo or redo
+  accounts: DbAccount[]; // Live after the undo or redo
+  changes: ChangeSet;
+};
+
+// One record moved from the state the operation left it in to the other one
+type Step = {
+  event: DbAuditEvent;
+  from: Snapshot | null;
+  to: Snapshot | null;
+};
+
+// What the steps did, for the audit log and subscriptions
+type Outcome = {
+  audit: AuditChange[];
+  published: NonNullable<ChangeSet["transactions"]>;
+  transactions: Map<string, DbTransaction>;
+  accounts: Map<string, DbAccount>;
+  accountIds: Set<string>;
+};
+
+type StepContext = {
+  tx: PostgresJsDatabase<typeof schema>;
+  userId: string;
+  outcome: Outcome;
+};
+
+// A snapshot or row of a record that exists and is not in the trash
+const isLive = (record: Snapshot | null | undefined): record is Snapshot =>
+  Boolean(record) && !record?.deletedAt;
+
+// Snapshots are stored as JSON, so timestamps come back as strings
+const fromSnapshot = (table: PgTable, snapshot: Snapshot): Snapshot => {
+  const values: Snapshot = {};
+  for (const [field, column] of Object.entries(getTableColumns(table))) {
+    if (!(field in snapshot) || KEY_FIELDS.includes(field) || column.primary) {
+      continue;
+    }
+    const value = snapshot[field];
+    values[field] =
+      column.dataType === "date" && typeof value === "string"
+        ? new Date(value)
+        : value;
+  }
+  return values;
+};
+
+const differs = (a: Snapshot, b: Snapshot, fields: string[]): boolean =>
+  fields.some((field) => JSON.stringify(a[field]) !== JSON.stringify(b[field]));
+
+// Whether a row is still in the state of a snapshot
+const matchesSnapshot = (
+  row: Snapshot | undefined,
+  snapshot: Snapshot | null
+): boolean => {
+  if (!(isLive(snapshot) && isLive(row))) {
+    return isLive(snapshot) === isLive(row);
+  }
+  return Object.keys(snapshot).every(
+    (field) =>
+      VOLATILE_FIELDS.has(field) ||
+      JSON.stringify(row[field]) === JSON.stringify(snapshot[field])
+  );
+};
+
+// ===========================
+// RECORDS
+// ===========================
+
+const loadRecord = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  event: DbAuditEvent
+): Promise<Snapshot | undefined> => {
+  if (event.entityType === "ACCOUNT") {
+    const [account] = await tx
+      .select()
+      .from(accounts)
+      .where(eq(accounts.accountId, event.entityId))
+      .limit(1)
+      .for("update");
+    return account;
+  }
+  if (event.entityType === "TRANSACTION") {
+    const [transaction] = await tx
+      .select()
+      .from(transactions)
+      .where(eq(transactions.transactionId, event.entityId))
+      .limit(1)
+      .for("update");
+    return transaction;
+  }
+  const [pattern] = await tx
+    .select()
+    .from(recurringPatterns)
+    .where(eq(recurringPatterns.patternId, event.entityId))
+    .limit(1)
+    .for("update");
+  return pattern;
+};
+
+// Undoing the start of a recurring pattern deletes it, which clears the link
+// of its transaction; a redo recreates the pattern first, so link it again
+const relinkPattern = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  transaction: DbTransaction,
+  to: Snapshot
+): Promise<DbTransaction> => {
+  const patternId = to.recurringPatternId as string | null;
+  if (!patternId || transaction.recurringPatternId === patternId) {
+    return transaction;
+  }
+
+  const [relinked] = await tx
+    .update(transactions)
+    .set({ recurringPatternId: patternId })
+    .where(eq(transactions.transactionId, transaction.transactionId))
+    .returning();
+  return relinked;
+};
+
+/**
+ * Move a transaction to the state of a snapshot
+ * Handles: trash and restore (with the other leg of a transfer), and edits,
+ * which reverse the balance and holding effects of the current row and apply
+ * those of the snapshot before the lots of the assets are re-matched
+ */
+const applyTransactionStep = async (
+  { tx, userId, outcome }: StepContext,
+  row: DbTransaction | undefined,
+  to: Snapshot | null
+): Promise<void> => {
+  if (!row) {
+    return;
+  }
+
+  if (!(row.deletedAt || isLive(to))) {
+    const legs = await trashTransaction(tx, { userId, transaction: row });
+    for (const leg of legs) {
+      outcome.audit.push({
+        operation: "DELETE",
+        entityType: "TRANSACTION",
+        entityId: leg.transactionId,
+        before: leg,
+      });
+      outcome.published.push({ operation: "DELETED", transaction: leg });
+      outcome.transactions.delete(leg.transactionId);
+    }
+    return;
+  }
+
+  if (row.deletedAt && isLive(to)) {
+    const legs = await restoreTransaction(tx, { userId, transaction: row });
+    legs[0] = await relinkPattern(tx, legs[0], to);
+    for (const leg of legs) {
+      outcome.audit.push({
+        operation: "RESTORE",
+        entityType: "TRANSACTION",
+        entityId: leg.transactionId,
+        before: { ...leg, deletedAt: row.deletedAt },
+        after: leg,
+      });
+      outcome.published.push({ operation: "CREATED", transaction: leg });
+      outcome.transactions.set(leg.transactionId, leg);
+    }
+    return;
+  }
+
+  // Already moved as the other leg of a transfer
+  if (!isLive(to) || matchesSnapshot(row, to)) {
+    return;
+  }
+
+  const target = {
+    ...row,
+    ...fromSnapshot(transactions, to),
+  } as DbTransaction;
+
+  if (differs(row, target, BALANCE_FIELDS)) {
+    await applyBalanceEffect(tx, "delete", row);
+    await applyBalanceEffect(tx, "create", target);
+  }
+  if (differs(row, target, HOLDING_FIELDS)) {
+    await applyHoldingEffect(tx, "delete", userId, row);
+    await applyHoldingEffect(tx, "create", userId, target);
+  }
+
+  const [updated] = await tx
+    .update(transactions)
+    .set({ ...fromSnapshot(transactions, to), updatedAt: new Date() })
+    .where(eq(transactions.transactionId, row.transactionId))
+    .returning();
+
+  if (row.isInvestment || updated.isInvestment) {
+    await rebuildTaxLots(tx, userId, [row.assetSymbol, updated.assetSymbol]);
+  }
+
+  outcome.audit.push({
+    operation: "UPDATE",
+    entityType: "TRANSACTION",
+    entityId: row.transactionId,
+    before: row,
+    after: updated,
+  });
+  outcome.published.push({ operation: "UPDATED", transaction: updated });
+  outcome.transactions.set(updated.transactionId, updated);
+};
+
+/**
+ * Move an account to the state of a snapshot
+ * Handles: trash and restore (with the transactions trashed with it), and
+ * edits; the balance keeps what transactions added since, so only the change
+ * made by the operation itself is reverted
+ */
+const applyAccountStep = async (
+  { tx, userId, outcome }: StepContext,
+  row: DbAccount | undefined,
+  step: Step
+): Promise<void> => {
+  const { from, to } = step;
+  if (!row) {
+    return;
+  }
+
+  if (!(row.deletedAt || isLive(to))) {
+    const trashed = await trashAccount(tx, { userId, account: row });
+    outcome.audit.push({
+      operation: "DELETE",
+      entityType: "ACCOUNT",
+      entityId: row.accountId,
+      before: row,
+    });
+    for (const transaction of trashed.transactions) {
+      outcome.published.push({ operation: "DELETED", transaction });
+      outcome.transactions.delete(transaction.transactionId);
+    }
+    outcome.accounts.delete(row.accountId);
+    return;
+  }
+
+  if (row.deletedAt && isLive(to)) {
+    const restored = await restoreAccount(tx, { userId, account: row });
+    outcome.audit.push(
+      {
+        operation: "RESTORE",
+        entityType: "ACCOUNT",
+        entityId: row.accountId,
+        before: row,
+        after: restored.accounts[0],
+      },
+      ...restored.transactions.map((transaction) => ({
+        operation: "RESTORE" as const,
+        entityType: "TRANSACTION" as const,
+        entityId: transaction.transactionId,
+        before: { ...transaction, deletedAt: row.deletedAt },
+        after: transaction,
+      }))
+    );
+    for (const transaction of restored.transactions) {
+      outcome.published.push({ operation: "CREATED", transaction });
+      outcome.transactions.set(transaction.transactionId, transaction);
+    }
+    outcome.accounts.set(row.accountId, restored.accounts[0]);
+    return;
+  }
+
+  if (!(isLive(to) && isLive(from))) {
+    return;
+  }
+
+  const balanceChange =
+    Number.parseFloat(String(to.currentBalance)) -
+    Number.parseFloat(String(from.currentBalance));
+  const [updated] = await tx
+    .update(accounts)
+    .set({
+      ...fromSnapshot(accounts, to),
+      currentBalance: (
+        Number.parseFloat(row.currentBalance) + balanceChange
+      ).toFixed(AMOUNT_DECIMALS),
+      updatedAt: new Date(),
+    })
+    .where(eq(accounts.accountId, row.accountId))
+    .returning();
+
+  outcome.audit.push({
+    operation: "UPDATE",
+    entityType: "ACCOUNT",
+    entityId: row.accountId,
+    before: row,
+    after: updated,
+  });
+  outcome.accounts.set(updated.accountId, updated);
+};
+
+// Recurring patterns are edited by operations, and started by recurring
+// transactions; a started pattern is deleted on undo and inserted again
+// under the same ID on redo, other rows are written back as they were
+const applyPatternStep = async (
+  { tx, userId, outcome }: StepContext,
+  row: DbRecurringPattern | undefined,
+  to: Snapshot | null
+): Promise<void> => {
+  if (!isLive(to)) {
+    if (row) {
+      await tx
+        .delete(recurringPatterns)
+        .where(eq(recurringPatterns.patternId, row.patternId));
+      outcome.audit.push({
+        operation: "DELETE",
+        entityType: "RECURRING_PATTERN",
+        entityId: row.patternId,
+        before: row,
+      });
+    }
+    return;
+  }
+
+  if (!row) {
+    const [created] = await tx
+      .insert(recurringPatterns)
+      .values({
+        ...(fromSnapshot(recurringPatterns, to) as DbRecurringPattern),
+        patternId: to.patternId as string,
+        userId,
+      })
+      .returning();
+    outcome.audit.push({
+      operation: "CREATE",
+      entityType: "RECURRING_PATTERN",
+      entityId: created.patternId,
+      after: created,
+    });
+    return;
+  }
+
+  const [updated] = await tx
+    .update(recurringPatterns)
+    .set({ ...fromSnapshot(recurringPatterns, to), updatedAt: new Date() })
+    .where(eq(recurringPatterns.patternId, row.patternId))
+    .returning();
+
+  outcome.audit.push({
+    operation: "UPDATE",
+    entityType: "RECURRING_PATTERN",
+    entityId: row.patternId,
+    before: row,
+    after: updated,
+  });
+};
+
+const applyStep = async (context: StepContext, step: Step): Promise<void> => {
+  const row = await loadRecord(context.tx, step.event);
+  if (step.event.entityType === "TRANSACTION") {
+    const transaction = row as DbTransaction | undefined;
+    if (transaction) {
+      context.outcome.accountIds.add(transaction.accountId);
+    }
+    await applyTransactionStep(context, transaction, step.to);
+  } else if (step.event.entityType === "ACCOUNT") {
+    context.outcome.accountIds.add(step.event.entityId);
+    await applyAccountStep(context, row as DbAccount | undefined, step);
+  } else {
+    await applyPatternStep(
+      context,
+      row as DbRecurringPattern | undefined,
+      step.to
+    );
+  }
+};
+
+// ===========================
+// UNDO / REDO
+// ===========================
+
+// Asset symbols whose holdings the steps can change
+const getStepAssetSymbols = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  steps: Step[]
+): Promise<(string | null | undefined)[]> => {
+  const symbols: (string | null | undefined)[] = [];
+  for (const { event, from, to } of steps) {
+    if (event.entityType === "TRANSACTION") {
+      symbols.push(
+        from?.assetSymbol as string | undefined,
+        to?.assetSymbol as string | undefined
+      );
+    } else if (event.entityType === "ACCOUNT") {
+      symbols.push(...(await getAccountAssetSymbols(tx, event.entityId)));
+    }
+  }
+  return symbols;
+};
+
+// Audit events of an operation as steps, in the order to apply them
+const loadSteps = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  operation: DbOperation,
+  direction: UndoDirection
+): Promise<{ events: DbAuditEvent[]; steps: Step[] }> => {
+  const events = (
+    await tx
+      .select()
+      .from(auditEvents)
+      .where(inArray(auditEvents.eventId, operation.eventIds))
+  ).sort(
+    (a, b) =>
+      operation.eventIds.indexOf(a.eventId) -
+      operation.eventIds.indexOf(b.eventId)
+  );
+
+  const steps: Step[] = events.map((event) => ({
+    event,
+    from: (direction === "UNDO" ? event.after : event.before) as Snapshot,
+    to: (direction === "UNDO" ? event.before : event.after) as Snapshot,
+  }));
+  if (direction === "UNDO") {
+    steps.reverse();
+  }
+
+  return { events, steps };
+};
+
+// Every record must be as the operation left it before anything is changed
+const verifySteps = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  operation: DbOperation,
+  steps: Step[]
+): Promise<void> => {
+  const verb = operation.status === "APPLIED" ? "undone" : "redone";
+  for (const { event, from, to } of steps) {
+    const row = await loadRecord(tx, event);
+    // Only recurring patterns are recreated from their snapshot
+    const isMissing =
+      isLive(to) && !row && event.entityType !== "RECURRING_PATTERN";
+    if (!matchesSnapshot(row, from) || isMissing) {
+      throw badInput(
+        `A ${event.entityType.toLowerCase().replace("_", " ")} changed since the ${operation.source} operation, so it can no longer be ${verb}`
+      );
+    }
+  }
+};
+
+// Latest operation to undo (applied) or to redo (undone)
+const getLastOperation = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  userId: string,
+  direction: UndoDirection
+): Promise<DbOperation | undefined> => {
+  const [operation] = await tx
+    .select()
+    .from(operationJournal)
+    .where(
+      and(
+        eq(operationJournal.userId, userId),
+        direction === "UNDO"
+          ? eq(operationJournal.status, "APPLIED")
+          : eq(operationJournal.status, "UNDONE")
+      )
+    )
+    .orderBy(
+      direction === "UNDO"
+        ? desc(operationJournal.createdAt)
+        : desc(operationJournal.undoneAt)
+    )
+    .limit(1)
+    .for("update");
+  return operation;
+};
+
+/**
+ * Undo the latest operation of a user, or redo the latest undone one
+ * Handles: the audit events of the operation are replayed backwards (undo) or
+ * forwards (redo) through the trash, restore, balance and holding helpers,
+ * covering both legs of transfers; the records must still be as the
+ * operation (or its undo) left them, otherwise nothing is changed. The
+ * changes are audited under undoLastOperation or redoLastOperation
+ * Expects to run inside a database transaction
+ */
+export const moveLastOperation = async (
+  tx: PostgresJsDatabase<typeof schema>,
+  params: {
+    userId: string;
+    direction: UndoDirection;
+    request?: FastifyRequest | null;
+  }
+): Promise<MovedOperation> => {
+  const { userId, direction } = params;
+
+  const operation = await getLastOperation(tx, userId, direction);
+  if (!operation) {
+    throw badInput(`Nothing to ${direction === "UNDO" ? "undo" : "redo"}`);
+  }
+
+  const { events, steps } = await loadSteps(tx, operation, direction);
+  await verifySteps(tx, operation, steps);
+
+  const assetSymbols = await getStepAssetSymbols(tx, steps);
+  const holdingsBefore = await snapshotHoldings(tx, userId, assetSymbols);
+
+  const outcome: Outcome = {
+    audit: [],
+    published: [],
+    transactions: new Map(),
+    accounts: new Map(),
+    accountIds: new Set(),
+  };
+  for (const step of steps) {
+    await applyStep({ tx, userId, outcome }, step);
+  }
+  for (const { transaction } of outcome.published) {
+    outcome.accountIds.add(transaction.accountId);
+  }
+
+  await recordAuditEvents(tx, {
+    userId,
+    source: direction === "UNDO" ? "undoLastOperation" : "redoLastOperation",
+    request: params.request,
+    changes: outcome.audit,
+  });
+
+  const [moved] = await tx
+    .update(operationJournal)
+    .set(
+      direction === "UNDO"
+        ? { status: "UNDONE", undoneAt: new Date() }
+        : { status: "APPLIED", undoneAt: null }
+    )
+    .where(eq(operationJournal.operationId, operation.operationId))
+    .returning();
+
+  return {
+    operation: moved,
+    events,
+    transactions: [...outcome.transactions.values()],
+    accounts: [...outcome.accounts.values()],
+    changes: {
+      userId,
+      transactions: outcome.published,
+      accountIds: [...outcome.accountIds],
+      holdings: { assetSymbols, before: holdingsBefore },
+    },
+  };
+};
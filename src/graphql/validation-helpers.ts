@@ -0,0 +1,14 @@
+import { GraphQLError } from "graphql";
+
+// Error for arguments the client has to correct
+export const badInput = (message: string) =>
+  new GraphQLError(message, { extensions: { code: "BAD_USER_INPUT" } });
+
+// Parse a date argument, naming the field when it is not a valid date
+export const parseDateInput = (value: string, field: string): Date => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw badInput(`${field} must be a valid date`);
+  }
+  return date;
+};
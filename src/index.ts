@@ -3,11 +3,23 @@ import { readFileSync } from "node:fs";
 import cors from "@fastify/cors";
 import Fastify from "fastify";
 import mercurius from "mercurius";
+import { ensureSystemCategories } from "./graphql/category-helpers";
 import { loaders } from "./graphql/loaders";
 import { resolvers } from "./graphql/resolvers";
+import { accountValuationsJob } from "./jobs/account-valuations";
+import { assetPricesJob } from "./jobs/asset-prices";
+import { balanceCheckJob } from "./jobs/balance-check";
+import { balanceSnapshotsJob } from "./jobs/balance-snapshots";
+import { depositMaturityJob } from "./jobs/deposit-maturity";
+import { exchangeRatesFileJob } from "./jobs/exchange-rates";
+import { recurringTransactionsJob } from "./jobs/recurring-transactions";
+import { trashPurgeJob } from "./jobs/trash-purge";
 import drizzlePlugin from "./plugins/drizzle";
-import supabasePlugin from "./plugins/supabase";
+import schedulerPlugin from "./plugins/scheduler";
+import supabasePlugin, { getUserFromAuthorization } from "./plugins/supabase";
 import aiRoute from "./routes/ai";
+import exportRoute from "./routes/export";
+import importRoute from "./routes/import";
 import usersRoute from "./routes/users";
 import type { MercuriusContext } from "./types";
 
@@ -36,6 +48,20 @@ async function startServer() {
   // Register plugins
   await fastify.register(drizzlePlugin);
   await fastify.register(supabasePlugin);
+  await fastify.register(schedulerPlugin);
+
+  // Seed the system categories that background jobs book transactions to
+  await ensureSystemCategories(fastify.db);
+
+  // Register background jobs
+  fastify.scheduler.addJob(recurringTransactionsJob);
+  fastify.scheduler.addJob(exchangeRatesFileJob);
+  fastify.scheduler.addJob(assetPricesJob);
+  fastify.scheduler.addJob(accountValuationsJob);
+  fastify.scheduler.addJob(depositMaturityJob);
+  fastify.scheduler.addJob(balanceSnapshotsJob);
+  fastify.scheduler.addJob(balanceCheckJob);
+  fastify.scheduler.addJob(trashPurgeJob);
 
   // Health check
   fastify.get("/health", async () => ({
@@ -46,6 +72,8 @@ async function startServer() {
   // Register REST routes
   await fastify.register(usersRoute, { prefix: "/api/users" });
   await fastify.register(aiRoute, { prefix: "/api/ai" });
+  await fastify.register(importRoute, { prefix: "/api/import" });
+  await fastify.register(exportRoute, { prefix: "/api/export" });
 
   // Read GraphQL schema
   const schema = readFileSync("./src/graphql/schema.graphql", "utf-8");
@@ -66,6 +94,31 @@ async function startServer() {
       __currentQuery: "",
       pubsub: fastify.graphql.pubsub,
     }),
+    subscription: {
+      // Browsers cannot set headers on the WebSocket upgrade, so the user from
+      // the onRequest hook is only a fallback for the connection_init payload
+      // (app, request and the connection-scoped pubsub come from Mercurius)
+      context: (_socket, request) => ({
+        db: fastify.db,
+        user: request.user,
+      }),
+      onConnect: async ({ payload }) => {
+        const authorization =
+          payload?.authorization ?? payload?.headers?.authorization;
+
+        if (!authorization) {
+          return true;
+        }
+
+        const user = await getUserFromAuthorization(
+          fastify.supabase,
+          authorization
+        );
+
+        // Reject invalid or expired tokens during the handshake
+        return user ? { user } : false;
+      },
+    },
   });
 
   // Add logging hook for GraphQL operations
@@ -92,6 +145,8 @@ async function startServer() {
     fastify.log.info(`📊 GraphQL endpoint: http://localhost:${port}/graphql`);
     fastify.log.info(`🔗 REST API: http://localhost:${port}/api/users`);
     fastify.log.info(`🤖 AI Stream API: http://localhost:${port}/api/ai`);
+    fastify.log.info(`📥 Import API: http://localhost:${port}/api/import`);
+    fastify.log.info(`📤 Export API: http://localhost:${port}/api/export`);
   } catch (err) {
     fastify.log.error(err);
     process.exit(1);
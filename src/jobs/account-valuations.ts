@@ -0,0 +1,35 @@
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { ACCOUNT_VALUATIONS_JOB_INTERVAL_MS } from "../config/constants";
+import { accounts } from "../db/schema";
+import {
+  PERFORMANCE_ACCOUNT_TYPES,
+  recordAccountValuations,
+} from "../graphql/performance-helpers";
+import type { ScheduledJob } from "../plugins/scheduler";
+
+/**
+ * Snapshot the market value of every active investment account
+ * One valuation per account and day is kept (later runs refresh today's), and
+ * the series feeds the time-weighted returns of getMyPortfolioPerformance
+ */
+export const accountValuationsJob: ScheduledJob = {
+  name: "account-valuations",
+  intervalMs: ACCOUNT_VALUATIONS_JOB_INTERVAL_MS,
+  run: async (fastify) => {
+    const accountList = await fastify.db
+      .select()
+      .from(accounts)
+      .where(
+        and(
+          eq(accounts.isActive, true),
+          isNull(accounts.deletedAt),
+          inArray(accounts.accountType, PERFORMANCE_ACCOUNT_TYPES)
+        )
+      );
+
+    const saved = await recordAccountValuations(fastify.db, accountList);
+    if (saved > 0) {
+      fastify.log.info(`📊 Recorded ${saved} account valuation(s)`);
+    }
+  },
+};
@@ -0,0 +1,42 @@
+import { gt } from "drizzle-orm";
+import { ASSET_PRICES_JOB_INTERVAL_MS } from "../config/constants";
+import { investmentHoldings } from "../db/schema";
+import { upsertAssetPrices } from "../graphql/price-helpers";
+import { createPriceSource } from "../lib/prices";
+import type { ScheduledJob } from "../plugins/scheduler";
+
+/**
+ * Refresh market prices for every held asset
+ * Quotes come from the configured price source (PRICE_SOURCE) and are upserted
+ * per symbol and day, so the asset price history grows with each new day
+ */
+export const assetPricesJob: ScheduledJob = {
+  name: "asset-prices",
+  intervalMs: ASSET_PRICES_JOB_INTERVAL_MS,
+  run: async (fastify) => {
+    const source = createPriceSource({
+      onError: (error) => fastify.log.warn(`⚠️ ${error}`),
+    });
+    if (!source) {
+      return;
+    }
+
+    const held = await fastify.db
+      .selectDistinct({ assetSymbol: investmentHoldings.assetSymbol })
+      .from(investmentHoldings)
+      .where(gt(investmentHoldings.totalQuantity, "0"));
+    if (held.length === 0) {
+      return;
+    }
+
+    const quotes = await source.fetchQuotes(
+      held.map((holding) => holding.assetSymbol)
+    );
+    const saved = await upsertAssetPrices(fastify.db, {
+      quotes,
+      source: source.name,
+    });
+
+    fastify.log.info(`📈 Loaded ${saved.length} asset price(s)`);
+  },
+};
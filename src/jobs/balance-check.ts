@@ -0,0 +1,33 @@
+import {
+  BALANCE_CHECK_DRY_RUN,
+  BALANCE_CHECK_JOB_INTERVAL_MS,
+} from "../config/constants";
+import { checkAccountBalances } from "../graphql/balance-helpers";
+import type { ScheduledJob } from "../plugins/scheduler";
+
+/**
+ * Check every account balance against its transaction ledger
+ * Drifted accounts are logged and, unless BALANCE_CHECK_DRY_RUN is on (the
+ * default), rebuilt from their latest manual checkpoint
+ */
+export const balanceCheckJob: ScheduledJob = {
+  name: "balance-check",
+  intervalMs: BALANCE_CHECK_JOB_INTERVAL_MS,
+  run: async (fastify) => {
+    const { drifted, withoutCheckpoint } = await checkAccountBalances(
+      fastify.db,
+      fastify.log,
+      { dryRun: BALANCE_CHECK_DRY_RUN }
+    );
+    if (drifted.length > 0) {
+      fastify.log.info(
+        `⚖️ ${drifted.length} account balance(s) drifted${BALANCE_CHECK_DRY_RUN ? " (dry run, not corrected)" : ", corrected"}`
+      );
+    }
+    if (withoutCheckpoint > 0) {
+      fastify.log.info(
+        `⚖️ ${withoutCheckpoint} account balance(s) have no checkpoint and were not checked`
+      );
+    }
+  },
+};
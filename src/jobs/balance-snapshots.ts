@@ -0,0 +1,27 @@
+import { isNull } from "drizzle-orm";
+import { BALANCE_SNAPSHOTS_JOB_INTERVAL_MS } from "../config/constants";
+import { accounts } from "../db/schema";
+import { recordBalanceSnapshots } from "../graphql/net-worth-helpers";
+import type { ScheduledJob } from "../plugins/scheduler";
+
+/**
+ * Snapshot the end-of-day balance of every account
+ * Each run replays the days since every account's manual balance checkpoint,
+ * so the history feeding getMyNetWorthHistory is backfilled on the first run
+ * and follows back-dated changes afterwards
+ */
+export const balanceSnapshotsJob: ScheduledJob = {
+  name: "balance-snapshots",
+  intervalMs: BALANCE_SNAPSHOTS_JOB_INTERVAL_MS,
+  run: async (fastify) => {
+    const accountList = await fastify.db
+      .select()
+      .from(accounts)
+      .where(isNull(accounts.deletedAt));
+
+    const saved = await recordBalanceSnapshots(fastify.db, accountList);
+    if (saved > 0) {
+      fastify.log.info(`📈 Recorded ${saved} balance snapshot(s)`);
+    }
+  },
+};
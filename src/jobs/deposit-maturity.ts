@@ -0,0 +1,15 @@
+import { DEPOSIT_MATURITY_JOB_INTERVAL_MS } from "../config/constants";
+import { matureDueDeposits } from "../graphql/deposit-helpers";
+import type { ScheduledJob } from "../plugins/scheduler";
+
+export const depositMaturityJob: ScheduledJob = {
+  name: "deposit-maturity",
+  intervalMs: DEPOSIT_MATURITY_JOB_INTERVAL_MS,
+  run: async (fastify) => {
+    const maturedCount = await matureDueDeposits(fastify.db, fastify.log);
+
+    if (maturedCount > 0) {
+      fastify.log.info(`🏦 Matured ${maturedCount} fixed deposit(s)`);
+    }
+  },
+};
@@ -0,0 +1,39 @@
+import { readFile } from "node:fs/promises";
+import {
+  EXCHANGE_RATES_FILE,
+  EXCHANGE_RATES_JOB_INTERVAL_MS,
+} from "../config/constants";
+import { upsertExchangeRates } from "../graphql/currency-helpers";
+import { parseExchangeRateCsv } from "../lib/currency";
+import type { ScheduledJob } from "../plugins/scheduler";
+
+/**
+ * Load shared exchange rates from the local rates file
+ * The file is a CSV with date, base, quote and rate columns; rows are upserted
+ * as shared rates, so re-reading an unchanged file is a no-op and edited
+ * lines replace the stored rate for that pair and day
+ */
+export const exchangeRatesFileJob: ScheduledJob = {
+  name: "exchange-rates-file",
+  intervalMs: EXCHANGE_RATES_JOB_INTERVAL_MS,
+  run: async (fastify) => {
+    if (!EXCHANGE_RATES_FILE) {
+      return;
+    }
+
+    const content = await readFile(EXCHANGE_RATES_FILE, "utf8");
+    const { rows, errors } = parseExchangeRateCsv(content);
+
+    for (const error of errors) {
+      fastify.log.warn(`⚠️ ${EXCHANGE_RATES_FILE}: ${error}`);
+    }
+
+    const saved = await upsertExchangeRates(fastify.db, {
+      userId: null,
+      source: "FILE",
+      rows,
+    });
+
+    fastify.log.info(`💱 Loaded ${saved.length} exchange rate(s)`);
+  },
+};
@@ -0,0 +1,210 @@
+import { and, asc, eq, lte } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import type { FastifyBaseLogger } from "fastify";
+import {
+  RECURRING_JOB_BATCH_SIZE,
+  RECURRING_JOB_INTERVAL_MS,
+  RECURRING_MAX_CATCH_UP,
+} from "../config/constants";
+import type * as schema from "../db/schema";
+import {
+  categories,
+  customTransactionNames,
+  recurringPatterns,
+  transactions,
+} from "../db/schema";
+import { type AuditChange, recordAuditEvents } from "../graphql/audit-helpers";
+import {
+  calculateNextDueDate,
+  createTransactionWithEffects,
+} from "../graphql/mutations/transaction-helpers";
+import { inLiveAccount } from "../graphql/trash-helpers";
+import type { ScheduledJob } from "../plugins/scheduler";
+
+/**
+ * Generate every due occurrence of a single recurring pattern
+ * The pattern row is locked with SKIP LOCKED so that concurrent instances never
+ * process the same pattern, and the transactions are created in the same
+ * database transaction that advances nextDueDate, so a crash or restart can
+ * never produce duplicates. The changes are audited as made by the system.
+ */
+const generateForPattern = (
+  db: PostgresJsDatabase<typeof schema>,
+  patternId: string,
+  now: Date
+): Promise<number> =>
+  db.transaction(async (tx) => {
+    const [pattern] = await tx
+      .select()
+      .from(recurringPatterns)
+      .where(
+        and(
+          eq(recurringPatterns.patternId, patternId),
+          eq(recurringPatterns.isActive, true),
+          eq(recurringPatterns.isPaused, false),
+          lte(recurringPatterns.nextDueDate, now),
+          inLiveAccount(recurringPatterns.accountId)
+        )
+      )
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    // Already processed by another instance, or changed since the scan
+    if (!pattern) {
+      return 0;
+    }
+
+    const [category] = await tx
+      .select()
+      .from(categories)
+      .where(eq(categories.categoryId, pattern.categoryId))
+      .limit(1);
+
+    const [customName] = pattern.customNameId
+      ? await tx
+          .select()
+          .from(customTransactionNames)
+          .where(eq(customTransactionNames.customNameId, pattern.customNameId))
+          .limit(1)
+      : [];
+
+    let dueDate = new Date(pattern.nextDueDate);
+    let lastGeneratedDate = pattern.lastGeneratedDate;
+    let generatedCount = 0;
+    const changes: AuditChange[] = [];
+
+    while (
+      dueDate <= now &&
+      generatedCount < RECURRING_MAX_CATCH_UP &&
+      !(pattern.endDate && dueDate > pattern.endDate)
+    ) {
+      const transaction = await createTransactionWithEffects(tx, {
+        userId: pattern.userId,
+        input: {
+          accountId: pattern.accountId,
+          categoryNumber: category.categoryNumber,
+          amount: pattern.amount,
+          transactionType: pattern.transactionType,
+          transactionDateTime: dueDate.toISOString(),
+          customName: customName?.customName,
+          description: pattern.description,
+          paymentMethod: pattern.paymentMethod,
+          // Units are unknown until the NAV/price is confirmed, so only the
+          // investment flag and symbol are carried over for SIP patterns
+          isInvestment: category.categoryType === "INVESTMENT",
+          assetSymbol: customName?.assetSymbol,
+        },
+        location: pattern.location,
+      });
+
+      // Link generated transaction to its pattern
+      const [linked] = await tx
+        .update(transactions)
+        .set({ isRecurring: true, recurringPatternId: pattern.patternId })
+        .where(eq(transactions.transactionId, transaction.transactionId))
+        .returning();
+      changes.push({
+        operation: "CREATE",
+        entityType: "TRANSACTION",
+        entityId: linked.transactionId,
+        after: linked,
+      });
+
+      lastGeneratedDate = dueDate;
+      generatedCount += 1;
+      dueDate = calculateNextDueDate(
+        pattern.startDate,
+        pattern.frequency,
+        dueDate,
+        pattern.customFrequencyDays || undefined
+      );
+    }
+
+    // Deactivate patterns that ran past their end date
+    const isFinished = pattern.endDate !== null && dueDate > pattern.endDate;
+
+    const [advanced] = await tx
+      .update(recurringPatterns)
+      .set({
+        nextDueDate: dueDate,
+        lastGeneratedDate,
+        generatedCount: pattern.generatedCount + generatedCount,
+        isActive: !isFinished,
+        updatedAt: new Date(),
+      })
+      .where(eq(recurringPatterns.patternId, pattern.patternId))
+      .returning();
+    changes.push({
+      operation: "UPDATE",
+      entityType: "RECURRING_PATTERN",
+      entityId: pattern.patternId,
+      before: pattern,
+      after: advanced,
+    });
+
+    await recordAuditEvents(tx, {
+      userId: pattern.userId,
+      actorId: null,
+      source: "recurring-transactions",
+      changes,
+    });
+
+    return generatedCount;
+  });
+
+/**
+ * Generate transactions for all recurring patterns that are due
+ * A failing pattern is logged and skipped so it cannot block the others
+ * Returns the number of transactions created
+ */
+export const generateDueRecurringTransactions = async (
+  db: PostgresJsDatabase<typeof schema>,
+  log: FastifyBaseLogger,
+  now: Date = new Date()
+): Promise<number> => {
+  // Scan due patterns (served by recurring_patterns_next_due_idx)
+  const duePatterns = await db
+    .select({ patternId: recurringPatterns.patternId })
+    .from(recurringPatterns)
+    .where(
+      and(
+        lte(recurringPatterns.nextDueDate, now),
+        eq(recurringPatterns.isActive, true),
+        eq(recurringPatterns.isPaused, false),
+        inLiveAccount(recurringPatterns.accountId)
+      )
+    )
+    .orderBy(asc(recurringPatterns.nextDueDate))
+    .limit(RECURRING_JOB_BATCH_SIZE);
+
+  let total = 0;
+  for (const { patternId } of duePatterns) {
+    try {
+      total += await generateForPattern(db, patternId, now);
+    } catch (error) {
+      log.error(
+        { error, patternId },
+        "❌ Failed to generate recurring transaction"
+      );
+    }
+  }
+
+  return total;
+};
+
+export const recurringTransactionsJob: ScheduledJob = {
+  name: "recurring-transactions",
+  intervalMs: RECURRING_JOB_INTERVAL_MS,
+  run: async (fastify) => {
+    const generatedCount = await generateDueRecurringTransactions(
+      fastify.db,
+      fastify.log
+    );
+
+    if (generatedCount > 0) {
+      fastify.log.info(
+        `🔁 Generated ${generatedCount} recurring transaction(s)`
+      );
+    }
+  },
+};
@@ -0,0 +1,23 @@
+import {
+  TRASH_PURGE_JOB_INTERVAL_MS,
+  TRASH_RETENTION_DAYS,
+} from "../config/constants";
+import { purgeExpiredTrash } from "../graphql/trash-helpers";
+import type { ScheduledJob } from "../plugins/scheduler";
+
+/**
+ * Permanently delete accounts and transactions that have been in the trash
+ * longer than TRASH_RETENTION_DAYS
+ */
+export const trashPurgeJob: ScheduledJob = {
+  name: "trash-purge",
+  intervalMs: TRASH_PURGE_JOB_INTERVAL_MS,
+  run: async (fastify) => {
+    const purged = await purgeExpiredTrash(fastify.db, fastify.log);
+    if (purged.accounts + purged.transactions > 0) {
+      fastify.log.info(
+        `🗑️ Purged ${purged.accounts} account(s) and ${purged.transactions} transaction(s) older than ${TRASH_RETENTION_DAYS} days from the trash`
+      );
+    }
+  },
+};
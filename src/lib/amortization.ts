@@ -0,0 +1,247 @@
+import { roundAmount } from "./currency";
+export type LoanPrepaymentMode = "REDUCE_TENURE" | "REDUCE_EMI";
+
+export type LoanTerms = {
+  principal: number;
+  annualRate: number; // Percent per year
+  startDate: Date; // Disbursal; the first installment is due a month later
+  endDate: Date; // Due date of the last installment
+  prepaymentMode: LoanPrepaymentMode;
+};
+
+export type LoanPayment = {
+  date: Date;
+  amount: number;
+};
+
+export type InstallmentStatus = "PAID" | "OVERDUE" | "DUE" | "UPCOMING";
+
+export type Installment = {
+  installmentNumber: number;
+  dueDate: Date;
+  openingBalance: number;
+  amountDue: number;
+  principal: number;
+  interest: number;
+  prepayment: number; // Extra principal paid within this installment's period
+  closingBalance: number;
+  paidAmount: number;
+  paidAt: Date | null; // Date of the payment that completed the installment
+  status: InstallmentStatus;
+};
+
+export type AmortizationSchedule = {
+  originalEmi: number;
+  emi: number; // Current EMI, after prepayments under REDUCE_EMI
+  tenureMonths: number;
+  installments: Installment[];
+  totalInterest: number;
+  totalPrepaid: number;
+  outstandingPrincipal: number; // Principal not yet repaid
+};
+
+const MONTHS_PER_YEAR = 12;
+const PERCENT = 100;
+const EPSILON = 0.005; // Half a cent
+
+// Same day of month, clamped to the month's last day (UTC)
+const addMonths = (date: Date, months: number): Date => {
+  const next = new Date(date);
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + months);
+  const maxDayInMonth = new Date(
+    Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  next.setUTCDate(Math.min(date.getUTCDate(), maxDayInMonth));
+  return next;
+};
+
+// Whole months from start to end, at least one
+const monthsBetween = (start: Date, end: Date): number =>
+  Math.max(
+    1,
+    (end.getUTCFullYear() - start.getUTCFullYear()) * MONTHS_PER_YEAR +
+      end.getUTCMonth() -
+      start.getUTCMonth()
+  );
+
+/**
+ * Equated monthly installment of a loan
+ * EMI = P·r·(1 + r)^n / ((1 + r)^n - 1), or P / n without interest
+ */
+export const calculateEmi = (
+  principal: number,
+  monthlyRate: number,
+  months: number
+): number => {
+  if (monthlyRate === 0) {
+    return roundAmount(principal / months);
+  }
+  const growth = (1 + monthlyRate) ** months;
+  return roundAmount((principal * monthlyRate * growth) / (growth - 1));
+};
+
+// Payments not yet allocated and installments still waiting for them
+type Allocation = {
+  pool: number;
+  unpaid: Installment[];
+};
+
+/**
+ * Apply a payment to the unpaid installments, oldest first
+ * Whatever is left once every installment so far is paid stays in the pool,
+ * to be applied as a prepayment
+ */
+const applyPayment = (allocation: Allocation, payment: LoanPayment) => {
+  allocation.pool += payment.amount;
+  while (allocation.unpaid.length > 0 && allocation.pool > EPSILON) {
+    const installment = allocation.unpaid[0];
+    const amount = Math.min(
+      allocation.pool,
+      installment.amountDue - installment.paidAmount
+    );
+    installment.paidAmount = roundAmount(installment.paidAmount + amount);
+    allocation.pool -= amount;
+
+    if (installment.paidAmount >= installment.amountDue - EPSILON) {
+      installment.paidAt = payment.date;
+      allocation.unpaid.shift();
+    }
+  }
+};
+
+// Once every installment so far is paid, what is left reduces the principal
+const applyPrepayment = (allocation: Allocation, installment: Installment) => {
+  if (
+    allocation.unpaid.length > 0 ||
+    allocation.pool <= EPSILON ||
+    installment.closingBalance <= 0
+  ) {
+    return;
+  }
+
+  const prepayment = roundAmount(
+    Math.min(allocation.pool, installment.closingBalance)
+  );
+  allocation.pool -= prepayment;
+  installment.prepayment = prepayment;
+  installment.closingBalance = roundAmount(
+    installment.closingBalance - prepayment
+  );
+};
+
+// Status of each installment as of now; only the first unpaid one ahead is DUE
+const assignStatuses = (installments: Installment[], now: Date) => {
+  let hasDue = false;
+  for (const installment of installments) {
+    if (installment.paidAmount >= installment.amountDue - EPSILON) {
+      installment.status = "PAID";
+    } else if (installment.dueDate <= now) {
+      installment.status = "OVERDUE";
+    } else {
+      installment.status = hasDue ? "UPCOMING" : "DUE";
+      hasDue = true;
+    }
+  }
+};
+
+/**
+ * Build the EMI schedule of a loan and match payments against it
+ * Handles: principal/interest split per installment (reducing balance),
+ * payments applied to the oldest unpaid installment first, prepayments
+ * Payments made up to an installment's due date count towards it; what is
+ * left once every installment so far is paid reduces the principal right
+ * after that installment, and the rest of the schedule is recomputed: the
+ * EMI stays the same and the loan ends sooner (REDUCE_TENURE), or the EMI is
+ * recalculated over the remaining months (REDUCE_EMI)
+ */
+export const buildAmortizationSchedule = (
+  terms: LoanTerms,
+  payments: LoanPayment[],
+  now: Date = new Date()
+): AmortizationSchedule => {
+  const monthlyRate = terms.annualRate / PERCENT / MONTHS_PER_YEAR;
+  const tenureMonths = monthsBetween(terms.startDate, terms.endDate);
+  const originalEmi = calculateEmi(terms.principal, monthlyRate, tenureMonths);
+  const queue = payments
+    .filter((payment) => payment.amount > 0)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const allocation: Allocation = { pool: 0, unpaid: [] };
+  const installments: Installment[] = [];
+  let balance = terms.principal;
+  let emi = originalEmi;
+  let next = 0;
+
+  for (let month = 1; month <= tenureMonths && balance > EPSILON; month += 1) {
+    const dueDate = addMonths(terms.startDate, month);
+    const interest = roundAmount(balance * monthlyRate);
+    const isLast = month === tenureMonths || balance + interest <= emi;
+    const principal = isLast
+      ? balance
+      : roundAmount(Math.min(emi - interest, balance));
+
+    const installment: Installment = {
+      installmentNumber: month,
+      dueDate,
+      openingBalance: balance,
+      amountDue: roundAmount(principal + interest),
+      principal,
+      interest,
+      prepayment: 0,
+      closingBalance: roundAmount(balance - principal),
+      paidAmount: 0,
+      paidAt: null,
+      status: "UPCOMING",
+    };
+    installments.push(installment);
+    allocation.unpaid.push(installment);
+
+    while (next < queue.length && queue[next].date <= dueDate) {
+      applyPayment(allocation, queue[next]);
+      next += 1;
+    }
+
+    applyPrepayment(allocation, installment);
+    balance = installment.closingBalance;
+    if (
+      installment.prepayment > 0 &&
+      terms.prepaymentMode === "REDUCE_EMI" &&
+      month < tenureMonths
+    ) {
+      emi = calculateEmi(balance, monthlyRate, tenureMonths - month);
+    }
+  }
+
+  // Late payments after the last due date still settle what is overdue
+  for (const payment of queue.slice(next)) {
+    applyPayment(allocation, payment);
+  }
+
+  assignStatuses(installments, now);
+
+  const repaid = installments.reduce(
+    (sum, installment) =>
+      sum +
+      installment.prepayment +
+      Math.min(
+        installment.principal,
+        Math.max(0, installment.paidAmount - installment.interest)
+      ),
+    0
+  );
+
+  return {
+    originalEmi,
+    emi,
+    tenureMonths,
+    installments,
+    totalInterest: roundAmount(
+      installments.reduce((sum, installment) => sum + installment.interest, 0)
+    ),
+    totalPrepaid: roundAmount(
+      installments.reduce((sum, installment) => sum + installment.prepayment, 0)
+    ),
+    outstandingPrincipal: roundAmount(Math.max(0, terms.principal - repaid)),
+  };
+};
@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { applyLongTermExemption } from "./capital-gains";
+
+const LIMIT = 125_000;
+const GAIN = 200_000;
+const LOSS = -100_000;
+
+describe("applyLongTermExemption", () => {
+  it("exempts gains up to the limit and taxes the rest", () => {
+    assert.deepEqual(applyLongTermExemption(GAIN, [LIMIT]), {
+      longTermExemption: LIMIT,
+      taxableLongTermGain: GAIN - LIMIT,
+    });
+  });
+
+  it("applies the limit to the gain net of losses under other rules", () => {
+    assert.deepEqual(applyLongTermExemption(GAIN + LOSS, [LIMIT, 0]), {
+      longTermExemption: GAIN + LOSS,
+      taxableLongTermGain: 0,
+    });
+  });
+
+  it("applies a limit shared by several rules once", () => {
+    assert.deepEqual(applyLongTermExemption(GAIN * 2, [LIMIT, LIMIT]), {
+      longTermExemption: LIMIT,
+      taxableLongTermGain: GAIN * 2 - LIMIT,
+    });
+  });
+
+  it("uses the highest limit when rules differ", () => {
+    assert.deepEqual(applyLongTermExemption(GAIN, [LIMIT / 2, LIMIT]), {
+      longTermExemption: LIMIT,
+      taxableLongTermGain: GAIN - LIMIT,
+    });
+  });
+
+  it("leaves a net loss neither exempt nor taxable", () => {
+    assert.deepEqual(applyLongTermExemption(LOSS, [LIMIT]), {
+      longTermExemption: 0,
+      taxableLongTermGain: 0,
+    });
+  });
+
+  it("taxes the whole gain without an exemption limit", () => {
+    assert.deepEqual(applyLongTermExemption(GAIN, []), {
+      longTermExemption: 0,
+      taxableLongTermGain: GAIN,
+    });
+  });
+});
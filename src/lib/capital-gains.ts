@@ -0,0 +1,25 @@
+import { roundAmount } from "./currency";
+
+export type LongTermExemption = {
+  longTermExemption: number;
+  taxableLongTermGain: number;
+};
+
+/**
+ * Apply the yearly long-term exemption to the net long-term gain
+ * One limit covers the whole financial year, the highest of the rules that
+ * classified long-term sales, however many of them matched; a net loss
+ * leaves nothing exempt and nothing taxable
+ */
+export const applyLongTermExemption = (
+  longTermGainLoss: number,
+  limits: number[]
+): LongTermExemption => {
+  const limit = Math.max(0, ...limits);
+  const exemption = Math.min(limit, Math.max(0, longTermGainLoss));
+
+  return {
+    longTermExemption: roundAmount(exemption),
+    taxableLongTermGain: roundAmount(Math.max(0, longTermGainLoss - exemption)),
+  };
+};
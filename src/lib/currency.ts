@@ -0,0 +1,113 @@
+import { CURRENCY_CODE_REGEX } from "../config/constants";
+import { parseCsv, parseStatementDate } from "./import/csv";
+
+export type ExchangeRateRow = {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: string;
+  rateDate: Date;
+};
+
+// Decimal places stored for each kind of number
+export const AMOUNT_DECIMALS = 2;
+export const QUANTITY_DECIMALS = 6;
+export const PRICE_DECIMALS = 4;
+export const RATE_DECIMALS = 10;
+
+const MONEY_LOCALE = "en-IN";
+const RATE_COLUMNS = ["date", "base", "quote", "rate"];
+
+/**
+ * Format an amount with its currency symbol (e.g. ₹1,250.00, $40.00)
+ * Unknown currency codes fall back to "XYZ 1250.00"
+ */
+export const formatMoney = (
+  amount: string | number,
+  currency: string | null | undefined
+): string => {
+  const value = typeof amount === "number" ? amount : Number.parseFloat(amount);
+  const code = currency ?? "INR";
+
+  try {
+    return new Intl.NumberFormat(MONEY_LOCALE, {
+      style: "currency",
+      currency: code,
+      minimumFractionDigits: AMOUNT_DECIMALS,
+      maximumFractionDigits: AMOUNT_DECIMALS,
+    }).format(value);
+  } catch {
+    return `${code} ${value.toFixed(AMOUNT_DECIMALS)}`;
+  }
+};
+
+// Round an amount to the stored precision
+export const roundAmount = (value: number): number =>
+  Number(value.toFixed(AMOUNT_DECIMALS));
+
+// Amount as a decimal string at the stored precision (e.g. "1250.00")
+export const toAmount = (value: number): string =>
+  value.toFixed(AMOUNT_DECIMALS);
+
+// Normalise a currency code, returning null when it is not ISO 4217 shaped
+export const normalizeCurrencyCode = (
+  value: string | null | undefined
+): string | null => {
+  const code = value?.trim().toUpperCase() ?? "";
+  return CURRENCY_CODE_REGEX.test(code) ? code : null;
+};
+
+// Rates are stored per calendar day (UTC midnight)
+export const toRateDate = (date: Date): Date =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+
+/**
+ * Parse an exchange-rate CSV
+ * Expects a header with date, base, quote and rate columns (any order);
+ * invalid lines are reported by line number and skipped
+ */
+export const parseExchangeRateCsv = (
+  content: string,
+  delimiter = ","
+): { rows: ExchangeRateRow[]; errors: string[] } => {
+  const [header, ...lines] = parseCsv(content, delimiter);
+  const columns = (header ?? []).map((name) => name.trim().toLowerCase());
+  const missing = RATE_COLUMNS.filter((name) => !columns.includes(name));
+  if (missing.length > 0) {
+    return { rows: [], errors: [`Missing column(s): ${missing.join(", ")}`] };
+  }
+
+  const [dateIndex, baseIndex, quoteIndex, rateIndex] = RATE_COLUMNS.map(
+    (name) => columns.indexOf(name)
+  );
+
+  const rows: ExchangeRateRow[] = [];
+  const errors: string[] = [];
+  lines.forEach((line, index) => {
+    const lineNumber = index + 2;
+    const date = parseStatementDate(line[dateIndex] ?? "");
+    const baseCurrency = normalizeCurrencyCode(line[baseIndex]);
+    const quoteCurrency = normalizeCurrencyCode(line[quoteIndex]);
+    const rate = Number.parseFloat(line[rateIndex] ?? "");
+
+    if (!date) {
+      errors.push(`Line ${lineNumber}: invalid date`);
+    } else if (!(baseCurrency && quoteCurrency)) {
+      errors.push(`Line ${lineNumber}: invalid currency code`);
+    } else if (baseCurrency === quoteCurrency) {
+      errors.push(`Line ${lineNumber}: base and quote currency are the same`);
+    } else if (Number.isFinite(rate) && rate > 0) {
+      rows.push({
+        baseCurrency,
+        quoteCurrency,
+        rate: rate.toString(),
+        rateDate: toRateDate(date),
+      });
+    } else {
+      errors.push(`Line ${lineNumber}: rate must be a positive number`);
+    }
+  });
+
+  return { rows, errors };
+};
@@ -0,0 +1,50 @@
+const CSV_SPECIAL_CHARS_REGEX = /[",\r\n]/;
+const FORMULA_PREFIX_REGEX = /^[=+\-@\t\r]/;
+const NUMERIC_REGEX = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Format a single CSV cell
+ * Dates become ISO strings, objects JSON, and text that a spreadsheet would
+ * evaluate as a formula is prefixed with a quote
+ */
+export const toCsvValue = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === "object") {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+
+  if (FORMULA_PREFIX_REGEX.test(text) && !NUMERIC_REGEX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return CSV_SPECIAL_CHARS_REGEX.test(text)
+    ? `"${text.replaceAll('"', '""')}"`
+    : text;
+};
+
+// Format one CSV line (with trailing CRLF as per RFC 4180)
+export const toCsvLine = (values: unknown[]): string =>
+  `${values.map(toCsvValue).join(",")}\r\n`;
+
+/**
+ * Stream rows as CSV with a header line
+ * Rows arrive in batches so only one batch is held in memory at a time
+ */
+export async function* toCsv<T extends Record<string, unknown>>(
+  columns: (keyof T & string)[],
+  batches: AsyncIterable<T[]> | Iterable<T[]>
+): AsyncGenerator<string> {
+  yield toCsvLine(columns);
+
+  for await (const batch of batches) {
+    yield batch.map((row) => toCsvLine(columns.map((c) => row[c]))).join("");
+  }
+}
@@ -0,0 +1,128 @@
+const ISO_DATE_SEPARATORS_REGEX = /[-:T]/g;
+const OFX_UNSAFE_CHARS_REGEX = /[<>&]/g;
+const OFX_ENTITIES: Record<string, string> = {
+  "<": "&lt;",
+  ">": "&gt;",
+  "&": "&amp;",
+};
+const OFX_NAME_MAX_LENGTH = 32; // NAME is limited to 32 characters in OFX 1.x
+const OFX_DATE_LENGTH = 14; // YYYYMMDDHHMMSS
+
+export type OfxAccount = {
+  accountId: string;
+  accountNumber: string | null;
+  institutionName: string | null;
+  accountGroup: string;
+  currency: string | null;
+  currentBalance: string;
+};
+
+export type OfxTransaction = {
+  transactionId: string;
+  transactionType: "DEBIT" | "CREDIT";
+  transactionDateTime: Date;
+  amount: string;
+  description: string | null;
+  customName: string | null;
+  categoryName: string | null;
+};
+
+const escapeOfx = (value: string) =>
+  value.replace(OFX_UNSAFE_CHARS_REGEX, (char) => OFX_ENTITIES[char]);
+
+// Format a date as OFX YYYYMMDDHHMMSS in UTC
+export const toOfxDate = (date: Date): string =>
+  `${date
+    .toISOString()
+    .replace(ISO_DATE_SEPARATORS_REGEX, "")
+    .slice(0, OFX_DATE_LENGTH)}[0:GMT]`;
+
+/**
+ * OFX 1.02 (SGML) document header and sign-on response
+ * QFX-compatible importers (Quicken, GnuCash, most banks) accept this form
+ */
+export const ofxDocumentStart = (now: Date): string =>
+  [
+    "OFXHEADER:100",
+    "DATA:OFXSGML",
+    "VERSION:102",
+    "SECURITY:NONE",
+    "ENCODING:USASCII",
+    "CHARSET:1252",
+    "COMPRESSION:NONE",
+    "OLDFILEUID:NONE",
+    "NEWFILEUID:NONE",
+    "",
+    "<OFX>",
+    "<SIGNONMSGSRSV1><SONRS>",
+    "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+    `<DTSERVER>${toOfxDate(now)}`,
+    "<LANGUAGE>ENG",
+    "</SONRS></SIGNONMSGSRSV1>",
+    "<BANKMSGSRSV1>",
+    "",
+  ].join("\r\n");
+
+export const ofxDocumentEnd = (): string =>
+  ["</BANKMSGSRSV1>", "</OFX>", ""].join("\r\n");
+
+/**
+ * Opening tags of one account statement up to the transaction list
+ * Credit cards and loans are exported as CREDITLINE accounts
+ */
+export const ofxStatementStart = (
+  account: OfxAccount,
+  range: { start: Date; end: Date }
+): string =>
+  [
+    "<STMTTRNRS>",
+    `<TRNUID>${account.accountId}`,
+    "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+    "<STMTRS>",
+    `<CURDEF>${account.currency ?? "INR"}`,
+    "<BANKACCTFROM>",
+    `<BANKID>${escapeOfx(account.institutionName ?? "UNKNOWN")}`,
+    `<ACCTID>${escapeOfx(account.accountNumber ?? account.accountId)}`,
+    `<ACCTTYPE>${account.accountGroup === "PREPAID" ? "CHECKING" : "CREDITLINE"}`,
+    "</BANKACCTFROM>",
+    "<BANKTRANLIST>",
+    `<DTSTART>${toOfxDate(range.start)}`,
+    `<DTEND>${toOfxDate(range.end)}`,
+    "",
+  ].join("\r\n");
+
+export const ofxStatementEnd = (account: OfxAccount, asOf: Date): string =>
+  [
+    "</BANKTRANLIST>",
+    "<LEDGERBAL>",
+    `<BALAMT>${account.currentBalance}`,
+    `<DTASOF>${toOfxDate(asOf)}`,
+    "</LEDGERBAL>",
+    "</STMTRS>",
+    "</STMTTRNRS>",
+    "",
+  ].join("\r\n");
+
+// One STMTTRN entry; OFX amounts are positive for money in
+export const ofxTransaction = (transaction: OfxTransaction): string => {
+  const amount =
+    transaction.transactionType === "DEBIT"
+      ? `-${transaction.amount}`
+      : transaction.amount;
+  const name =
+    transaction.customName ?? transaction.categoryName ?? "Transaction";
+
+  return [
+    "<STMTTRN>",
+    `<TRNTYPE>${transaction.transactionType}`,
+    `<DTPOSTED>${toOfxDate(transaction.transactionDateTime)}`,
+    `<TRNAMT>${amount}`,
+    `<FITID>${transaction.transactionId}`,
+    `<NAME>${escapeOfx(name.slice(0, OFX_NAME_MAX_LENGTH))}`,
+    ...(transaction.description
+      ? [`<MEMO>${escapeOfx(transaction.description)}`]
+      : []),
+    "</STMTTRN>",
+    "",
+  ].join("\r\n");
+};
@@ -0,0 +1,241 @@
+import type { StatementRow } from "./types";
+
+export type CsvColumnMapping = {
+  date: string; // Header name or zero-based column index
+  description?: string | null;
+  amount?: string | null; // Signed amount column
+  debit?: string | null; // Separate withdrawal column
+  credit?: string | null; // Separate deposit column
+  reference?: string | null;
+  dateFormat?: string | null; // e.g. "DD/MM/YYYY", defaults to ISO
+  delimiter?: string | null;
+  hasHeader?: boolean | null;
+};
+
+const DATE_TOKEN_REGEX = /YYYY|YY|MM|DD/g;
+const DIGITS_REGEX = /\d+/g;
+const AMOUNT_CLEANUP_REGEX = /[^\d.-]/g;
+const DEBIT_SUFFIX_REGEX = /\s*(dr|debit)\.?$/i;
+const CREDIT_SUFFIX_REGEX = /\s*(cr|credit)\.?$/i;
+const TWO_DIGIT_YEAR_PIVOT = 2000;
+
+/**
+ * Split CSV content into rows of fields
+ * Supports quoted fields, escaped quotes ("") and newlines inside quotes
+ */
+// biome-ignore lint(complexity/noExcessiveCognitiveComplexity): Character-level state machine is clearer inline
+export const parseCsv = (content: string, delimiter = ","): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") {
+        i += 1;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+};
+
+/**
+ * Parse a date using a simple token format (YYYY, YY, MM, DD)
+ * Falls back to Date parsing when no format is given
+ */
+export const parseStatementDate = (
+  value: string,
+  format?: string | null
+): Date | null => {
+  const trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  if (!format) {
+    const date = new Date(trimmed);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+
+  const tokens = format.match(DATE_TOKEN_REGEX) ?? [];
+  const parts = trimmed.match(DIGITS_REGEX) ?? [];
+  if (tokens.length === 0 || parts.length < tokens.length) {
+    return null;
+  }
+
+  let year = 0;
+  let month = 0;
+  let day = 0;
+  tokens.forEach((token, index) => {
+    const part = Number.parseInt(parts[index], 10);
+    if (token === "YYYY") {
+      year = part;
+    } else if (token === "YY") {
+      year = TWO_DIGIT_YEAR_PIVOT + part;
+    } else if (token === "MM") {
+      month = part;
+    } else {
+      day = part;
+    }
+  });
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Reject overflowing values such as 31/02
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return date;
+};
+
+/**
+ * Parse a statement amount
+ * Handles currency symbols, thousands separators, (negative) parentheses and
+ * Dr/Cr suffixes; returns a signed number where negative means money out
+ */
+export const parseStatementAmount = (value: string): number | null => {
+  let trimmed = value.trim();
+  if (!trimmed) {
+    return null;
+  }
+
+  let sign = 1;
+  if (trimmed.startsWith("(") && trimmed.endsWith(")")) {
+    sign = -1;
+    trimmed = trimmed.slice(1, -1);
+  }
+  if (DEBIT_SUFFIX_REGEX.test(trimmed)) {
+    sign = -1;
+    trimmed = trimmed.replace(DEBIT_SUFFIX_REGEX, "");
+  } else if (CREDIT_SUFFIX_REGEX.test(trimmed)) {
+    trimmed = trimmed.replace(CREDIT_SUFFIX_REGEX, "");
+  }
+
+  const amount = Number.parseFloat(trimmed.replace(AMOUNT_CLEANUP_REGEX, ""));
+  return Number.isNaN(amount) ? null : sign * amount;
+};
+
+// Resolve a mapped column (header name or index) to a column index
+const resolveColumn = (
+  header: string[] | null,
+  column: string | null | undefined
+): number | null => {
+  if (column === null || column === undefined || column === "") {
+    return null;
+  }
+
+  const byName = header
+    ? header.findIndex(
+        (name) => name.trim().toLowerCase() === column.trim().toLowerCase()
+      )
+    : -1;
+  if (byName >= 0) {
+    return byName;
+  }
+
+  const byIndex = Number.parseInt(column, 10);
+  if (!Number.isNaN(byIndex) && byIndex >= 0) {
+    return byIndex;
+  }
+
+  throw new Error(`Column "${column}" not found in CSV header`);
+};
+
+/**
+ * Map CSV content onto statement rows using a column mapping
+ * Either a signed amount column or debit/credit columns must be mapped
+ */
+export const parseCsvStatement = (
+  content: string,
+  mapping: CsvColumnMapping
+): StatementRow[] => {
+  const rows = parseCsv(content, mapping.delimiter || ",");
+  const hasHeader = mapping.hasHeader ?? true;
+  const header = hasHeader ? (rows[0] ?? []) : null;
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+
+  const dateColumn = resolveColumn(header, mapping.date);
+  const descriptionColumn = resolveColumn(header, mapping.description);
+  const amountColumn = resolveColumn(header, mapping.amount);
+  const debitColumn = resolveColumn(header, mapping.debit);
+  const creditColumn = resolveColumn(header, mapping.credit);
+  const referenceColumn = resolveColumn(header, mapping.reference);
+
+  if (amountColumn === null && debitColumn === null && creditColumn === null) {
+    throw new Error("Map either an amount column or debit/credit columns");
+  }
+
+  const cell = (row: string[], column: number | null) =>
+    column === null ? "" : (row[column] ?? "").trim();
+
+  // Signed amount column wins; otherwise debit is money out, credit money in
+  const readAmount = (row: string[]): number | null => {
+    if (amountColumn !== null) {
+      return parseStatementAmount(cell(row, amountColumn));
+    }
+
+    const debit = parseStatementAmount(cell(row, debitColumn));
+    if (debit) {
+      return -Math.abs(debit);
+    }
+    const credit = parseStatementAmount(cell(row, creditColumn));
+    return credit ? Math.abs(credit) : null;
+  };
+
+  return dataRows.map((row, index) => {
+    // Row numbers refer to lines in the original file
+    const rowNumber = index + (hasHeader ? 2 : 1);
+    const date = parseStatementDate(cell(row, dateColumn), mapping.dateFormat);
+
+    const amount = readAmount(row);
+
+    let error: string | null = null;
+    if (!date) {
+      error = "Invalid or missing date";
+    } else if (amount === null || amount === 0) {
+      error = "Invalid or missing amount";
+    }
+
+    return {
+      rowNumber,
+      date,
+      amount,
+      description: cell(row, descriptionColumn) || null,
+      reference: cell(row, referenceColumn) || null,
+      error,
+    };
+  });
+};
@@ -0,0 +1,22 @@
+import { type CsvColumnMapping, parseCsvStatement } from "./csv";
+import { parseOfxStatement } from "./ofx";
+import type { StatementFormat, StatementRow } from "./types";
+
+/**
+ * Parse a bank statement into normalised rows
+ * CSV requires a column mapping; OFX/QFX is self-describing
+ */
+export const parseStatement = (
+  format: StatementFormat,
+  content: string,
+  csvMapping?: CsvColumnMapping | null
+): StatementRow[] => {
+  if (format === "OFX") {
+    return parseOfxStatement(content);
+  }
+
+  if (!csvMapping) {
+    throw new Error("CSV import requires a column mapping");
+  }
+  return parseCsvStatement(content, csvMapping);
+};
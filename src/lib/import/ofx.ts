@@ -0,0 +1,84 @@
+import { parseStatementAmount } from "./csv";
+import type { StatementRow } from "./types";
+
+const STATEMENT_TRANSACTION_REGEX =
+  /<STMTTRN>([\s\S]*?)(?:<\/STMTTRN>|(?=<STMTTRN>)|(?=<\/BANKTRANLIST>))/gi;
+const OFX_ROOT_REGEX = /<OFX>/i;
+const OFX_ENTITY_REGEX = /&(lt|gt|amp);/g;
+const OFX_ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&" };
+const OFX_DATE_REGEX = /^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?/;
+
+// Read a tag value; OFX 1.x (SGML) leaves most tags unclosed
+const readTag = (block: string, tag: string): string | null => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"));
+  const value = match?.[1]
+    ?.trim()
+    .replace(OFX_ENTITY_REGEX, (_, entity: string) => OFX_ENTITIES[entity]);
+  return value ? value : null;
+};
+
+/**
+ * Parse an OFX date (YYYYMMDD[HHMMSS[.XXX]][TZ])
+ * Time zone offsets are ignored; statements are treated as UTC
+ */
+export const parseOfxDate = (value: string | null): Date | null => {
+  const match = value?.match(OFX_DATE_REGEX);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hours = "0", minutes = "0", seconds = "0"] = match;
+  const date = new Date(
+    Date.UTC(
+      Number(year),
+      Number(month) - 1,
+      Number(day),
+      Number(hours),
+      Number(minutes),
+      Number(seconds)
+    )
+  );
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Parse OFX/QFX statement content (both SGML 1.x and XML 2.x)
+ * Each STMTTRN becomes a row; FITID is kept as the reference
+ */
+export const parseOfxStatement = (content: string): StatementRow[] => {
+  const blocks = [...content.matchAll(STATEMENT_TRANSACTION_REGEX)].map(
+    (match) => match[1]
+  );
+
+  if (blocks.length === 0 && !OFX_ROOT_REGEX.test(content)) {
+    throw new Error("Content is not a valid OFX/QFX statement");
+  }
+
+  return blocks.map((block, index) => {
+    const date = parseOfxDate(readTag(block, "DTPOSTED"));
+    const amountValue = readTag(block, "TRNAMT");
+    const amount = amountValue ? parseStatementAmount(amountValue) : null;
+
+    const name = readTag(block, "NAME");
+    const memo = readTag(block, "MEMO");
+    // Banks often repeat the payee in MEMO
+    const description =
+      memo && memo !== name ? [name, memo].filter(Boolean).join(" - ") : name;
+
+    let error: string | null = null;
+    if (!date) {
+      error = "Invalid or missing DTPOSTED";
+    } else if (amount === null || amount === 0) {
+      error = "Invalid or missing TRNAMT";
+    }
+
+    return {
+      rowNumber: index + 1,
+      date,
+      amount,
+      description,
+      reference: readTag(block, "FITID") ?? readTag(block, "CHECKNUM"),
+      error,
+    };
+  });
+};
@@ -0,0 +1,14 @@
+/**
+ * A single statement line normalised from CSV or OFX
+ * amount is signed: negative means money leaving the account
+ */
+export type StatementRow = {
+  rowNumber: number;
+  date: Date | null;
+  amount: number | null;
+  description: string | null;
+  reference: string | null;
+  error: string | null;
+};
+
+export type StatementFormat = "CSV" | "OFX";
@@ -0,0 +1,101 @@
+import { roundAmount, toRateDate } from "./currency";
+
+export type NetWorthInterval = "DAY" | "WEEK" | "MONTH";
+
+export type BalanceChange = {
+  date: Date;
+  delta: number; // Signed change of the account balance
+};
+
+export type DailyBalance = {
+  date: Date; // Calendar day (UTC midnight)
+  balance: number; // Balance at the end of the day
+};
+
+const MS_PER_DAY = 86_400_000;
+const DAYS_PER_WEEK = 7;
+
+/**
+ * End-of-day balances of an account from its checkpoint up to today
+ * The balance is known now and at the checkpoint every later transaction was
+ * applied to it, so each day is replayed backwards from the current balance
+ * by undoing the changes that happened after it
+ * Returns one balance per day, oldest first
+ */
+export const replayDailyBalances = (params: {
+  checkpoint: Date;
+  currentBalance: number;
+  changes: BalanceChange[];
+  now?: Date;
+}): DailyBalance[] => {
+  const now = params.now ?? new Date();
+  const changes = [...params.changes].sort(
+    (a, b) => a.date.getTime() - b.date.getTime()
+  );
+  const firstDay = toRateDate(params.checkpoint).getTime();
+
+  const balances: DailyBalance[] = [];
+  let balance = params.currentBalance;
+  let index = changes.length - 1;
+  for (
+    let day = toRateDate(now).getTime();
+    day >= firstDay;
+    day -= MS_PER_DAY
+  ) {
+    while (index >= 0 && changes[index].date.getTime() >= day + MS_PER_DAY) {
+      balance -= changes[index].delta;
+      index -= 1;
+    }
+    balances.push({ date: new Date(day), balance: roundAmount(balance) });
+  }
+
+  return balances.reverse();
+};
+
+// Last day of the period a day belongs to (weeks end on Sunday)
+const periodEnd = (day: Date, interval: NetWorthInterval): Date => {
+  if (interval === "WEEK") {
+    const daysToSunday = (DAYS_PER_WEEK - day.getUTCDay()) % DAYS_PER_WEEK;
+    return new Date(day.getTime() + daysToSunday * MS_PER_DAY);
+  }
+  if (interval === "MONTH") {
+    return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0));
+  }
+  return day;
+};
+
+/**
+ * Days the net worth is reported on between two dates
+ * One point per day, or the last day of each week or month; the last point
+ * is the end date itself when a period is cut short
+ */
+export const netWorthPointDates = (
+  startDate: Date,
+  endDate: Date,
+  interval: NetWorthInterval
+): Date[] => {
+  const last = toRateDate(endDate);
+  const dates: Date[] = [];
+  let day = toRateDate(startDate);
+  while (day <= last) {
+    const end = periodEnd(day, interval);
+    dates.push(end < last ? end : last);
+    day = new Date(end.getTime() + MS_PER_DAY);
+  }
+  return dates;
+};
+
+/**
+ * Balance on a day from a series of daily balances
+ * The latest balance on or before the day applies; zero before the first
+ */
+export const balanceOn = (balances: DailyBalance[], day: Date): number => {
+  let balance = 0;
+  for (const entry of balances) {
+    if (entry.date > day) {
+      break;
+    }
+    balance = entry.balance;
+  }
+  return balance;
+};
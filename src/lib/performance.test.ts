@@ -0,0 +1,231 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  type CashFlow,
+  measurePerformance,
+  timeWeightedReturn,
+  xirr,
+} from "./performance";
+
+const TOLERANCE = 1e-6;
+
+// 2023 is not a leap year, so START and END are exactly 365 days apart
+const START = new Date("2023-01-01T00:00:00Z");
+const MID = new Date("2023-07-01T00:00:00Z");
+const END = new Date("2024-01-01T00:00:00Z");
+
+const INVESTED = 1000;
+const TEN_PERCENT = 0.1;
+const TWENTY_PERCENT = 0.2;
+const GROWN_TEN_PERCENT = INVESTED * (1 + TEN_PERCENT);
+const GROWN_TWENTY_PERCENT = INVESTED * (1 + TWENTY_PERCENT);
+const RUNAWAY_GAIN = 1e9;
+
+const isClose = (actual: number | null, expected: number) =>
+  actual !== null && Math.abs(actual - expected) < TOLERANCE;
+
+describe("xirr", () => {
+  it("annualises a one-year return", () => {
+    const rate = xirr([
+      { date: START, amount: -INVESTED },
+      { date: END, amount: GROWN_TEN_PERCENT },
+    ]);
+
+    assert.ok(isClose(rate, TEN_PERCENT));
+  });
+
+  it("does not depend on the order of the flows", () => {
+    const flows: CashFlow[] = [
+      { date: END, amount: GROWN_TWENTY_PERCENT },
+      { date: START, amount: -INVESTED / 2 },
+      { date: MID, amount: -INVESTED / 2 },
+    ];
+    const rate = xirr(flows);
+
+    assert.notEqual(rate, null);
+    assert.ok(isClose(xirr([...flows].reverse()), rate ?? Number.NaN));
+  });
+
+  it("solves near-total losses that Newton-Raphson overshoots", () => {
+    const rate = xirr([
+      { date: START, amount: -INVESTED },
+      { date: END, amount: 1 },
+    ]);
+
+    assert.ok(isClose(rate, 1 / INVESTED - 1));
+  });
+
+  it("returns null without both an outflow and an inflow", () => {
+    assert.equal(xirr([]), null);
+    assert.equal(xirr([{ date: START, amount: -INVESTED }]), null);
+    assert.equal(
+      xirr([
+        { date: START, amount: INVESTED },
+        { date: END, amount: INVESTED },
+      ]),
+      null
+    );
+  });
+
+  it("ignores zero flows when checking for an inflow", () => {
+    const rate = xirr([
+      { date: START, amount: -INVESTED },
+      { date: END, amount: 0 },
+    ]);
+
+    assert.equal(rate, null);
+  });
+
+  it("returns null when no rate in range solves", () => {
+    // Multiplying the stake overnight annualises far beyond the search range
+    const rate = xirr([
+      { date: START, amount: -1 },
+      { date: new Date("2023-01-02T00:00:00Z"), amount: RUNAWAY_GAIN },
+    ]);
+
+    assert.equal(rate, null);
+  });
+});
+
+describe("timeWeightedReturn", () => {
+  it("chains period returns and removes contributions", () => {
+    // +10% in the first half, then +20% on top of a mid-period contribution
+    const rate = timeWeightedReturn(
+      [
+        { date: START, value: INVESTED },
+        { date: MID, value: GROWN_TEN_PERCENT },
+        {
+          date: END,
+          value: GROWN_TEN_PERCENT * (1 + TWENTY_PERCENT) + INVESTED,
+        },
+      ],
+      [{ date: new Date("2023-10-01T00:00:00Z"), amount: -INVESTED }]
+    );
+
+    assert.ok(isClose(rate, (1 + TEN_PERCENT) * (1 + TWENTY_PERCENT) - 1));
+  });
+
+  it("sorts the valuations by date", () => {
+    const rate = timeWeightedReturn(
+      [
+        { date: END, value: GROWN_TWENTY_PERCENT },
+        { date: START, value: INVESTED },
+      ],
+      []
+    );
+
+    assert.ok(isClose(rate, TWENTY_PERCENT));
+  });
+
+  it("skips periods that start from zero", () => {
+    const rate = timeWeightedReturn(
+      [
+        { date: START, value: 0 },
+        { date: MID, value: INVESTED },
+        { date: END, value: GROWN_TWENTY_PERCENT },
+      ],
+      [{ date: new Date("2023-03-01T00:00:00Z"), amount: -INVESTED }]
+    );
+
+    assert.ok(isClose(rate, TWENTY_PERCENT));
+  });
+
+  it("returns null with fewer than two valuations", () => {
+    assert.equal(timeWeightedReturn([], []), null);
+    assert.equal(
+      timeWeightedReturn([{ date: START, value: INVESTED }], []),
+      null
+    );
+  });
+
+  it("returns null when no period has capital at risk", () => {
+    const rate = timeWeightedReturn(
+      [
+        { date: START, value: 0 },
+        { date: END, value: 0 },
+      ],
+      []
+    );
+
+    assert.equal(rate, null);
+  });
+});
+
+describe("measurePerformance", () => {
+  it("measures from the first cash flow without a start date", () => {
+    const result = measurePerformance({
+      valuations: [],
+      cashFlows: [{ date: START, amount: -INVESTED }],
+      startDate: null,
+      endDate: END,
+      endValue: GROWN_TEN_PERCENT,
+    });
+
+    assert.deepEqual(result.startDate, START);
+    assert.deepEqual(result.endDate, END);
+    assert.equal(result.startValue, 0);
+    assert.equal(result.endValue, GROWN_TEN_PERCENT);
+    assert.equal(result.netContributions, INVESTED);
+    assert.equal(result.gainLoss, GROWN_TEN_PERCENT - INVESTED);
+    assert.ok(isClose(result.xirr, TEN_PERCENT));
+    // A single valuation is not a period
+    assert.equal(result.timeWeightedReturn, null);
+  });
+
+  it("starts from the latest valuation on or before the start date", () => {
+    const result = measurePerformance({
+      valuations: [
+        { date: new Date("2022-06-01T00:00:00Z"), value: INVESTED / 2 },
+        { date: START, value: INVESTED },
+        { date: END, value: GROWN_TWENTY_PERCENT },
+      ],
+      cashFlows: [
+        { date: new Date("2022-12-01T00:00:00Z"), amount: -INVESTED / 2 },
+      ],
+      startDate: new Date("2023-03-01T00:00:00Z"),
+      endDate: END,
+    });
+
+    assert.deepEqual(result.startDate, START);
+    assert.equal(result.startValue, INVESTED);
+    assert.equal(result.endValue, GROWN_TWENTY_PERCENT);
+    assert.equal(result.netContributions, 0);
+    assert.equal(result.gainLoss, GROWN_TWENTY_PERCENT - INVESTED);
+    assert.ok(isClose(result.xirr, TWENTY_PERCENT));
+    assert.ok(isClose(result.timeWeightedReturn, TWENTY_PERCENT));
+  });
+
+  it("counts flows in the window as contributions", () => {
+    const deposit = INVESTED / 2;
+    const withdrawal = deposit / 2;
+    const result = measurePerformance({
+      valuations: [{ date: START, value: INVESTED }],
+      cashFlows: [
+        { date: MID, amount: -deposit },
+        { date: MID, amount: withdrawal },
+      ],
+      startDate: START,
+      endDate: END,
+      endValue: GROWN_TWENTY_PERCENT + deposit - withdrawal,
+    });
+
+    assert.equal(result.netContributions, deposit - withdrawal);
+    assert.equal(result.gainLoss, GROWN_TWENTY_PERCENT - INVESTED);
+    assert.ok(isClose(result.timeWeightedReturn, TWENTY_PERCENT));
+  });
+
+  it("returns null results when no valuation covers the end date", () => {
+    const result = measurePerformance({
+      valuations: [{ date: START, value: INVESTED }],
+      cashFlows: [],
+      startDate: START,
+      endDate: END,
+    });
+
+    assert.deepEqual(result.endDate, END);
+    assert.equal(result.endValue, null);
+    assert.equal(result.gainLoss, null);
+    assert.equal(result.xirr, null);
+    assert.equal(result.timeWeightedReturn, null);
+  });
+});
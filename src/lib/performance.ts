@@ -0,0 +1,232 @@
+export type CashFlow = {
+  date: Date;
+  amount: number; // Negative = money invested, positive = money returned
+};
+
+export type Valuation = {
+  date: Date;
+  value: number;
+};
+
+const MS_PER_YEAR = 31_536_000_000; // 365 days
+const XIRR_GUESS = 0.1;
+const XIRR_TOLERANCE = 1e-7;
+const XIRR_MAX_ITERATIONS = 100;
+const XIRR_MIN_RATE = -0.999_999;
+const XIRR_MAX_RATE = 1000;
+
+// Present value of the flows at a rate, and its derivative
+const presentValue = (flows: CashFlow[], rate: number) => {
+  const start = flows[0].date.getTime();
+  let value = 0;
+  let derivative = 0;
+  for (const flow of flows) {
+    const years = (flow.date.getTime() - start) / MS_PER_YEAR;
+    const factor = (1 + rate) ** years;
+    value += flow.amount / factor;
+    derivative -= (years * flow.amount) / (factor * (1 + rate));
+  }
+  return { value, derivative };
+};
+
+// Newton-Raphson from the guess; null when it does not converge
+const solveNewton = (flows: CashFlow[]): number | null => {
+  let rate = XIRR_GUESS;
+  for (let i = 0; i < XIRR_MAX_ITERATIONS; i += 1) {
+    const { value, derivative } = presentValue(flows, rate);
+    if (Math.abs(value) < XIRR_TOLERANCE) {
+      return rate;
+    }
+    if (derivative === 0) {
+      return null;
+    }
+
+    rate -= value / derivative;
+    if (!Number.isFinite(rate) || rate <= XIRR_MIN_RATE) {
+      return null;
+    }
+  }
+  return null;
+};
+
+// Bisection between the rate bounds; null when the sign never changes
+const solveBisection = (flows: CashFlow[]): number | null => {
+  let low = XIRR_MIN_RATE;
+  let high = XIRR_MAX_RATE;
+  let lowValue = presentValue(flows, low).value;
+  if (lowValue * presentValue(flows, high).value > 0) {
+    return null;
+  }
+
+  for (let i = 0; i < XIRR_MAX_ITERATIONS * 2; i += 1) {
+    const mid = (low + high) / 2;
+    const midValue = presentValue(flows, mid).value;
+    if (Math.abs(midValue) < XIRR_TOLERANCE || high - low < XIRR_TOLERANCE) {
+      return mid;
+    }
+    if (lowValue * midValue < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowValue = midValue;
+    }
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * Annualised internal rate of return of irregular cash flows (XIRR)
+ * Flows are discounted on a 365-day year from the earliest one; returns null
+ * unless there is at least one outflow and one inflow, or no rate solves
+ */
+export const xirr = (cashFlows: CashFlow[]): number | null => {
+  const flows = cashFlows
+    .filter((flow) => flow.amount !== 0)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  const hasOutflow = flows.some((flow) => flow.amount < 0);
+  const hasInflow = flows.some((flow) => flow.amount > 0);
+  if (!(hasOutflow && hasInflow)) {
+    return null;
+  }
+
+  return solveNewton(flows) ?? solveBisection(flows);
+};
+
+/**
+ * Time-weighted return over a series of valuations
+ * Each period between two valuations returns (end value - net contributions)
+ * / start value, with flows counted at the end of the period they fall in;
+ * periods starting from zero are skipped. Returns null with fewer than two
+ * valuations or no period with capital at risk
+ */
+export const timeWeightedReturn = (
+  valuations: Valuation[],
+  cashFlows: CashFlow[]
+): number | null => {
+  const points = [...valuations].sort(
+    (a, b) => a.date.getTime() - b.date.getTime()
+  );
+
+  let growth = 1;
+  let periods = 0;
+  for (let i = 1; i < points.length; i += 1) {
+    const start = points[i - 1];
+    const end = points[i];
+    if (start.value <= 0) {
+      continue;
+    }
+
+    // Money invested is a negative flow, so contributions are its opposite
+    const contributions = cashFlows
+      .filter((flow) => flow.date > start.date && flow.date <= end.date)
+      .reduce((sum, flow) => sum - flow.amount, 0);
+
+    growth *= (end.value - contributions) / start.value;
+    periods += 1;
+  }
+
+  return periods > 0 ? growth - 1 : null;
+};
+
+export type PerformanceInput = {
+  valuations: Valuation[];
+  cashFlows: CashFlow[];
+  startDate: Date | null; // null measures from the first cash flow
+  endDate: Date;
+  endValue?: number; // Value at endDate when it is not a stored valuation (e.g. today)
+};
+
+export type PerformanceResult = {
+  startDate: Date;
+  endDate: Date;
+  startValue: number;
+  endValue: number | null; // null when no valuation covers endDate
+  netContributions: number; // Money invested minus money returned
+  gainLoss: number | null;
+  xirr: number | null;
+  timeWeightedReturn: number | null;
+};
+
+/**
+ * Measure returns between two dates
+ * Starts from the latest valuation on or before startDate; without one the
+ * period starts from zero before the first cash flow, so the result covers
+ * the whole history up to endDate
+ */
+export const measurePerformance = (
+  input: PerformanceInput
+): PerformanceResult => {
+  const { startDate, endDate } = input;
+  const valuations = [...input.valuations].sort(
+    (a, b) => a.date.getTime() - b.date.getTime()
+  );
+
+  const startPoint = startDate
+    ? valuations.filter((v) => v.date <= startDate).at(-1)
+    : undefined;
+  const flows = input.cashFlows
+    .filter(
+      (flow) =>
+        (!startPoint || flow.date > startPoint.date) && flow.date <= endDate
+    )
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  const from = startPoint?.date ?? flows[0]?.date ?? startDate ?? endDate;
+
+  const inWindow = valuations.filter((v) => v.date > from && v.date <= endDate);
+  const endPoint =
+    input.endValue === undefined
+      ? inWindow.at(-1)
+      : { date: endDate, value: input.endValue };
+
+  const startValue = startPoint?.value ?? 0;
+  const netContributions = flows.reduce((sum, flow) => sum - flow.amount, 0);
+
+  const series = [
+    ...(startPoint ? [startPoint] : []),
+    ...inWindow,
+    ...(input.endValue === undefined
+      ? []
+      : [{ date: endDate, value: input.endValue }]),
+  ];
+
+  return {
+    startDate: from,
+    endDate: endPoint?.date ?? endDate,
+    startValue,
+    endValue: endPoint?.value ?? null,
+    netContributions,
+    gainLoss: endPoint ? endPoint.value - startValue - netContributions : null,
+    xirr: endPoint
+      ? xirr([
+          { date: from, amount: -startValue },
+          ...flows,
+          { date: endPoint.date, amount: endPoint.value },
+        ])
+      : null,
+    timeWeightedReturn: timeWeightedReturn(series, flows),
+  };
+};
+
+/**
+ * Add up several valuation series into one
+ * On every date any series has a valuation, each series contributes its
+ * latest value on or before that date
+ */
+export const combineValuations = (series: Valuation[][]): Valuation[] => {
+  const sorted = series.map((valuations) =>
+    [...valuations].sort((a, b) => a.date.getTime() - b.date.getTime())
+  );
+  const dates = [
+    ...new Set(sorted.flat().map((valuation) => valuation.date.getTime())),
+  ].sort((a, b) => a - b);
+
+  return dates.map((time) => ({
+    date: new Date(time),
+    value: sorted.reduce(
+      (sum, valuations) =>
+        sum +
+        (valuations.filter((v) => v.date.getTime() <= time).at(-1)?.value ?? 0),
+      0
+    ),
+  }));
+};
@@ -0,0 +1,87 @@
+import { readFile } from "node:fs/promises";
+import { normalizeCurrencyCode, toRateDate } from "../currency";
+import { parseCsv, parseStatementDate } from "../import/csv";
+import type { PriceQuote, PriceSource } from "./types";
+
+const PRICE_COLUMNS = ["date", "symbol", "price"];
+
+// Asset symbols are matched case-insensitively
+export const normalizeAssetSymbol = (symbol: string): string =>
+  symbol.trim().toUpperCase();
+
+/**
+ * Parse a price CSV
+ * Expects a header with date, symbol and price columns (any order) and an
+ * optional currency column; invalid lines are reported by line number and skipped
+ */
+export const parsePriceCsv = (
+  content: string,
+  delimiter = ","
+): { quotes: PriceQuote[]; errors: string[] } => {
+  const [header, ...lines] = parseCsv(content, delimiter);
+  const columns = (header ?? []).map((name) => name.trim().toLowerCase());
+  const missing = PRICE_COLUMNS.filter((name) => !columns.includes(name));
+  if (missing.length > 0) {
+    return {
+      quotes: [],
+      errors: [`Missing column(s): ${missing.join(", ")}`],
+    };
+  }
+
+  const [dateIndex, symbolIndex, priceIndex] = PRICE_COLUMNS.map((name) =>
+    columns.indexOf(name)
+  );
+  const currencyIndex = columns.indexOf("currency");
+
+  const quotes: PriceQuote[] = [];
+  const errors: string[] = [];
+  lines.forEach((line, index) => {
+    const lineNumber = index + 2;
+    const date = parseStatementDate(line[dateIndex] ?? "");
+    const assetSymbol = normalizeAssetSymbol(line[symbolIndex] ?? "");
+    const price = Number.parseFloat(line[priceIndex] ?? "");
+
+    if (!date) {
+      errors.push(`Line ${lineNumber}: invalid date`);
+    } else if (!assetSymbol) {
+      errors.push(`Line ${lineNumber}: missing symbol`);
+    } else if (Number.isFinite(price) && price > 0) {
+      quotes.push({
+        assetSymbol,
+        priceDate: toRateDate(date),
+        price: price.toString(),
+        currency:
+          currencyIndex >= 0
+            ? normalizeCurrencyCode(line[currencyIndex])
+            : null,
+      });
+    } else {
+      errors.push(`Line ${lineNumber}: price must be a positive number`);
+    }
+  });
+
+  return { quotes, errors };
+};
+
+/**
+ * Price source backed by a local CSV file (date,symbol,price[,currency])
+ * Works offline; the file can be refreshed by any external tool and every
+ * line is returned, so the price history builds up as the file grows
+ */
+export const createFilePriceSource = (
+  filePath: string,
+  onError?: (error: string) => void
+): PriceSource => ({
+  name: "file",
+  fetchQuotes: async (assetSymbols) => {
+    const content = await readFile(filePath, "utf8");
+    const { quotes, errors } = parsePriceCsv(content);
+
+    for (const error of errors) {
+      onError?.(`${filePath}: ${error}`);
+    }
+
+    const wanted = new Set(assetSymbols.map(normalizeAssetSymbol));
+    return quotes.filter((quote) => wanted.has(quote.assetSymbol));
+  },
+});
@@ -0,0 +1,38 @@
+import { ASSET_PRICES_FILE, PRICE_SOURCE } from "../../config/constants";
+import { createFilePriceSource } from "./file";
+import type { PriceSource } from "./types";
+
+type PriceSourceFactory = (options: {
+  onError?: (error: string) => void;
+}) => PriceSource | null;
+
+// Built-in sources; real market feeds register themselves with registerPriceSource
+const priceSourceFactories = new Map<string, PriceSourceFactory>([
+  [
+    "file",
+    ({ onError }) =>
+      ASSET_PRICES_FILE
+        ? createFilePriceSource(ASSET_PRICES_FILE, onError)
+        : null,
+  ],
+]);
+
+/**
+ * Register a price source adapter (e.g. a broker or exchange API)
+ * Select it by setting PRICE_SOURCE to the same name
+ */
+export const registerPriceSource = (
+  name: string,
+  factory: PriceSourceFactory
+): void => {
+  priceSourceFactories.set(name, factory);
+};
+
+/**
+ * Create the configured price source
+ * Returns null when the source is unknown or not configured
+ */
+export const createPriceSource = (
+  options: { onError?: (error: string) => void } = {}
+): PriceSource | null =>
+  priceSourceFactories.get(PRICE_SOURCE)?.(options) ?? null;
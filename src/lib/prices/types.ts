@@ -0,0 +1,20 @@
+/**
+ * A market price for one asset on one trading day
+ * price is per unit; currency is null when the source does not say
+ */
+export type PriceQuote = {
+  assetSymbol: string;
+  priceDate: Date;
+  price: string;
+  currency: string | null;
+};
+
+/**
+ * A pluggable source of market prices
+ * Implementations return the latest quotes they know for the requested
+ * symbols; symbols they cannot price are simply left out
+ */
+export type PriceSource = {
+  name: string;
+  fetchQuotes: (assetSymbols: string[]) => Promise<PriceQuote[]>;
+};
@@ -0,0 +1,183 @@
+import { roundAmount } from "./currency";
+export type StatementEntryKind = "PURCHASE" | "CREDIT" | "PAYMENT";
+
+export type StatementEntry = {
+  date: Date;
+  amount: number;
+  kind: StatementEntryKind; // PAYMENT: transfer into the card from a PREPAID account
+};
+
+export type StatementTerms = {
+  billingCycleDay: number; // Statement date each month (clamped to the month's last day)
+  graceDays: number; // Days from the statement date to the payment due date
+  minimumDuePercent: number;
+  creditLimit: number | null;
+};
+
+export type StatementStatus = "OPEN" | "DUE" | "PAID" | "PAID_LATE" | "OVERDUE";
+
+export type Statement = {
+  periodStart: Date;
+  statementDate: Date; // End of the period (end of the billing cycle day)
+  dueDate: Date;
+  openingBalance: number;
+  purchases: number;
+  credits: number; // Refunds, cashback and other credits that are not payments
+  payments: number; // Payments received within the period
+  closingBalance: number;
+  totalDue: number;
+  minimumDue: number;
+  paidAmount: number; // Payments received after the statement date towards it
+  paidAt: Date | null; // When the total due was paid in full
+  status: StatementStatus;
+  utilization: number | null; // Closing balance over the credit limit, in percent
+};
+
+const MS_PER_DAY = 86_400_000;
+const PERCENT = 100;
+
+// End of the billing cycle day in a month (UTC), clamped to the month's last day
+const statementDateIn = (
+  year: number,
+  month: number,
+  billingCycleDay: number
+): Date => {
+  const maxDayInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const day = Math.min(billingCycleDay, maxDayInMonth);
+  return new Date(Date.UTC(year, month, day + 1) - 1);
+};
+
+// First statement date on or after a date
+const nextStatementDate = (date: Date, billingCycleDay: number): Date => {
+  const candidate = statementDateIn(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    billingCycleDay
+  );
+  return candidate >= date
+    ? candidate
+    : statementDateIn(
+        date.getUTCFullYear(),
+        date.getUTCMonth() + 1,
+        billingCycleDay
+      );
+};
+
+const sumOf = (entries: StatementEntry[], kind: StatementEntryKind) =>
+  entries
+    .filter((entry) => entry.kind === kind)
+    .reduce((sum, entry) => sum + entry.amount, 0);
+
+/**
+ * Payments made towards a closed statement
+ * Payments after the statement date count towards it until the total due is
+ * paid; paidAt is when the running total reached it
+ */
+const applyPayments = (
+  statement: Statement,
+  payments: StatementEntry[],
+  now: Date
+) => {
+  let paid = 0;
+  for (const payment of payments) {
+    paid += payment.amount;
+    if (!statement.paidAt && paid >= statement.totalDue) {
+      statement.paidAt = payment.date;
+    }
+  }
+  statement.paidAmount = roundAmount(Math.min(paid, statement.totalDue));
+
+  if (statement.totalDue <= 0) {
+    statement.status = "PAID";
+  } else if (statement.paidAt) {
+    statement.status =
+      statement.paidAt <= statement.dueDate ? "PAID" : "PAID_LATE";
+  } else {
+    statement.status = now > statement.dueDate ? "OVERDUE" : "DUE";
+  }
+};
+
+/**
+ * Build the statements of a credit card from its transactions
+ * Each billing cycle ends on the billing cycle day and is due graceDays
+ * later; the balance starts from zero before the first transaction and
+ * carries over from one statement to the next. The last statement is the
+ * current, still open, cycle
+ * Returns statements oldest first
+ */
+export const buildStatements = (
+  terms: StatementTerms,
+  entries: StatementEntry[],
+  now: Date = new Date()
+): Statement[] => {
+  const sorted = [...entries].sort(
+    (a, b) => a.date.getTime() - b.date.getTime()
+  );
+  const firstDate = sorted[0]?.date ?? now;
+
+  const statements: Statement[] = [];
+  let periodStart = new Date(
+    Date.UTC(
+      firstDate.getUTCFullYear(),
+      firstDate.getUTCMonth(),
+      firstDate.getUTCDate()
+    )
+  );
+  let statementDate = nextStatementDate(firstDate, terms.billingCycleDay);
+  let openingBalance = 0;
+
+  while (periodStart <= now) {
+    const start = periodStart;
+    const end = statementDate;
+    const inPeriod = sorted.filter(
+      (entry) => entry.date >= start && entry.date <= end
+    );
+    const purchases = roundAmount(sumOf(inPeriod, "PURCHASE"));
+    const credits = roundAmount(sumOf(inPeriod, "CREDIT"));
+    const payments = roundAmount(sumOf(inPeriod, "PAYMENT"));
+    const closingBalance = roundAmount(
+      openingBalance + purchases - credits - payments
+    );
+    const totalDue = Math.max(0, closingBalance);
+
+    statements.push({
+      periodStart: start,
+      statementDate: end,
+      dueDate: new Date(end.getTime() + terms.graceDays * MS_PER_DAY),
+      openingBalance,
+      purchases,
+      credits,
+      payments,
+      closingBalance,
+      totalDue,
+      minimumDue: roundAmount((totalDue * terms.minimumDuePercent) / PERCENT),
+      paidAmount: 0,
+      paidAt: null,
+      status: "OPEN",
+      utilization:
+        terms.creditLimit && terms.creditLimit > 0
+          ? roundAmount((closingBalance / terms.creditLimit) * PERCENT)
+          : null,
+    });
+
+    openingBalance = closingBalance;
+    periodStart = new Date(end.getTime() + 1);
+    statementDate = nextStatementDate(periodStart, terms.billingCycleDay);
+  }
+
+  // Every statement but the open one is paid by the payments that follow it
+  for (const statement of statements) {
+    if (statement.statementDate < now) {
+      applyPayments(
+        statement,
+        sorted.filter(
+          (entry) =>
+            entry.kind === "PAYMENT" && entry.date > statement.statementDate
+        ),
+        now
+      );
+    }
+  }
+
+  return statements;
+};
@@ -0,0 +1,107 @@
+import type { FastifyInstance, FastifyPluginCallback } from "fastify";
+import fp from "fastify-plugin";
+import { SCHEDULER_ENABLED } from "../config/constants";
+
+export type ScheduledJob = {
+  name: string;
+  intervalMs: number;
+  run: (fastify: FastifyInstance) => Promise<void>;
+};
+
+type Scheduler = {
+  addJob: (job: ScheduledJob) => void;
+  runJob: (name: string) => Promise<void>;
+};
+
+declare module "fastify" {
+  // biome-ignore lint: Module augmentation requires interfaces
+  interface FastifyInstance {
+    scheduler: Scheduler;
+  }
+}
+
+/**
+ * In-process job runner
+ * Each job runs once the server is ready and then again `intervalMs` after the
+ * previous run finished, so a slow run never overlaps with the next one.
+ * Jobs must be safe to run concurrently from several instances.
+ */
+const schedulerPlugin: FastifyPluginCallback = (fastify, _options, done) => {
+  const jobs = new Map<string, ScheduledJob>();
+  const timers = new Map<string, NodeJS.Timeout>();
+  let isStarted = false;
+  let isStopped = false;
+
+  const runJob = async (name: string) => {
+    const job = jobs.get(name);
+    if (!job) {
+      throw new Error(`Scheduled job "${name}" is not registered`);
+    }
+
+    try {
+      await job.run(fastify);
+    } catch (error) {
+      fastify.log.error({ error, job: name }, "❌ Scheduled job failed");
+    }
+  };
+
+  const scheduleNext = (job: ScheduledJob, delayMs: number) => {
+    if (isStopped) {
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      await runJob(job.name);
+      scheduleNext(job, job.intervalMs);
+    }, delayMs);
+    timer.unref();
+    timers.set(job.name, timer);
+  };
+
+  const addJob = (job: ScheduledJob) => {
+    if (jobs.has(job.name)) {
+      throw new Error(`Scheduled job "${job.name}" is already registered`);
+    }
+
+    jobs.set(job.name, job);
+
+    if (isStarted) {
+      scheduleNext(job, 0);
+    }
+  };
+
+  fastify.decorate("scheduler", { addJob, runJob });
+
+  // Start jobs once every plugin has loaded
+  fastify.addHook("onReady", (hookDone) => {
+    if (!SCHEDULER_ENABLED) {
+      fastify.log.info("⏸️ Scheduler disabled");
+      hookDone();
+      return;
+    }
+
+    isStarted = true;
+    for (const job of jobs.values()) {
+      scheduleNext(job, 0);
+    }
+    fastify.log.info(`⏱️ Scheduler started with ${jobs.size} job(s)`);
+    hookDone();
+  });
+
+  // Stop jobs on shutdown
+  fastify.addHook("onClose", (_instance, hookDone) => {
+    isStopped = true;
+    for (const timer of timers.values()) {
+      clearTimeout(timer);
+    }
+    timers.clear();
+    hookDone();
+  });
+
+  done();
+};
+
+export default fp(schedulerPlugin, {
+  name: "scheduler",
+  dependencies: ["drizzle"],
+});
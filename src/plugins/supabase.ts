@@ -14,6 +14,33 @@ declare module "fastify" {
   }
 }
 
+/**
+ * Resolve the authenticated user from a "Bearer <token>" authorization value
+ * Shared by the HTTP onRequest hook and the GraphQL subscription handshake
+ */
+export const getUserFromAuthorization = async (
+  supabase: SupabaseClient,
+  authorization: string | undefined
+): Promise<SupabaseUser | null> => {
+  const token = authorization?.replace("Bearer ", "");
+
+  if (!token) {
+    return null;
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) {
+    return null;
+  }
+
+  // Convert Supabase User to SupabaseUser type
+  return {
+    id: data.user.id,
+    email: data.user.email,
+    ...data.user.user_metadata,
+  } as SupabaseUser;
+};
+
 const supabasePlugin: FastifyPluginAsync = async (fastify) => {
   const supabaseUrl = process.env.SUPABASE_URL;
   const supabaseAnonKey = process.env.SUPABASE_ANON_KEY;
@@ -31,23 +58,10 @@ const supabasePlugin: FastifyPluginAsync = async (fastify) => {
 
   // Authentication hook
   await fastify.addHook("onRequest", async (request) => {
-    const token = request.headers.authorization?.replace("Bearer ", "");
-
-    if (token) {
-      const { data, error } = await supabase.auth.getUser(token);
-      if (!error && data.user) {
-        // Convert Supabase User to SupabaseUser type
-        request.user = {
-          id: data.user.id,
-          email: data.user.email,
-          ...data.user.user_metadata,
-        } as SupabaseUser;
-      } else {
-        request.user = null;
-      }
-    } else {
-      request.user = null;
-    }
+    request.user = await getUserFromAuthorization(
+      supabase,
+      request.headers.authorization
+    );
   });
 };
 
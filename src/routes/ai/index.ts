@@ -3,7 +3,7 @@ import type { UIMessage } from "ai";
 import { convertToModelMessages, stepCountIs, streamText } from "ai";
 import type { FastifyPluginAsync } from "fastify";
 import { CREATE_TRANSACTION_PROMPT } from "./prompts";
-import { createTransactionTool } from "./tools";
+import { createTransactionTool, undoLastOperationTool } from "./tools";
 
 const HTTP_UNAUTHORIZED = 401;
 const MAX_AI_STEPS = 20;
@@ -29,6 +29,7 @@ const aiRoute: FastifyPluginAsync = async (fastify) => {
         request,
         reply
       ),
+      undoLastOperation: undoLastOperationTool(fastify, user, request, reply),
     };
 
     const result = streamText({
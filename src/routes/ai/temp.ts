@@ -3,7 +3,11 @@ import type { UIMessage } from "ai";
 import { convertToModelMessages, streamText } from "ai";
 import type { FastifyPluginAsync } from "fastify";
 import { COMBINED_ASSISTANT_PROMPT } from "./prompts";
-import { createTransactionTool, getFinancialInsightsTool } from "./tools";
+import {
+  createTransactionTool,
+  getFinancialInsightsTool,
+  undoLastOperationTool,
+} from "./tools";
 
 const HTTP_UNAUTHORIZED = 401;
 
@@ -36,6 +40,7 @@ const aiRoute: FastifyPluginAsync = async (fastify) => {
         request,
         reply
       ),
+      undoLastOperation: undoLastOperationTool(fastify, user, request, reply),
     };
 
     const result = streamText({
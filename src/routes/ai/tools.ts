@@ -1,15 +1,25 @@
-import { and, eq } from "drizzle-orm";
+import { and, eq, isNull } from "drizzle-orm";
 import type { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import type { GraphQLResolveInfo } from "graphql";
 import { z } from "zod";
-import { accounts, categories, customTransactionNames } from "../../db/schema";
+import {
+  accounts,
+  categories,
+  counterparties,
+  customTransactionNames,
+  tags,
+} from "../../db/schema";
 import type {
   CreateTransactionInput,
   GetTotalsInput,
   TotalResult,
 } from "../../generated/graphql";
+import { categoryVisibleTo } from "../../graphql/category-helpers";
+import { getCounterpartySummary } from "../../graphql/counterparty-helpers";
 import { transactionMutations } from "../../graphql/mutations/transactions";
+import { undoMutations } from "../../graphql/mutations/undo";
 import { insightQueries } from "../../graphql/queries/insights";
+import { formatMoney } from "../../lib/currency";
 import type { SupabaseUser } from "../../types";
 
 // Constants for default category numbers
@@ -31,7 +41,8 @@ const getDefaultAccountByGroup = async (
         eq(accounts.userId, userId),
         eq(accounts.accountGroup, accountGroup),
         eq(accounts.isDefault, true),
-        eq(accounts.isActive, true)
+        eq(accounts.isActive, true),
+        isNull(accounts.deletedAt)
       )
     )
     .limit(1);
@@ -61,9 +72,10 @@ const getUserCustomNames = async (fastify: FastifyInstance, userId: string) => {
   return customNames;
 };
 
-// Helper function to get categories by type
+// Helper function to get categories by type (system plus the user's own, unarchived)
 const getCategoriesByType = async (
   fastify: FastifyInstance,
+  userId: string,
   categoryType: "GENERAL" | "INVESTMENT"
 ) => {
   const cats = await fastify.db
@@ -71,14 +83,42 @@ const getCategoriesByType = async (
       categoryNumber: categories.categoryNumber,
       categoryName: categories.categoryName,
       investmentSector: categories.investmentSector,
+      isSystemCategory: categories.isSystemCategory,
     })
     .from(categories)
-    .where(eq(categories.categoryType, categoryType))
-    .orderBy(categories.displayOrder);
+    .where(
+      and(
+        eq(categories.categoryType, categoryType),
+        eq(categories.isArchived, false),
+        categoryVisibleTo(userId)
+      )
+    )
+    .orderBy(categories.displayOrder, categories.categoryNumber);
 
   return cats;
 };
 
+// Helper function to format a category line for the tool descriptions
+const formatCategoryLine = (
+  cat: Awaited<ReturnType<typeof getCategoriesByType>>[number]
+) =>
+  `- ${cat.categoryNumber}: ${cat.categoryName}${cat.investmentSector ? ` (${cat.investmentSector})` : ""}${cat.isSystemCategory ? "" : " [user's own category]"}`;
+
+// Helper function to describe what a person owes after a transaction
+const describeCounterpartyBalance = (
+  summary: Awaited<ReturnType<typeof getCounterpartySummary>>
+) => {
+  const [balance] = summary.balances;
+  if (!balance || balance.outstanding === 0) {
+    return `You are settled up${balance ? ` with ${balance.counterparty.name}` : ""}`;
+  }
+
+  const amount = formatMoney(Math.abs(balance.outstanding), summary.currency);
+  return balance.outstanding > 0
+    ? `${balance.counterparty.name} now owes you ${amount}`
+    : `You now owe ${balance.counterparty.name} ${amount}`;
+};
+
 // Create the createTransaction tool
 export const createTransactionTool = async (
   fastify: FastifyInstance,
@@ -87,21 +127,44 @@ export const createTransactionTool = async (
   reply: FastifyReply
 ) => {
   // Fetch context data for AI
-  const [customNames, generalCategories, investmentCategories, userAccounts] =
-    await Promise.all([
-      getUserCustomNames(fastify, user.id),
-      getCategoriesByType(fastify, "GENERAL"),
-      getCategoriesByType(fastify, "INVESTMENT"),
-      fastify.db
-        .select({
-          accountId: accounts.accountId,
-          accountName: accounts.accountName,
-          accountGroup: accounts.accountGroup,
-          accountType: accounts.accountType,
-        })
-        .from(accounts)
-        .where(and(eq(accounts.userId, user.id), eq(accounts.isActive, true))),
-    ]);
+  const [
+    customNames,
+    generalCategories,
+    investmentCategories,
+    userAccounts,
+    userTags,
+    userCounterparties,
+  ] = await Promise.all([
+    getUserCustomNames(fastify, user.id),
+    getCategoriesByType(fastify, user.id, "GENERAL"),
+    getCategoriesByType(fastify, user.id, "INVESTMENT"),
+    fastify.db
+      .select({
+        accountId: accounts.accountId,
+        accountName: accounts.accountName,
+        accountGroup: accounts.accountGroup,
+        accountType: accounts.accountType,
+        currency: accounts.currency,
+      })
+      .from(accounts)
+      .where(
+        and(
+          eq(accounts.userId, user.id),
+          eq(accounts.isActive, true),
+          isNull(accounts.deletedAt)
+        )
+      ),
+    fastify.db
+      .select({ name: tags.name })
+      .from(tags)
+      .where(eq(tags.userId, user.id))
+      .orderBy(tags.name),
+    fastify.db
+      .select({ name: counterparties.name })
+      .from(counterparties)
+      .where(eq(counterparties.userId, user.id))
+      .orderBy(counterparties.name),
+  ]);
 
   return {
     description: `Create a financial transaction from natural language input. This tool handles:
@@ -110,6 +173,7 @@ export const createTransactionTool = async (
 - Credit card transactions (e.g., "I paid 500 rs on my credit card at Amazon")
 - Investment transactions (e.g., "I bought 2 kei shares at 3077 each")
 - Transfer transactions (e.g., "I transferred 10k from my sbi to hdfc account")
+- Money lent to or borrowed from people (e.g., "I lent 2000 to Ravi", "Ravi paid back 500")
 
 The tool automatically:
 - Defaults to today's date if no date is specified
@@ -123,25 +187,35 @@ The tool automatically:
 - Manages account transfers between user's accounts
 
 AVAILABLE USER ACCOUNTS:
-${userAccounts.map((acc) => `- ${acc.accountName} (${acc.accountGroup} - ${acc.accountType}) [ID: ${acc.accountId}]`).join("\n")}
+${userAccounts.map((acc) => `- ${acc.accountName} (${acc.accountGroup} - ${acc.accountType}, ${acc.currency ?? "INR"}) [ID: ${acc.accountId}]`).join("\n")}
 
 AVAILABLE CATEGORIES:
 
 General Categories (for normal expenses/income):
-${generalCategories.map((cat) => `- ${cat.categoryNumber}: ${cat.categoryName}`).join("\n")}
+${generalCategories.map(formatCategoryLine).join("\n")}
 
 Investment Categories (for stock/investment transactions):
-${investmentCategories.map((cat) => `- ${cat.categoryNumber}: ${cat.categoryName}${cat.investmentSector ? ` (${cat.investmentSector})` : ""}`).join("\n")}
+${investmentCategories.map(formatCategoryLine).join("\n")}
 
 EXISTING CUSTOM NAMES (frequently used merchants/payees):
 ${customNames.length > 0 ? customNames.map((cn) => `- "${cn.customName}"${cn.assetSymbol ? ` (Stock: ${cn.assetSymbol})` : ""} [used ${cn.usageCount} times]`).join("\n") : "No custom names yet - you can create new ones"}
 
+EXISTING TAGS (user-defined labels such as trips or reimbursable expenses):
+${userTags.length > 0 ? userTags.map((tag) => `- "${tag.name}"`).join("\n") : "No tags yet - you can create new ones"}
+
+EXISTING COUNTERPARTIES (people the user lends money to or borrows from):
+${userCounterparties.length > 0 ? userCounterparties.map((person) => `- "${person.name}"`).join("\n") : "No counterparties yet - you can create new ones"}
+
 INSTRUCTIONS:
 1. For customName: Choose from existing custom names above if the merchant matches, or create a new one
 2. For assetSymbol (investments): Use the symbol from existing custom names if available, or create new
 3. For categoryNumber: REQUIRED - Choose the most appropriate category number from the lists above based on transaction type
 4. For account IDs: Use the account IDs from AVAILABLE USER ACCOUNTS above when specifying accounts
-5. Set isPostpaid=true when user mentions 'credit card', 'CC', 'postpaid' or similar terms`,
+5. Set isPostpaid=true when user mentions 'credit card', 'CC', 'postpaid' or similar terms
+6. Amounts are in the currency of the account they are booked to. For transfers between accounts in different currencies, set otherAmount when the user mentions the amount received
+7. For tags: Only set tags when the user asks to label the transaction (e.g., "tag it goa trip", "mark as reimbursable"). Reuse an existing tag name above when it matches
+8. For stock splits and bonus issues: Set investmentAction to SPLIT or BONUS with corporateActionRatio, amount '0' and no quantity or price. A split is "old:new" (e.g., '1:5' when 1 share becomes 5), a bonus is "bonus:held" (e.g., '1:1' for one free share per share held)
+9. For money lent or borrowed: Set counterpartyName to the person (reuse an existing counterparty above when it matches). Lending money and repaying what the user owes are DEBIT; money borrowed and repayments received are CREDIT. When the user keeps a LOAN_LENT account and lends from another account, record it as a transfer into the LOAN_LENT account`,
     inputSchema: z.object({
       customName: z
         .string()
@@ -159,7 +233,7 @@ INSTRUCTIONS:
       categoryNumber: z
         .number()
         .describe(
-          "REQUIRED: Choose the category number from the available categories listed above. For normal transactions use general categories (1-99), for investments use investment categories (100+)"
+          "REQUIRED: Choose the category number from the available categories listed above. For normal transactions use general categories, for investments use investment categories. Prefer the user's own categories when they fit better"
         ),
       transactionDateTime: z
         .string()
@@ -171,6 +245,18 @@ INSTRUCTIONS:
         .string()
         .optional()
         .describe("Additional transaction description or notes"),
+      counterpartyName: z
+        .string()
+        .optional()
+        .describe(
+          "Person the money was lent to or borrowed from (e.g., 'Ravi'). Choose from existing counterparties listed above if there's a match; unknown names create new counterparties"
+        ),
+      tags: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Tag names to label the transaction with (e.g., ['Goa trip 2026', 'Reimbursable']). Choose from existing tags listed above if there's a match; unknown names create new tags"
+        ),
 
       // Investment specific fields
       isInvestment: z
@@ -195,6 +281,12 @@ INSTRUCTIONS:
         .enum(["BUY", "SELL", "DIVIDEND", "BONUS", "SPLIT"])
         .optional()
         .describe("Type of investment action"),
+      corporateActionRatio: z
+        .string()
+        .optional()
+        .describe(
+          "Required for SPLIT ('old:new', e.g., '1:5') and BONUS ('bonus:held', e.g., '1:1'). Leave empty for other actions"
+        ),
 
       // Transfer specific fields
       isTransfer: z
@@ -213,6 +305,12 @@ INSTRUCTIONS:
         .describe(
           "Destination account ID for transfers. Choose from AVAILABLE USER ACCOUNTS list above"
         ),
+      otherAmount: z
+        .string()
+        .optional()
+        .describe(
+          "Amount received in the destination account's currency, only for transfers between accounts with different currencies (e.g., '1200' when sending 100 USD to an INR account). If omitted, the stored exchange rate is used"
+        ),
 
       // Account specification (optional - will use defaults if not provided)
       accountId: z
@@ -251,14 +349,18 @@ INSTRUCTIONS:
       categoryNumber?: number;
       transactionDateTime?: string;
       description?: string;
+      tags?: string[];
+      counterpartyName?: string;
       isInvestment?: boolean;
       assetSymbol?: string;
       quantity?: string;
       pricePerUnit?: string;
       investmentAction?: "BUY" | "SELL" | "DIVIDEND" | "BONUS" | "SPLIT";
+      corporateActionRatio?: string;
       isTransfer?: boolean;
       fromAccountId?: string;
       toAccountId?: string;
+      otherAmount?: string;
       accountId?: string;
       isPostpaid?: boolean;
       isRecurring?: boolean;
@@ -296,7 +398,8 @@ INSTRUCTIONS:
               and(
                 eq(accounts.userId, user.id),
                 eq(accounts.accountId, params.fromAccountId),
-                eq(accounts.isActive, true)
+                eq(accounts.isActive, true),
+                isNull(accounts.deletedAt)
               )
             )
             .limit(1);
@@ -318,7 +421,8 @@ INSTRUCTIONS:
               and(
                 eq(accounts.userId, user.id),
                 eq(accounts.accountId, params.accountId),
-                eq(accounts.isActive, true)
+                eq(accounts.isActive, true),
+                isNull(accounts.deletedAt)
               )
             )
             .limit(1);
@@ -374,11 +478,14 @@ INSTRUCTIONS:
           transactionDateTime,
           customName: params.customName,
           description: params.description,
+          tags: params.tags,
+          counterpartyName: params.counterpartyName,
           isInvestment: params.isInvestment,
           assetSymbol: params.assetSymbol,
           quantity: params.quantity,
           pricePerUnit: params.pricePerUnit,
           investmentAction: params.investmentAction,
+          corporateActionRatio: params.corporateActionRatio,
           isTransfer: params.isTransfer,
           isRecurring: params.isRecurring,
           recurringFrequency: params.recurringFrequency,
@@ -394,7 +501,8 @@ INSTRUCTIONS:
               and(
                 eq(accounts.userId, user.id),
                 eq(accounts.accountId, params.toAccountId),
-                eq(accounts.isActive, true)
+                eq(accounts.isActive, true),
+                isNull(accounts.deletedAt)
               )
             )
             .limit(1);
@@ -407,6 +515,7 @@ INSTRUCTIONS:
           }
 
           input.otherAccountId = toAccount.accountId;
+          input.otherAmount = params.otherAmount;
         }
 
         // Call the createTransaction mutation resolver directly
@@ -432,12 +541,15 @@ INSTRUCTIONS:
         );
 
         // Format success message
+        const currency = transaction.currency;
         let message: string;
         if (params.isInvestment) {
           const accountName =
             userAccounts.find((acc) => acc.accountId === accountId)
               ?.accountName || accountId;
-          message = `Created investment transaction in ${accountName}: ${params.investmentAction} ${params.quantity} ${params.assetSymbol} at ₹${params.pricePerUnit} each`;
+          message = params.corporateActionRatio
+            ? `Recorded ${transaction.corporateActionRatio} ${params.investmentAction} for ${params.assetSymbol} in ${accountName}`
+            : `Created investment transaction in ${accountName}: ${params.investmentAction} ${params.quantity} ${params.assetSymbol} at ${formatMoney(params.pricePerUnit ?? "0", currency)} each`;
         } else if (params.isTransfer) {
           // Get account names for the success message
           const fromAccountName =
@@ -446,12 +558,21 @@ INSTRUCTIONS:
           const toAccountName =
             userAccounts.find((acc) => acc.accountId === params.toAccountId)
               ?.accountName || params.toAccountId;
-          message = `Transferred ₹${params.amount} from ${fromAccountName} to ${toAccountName}`;
+          message = `Transferred ${formatMoney(params.amount, currency)} from ${fromAccountName} to ${toAccountName}`;
         } else {
           const accountName =
             userAccounts.find((acc) => acc.accountId === accountId)
               ?.accountName || accountId;
-          message = `Created ${params.transactionType.toLowerCase()} transaction in ${accountName}: ₹${params.amount} ${params.transactionType === "DEBIT" ? "to" : "from"} ${params.customName}`;
+          message = `Created ${params.transactionType.toLowerCase()} transaction in ${accountName}: ${formatMoney(params.amount, currency)} ${params.transactionType === "DEBIT" ? "to" : "from"} ${params.customName}`;
+        }
+
+        // Report where the user stands with the person after this transaction
+        if (transaction.counterpartyId) {
+          const summary = await getCounterpartySummary(fastify.db, user.id, {
+            counterpartyIds: [transaction.counterpartyId],
+            includeSettled: true,
+          });
+          message += `. ${describeCounterpartyBalance(summary)}`;
         }
 
         return {
@@ -491,9 +612,15 @@ export const getFinancialInsightsTool = async (
           accountType: accounts.accountType,
         })
         .from(accounts)
-        .where(and(eq(accounts.userId, user.id), eq(accounts.isActive, true))),
-      getCategoriesByType(fastify, "GENERAL"),
-      getCategoriesByType(fastify, "INVESTMENT"),
+        .where(
+          and(
+            eq(accounts.userId, user.id),
+            eq(accounts.isActive, true),
+            isNull(accounts.deletedAt)
+          )
+        ),
+      getCategoriesByType(fastify, user.id, "GENERAL"),
+      getCategoriesByType(fastify, user.id, "INVESTMENT"),
     ]);
 
   return {
@@ -518,15 +645,15 @@ AVAILABLE USER ACCOUNTS:
 ${userAccounts.map((acc) => `- ${acc.accountName} (${acc.accountGroup} - ${acc.accountType}) [ID: ${acc.accountId}]`).join("\n")}
 
 GENERAL CATEGORIES:
-${generalCategories.map((cat) => `- ${cat.categoryNumber}: ${cat.categoryName}`).join("\n")}
+${generalCategories.map(formatCategoryLine).join("\n")}
 
 INVESTMENT CATEGORIES:
-${investmentCategories.map((cat) => `- ${cat.categoryNumber}: ${cat.categoryName}${cat.investmentSector ? ` (${cat.investmentSector})` : ""}`).join("\n")}
+${investmentCategories.map(formatCategoryLine).join("\n")}
 
 IMPORTANT:
 1. Dates should be in ISO 8601 format (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ss.sssZ)
 2. startDate and endDate are REQUIRED
-3. Use groupBy to split results by dimension (ACCOUNT, CATEGORY, CUSTOM_NAME)
+3. Use groupBy to split results by dimension (ACCOUNT, CATEGORY, CUSTOM_NAME, TAG)
 4. Use timeBucket: MONTH to see trends over time
 5. Combine groupBy and timeBucket for multi-dimensional analysis
 6. Use filters to narrow down specific transaction types or categories`,
@@ -542,10 +669,10 @@ IMPORTANT:
           "End date in ISO 8601 format (YYYY-MM-DD or YYYY-MM-DDTHH:mm:ss.sssZ). REQUIRED. Parse from user's natural language. Should be >= startDate"
         ),
       groupBy: z
-        .enum(["NONE", "ACCOUNT", "CATEGORY", "CUSTOM_NAME"])
+        .enum(["NONE", "ACCOUNT", "CATEGORY", "CUSTOM_NAME", "TAG"])
         .optional()
         .describe(
-          "How to group results: NONE (single total), ACCOUNT (by accounts), CATEGORY (by categories), CUSTOM_NAME (by merchants/payees). Use when user asks for 'breakdown', 'by category', 'for each account', etc."
+          "How to group results: NONE (single total), ACCOUNT (by accounts), CATEGORY (by categories), CUSTOM_NAME (by merchants/payees), TAG (by user-defined tags such as trips). Use when user asks for 'breakdown', 'by category', 'for each account', etc."
         ),
       timeBucket: z
         .enum(["NONE", "MONTH"])
@@ -593,7 +720,7 @@ IMPORTANT:
     execute: async (params: {
       startDate: string;
       endDate: string;
-      groupBy?: "NONE" | "ACCOUNT" | "CATEGORY" | "CUSTOM_NAME";
+      groupBy?: "NONE" | "ACCOUNT" | "CATEGORY" | "CUSTOM_NAME" | "TAG";
       timeBucket?: "NONE" | "MONTH";
       transactionType?: "DEBIT" | "CREDIT";
       accountIds?: string[];
@@ -695,6 +822,9 @@ IMPORTANT:
           };
         }
 
+        // Totals are reported in the user's base currency
+        const currency = totals[0].currency;
+
         // Calculate grand total
         const grandTotal = totals.reduce(
           (sum, r) => sum + Number.parseFloat(r.total || "0"),
@@ -710,38 +840,40 @@ IMPORTANT:
           params.groupBy &&
           params.groupBy !== "NONE"
         ) {
-          message = `Found ${resultCount} data points across different ${params.groupBy.toLowerCase()}s and months. Total: ₹${grandTotal.toFixed(2)}`;
+          message = `Found ${resultCount} data points across different ${params.groupBy.toLowerCase()}s and months. Total: ${formatMoney(grandTotal, currency)}`;
         } else if (params.timeBucket === "MONTH") {
-          message = `Monthly breakdown with ${resultCount} months. Total: ₹${grandTotal.toFixed(2)}`;
+          message = `Monthly breakdown with ${resultCount} months. Total: ${formatMoney(grandTotal, currency)}`;
         } else if (params.groupBy && params.groupBy !== "NONE") {
-          message = `Breakdown by ${params.groupBy.toLowerCase()} (${resultCount} items). Total: ₹${grandTotal.toFixed(2)}`;
+          message = `Breakdown by ${params.groupBy.toLowerCase()} (${resultCount} items). Total: ${formatMoney(grandTotal, currency)}`;
         } else {
-          message = `Total for the period: ₹${grandTotal.toFixed(2)}`;
+          message = `Total for the period: ${formatMoney(grandTotal, currency)}`;
         }
 
         // Format results with readable metadata
         const formattedResults = totals.map((r) => {
           const formatted: Record<string, string | number | undefined> = {
-            total: `₹${Number.parseFloat(r.total).toFixed(2)}`,
+            total: formatMoney(r.total, currency),
             startDate: r.startDate,
             endDate: r.endDate,
           };
 
-          if (r.metadata) {
-            if (r.metadata.month) {
-              formatted.month = r.metadata.month;
-            }
-            if (r.metadata.account) {
-              formatted.account = r.metadata.account.accountName;
-              formatted.accountType = r.metadata.account.accountType;
-            }
-            if (r.metadata.category) {
-              formatted.category = r.metadata.category.categoryName;
-              formatted.categoryNumber = r.metadata.category.categoryNumber;
-            }
-            if (r.metadata.customName) {
-              formatted.merchantName = r.metadata.customName.customName;
-            }
+          const metadata = r.metadata;
+          if (metadata?.month) {
+            formatted.month = metadata.month;
+          }
+          if (metadata?.account) {
+            formatted.account = metadata.account.accountName;
+            formatted.accountType = metadata.account.accountType;
+          }
+          if (metadata?.category) {
+            formatted.category = metadata.category.categoryName;
+            formatted.categoryNumber = metadata.category.categoryNumber;
+          }
+          if (metadata?.customName) {
+            formatted.merchantName = metadata.customName.customName;
+          }
+          if (metadata?.tag) {
+            formatted.tag = metadata.tag.name;
           }
 
           return formatted;
@@ -751,7 +883,8 @@ IMPORTANT:
           success: true,
           message,
           results: formattedResults,
-          total: `₹${grandTotal.toFixed(2)}`,
+          total: formatMoney(grandTotal, currency),
+          currency,
           count: resultCount,
           period: {
             startDate: params.startDate,
@@ -775,3 +908,95 @@ IMPORTANT:
     },
   };
 };
+
+// What each undoable mutation did, for undo and redo messages
+const OPERATION_LABELS: Record<string, string> = {
+  createTransaction: "creating a transaction",
+  updateTransaction: "editing a transaction",
+  deleteTransaction: "deleting a transaction",
+  restoreTransaction: "restoring a transaction",
+  createAccount: "creating an account",
+  updateAccount: "editing an account",
+  deleteAccount: "deleting an account",
+  restoreAccount: "restoring an account",
+  manageRecurringPattern: "editing a recurring pattern",
+};
+
+// Create the undoLastOperation tool
+export const undoLastOperationTool = (
+  fastify: FastifyInstance,
+  user: SupabaseUser,
+  request: FastifyRequest,
+  reply: FastifyReply
+) => ({
+  description: `Undo the user's latest change, or redo the latest undone one. Use it when the user says things like:
+- "No, undo that"
+- "Delete what you just added"
+- "Oops, that was wrong, revert it"
+- "Actually, put it back" (redo)
+
+It reverts the most recent create, update or delete of a transaction, account or recurring pattern, including both sides of a transfer and investment holdings. Each call undoes one change; call it again to go further back. Redo only works until a new change is made.`,
+  inputSchema: z.object({
+    action: z
+      .enum(["UNDO", "REDO"])
+      .optional()
+      .describe(
+        "UNDO (default) reverts the latest change; REDO applies the latest undone change again"
+      ),
+  }),
+  execute: async (params: { action?: "UNDO" | "REDO" }) => {
+    try {
+      const isRedo = params.action === "REDO";
+
+      // Call the undo mutation resolver directly
+      const resolver = isRedo
+        ? undoMutations.redoLastOperation
+        : undoMutations.undoLastOperation;
+      if (typeof resolver !== "function") {
+        throw new Error("Undo resolver is not a function");
+      }
+
+      const result = await resolver(
+        {},
+        {},
+        {
+          db: fastify.db,
+          user,
+          request,
+          reply,
+          app: fastify,
+          __currentQuery: "",
+          pubsub: fastify.graphql.pubsub,
+        },
+        undefined as unknown as GraphQLResolveInfo
+      );
+
+      const { operation } = result;
+      const label = OPERATION_LABELS[operation.source] ?? operation.source;
+      return {
+        success: true,
+        message: `${isRedo ? "Redid" : "Undid"} ${label} (${operation.changes.length} record(s) changed)`,
+        operationId: operation.operationId,
+        transactions: result.transactions.map((transaction) => ({
+          transactionId: transaction.transactionId,
+          amount: formatMoney(transaction.amount, transaction.currency),
+          transactionType: transaction.transactionType,
+          transactionDateTime: transaction.transactionDateTime,
+          description: transaction.description,
+        })),
+        accounts: result.accounts.map((account) => ({
+          accountId: account.accountId,
+          accountName: account.accountName,
+          currentBalance: formatMoney(account.currentBalance, account.currency),
+        })),
+      };
+    } catch (error) {
+      console.error("Error undoing operation:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+      };
+    }
+  },
+});
@@ -0,0 +1,89 @@
+import { Readable } from "node:stream";
+import type { FastifyPluginAsync } from "fastify";
+import { parseFinancialYear } from "../graphql/capital-gains-helpers";
+import {
+  createExportStream,
+  EXPORT_DATASETS,
+  type ExportFormat,
+  type ExportRequest,
+} from "../graphql/export-helpers";
+
+// HTTP Status Codes
+const HTTP_BAD_REQUEST = 400;
+const HTTP_UNAUTHORIZED = 401;
+
+const EXPORT_FILE_TYPES: Record<
+  ExportFormat,
+  { contentType: string; extension: string }
+> = {
+  CSV: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  JSON: { contentType: "application/json; charset=utf-8", extension: "json" },
+  OFX: { contentType: "application/x-ofx", extension: "ofx" },
+};
+
+// The body is unvalidated, so inherited keys like "toString" must not match
+const getFileType = (format: string | undefined) =>
+  format && Object.hasOwn(EXPORT_FILE_TYPES, format)
+    ? EXPORT_FILE_TYPES[format as ExportFormat]
+    : undefined;
+
+// The capitalGains dataset always covers one financial year
+const hasValidFinancialYear = (body: ExportRequest) =>
+  body.dataset !== "capitalGains" ||
+  parseFinancialYear(body.financialYear ?? "") !== null;
+
+const exportRoute: FastifyPluginAsync = async (fastify) => {
+  // POST /api/export - Stream the user's data as CSV, JSON or OFX
+  await fastify.post<{ Body: ExportRequest }>("/", (request, reply) => {
+    const user = request.user;
+
+    if (!user) {
+      return reply
+        .code(HTTP_UNAUTHORIZED)
+        .send({ success: false, error: "Not authenticated" });
+    }
+
+    const { format, dataset } = request.body ?? {};
+    const fileType = getFileType(format);
+
+    if (!fileType) {
+      return reply.code(HTTP_BAD_REQUEST).send({
+        success: false,
+        error: "format must be one of CSV, JSON or OFX",
+      });
+    }
+    if (dataset && !EXPORT_DATASETS.includes(dataset)) {
+      return reply.code(HTTP_BAD_REQUEST).send({
+        success: false,
+        error: `dataset must be one of ${EXPORT_DATASETS.join(", ")}`,
+      });
+    }
+    if (!hasValidFinancialYear(request.body)) {
+      return reply.code(HTTP_BAD_REQUEST).send({
+        success: false,
+        error: 'financialYear must be in "YYYY-YY" format',
+      });
+    }
+
+    const fileName = [
+      "export",
+      format === "CSV" ? (dataset ?? "transactions") : null,
+      new Date().toISOString().slice(0, 10),
+    ]
+      .filter(Boolean)
+      .join("-");
+
+    reply
+      .header("Content-Type", fileType.contentType)
+      .header(
+        "Content-Disposition",
+        `attachment; filename="${fileName}.${fileType.extension}"`
+      );
+
+    return reply.send(
+      Readable.from(createExportStream(fastify.db, user.id, request.body))
+    );
+  });
+};
+
+export default exportRoute;
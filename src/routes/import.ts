@@ -0,0 +1,128 @@
+import type { FastifyPluginAsync, FastifyReply } from "fastify";
+import { GraphQLError } from "graphql";
+import { IMPORT_MAX_BODY_BYTES } from "../config/constants";
+import type {
+  CommitImportInput,
+  PreviewImportInput,
+} from "../generated/graphql";
+import {
+  buildImportPreview,
+  commitImportTransactions,
+} from "../graphql/import-helpers";
+import { formatTransactionForGraphQL } from "../graphql/queries/transactions";
+import { publishChanges } from "../graphql/subscriptions/publishers";
+
+// HTTP Status Codes
+const HTTP_BAD_REQUEST = 400;
+const HTTP_UNAUTHORIZED = 401;
+const HTTP_FORBIDDEN = 403;
+const HTTP_CREATED = 201;
+
+// Map helper errors onto HTTP responses; anything else is a server error
+const sendImportError = (reply: FastifyReply, error: unknown) => {
+  if (!(error instanceof GraphQLError)) {
+    throw error;
+  }
+
+  const status =
+    error.extensions.code === "FORBIDDEN" ? HTTP_FORBIDDEN : HTTP_BAD_REQUEST;
+  return reply.code(status).send({ success: false, error: error.message });
+};
+
+const importRoute: FastifyPluginAsync = async (fastify) => {
+  // POST /api/import/preview - Parse a CSV/OFX statement without saving
+  await fastify.post<{ Body: PreviewImportInput }>(
+    "/preview",
+    { bodyLimit: IMPORT_MAX_BODY_BYTES },
+    async (request, reply) => {
+      const user = request.user;
+
+      if (!user) {
+        return reply
+          .code(HTTP_UNAUTHORIZED)
+          .send({ success: false, error: "Not authenticated" });
+      }
+
+      const { accountId, format, content } = request.body ?? {};
+      if (!(accountId && format && content)) {
+        return reply.code(HTTP_BAD_REQUEST).send({
+          success: false,
+          error: "accountId, format and content are required",
+        });
+      }
+
+      try {
+        const preview = await buildImportPreview(
+          fastify.db,
+          user.id,
+          request.body
+        );
+        return { success: true, data: preview };
+      } catch (error) {
+        return sendImportError(reply, error);
+      }
+    }
+  );
+
+  // POST /api/import/commit - Create the previewed transactions
+  await fastify.post<{ Body: CommitImportInput }>(
+    "/commit",
+    { bodyLimit: IMPORT_MAX_BODY_BYTES },
+    async (request, reply) => {
+      const user = request.user;
+
+      if (!user) {
+        return reply
+          .code(HTTP_UNAUTHORIZED)
+          .send({ success: false, error: "Not authenticated" });
+      }
+
+      if (!Array.isArray(request.body?.transactions)) {
+        return reply.code(HTTP_BAD_REQUEST).send({
+          success: false,
+          error: "transactions are required",
+        });
+      }
+
+      try {
+        const result = await commitImportTransactions(
+          fastify.db,
+          user.id,
+          request.body,
+          request
+        );
+
+        await publishChanges(
+          { db: fastify.db, pubsub: fastify.graphql.pubsub, app: fastify },
+          {
+            userId: user.id,
+            transactions: result.transactions.map((transaction) => ({
+              operation: "CREATED",
+              transaction,
+            })),
+            accountIds: request.body.transactions.flatMap((txn) => [
+              txn.accountId,
+              txn.otherAccountId,
+            ]),
+          }
+        );
+
+        reply.status(HTTP_CREATED);
+        return {
+          success: true,
+          data: {
+            importedCount: result.transactions.length,
+            skippedCount: result.skippedCount,
+            transactions: result.transactions.map((transaction) =>
+              formatTransactionForGraphQL(transaction)
+            ),
+          },
+        };
+      } catch (error) {
+        return sendImportError(reply, error);
+      }
+    }
+  );
+};
+
+export default importRoute;
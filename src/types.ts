@@ -57,6 +57,7 @@ export type TransactionWithDetails = {
   // Transfer fields
   isTransfer: boolean;
   linkedTransactionId: string | null;
+  exchangeRate: string | null;
 
   // Timestamps
   createdAt: Date;